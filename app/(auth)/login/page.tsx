@@ -2,8 +2,9 @@
 
 import { useState, useEffect, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
-import { api, endpoints, getErrorMessage } from '@/lib/api';
-import { setAuthToken, setUser } from '@/lib/auth';
+import { getErrorMessage, login } from '@/lib/api';
+import { getSafeNext, setSessionExpiry, setUser } from '@/lib/auth';
+import { canAccessRoute, getHomeRoute } from '@/lib/permissions';
 import Button from '@/components/ui/Button';
 import ErrorMessage from '@/components/ui/ErrorMessage';
 
@@ -28,27 +29,21 @@ function LoginContent() {
     setError('');
     setIsLoading(true);
 
-    console.log('Login attempt:', { email, apiUrl: process.env.NEXT_PUBLIC_API_URL });
-
     try {
-      const response = await api.post<{ token: string; user: any }>(
-        endpoints.login(),
-        { email, password }
-      );
-
-      console.log('Login response:', response);
+      const response = await login(email, password);
 
-      if (response.token) {
-        // Store auth token and user info
-        setAuthToken(response.token);
+      if (response.user) {
+        // The token stays in an httpOnly cookie; keep the user and expiry
+        setSessionExpiry(response.expiresAt);
         setUser(response.user);
         
-        // Role-based redirect
-        if (response.user.role === 'checkin') {
-          router.push('/checkin');
-        } else {
-          router.push('/');
-        }
+        // Back to the page that sent the user here, if their role can open it
+        const next = getSafeNext(searchParams.get('next'));
+        router.push(
+          next && canAccessRoute(response.user.role, next.split('?')[0])
+            ? next
+            : getHomeRoute(response.user.role)
+        );
         router.refresh(); // Force a refresh to trigger middleware
       } else {
         setError('Invalid response from server');
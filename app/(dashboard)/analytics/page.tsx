@@ -1,16 +1,41 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { Calendar, Users, Mail, TrendingUp, CheckCircle, Clock, XCircle } from 'lucide-react';
+import { useEffect, useMemo, useState } from 'react';
+import { Calendar, Users, Mail, TrendingUp, CheckCircle, Clock, XCircle, UserPlus } from 'lucide-react';
 import { api, endpoints, getErrorMessage } from '@/lib/api';
-import { DashboardStats, Event, Attendee } from '@/lib/types';
+import { ALL_EVENTS, fetchAttendees, fetchEvents, fetchInvites } from '@/lib/eventData';
+import { DashboardStats, Event, Attendee, Invite } from '@/lib/types';
+import {
+  getRsvpsPerDay,
+  getInvitesPerDay,
+  getInviteFunnel,
+  getStatusByEvent,
+  getPlusOneRatio,
+  getArrivalCurves,
+} from '@/lib/analytics';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorMessage from '@/components/ui/ErrorMessage';
+import RsvpTimelineChart from '@/components/analytics/RsvpTimelineChart';
+import InviteFunnelChart from '@/components/analytics/InviteFunnelChart';
+import StatusByEventChart from '@/components/analytics/StatusByEventChart';
+import PlusOneRatioChart from '@/components/analytics/PlusOneRatioChart';
+import ArrivalCurveChart from '@/components/analytics/ArrivalCurveChart';
 
 export default function AnalyticsPage() {
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [totalAttendeesWithPlusOnes, setTotalAttendeesWithPlusOnes] = useState<number>(0);
   const [confirmedAttendeesWithPlusOnes, setConfirmedAttendeesWithPlusOnes] = useState<number>(0);
+  const [arrivals, setArrivals] = useState({
+    guestsCheckedIn: 0,
+    plusOnesExpected: 0,
+    plusOnesCheckedIn: 0,
+  });
+  const [events, setEvents] = useState<Event[]>([]);
+  const [attendees, setAttendees] = useState<Attendee[]>([]);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [eventFilter, setEventFilter] = useState<string>('ALL');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -23,34 +48,34 @@ export default function AnalyticsPage() {
       setLoading(true);
       setError(null);
       
-      // Fetch dashboard stats
-      const data = await api.get<DashboardStats>(endpoints.admin.dashboardStats());
+      // Events, attendees and invites come from the shared cache, which
+      // loads every event's lists in parallel
+      const [data, events, allAttendees, allInvites] = await Promise.all([
+        api.get<DashboardStats>(endpoints.admin.dashboardStats()),
+        fetchEvents(),
+        fetchAttendees(ALL_EVENTS),
+        fetchInvites(ALL_EVENTS),
+      ]);
+
+      // Count all attendees + their plus ones
+      const confirmedAttendees = allAttendees.filter(a => a.status === 'CONFIRMED');
+      const totalCount = allAttendees.length + allAttendees.filter(a => a.plusOne).length;
+      const confirmedCount = confirmedAttendees.length + confirmedAttendees.filter(a => a.plusOne).length;
+
+      // Plus-ones check in separately, so track their arrival on its own.
+      // Only confirmed hosts count on both sides of the rate, so a plus-one
+      // whose host was later cancelled cannot push it over 100%.
+      const guestsCheckedIn = allAttendees.filter(a => a.checkedInAt).length;
+      const plusOnesExpected = confirmedAttendees.filter(a => a.plusOne).length;
+      const plusOnesCheckedIn = confirmedAttendees.filter(a => a.plusOne?.checkedInAt).length;
+
       setStats(data);
-      
-      // Fetch all events to get attendees with plus ones
-      const events = await api.get<Event[]>(endpoints.events.list());
-      let totalCount = 0;
-      let confirmedCount = 0;
-      
-      for (const event of events) {
-        try {
-          const attendees = await api.get<Attendee[]>(`/admin/events/${event.id}/attendees`);
-          
-          // Count all attendees + their plus ones
-          totalCount += attendees.length;
-          totalCount += attendees.filter(a => a.plusOne).length;
-          
-          // Count confirmed attendees + their plus ones
-          const confirmedAttendees = attendees.filter(a => a.status === 'CONFIRMED');
-          confirmedCount += confirmedAttendees.length;
-          confirmedCount += confirmedAttendees.filter(a => a.plusOne).length;
-        } catch (err) {
-          console.warn(`Failed to fetch attendees for event ${event.id}:`, err);
-        }
-      }
-      
+      setEvents(events);
+      setAttendees(allAttendees);
+      setInvites(allInvites);
       setTotalAttendeesWithPlusOnes(totalCount);
       setConfirmedAttendeesWithPlusOnes(confirmedCount);
+      setArrivals({ guestsCheckedIn, plusOnesExpected, plusOnesCheckedIn });
     } catch (err) {
       setError(getErrorMessage(err));
     } finally {
@@ -58,6 +83,24 @@ export default function AnalyticsPage() {
     }
   };
 
+  // Chart data follows the event and date filters; the summary cards above
+  // always show portfolio-wide totals
+  const charts = useMemo(() => {
+    const range = { from: dateFrom, to: dateTo };
+    const chartEvents = eventFilter === 'ALL' ? events : events.filter((e) => e.id === eventFilter);
+    const chartAttendees = eventFilter === 'ALL' ? attendees : attendees.filter((a) => a.eventId === eventFilter);
+    const chartInvites = eventFilter === 'ALL' ? invites : invites.filter((i) => i.eventId === eventFilter);
+
+    return {
+      rsvps: getRsvpsPerDay(chartAttendees, range),
+      invitesPerDay: getInvitesPerDay(chartInvites, range),
+      funnel: getInviteFunnel(chartInvites, chartAttendees, range),
+      statusByEvent: getStatusByEvent(chartEvents, chartAttendees, range),
+      plusOneRatio: getPlusOneRatio(chartAttendees, range),
+      arrivalCurves: getArrivalCurves(chartEvents, chartAttendees, range),
+    };
+  }, [events, attendees, invites, eventFilter, dateFrom, dateTo]);
+
   if (loading) {
     return <LoadingSpinner message="Loading analytics..." />;
   }
@@ -74,6 +117,10 @@ export default function AnalyticsPage() {
     ? ((totalAttendeesWithPlusOnes / stats.totalInvites) * 100).toFixed(1)
     : '0';
 
+  const plusOneArrivalRate = arrivals.plusOnesExpected > 0
+    ? ((arrivals.plusOnesCheckedIn / arrivals.plusOnesExpected) * 100).toFixed(1)
+    : '0';
+
   return (
     <div className="p-4 md:p-6">
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
@@ -225,6 +272,93 @@ export default function AnalyticsPage() {
         </div>
       </div>
 
+      {/* Arrivals */}
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 mb-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4">Arrivals</h2>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-green-100 rounded-lg">
+              <CheckCircle className="text-green-600" size={20} />
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">{arrivals.guestsCheckedIn}</div>
+              <div className="text-xs text-gray-500">Guests checked in</div>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-blue-100 rounded-lg">
+              <UserPlus className="text-blue-600" size={20} />
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">
+                {arrivals.plusOnesCheckedIn} / {arrivals.plusOnesExpected}
+              </div>
+              <div className="text-xs text-gray-500">Plus-ones arrived</div>
+            </div>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-orange-100 rounded-lg">
+              <TrendingUp className="text-orange-600" size={20} />
+            </div>
+            <div>
+              <div className="text-2xl font-bold text-gray-900">{plusOneArrivalRate}%</div>
+              <div className="text-xs text-gray-500">Confirmed plus-ones who showed up</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Chart Filters */}
+      <div className="bg-white p-4 rounded-lg shadow-sm border border-gray-200 mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <select
+            value={eventFilter}
+            onChange={(e) => setEventFilter(e.target.value)}
+            className="sm:col-span-2 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          >
+            <option value="ALL">All Events</option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.eventName}
+              </option>
+            ))}
+          </select>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="dateFrom" className="text-xs text-gray-500 whitespace-nowrap">From</label>
+            <input
+              id="dateFrom"
+              type="date"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="dateTo" className="text-xs text-gray-500 whitespace-nowrap">To</label>
+            <input
+              id="dateTo"
+              type="date"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        <RsvpTimelineChart data={charts.rsvps} />
+        <PlusOneRatioChart data={charts.plusOneRatio} />
+        <InviteFunnelChart funnel={charts.funnel} daily={charts.invitesPerDay} />
+        <StatusByEventChart data={charts.statusByEvent} className="lg:col-span-2" />
+        <ArrivalCurveChart curves={charts.arrivalCurves} className="lg:col-span-2" />
+      </div>
+
       {/* Summary Card */}
       <div className="bg-gradient-to-r from-blue-50 to-purple-50 p-6 rounded-lg border border-blue-200">
         <h2 className="text-xl font-semibold text-gray-900 mb-2">Overview</h2>
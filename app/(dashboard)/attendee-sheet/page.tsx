@@ -29,7 +29,10 @@ export default function AttendeeSheetPage() {
     try {
       setInitializing(true);
       setError(null);
-      await api.post('/admin/sheets/initialize');
+      await api.post('/admin/sheets/initialize', undefined, {
+        action: 'sheet.initialize',
+        target: { type: 'sheet' },
+      });
       // Wait a bit for initialization to complete
       setTimeout(() => {
         fetchSheetUrl();
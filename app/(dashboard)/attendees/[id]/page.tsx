@@ -13,9 +13,14 @@ import {
   Download,
   UserPlus,
   Trash2,
+  Clock,
 } from 'lucide-react';
 import { api, endpoints, getErrorMessage } from '@/lib/api';
 import { Attendee, AttendeeStatus } from '@/lib/types';
+import { invalidateEventData } from '@/lib/eventData';
+import { usePermissions } from '@/lib/hooks/usePermissions';
+import { useConfirm, useNotify } from '@/components/ui/FeedbackProvider';
+import HistoryPanel from '@/components/audit/HistoryPanel';
 
 export default function AttendeeDetailsPage() {
   const router = useRouter();
@@ -28,6 +33,9 @@ export default function AttendeeDetailsPage() {
   const [error, setError] = useState<string | null>(null);
   const [showQRModal, setShowQRModal] = useState(false);
   const [cancelling, setCancelling] = useState(false);
+  const confirm = useConfirm();
+  const { success, error: showError } = useNotify();
+  const { can } = usePermissions();
 
   useEffect(() => {
     fetchAttendeeDetails();
@@ -70,19 +78,28 @@ export default function AttendeeDetailsPage() {
   const handleCancelAttendee = async () => {
     if (!attendee) return;
 
-    const confirmed = confirm(
-      `Are you sure you want to cancel the registration for ${attendee.name}? This action cannot be undone.`
-    );
+    const confirmed = await confirm({
+      title: 'Cancel Registration',
+      message: `Are you sure you want to cancel the registration for ${attendee.name}? This action cannot be undone.`,
+      confirmText: 'Cancel Registration',
+      cancelText: 'Keep',
+      variant: 'danger',
+    });
 
     if (!confirmed) return;
 
     try {
       setCancelling(true);
-      await api.delete(`/admin/attendees/${attendeeId}`);
-      alert('Attendee cancelled successfully');
+      await api.delete(endpoints.admin.cancel(attendeeId), {
+        action: 'attendee.cancel',
+        target: { type: 'attendee', id: attendeeId },
+        eventId: attendee.eventId,
+      });
+      invalidateEventData('attendees');
+      success('Attendee Cancelled', `${attendee.name}'s registration has been cancelled`);
       router.push('/attendees');
     } catch (err) {
-      alert(getErrorMessage(err));
+      showError('Cancellation Failed', getErrorMessage(err));
     } finally {
       setCancelling(false);
     }
@@ -154,7 +171,7 @@ export default function AttendeeDetailsPage() {
             <p className="text-gray-600 mt-1">Registration ID: {attendee.registrationId}</p>
           </div>
           <div className="flex items-center gap-2">
-            {attendee.status !== 'CANCELLED' && (
+            {can('attendees:manage') && attendee.status !== 'CANCELLED' && (
               <button
                 onClick={handleCancelAttendee}
                 disabled={cancelling}
@@ -282,9 +299,23 @@ export default function AttendeeDetailsPage() {
                     <div className="font-medium text-gray-900">{attendee.plusOne.title}</div>
                   </div>
                 </div>
+
+                <div className="flex items-start gap-3">
+                  <Clock className="text-gray-400 mt-1" size={20} />
+                  <div>
+                    <div className="text-sm text-gray-500">Checked In</div>
+                    <div className="font-medium text-gray-900">
+                      {attendee.plusOne.checkedInAt
+                        ? new Date(attendee.plusOne.checkedInAt).toLocaleString()
+                        : 'Not yet arrived'}
+                    </div>
+                  </div>
+                </div>
               </div>
             </div>
           )}
+
+          <HistoryPanel type="attendee" id={attendeeId} />
         </div>
 
         {/* Sidebar */}
@@ -311,6 +342,24 @@ export default function AttendeeDetailsPage() {
                 </div>
               </div>
 
+              <div>
+                <div className="text-sm text-gray-500 mb-1">Checked In</div>
+                <div className="font-medium text-gray-900">
+                  {attendee.checkedInAt ? new Date(attendee.checkedInAt).toLocaleString() : 'No'}
+                </div>
+              </div>
+
+              {attendee.plusOne && (
+                <div>
+                  <div className="text-sm text-gray-500 mb-1">Plus One Arrived</div>
+                  <div className="font-medium text-gray-900">
+                    {attendee.plusOne.checkedInAt
+                      ? new Date(attendee.plusOne.checkedInAt).toLocaleString()
+                      : 'No'}
+                  </div>
+                </div>
+              )}
+
               <div>
                 <div className="text-sm text-gray-500 mb-1">Registered</div>
                 <div className="font-medium text-gray-900">
@@ -1,17 +1,24 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Suspense, useCallback, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Search, Eye } from 'lucide-react';
-import { api, endpoints, getErrorMessage } from '@/lib/api';
-import { Attendee, Event, AttendeeStatus } from '@/lib/types';
+import { Search, Eye, Download } from 'lucide-react';
+import { endpoints } from '@/lib/api';
+import { Attendee, AttendeeStatus } from '@/lib/types';
+import { ALL_EVENTS, fetchAttendees, invalidateEventData } from '@/lib/eventData';
+import { BULK_ACTIONS, BulkAction, describeBulkAction, runBulkAction, summarizeBulkResult } from '@/lib/bulkActions';
+import { ANY, ClientQueryOptions, PAGE_SIZE_OPTIONS, TableQuery, fetchTablePage } from '@/lib/tableQuery';
+import { useEvents } from '@/lib/hooks/useEventData';
+import { useTablePage, useTableQuery } from '@/lib/hooks/useTableQuery';
+import { usePermissions } from '@/lib/hooks/usePermissions';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorMessage from '@/components/ui/ErrorMessage';
-import { useToast } from '@/lib/hooks/useToast';
-import { ToastContainer } from '@/components/ui/Toast';
+import ExportDialog from '@/components/attendees/ExportDialog';
+import BulkActionBar from '@/components/attendees/BulkActionBar';
+import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import { useNotify } from '@/components/ui/FeedbackProvider';
 
 type SortField = 'name' | 'email' | 'status' | 'createdAt';
-type SortOrder = 'asc' | 'desc';
 type AttendeeType = 'ALL' | 'ATTENDEE' | 'PLUSONE';
 
 interface AttendeeRow {
@@ -34,157 +41,113 @@ interface AttendeeRow {
   checkedInAt?: string | null;
 }
 
-export default function AttendeesPage() {
-  const router = useRouter();
-  const [attendees, setAttendees] = useState<Attendee[]>([]);
-  const [attendeeRows, setAttendeeRows] = useState<AttendeeRow[]>([]);
-  const [filteredAttendees, setFilteredAttendees] = useState<AttendeeRow[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<AttendeeStatus | 'ALL'>('ALL');
-  const [attendeeTypeFilter, setAttendeeTypeFilter] = useState<AttendeeType>('ALL');
-  const [sortField, setSortField] = useState<SortField>('createdAt');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(50);
-  const { toasts, closeToast } = useToast();
-
-  useEffect(() => {
-    fetchData();
-  }, []);
-
-  useEffect(() => {
-    const rows: AttendeeRow[] = [];
+const DEFAULT_QUERY: TableQuery = {
+  page: 1,
+  pageSize: 50,
+  sortField: 'createdAt',
+  sortOrder: 'desc',
+  search: '',
+  filters: { eventId: ALL_EVENTS, type: ANY, status: ANY },
+};
+
+// Plus ones get a row of their own under the primary attendee
+function toAttendeeRows(attendees: Attendee[]): AttendeeRow[] {
+  const rows: AttendeeRow[] = [];
+  
+  attendees.forEach(attendee => {
+    rows.push({
+      id: attendee.id,
+      name: attendee.name,
+      email: attendee.email,
+      company: attendee.company,
+      title: attendee.title,
+      status: attendee.status,
+      registrationId: attendee.registrationId,
+      eventId: attendee.eventId,
+      event: attendee.event,
+      createdAt: attendee.createdAt,
+      type: 'ATTENDEE',
+      plusOneName: attendee.plusOne?.name,
+      checkedInAt: attendee.checkedInAt,
+    });
     
-    attendees.forEach(attendee => {
+    if (attendee.plusOne) {
       rows.push({
-        id: attendee.id,
-        name: attendee.name,
-        email: attendee.email,
-        company: attendee.company,
-        title: attendee.title,
-        status: attendee.status,
-        registrationId: attendee.registrationId,
+        id: `plusone-${attendee.plusOne.id}`,
+        name: attendee.plusOne.name,
+        email: attendee.plusOne.email,
+        company: attendee.plusOne.company,
+        title: attendee.plusOne.title,
+        status: 'PLUS_ONE',
+        registrationId: (attendee.plusOne as any).registrationId || `${attendee.registrationId}-P1`,
         eventId: attendee.eventId,
         event: attendee.event,
         createdAt: attendee.createdAt,
-        type: 'ATTENDEE',
-        plusOneName: attendee.plusOne?.name,
-        checkedInAt: attendee.checkedInAt,
+        type: 'PLUSONE',
+        primaryAttendeeName: attendee.name,
+        checkedInAt: attendee.plusOne.checkedInAt,
       });
-      
-      if (attendee.plusOne) {
-        rows.push({
-          id: `plusone-${attendee.plusOne.id}`,
-          name: attendee.plusOne.name,
-          email: attendee.plusOne.email,
-          company: attendee.plusOne.company,
-          title: attendee.plusOne.title,
-          status: 'PLUS_ONE',
-          registrationId: (attendee.plusOne as any).registrationId || `${attendee.registrationId}-P1`,
-          eventId: attendee.eventId,
-          event: attendee.event,
-          createdAt: attendee.createdAt,
-          type: 'PLUSONE',
-          primaryAttendeeName: attendee.name,
-          checkedInAt: attendee.plusOne.checkedInAt,
-        });
-      }
-    });
-    
-    setAttendeeRows(rows);
-  }, [attendees]);
-
-  useEffect(() => {
-    filterAndSortAttendees();
-  }, [attendeeRows, searchQuery, statusFilter, attendeeTypeFilter, sortField, sortOrder]);
-
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      const eventsData = await api.get<Event[]>(endpoints.events.list());
-
-      const allAttendees: Attendee[] = [];
-      for (const event of eventsData) {
-        try {
-          const eventAttendees = await api.get<Attendee[]>(
-            `/admin/events/${event.id}/attendees`
-          );
-          const attendeesWithEvent = eventAttendees.map(a => ({
-            ...a,
-            event: {
-              eventName: event.eventName,
-              eventDate: event.eventDate,
-            }
-          }));
-          allAttendees.push(...attendeesWithEvent);
-        } catch (err) {
-          console.error(`Failed to fetch attendees for event ${event.id}:`, err);
-        }
-      }
-      
-      setAttendees(allAttendees);
-    } catch (err) {
-      setError(getErrorMessage(err));
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const filterAndSortAttendees = () => {
-    let filtered = [...attendeeRows];
-
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (row) =>
-          row.name.toLowerCase().includes(query) ||
-          row.email.toLowerCase().includes(query) ||
-          row.registrationId.toLowerCase().includes(query) ||
-          row.company.toLowerCase().includes(query) ||
-          (row.primaryAttendeeName && row.primaryAttendeeName.toLowerCase().includes(query))
-      );
-    }
-
-    if (attendeeTypeFilter !== 'ALL') {
-      filtered = filtered.filter((row) => row.type === attendeeTypeFilter);
-    }
-
-    if (statusFilter !== 'ALL') {
-      filtered = filtered.filter((row) => row.status === statusFilter);
     }
+  });
+  
+  return rows;
+}
 
-    filtered.sort((a, b) => {
-      let aValue: any = a[sortField];
-      let bValue: any = b[sortField];
-
-      if (sortField === 'createdAt') {
-        aValue = new Date(aValue).getTime();
-        bValue = new Date(bValue).getTime();
-      } else if (typeof aValue === 'string') {
-        aValue = aValue.toLowerCase();
-        bValue = bValue.toLowerCase();
-      }
-
-      if (aValue < bValue) return sortOrder === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortOrder === 'asc' ? 1 : -1;
-      return 0;
-    });
-
-    setFilteredAttendees(filtered);
-    setCurrentPage(1);
-  };
+// Used when the backend cannot query attendees itself
+const clientQuery: ClientQueryOptions<AttendeeRow> = {
+  searchText: (row) => [row.name, row.email, row.registrationId, row.company, row.primaryAttendeeName],
+  filterValue: (row, filter) => {
+    if (filter === 'eventId') return row.eventId;
+    if (filter === 'type') return row.type;
+    if (filter === 'status') return row.status;
+    return undefined;
+  },
+  sortValue: (row, field) => {
+    if (field === 'createdAt') return new Date(row.createdAt).getTime();
+    return row[field as Exclude<SortField, 'createdAt'>];
+  },
+};
+
+function AttendeesContent() {
+  const router = useRouter();
+  const { query, setQuery, searchInput, setSearch, toggleSort } = useTableQuery(DEFAULT_QUERY);
+  const { events } = useEvents();
+  const loadAttendees = useCallback(
+    (tableQuery: TableQuery) =>
+      fetchTablePage<Attendee, AttendeeRow>(endpoints.admin.attendeeSearch(), tableQuery, {
+        loadAll: () => fetchAttendees(tableQuery.filters.eventId),
+        toRows: toAttendeeRows,
+        client: clientQuery,
+        // Attendees and plus ones are one record to the backend
+        clientFilters: ['type'],
+      }),
+    []
+  );
+  const { items: paginatedAttendees, total, loaded, loading, error, refresh } = useTablePage(
+    query,
+    loadAttendees
+  );
+  const { success, error: showError } = useNotify();
+  const { can } = usePermissions();
+  const canManage = can('attendees:manage');
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exportSelection, setExportSelection] = useState(false);
+  // Selected attendees by id, kept across pages and filters
+  const [selected, setSelected] = useState<Map<string, AttendeeRow>>(() => new Map());
+  const [pendingAction, setPendingAction] = useState<BulkAction | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [failures, setFailures] = useState<{ name: string; error: string }[] | null>(null);
+
+  const sortField = query.sortField as SortField;
+  const sortOrder = query.sortOrder;
+  const eventFilter = query.filters.eventId;
+  const attendeeTypeFilter = query.filters.type as AttendeeType;
+  const statusFilter = query.filters.status as AttendeeStatus | 'ALL';
+  const currentPage = query.page;
+  const pageSize = query.pageSize;
 
   const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortOrder('asc');
-    }
+    toggleSort(field);
   };
 
   const getStatusBadgeColor = (status: AttendeeStatus): string => {
@@ -200,31 +163,124 @@ export default function AttendeesPage() {
     }
   };
 
-  const totalPages = Math.ceil(filteredAttendees.length / pageSize);
+  // Plus ones follow their attendee, so only attendee rows can be selected
+  const selectableRows = paginatedAttendees.filter((row) => row.type === 'ATTENDEE');
+  const allOnPageSelected = selectableRows.length > 0 && selectableRows.every((row) => selected.has(row.id));
+  const selectedRows = Array.from(selected.values());
+  const applicableRows = pendingAction
+    ? selectedRows.filter((row) => BULK_ACTIONS[pendingAction].appliesTo(row.status as AttendeeStatus))
+    : [];
+
+  const toggleRow = (row: AttendeeRow) => {
+    setSelected((current) => {
+      const next = new Map(current);
+      if (next.has(row.id)) {
+        next.delete(row.id);
+      } else {
+        next.set(row.id, row);
+      }
+      return next;
+    });
+  };
+
+  const togglePage = () => {
+    setSelected((current) => {
+      const next = new Map(current);
+      selectableRows.forEach((row) => {
+        if (allOnPageSelected) {
+          next.delete(row.id);
+        } else {
+          next.set(row.id, row);
+        }
+      });
+      return next;
+    });
+  };
+
+  const openExport = (selection: boolean) => {
+    setExportSelection(selection);
+    setExportOpen(true);
+  };
+
+  // Failed attendees stay selected so the action can be retried
+  const handleBulkAction = async () => {
+    if (!pendingAction) return;
+    const action = pendingAction;
+    const rows = applicableRows;
+    setPendingAction(null);
+    if (rows.length === 0) return;
+
+    setFailures(null);
+    setProgress({ done: 0, total: rows.length });
+    const result = await runBulkAction(
+      rows.map((row) => row.id),
+      BULK_ACTIONS[action].run,
+      (done, total) => setProgress({ done, total })
+    );
+    setProgress(null);
+
+    invalidateEventData();
+    refresh();
+
+    const failedIds = new Set(result.failed.map((failure) => failure.id));
+    setSelected(new Map(rows.filter((row) => failedIds.has(row.id)).map((row) => [row.id, row])));
+
+    if (result.failed.length === 0) {
+      success(BULK_ACTIONS[action].title, summarizeBulkResult(action, result));
+    } else {
+      const names = new Map(rows.map((row) => [row.id, row.name]));
+      setFailures(result.failed.map((failure) => ({ name: names.get(failure.id) || failure.id, error: failure.error })));
+      showError(BULK_ACTIONS[action].title, summarizeBulkResult(action, result));
+    }
+  };
+
+  const totalPages = Math.ceil(total / pageSize);
   const startIndex = (currentPage - 1) * pageSize;
   const endIndex = startIndex + pageSize;
-  const paginatedAttendees = filteredAttendees.slice(startIndex, endIndex);
 
-  if (loading) {
+  if (!loaded && loading) {
     return <LoadingSpinner message="Loading attendees..." />;
   }
 
-  if (error) {
-    return <ErrorMessage message={error} onRetry={fetchData} />;
+  if (!loaded && error) {
+    return <ErrorMessage message={error} onRetry={refresh} />;
   }
 
   return (
     <div className="p-4 md:p-6">
-      <ToastContainer toasts={toasts} onClose={closeToast} />
-
       {/* Page Header */}
       <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
         <div>
           <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Attendees</h1>
           <p className="text-gray-600 mt-1 text-sm md:text-base">Manage event attendees and registrations</p>
         </div>
+        <button
+          onClick={() => openExport(false)}
+          className="flex items-center justify-center gap-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+        >
+          <Download size={16} />
+          Export
+        </button>
       </div>
 
+      <ExportDialog
+        isOpen={exportOpen}
+        onClose={() => setExportOpen(false)}
+        eventId={eventFilter}
+        attendeeIds={exportSelection ? selectedRows.map((row) => row.id) : undefined}
+        onExported={(count) => success('Export Ready', `Exported ${count} rows.`)}
+      />
+
+      <ConfirmDialog
+        isOpen={pendingAction !== null}
+        onClose={() => setPendingAction(null)}
+        onConfirm={handleBulkAction}
+        title={pendingAction ? BULK_ACTIONS[pendingAction].title : ''}
+        message={pendingAction ? describeBulkAction(pendingAction, selectedRows.length, applicableRows.length) : ''}
+        confirmText={pendingAction ? BULK_ACTIONS[pendingAction].confirmText : 'Confirm'}
+        variant={pendingAction ? BULK_ACTIONS[pendingAction].variant : 'warning'}
+      />
+
       {/* Filters */}
       <div className="bg-white rounded-lg border border-gray-200 p-3 mb-6">
         <div className="relative mb-3">
@@ -232,16 +288,29 @@ export default function AttendeesPage() {
           <input
             type="text"
             placeholder="Search..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
+            value={searchInput}
+            onChange={(e) => setSearch(e.target.value)}
             className="w-full pl-9 pr-3 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
           />
         </div>
 
-        <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mb-2">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mb-2">
+          <select
+            value={eventFilter}
+            onChange={(e) => setQuery({ filters: { eventId: e.target.value } })}
+            className="col-span-2 md:col-span-1 px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 text-xs"
+          >
+            <option value={ALL_EVENTS}>All Events</option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.eventName}
+              </option>
+            ))}
+          </select>
+
           <select
             value={attendeeTypeFilter}
-            onChange={(e) => setAttendeeTypeFilter(e.target.value as AttendeeType)}
+            onChange={(e) => setQuery({ filters: { type: e.target.value } })}
             className="px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 text-xs"
           >
             <option value="ALL">All</option>
@@ -251,7 +320,7 @@ export default function AttendeesPage() {
 
           <select
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as AttendeeStatus | 'ALL')}
+            onChange={(e) => setQuery({ filters: { status: e.target.value } })}
             className="px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 text-xs"
           >
             <option value="ALL">Status</option>
@@ -262,21 +331,53 @@ export default function AttendeesPage() {
 
           <select
             value={pageSize}
-            onChange={(e) => setPageSize(Number(e.target.value))}
+            onChange={(e) => setQuery({ pageSize: Number(e.target.value) })}
             className="px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 text-xs"
           >
-            <option value={10}>10</option>
-            <option value={20}>20</option>
-            <option value={50}>50</option>
-            <option value={100}>100</option>
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size}
+              </option>
+            ))}
           </select>
         </div>
 
         <div className="text-xs text-gray-600">
-          {filteredAttendees.length} result{filteredAttendees.length !== 1 ? 's' : ''}
+          {total} result{total !== 1 ? 's' : ''}
+          {loading && <span className="ml-2 text-gray-400">Updating...</span>}
         </div>
       </div>
 
+      {canManage && selected.size > 0 && (
+        <BulkActionBar
+          count={selected.size}
+          progress={progress}
+          onAction={setPendingAction}
+          onExport={() => openExport(true)}
+          onClear={() => setSelected(new Map())}
+        />
+      )}
+
+      {failures && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 mb-4">
+          <div className="flex items-start justify-between gap-2 mb-2">
+            <p className="text-sm font-medium text-red-800">
+              {failures.length} attendee{failures.length !== 1 ? 's' : ''} could not be updated and {failures.length !== 1 ? 'remain' : 'remains'} selected
+            </p>
+            <button onClick={() => setFailures(null)} className="text-xs text-red-700 hover:text-red-900">
+              Dismiss
+            </button>
+          </div>
+          <ul className="text-xs text-red-700 space-y-1 max-h-40 overflow-y-auto">
+            {failures.map((failure, index) => (
+              <li key={index}>
+                <span className="font-medium">{failure.name}:</span> {failure.error}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Mobile Cards */}
       <div className="md:hidden space-y-3 mb-6">
         {paginatedAttendees.length === 0 ? (
@@ -292,6 +393,15 @@ export default function AttendeesPage() {
               }`}
             >
               <div className="flex items-start justify-between mb-2">
+                {canManage && row.type === 'ATTENDEE' && (
+                  <input
+                    type="checkbox"
+                    checked={selected.has(row.id)}
+                    onChange={() => toggleRow(row)}
+                    aria-label={`Select ${row.name}`}
+                    className="mt-0.5 mr-2 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                )}
                 <div className="flex-1 min-w-0">
                   <h3 className="font-semibold text-slate-900 text-sm truncate">{row.name}</h3>
                   <p className="text-xs text-slate-600 truncate">{row.email}</p>
@@ -356,7 +466,7 @@ export default function AttendeesPage() {
             </div>
             <div className="flex items-center justify-center gap-2">
               <button
-                onClick={() => setCurrentPage(currentPage - 1)}
+                onClick={() => setQuery({ page: currentPage - 1 })}
                 disabled={currentPage === 1}
                 className="px-3 py-1 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50 text-xs"
               >
@@ -366,7 +476,7 @@ export default function AttendeesPage() {
                 {currentPage}
               </span>
               <button
-                onClick={() => setCurrentPage(currentPage + 1)}
+                onClick={() => setQuery({ page: currentPage + 1 })}
                 disabled={currentPage === totalPages}
                 className="px-3 py-1 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50 text-xs"
               >
@@ -383,6 +493,18 @@ export default function AttendeesPage() {
           <table className="w-full">
             <thead className="bg-slate-50 border-b border-slate-200">
               <tr>
+                <th className="pl-4 py-3 w-8">
+                  {canManage && (
+                    <input
+                      type="checkbox"
+                      checked={allOnPageSelected}
+                      onChange={togglePage}
+                      disabled={selectableRows.length === 0}
+                      aria-label="Select all attendees on this page"
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                  )}
+                </th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase whitespace-nowrap">Type</th>
                 <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase whitespace-nowrap">Reg ID</th>
                 <th onClick={() => handleSort('name')} className="px-4 py-3 text-left text-xs font-medium text-slate-500 uppercase cursor-pointer hover:bg-slate-100 whitespace-nowrap">
@@ -405,13 +527,24 @@ export default function AttendeesPage() {
             <tbody className="divide-y divide-slate-200">
               {paginatedAttendees.length === 0 ? (
                 <tr>
-                  <td colSpan={9} className="px-4 py-12 text-center text-slate-500 text-sm">
+                  <td colSpan={10} className="px-4 py-12 text-center text-slate-500 text-sm">
                     No attendees found
                   </td>
                 </tr>
               ) : (
                 paginatedAttendees.map((row) => (
-                  <tr key={row.id} className={`hover:bg-slate-50 ${row.type === 'PLUSONE' ? 'bg-purple-50/30' : ''}`}>
+                  <tr key={row.id} className={`hover:bg-slate-50 ${row.type === 'PLUSONE' ? 'bg-purple-50/30' : ''} ${selected.has(row.id) ? 'bg-blue-50/50' : ''}`}>
+                    <td className="pl-4 py-3">
+                      {canManage && row.type === 'ATTENDEE' && (
+                        <input
+                          type="checkbox"
+                          checked={selected.has(row.id)}
+                          onChange={() => toggleRow(row)}
+                          aria-label={`Select ${row.name}`}
+                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                      )}
+                    </td>
                     <td className="px-4 py-3">
                       <span className={`px-2 py-1 rounded text-xs font-medium whitespace-nowrap ${row.type === 'ATTENDEE' ? 'bg-blue-100 text-blue-800' : 'bg-purple-100 text-purple-800'}`}>
                         {row.type === 'ATTENDEE' ? 'Attendee' : 'Plus One'}
@@ -472,11 +605,11 @@ export default function AttendeesPage() {
         {totalPages > 1 && (
           <div className="px-4 py-3 border-t border-slate-200 flex items-center justify-between">
             <div className="text-sm text-slate-700">
-              Showing {startIndex + 1} to {Math.min(endIndex, filteredAttendees.length)} of {filteredAttendees.length}
+              Showing {startIndex + 1} to {Math.min(endIndex, total)} of {total}
             </div>
             <div className="flex items-center gap-2">
               <button
-                onClick={() => setCurrentPage(currentPage - 1)}
+                onClick={() => setQuery({ page: currentPage - 1 })}
                 disabled={currentPage === 1}
                 className="px-3 py-1 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50 text-sm"
               >
@@ -496,7 +629,7 @@ export default function AttendeesPage() {
                 return (
                   <button
                     key={page}
-                    onClick={() => setCurrentPage(page)}
+                    onClick={() => setQuery({ page })}
                     className={`px-3 py-1 rounded-md text-sm ${
                       currentPage === page ? 'bg-blue-600 text-white' : 'border border-slate-300 hover:bg-slate-50'
                     }`}
@@ -506,7 +639,7 @@ export default function AttendeesPage() {
                 );
               })}
               <button
-                onClick={() => setCurrentPage(currentPage + 1)}
+                onClick={() => setQuery({ page: currentPage + 1 })}
                 disabled={currentPage === totalPages}
                 className="px-3 py-1 border border-slate-300 rounded-md hover:bg-slate-50 disabled:opacity-50 text-sm"
               >
@@ -519,3 +652,11 @@ export default function AttendeesPage() {
     </div>
   );
 }
+
+export default function AttendeesPage() {
+  return (
+    <Suspense fallback={<LoadingSpinner message="Loading attendees..." />}>
+      <AttendeesContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,273 @@
+'use client';
+
+import { Suspense, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { X } from 'lucide-react';
+import { api, endpoints } from '@/lib/api';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABELS,
+  AUDIT_TARGET_LABELS,
+  DEFAULT_AUDIT_QUERY,
+  describeActor,
+  describeTarget,
+  fetchAuditPage,
+  getTargetHref,
+} from '@/lib/audit';
+import { ANY } from '@/lib/tableQuery';
+import { AuditTargetType, UserAccount } from '@/lib/types';
+import { useEvents } from '@/lib/hooks/useEventData';
+import { useTablePage, useTableQuery } from '@/lib/hooks/useTableQuery';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorMessage from '@/components/ui/ErrorMessage';
+import AuditActionBadge from '@/components/audit/AuditActionBadge';
+
+const selectClassName =
+  'px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+function AuditContent() {
+  const { query, setQuery } = useTableQuery(DEFAULT_AUDIT_QUERY);
+  const { items: entries, total, loaded, loading, error, refresh } = useTablePage(query, fetchAuditPage);
+  const { events } = useEvents();
+  const [users, setUsers] = useState<UserAccount[]>([]);
+
+  // Only used to fill the user filter, so a failure just leaves it empty
+  useEffect(() => {
+    let cancelled = false;
+    api
+      .get<UserAccount[]>(endpoints.users.list())
+      .then((data) => {
+        if (!cancelled) setUsers(data);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const { filters } = query;
+  const hasFilters = Object.values(filters).some((value) => value !== ANY);
+  const totalPages = Math.max(1, Math.ceil(total / query.pageSize));
+  const targetType = filters.targetType as AuditTargetType | typeof ANY;
+
+  const setDay = (key: 'from' | 'to', value: string) => {
+    setQuery({ filters: { [key]: value || ANY } });
+  };
+
+  if (!loaded && loading) {
+    return <LoadingSpinner message="Loading audit log..." />;
+  }
+
+  if (!loaded && error) {
+    return <ErrorMessage message={error} onRetry={refresh} />;
+  }
+
+  return (
+    <div className="p-4 md:p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600 mt-1 text-sm md:text-base">Who changed what, and when</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+          <select
+            value={filters.actorId}
+            onChange={(e) => setQuery({ filters: { actorId: e.target.value } })}
+            className={selectClassName}
+            aria-label="User"
+          >
+            <option value={ANY}>All Users</option>
+            {users.map((user) => (
+              <option key={user.id} value={user.id}>
+                {user.name || user.email}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={filters.action}
+            onChange={(e) => setQuery({ filters: { action: e.target.value } })}
+            className={selectClassName}
+            aria-label="Action"
+          >
+            <option value={ANY}>All Actions</option>
+            {AUDIT_ACTIONS.map((action) => (
+              <option key={action} value={action}>
+                {AUDIT_ACTION_LABELS[action]}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={filters.eventId}
+            onChange={(e) => setQuery({ filters: { eventId: e.target.value } })}
+            className={selectClassName}
+            aria-label="Event"
+          >
+            <option value={ANY}>All Events</option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.eventName}
+              </option>
+            ))}
+          </select>
+
+          <input
+            type="date"
+            value={filters.from === ANY ? '' : filters.from}
+            max={filters.to === ANY ? undefined : filters.to}
+            onChange={(e) => setDay('from', e.target.value)}
+            className={selectClassName}
+            aria-label="From"
+          />
+
+          <input
+            type="date"
+            value={filters.to === ANY ? '' : filters.to}
+            min={filters.from === ANY ? undefined : filters.from}
+            onChange={(e) => setDay('to', e.target.value)}
+            className={selectClassName}
+            aria-label="To"
+          />
+        </div>
+
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4 mt-4 pt-4 border-t border-gray-200">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>
+              {total} entr{total !== 1 ? 'ies' : 'y'}
+            </span>
+            {loading && <span className="text-gray-400">Updating...</span>}
+            {targetType !== ANY && (
+              <span className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full bg-gray-100 text-gray-700 text-xs">
+                {AUDIT_TARGET_LABELS[targetType]}
+                {filters.targetId !== ANY && ` ${filters.targetId}`}
+                <button
+                  onClick={() => setQuery({ filters: { targetType: ANY, targetId: ANY } })}
+                  className="text-gray-500 hover:text-gray-900"
+                  title="Clear"
+                >
+                  <X size={14} />
+                </button>
+              </span>
+            )}
+          </div>
+          {hasFilters && (
+            <button
+              onClick={() => setQuery({ filters: DEFAULT_AUDIT_QUERY.filters })}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-max">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                {['When', 'User', 'Action', 'Target', 'Event'].map((heading) => (
+                  <th
+                    key={heading}
+                    className="px-4 md:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap"
+                  >
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 md:px-6 py-12 text-center text-gray-500 text-sm">
+                    {hasFilters ? 'No entries match your filters.' : 'No changes recorded yet.'}
+                  </td>
+                </tr>
+              ) : (
+                entries.map((entry) => {
+                  const targetHref = getTargetHref(entry.target);
+                  return (
+                    <tr key={entry.id} className="hover:bg-gray-50">
+                      <td className="px-4 md:px-6 py-4 text-xs md:text-sm text-gray-500 whitespace-nowrap">
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 md:px-6 py-4 whitespace-nowrap">
+                        <div className="text-xs md:text-sm text-gray-900">{describeActor(entry)}</div>
+                        {entry.actor?.name && <div className="text-xs text-gray-500">{entry.actor.email}</div>}
+                      </td>
+                      <td className="px-4 md:px-6 py-4 whitespace-nowrap">
+                        <AuditActionBadge action={entry.action} />
+                      </td>
+                      <td className="px-4 md:px-6 py-4 text-xs md:text-sm whitespace-nowrap">
+                        {targetHref ? (
+                          <Link href={targetHref} className="text-blue-600 hover:text-blue-800">
+                            {describeTarget(entry)}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-900">{describeTarget(entry)}</span>
+                        )}
+                      </td>
+                      <td className="px-4 md:px-6 py-4 text-xs md:text-sm whitespace-nowrap">
+                        {entry.eventId ? (
+                          <Link href={`/events/${entry.eventId}`} className="text-blue-600 hover:text-blue-800">
+                            {entry.event?.eventName || entry.eventId}
+                          </Link>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="px-4 md:px-6 py-4 border-t border-gray-200 flex items-center justify-between gap-4">
+            <div className="text-sm text-gray-700">
+              Page {query.page} of {totalPages}
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setQuery({ page: query.page - 1 })}
+                disabled={query.page === 1}
+                className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setQuery({ page: query.page + 1 })}
+                disabled={query.page >= totalPages}
+                className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function AuditPage() {
+  return (
+    <Suspense fallback={<LoadingSpinner message="Loading audit log..." />}>
+      <AuditContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { ArrowLeft, Mail, Calendar, Send, AlertCircle, ExternalLink } from 'lucide-react';
+import { api, endpoints, getErrorMessage } from '@/lib/api';
+import { EmailLog, EmailDeliveryStatus } from '@/lib/types';
+import { usePermissions } from '@/lib/hooks/usePermissions';
+import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import { useNotify } from '@/components/ui/FeedbackProvider';
+
+export default function EmailDetailsPage() {
+  const router = useRouter();
+  const params = useParams();
+  const emailId = params.id as string;
+
+  const [email, setEmail] = useState<EmailLog | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [resending, setResending] = useState(false);
+  const [resendDialogOpen, setResendDialogOpen] = useState(false);
+  const { success, error: showError } = useNotify();
+  const { can } = usePermissions();
+
+  useEffect(() => {
+    fetchEmail();
+  }, [emailId]);
+
+  const fetchEmail = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await api.get<EmailLog>(endpoints.emails.get(emailId));
+      setEmail(data);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const confirmResend = async () => {
+    if (!email) return;
+
+    try {
+      setResending(true);
+      const resent = await api.post<EmailLog>(endpoints.emails.resend(email.id), undefined, {
+        action: 'email.resend',
+        target: { type: 'email', id: email.id },
+        eventId: email.eventId ?? undefined,
+      });
+      success('Email Resent', `Email queued for delivery to ${email.recipient}`);
+      setResendDialogOpen(false);
+
+      // Jump to the new log entry so its delivery status can be followed
+      if (resent && resent.id && resent.id !== email.id) {
+        router.push(`/emails/${resent.id}`);
+      }
+    } catch (err) {
+      showError('Failed to Resend Email', getErrorMessage(err));
+    } finally {
+      setResending(false);
+    }
+  };
+
+  const getStatusBadgeColor = (status: EmailDeliveryStatus): string => {
+    switch (status) {
+      case 'delivered':
+        return 'bg-green-100 text-green-800';
+      case 'sent':
+        return 'bg-blue-100 text-blue-800';
+      case 'failed':
+        return 'bg-red-100 text-red-800';
+      case 'bounced':
+        return 'bg-orange-100 text-orange-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (error || !email) {
+    return (
+      <div className="p-6">
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4">
+          {error || 'Email not found'}
+        </div>
+        <button
+          onClick={() => router.push('/emails')}
+          className="flex items-center gap-2 text-blue-600 hover:text-blue-700"
+        >
+          <ArrowLeft size={20} />
+          Back to Emails
+        </button>
+      </div>
+    );
+  }
+
+  const canResend =
+    can('invites:manage') && (email.deliveryStatus === 'failed' || email.deliveryStatus === 'bounced');
+
+  return (
+    <div className="p-6">
+      <ConfirmDialog
+        isOpen={resendDialogOpen}
+        onClose={() => setResendDialogOpen(false)}
+        onConfirm={confirmResend}
+        title="Resend Email"
+        message={
+          <div>
+            <p>Resend this email to <strong>{email.recipient}</strong>?</p>
+            <p className="mt-2 text-xs">The original content will be sent again and logged as a new entry.</p>
+          </div>
+        }
+        confirmText="Resend"
+        cancelText="Cancel"
+        variant="info"
+        loading={resending}
+      />
+
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => router.push('/emails')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft size={20} />
+          Back to Emails
+        </button>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div className="min-w-0">
+            <h1 className="text-3xl font-bold text-gray-900 break-words">{email.subject}</h1>
+            <p className="text-gray-600 mt-1">To: {email.recipient}</p>
+          </div>
+          <span
+            className={`self-start sm:self-auto inline-flex items-center px-4 py-2 rounded-full text-sm font-medium capitalize ${getStatusBadgeColor(
+              email.deliveryStatus
+            )}`}
+          >
+            {email.deliveryStatus}
+          </span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Email Body */}
+        <div className="lg:col-span-2">
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-semibold text-gray-900">Message</h2>
+            </div>
+            {/* Rendered in a sandboxed frame so stored markup cannot run scripts or inherit app styles */}
+            <iframe
+              title="Email body"
+              sandbox=""
+              srcDoc={email.body}
+              className="w-full h-[600px] bg-white"
+            />
+          </div>
+        </div>
+
+        {/* Sidebar */}
+        <div className="space-y-6">
+          {/* Delivery */}
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-4">Delivery</h2>
+            <div className="space-y-4 text-sm">
+              <div>
+                <div className="text-gray-500 mb-1">Recipient</div>
+                <div className="flex items-center gap-2 text-gray-900 break-all">
+                  <Mail size={16} className="text-gray-400 flex-shrink-0" />
+                  {email.recipient}
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-500 mb-1">Sent</div>
+                <div className="flex items-center gap-2 text-gray-900">
+                  <Calendar size={16} className="text-gray-400" />
+                  {new Date(email.sentAt).toLocaleString()}
+                </div>
+              </div>
+              <div>
+                <div className="text-gray-500 mb-1">Type</div>
+                <div className="text-gray-900 capitalize">{email.emailType}</div>
+              </div>
+              {email.errorMessage && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                  <div className="flex items-center gap-2 text-red-900 font-medium mb-1">
+                    <AlertCircle size={16} />
+                    Delivery Error
+                  </div>
+                  <p className="text-red-700 break-words">{email.errorMessage}</p>
+                </div>
+              )}
+            </div>
+
+            {canResend && (
+              <button
+                onClick={() => setResendDialogOpen(true)}
+                disabled={resending}
+                className="mt-6 w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <Send size={20} />
+                Resend Email
+              </button>
+            )}
+          </div>
+
+          {/* Related Records */}
+          {(email.eventId || email.attendeeId) && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Related</h2>
+              <div className="space-y-3 text-sm">
+                {email.eventId && (
+                  <div>
+                    <div className="text-gray-500 mb-1">Event</div>
+                    <div className="text-gray-900">{email.event?.eventName || email.eventId}</div>
+                  </div>
+                )}
+                {email.attendeeId && (
+                  <button
+                    onClick={() => router.push(`/attendees/${email.attendeeId}`)}
+                    className="flex items-center gap-2 text-blue-600 hover:text-blue-700"
+                  >
+                    <ExternalLink size={16} />
+                    View Attendee
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
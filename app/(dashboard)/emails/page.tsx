@@ -0,0 +1,469 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Search, Eye, Send, Mail } from 'lucide-react';
+import { api, endpoints, getErrorMessage } from '@/lib/api';
+import { EmailLog, EmailType, EmailDeliveryStatus, Event } from '@/lib/types';
+import { usePermissions } from '@/lib/hooks/usePermissions';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorMessage from '@/components/ui/ErrorMessage';
+import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import { useNotify } from '@/components/ui/FeedbackProvider';
+
+type SortOrder = 'asc' | 'desc';
+
+const EMAIL_TYPES: EmailType[] = ['invite', 'confirmation', 'reminder', 'cancellation', 'waitlist'];
+const DELIVERY_STATUSES: EmailDeliveryStatus[] = ['sent', 'delivered', 'failed', 'bounced'];
+
+export default function EmailsPage() {
+  const router = useRouter();
+  const [emails, setEmails] = useState<EmailLog[]>([]);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [filteredEmails, setFilteredEmails] = useState<EmailLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<EmailType | 'ALL'>('ALL');
+  const [statusFilter, setStatusFilter] = useState<EmailDeliveryStatus | 'ALL'>('ALL');
+  const [eventFilter, setEventFilter] = useState<string>('ALL');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize, setPageSize] = useState(50);
+  const [resendingId, setResendingId] = useState<string | null>(null);
+  const [resendDialogOpen, setResendDialogOpen] = useState(false);
+  const [emailToResend, setEmailToResend] = useState<EmailLog | null>(null);
+  const { success, error: showError } = useNotify();
+  const { can } = usePermissions();
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  useEffect(() => {
+    filterAndSortEmails();
+  }, [emails, searchQuery, typeFilter, statusFilter, eventFilter, dateFrom, dateTo, sortOrder]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [emailsData, eventsData] = await Promise.all([
+        api.get<EmailLog[]>(endpoints.emails.list()),
+        api.get<Event[]>(endpoints.events.list()),
+      ]);
+
+      setEmails(emailsData);
+      setEvents(eventsData);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const filterAndSortEmails = () => {
+    let filtered = [...emails];
+
+    // Apply recipient/subject search
+    if (searchQuery) {
+      const query = searchQuery.toLowerCase();
+      filtered = filtered.filter(
+        (email) =>
+          email.recipient.toLowerCase().includes(query) ||
+          email.subject.toLowerCase().includes(query)
+      );
+    }
+
+    if (typeFilter !== 'ALL') {
+      filtered = filtered.filter((email) => email.emailType === typeFilter);
+    }
+
+    if (statusFilter !== 'ALL') {
+      filtered = filtered.filter((email) => email.deliveryStatus === statusFilter);
+    }
+
+    if (eventFilter !== 'ALL') {
+      filtered = filtered.filter((email) => email.eventId === eventFilter);
+    }
+
+    // Date range is inclusive of both days, in the viewer's local time
+    if (dateFrom) {
+      const from = new Date(`${dateFrom}T00:00:00`).getTime();
+      filtered = filtered.filter((email) => new Date(email.sentAt).getTime() >= from);
+    }
+
+    if (dateTo) {
+      const to = new Date(`${dateTo}T23:59:59.999`).getTime();
+      filtered = filtered.filter((email) => new Date(email.sentAt).getTime() <= to);
+    }
+
+    filtered.sort((a, b) => {
+      const aValue = new Date(a.sentAt).getTime();
+      const bValue = new Date(b.sentAt).getTime();
+      return sortOrder === 'asc' ? aValue - bValue : bValue - aValue;
+    });
+
+    setFilteredEmails(filtered);
+    setCurrentPage(1);
+  };
+
+  const clearFilters = () => {
+    setSearchQuery('');
+    setTypeFilter('ALL');
+    setStatusFilter('ALL');
+    setEventFilter('ALL');
+    setDateFrom('');
+    setDateTo('');
+  };
+
+  const handleResend = (email: EmailLog) => {
+    setEmailToResend(email);
+    setResendDialogOpen(true);
+  };
+
+  const confirmResend = async () => {
+    if (!emailToResend) return;
+
+    try {
+      setResendingId(emailToResend.id);
+      const resent = await api.post<EmailLog>(endpoints.emails.resend(emailToResend.id), undefined, {
+        action: 'email.resend',
+        target: { type: 'email', id: emailToResend.id },
+        eventId: emailToResend.eventId ?? undefined,
+      });
+      success('Email Resent', `Email queued for delivery to ${emailToResend.recipient}`);
+
+      // The backend returns the new log entry for the resend attempt
+      if (resent && resent.id) {
+        setEmails((prev) => [resent, ...prev]);
+      }
+
+      setResendDialogOpen(false);
+      setEmailToResend(null);
+    } catch (err) {
+      showError('Failed to Resend Email', getErrorMessage(err));
+    } finally {
+      setResendingId(null);
+    }
+  };
+
+  const getStatusBadgeColor = (status: EmailDeliveryStatus): string => {
+    switch (status) {
+      case 'delivered':
+        return 'bg-green-100 text-green-800';
+      case 'sent':
+        return 'bg-blue-100 text-blue-800';
+      case 'failed':
+        return 'bg-red-100 text-red-800';
+      case 'bounced':
+        return 'bg-orange-100 text-orange-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const canResend = (email: EmailLog) =>
+    can('invites:manage') && (email.deliveryStatus === 'failed' || email.deliveryStatus === 'bounced');
+
+  const hasFilters =
+    searchQuery !== '' ||
+    typeFilter !== 'ALL' ||
+    statusFilter !== 'ALL' ||
+    eventFilter !== 'ALL' ||
+    dateFrom !== '' ||
+    dateTo !== '';
+
+  // Pagination
+  const totalPages = Math.ceil(filteredEmails.length / pageSize);
+  const startIndex = (currentPage - 1) * pageSize;
+  const endIndex = startIndex + pageSize;
+  const paginatedEmails = filteredEmails.slice(startIndex, endIndex);
+
+  if (loading) {
+    return <LoadingSpinner message="Loading email log..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={fetchData} />;
+  }
+
+  return (
+    <div className="p-4 md:p-6">
+      <ConfirmDialog
+        isOpen={resendDialogOpen}
+        onClose={() => {
+          setResendDialogOpen(false);
+          setEmailToResend(null);
+        }}
+        onConfirm={confirmResend}
+        title="Resend Email"
+        message={
+          <div>
+            <p>Resend this email to <strong>{emailToResend?.recipient}</strong>?</p>
+            <p className="mt-2 text-xs">The original content will be sent again and logged as a new entry.</p>
+          </div>
+        }
+        confirmText="Resend"
+        cancelText="Cancel"
+        variant="info"
+        loading={resendingId === emailToResend?.id}
+      />
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Emails</h1>
+          <p className="text-gray-600 mt-1 text-sm md:text-base">Browse sent emails and resend failed deliveries</p>
+        </div>
+      </div>
+
+      {/* Search and Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div className="sm:col-span-2 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+            <input
+              type="text"
+              placeholder="Search by recipient or subject..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as EmailType | 'ALL')}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm capitalize"
+          >
+            <option value="ALL">All Types</option>
+            {EMAIL_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as EmailDeliveryStatus | 'ALL')}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm capitalize"
+          >
+            <option value="ALL">All Statuses</option>
+            {DELIVERY_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {status}
+              </option>
+            ))}
+          </select>
+
+          <select
+            value={eventFilter}
+            onChange={(e) => setEventFilter(e.target.value)}
+            className="sm:col-span-2 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          >
+            <option value="ALL">All Events</option>
+            {events.map((event) => (
+              <option key={event.id} value={event.id}>
+                {event.eventName}
+              </option>
+            ))}
+          </select>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="dateFrom" className="text-xs text-gray-500 whitespace-nowrap">From</label>
+            <input
+              id="dateFrom"
+              type="date"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <label htmlFor="dateTo" className="text-xs text-gray-500 whitespace-nowrap">To</label>
+            <input
+              id="dateTo"
+              type="date"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-4 mt-4 pt-4 border-t border-gray-200">
+          <div className="flex items-center gap-4 text-sm text-gray-600">
+            <span>
+              Showing {filteredEmails.length} email{filteredEmails.length !== 1 ? 's' : ''}
+            </span>
+            {hasFilters && (
+              <button onClick={clearFilters} className="text-blue-600 hover:text-blue-700">
+                Clear filters
+              </button>
+            )}
+          </div>
+          <select
+            value={pageSize}
+            onChange={(e) => setPageSize(Number(e.target.value))}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          >
+            <option value={10}>10 per page</option>
+            <option value={20}>20 per page</option>
+            <option value={50}>50 per page</option>
+            <option value={100}>100 per page</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Emails Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-max">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-4 md:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                  Recipient
+                </th>
+                <th className="px-4 md:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                  Subject
+                </th>
+                <th className="px-4 md:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                  Type
+                </th>
+                <th className="px-4 md:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                  Event
+                </th>
+                <th className="px-4 md:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                  Status
+                </th>
+                <th
+                  onClick={() => setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc')}
+                  className="px-4 md:px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100 whitespace-nowrap"
+                >
+                  <div className="flex items-center gap-2">
+                    Sent
+                    <span>{sortOrder === 'asc' ? '↑' : '↓'}</span>
+                  </div>
+                </th>
+                <th className="px-4 md:px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {paginatedEmails.length === 0 ? (
+                <tr>
+                  <td colSpan={7} className="px-4 md:px-6 py-12 text-center text-gray-500 text-sm">
+                    {hasFilters ? 'No emails found matching your filters.' : 'No emails have been sent yet.'}
+                  </td>
+                </tr>
+              ) : (
+                paginatedEmails.map((email) => (
+                  <tr key={email.id} className="hover:bg-gray-50">
+                    <td className="px-4 md:px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center gap-2">
+                        <Mail size={16} className="text-gray-400 flex-shrink-0" />
+                        <span className="text-xs md:text-sm text-gray-900">{email.recipient}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 md:px-6 py-4 max-w-xs">
+                      <div className="text-xs md:text-sm text-gray-900 truncate" title={email.subject}>
+                        {email.subject}
+                      </div>
+                      {email.errorMessage && (
+                        <div className="text-xs text-red-600 truncate" title={email.errorMessage}>
+                          {email.errorMessage}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 md:px-6 py-4 whitespace-nowrap">
+                      <span className="inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 capitalize">
+                        {email.emailType}
+                      </span>
+                    </td>
+                    <td className="px-4 md:px-6 py-4 text-xs md:text-sm text-gray-900 whitespace-nowrap">
+                      {email.event?.eventName || events.find((e) => e.id === email.eventId)?.eventName || '-'}
+                    </td>
+                    <td className="px-4 md:px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${getStatusBadgeColor(
+                          email.deliveryStatus
+                        )}`}
+                      >
+                        {email.deliveryStatus}
+                      </span>
+                    </td>
+                    <td className="px-4 md:px-6 py-4 text-xs md:text-sm text-gray-500 whitespace-nowrap">
+                      {new Date(email.sentAt).toLocaleString()}
+                    </td>
+                    <td className="px-4 md:px-6 py-4 text-right whitespace-nowrap">
+                      <div className="flex items-center justify-end gap-2">
+                        {canResend(email) && (
+                          <button
+                            onClick={() => handleResend(email)}
+                            disabled={resendingId === email.id}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Resend email"
+                          >
+                            {resendingId === email.id ? (
+                              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                            ) : (
+                              <Send size={18} />
+                            )}
+                          </button>
+                        )}
+                        <button
+                          onClick={() => router.push(`/emails/${email.id}`)}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="View email"
+                        >
+                          <Eye size={18} />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="px-4 md:px-6 py-4 border-t border-gray-200 flex flex-col sm:flex-row items-center justify-between gap-4">
+            <div className="text-sm text-gray-700">
+              Showing {startIndex + 1} to {Math.min(endIndex, filteredEmails.length)} of {filteredEmails.length} emails
+            </div>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setCurrentPage(currentPage - 1)}
+                disabled={currentPage === 1}
+                className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                Previous
+              </button>
+              <span className="px-3 py-1 text-sm text-gray-700">
+                Page {currentPage} of {totalPages}
+              </span>
+              <button
+                onClick={() => setCurrentPage(currentPage + 1)}
+                disabled={currentPage === totalPages}
+                className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
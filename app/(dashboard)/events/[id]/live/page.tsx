@@ -0,0 +1,283 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { ArrowLeft, Users, UserCheck, UserPlus, Clock, RefreshCw, Radio } from 'lucide-react';
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  RadialBarChart,
+  RadialBar,
+  PolarAngleAxis,
+} from 'recharts';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorMessage from '@/components/ui/ErrorMessage';
+import { useLiveEvent } from '@/lib/hooks/useLiveEvent';
+import { getArrivals, getDoorCounts, bucketArrivals } from '@/lib/doorCount';
+
+const BUCKET_OPTIONS = [5, 15];
+const LATEST_LIMIT = 15;
+
+function getGaugeColor(percent: number): string {
+  if (percent >= 90) return '#dc2626';
+  if (percent >= 70) return '#ea580c';
+  return '#16a34a';
+}
+
+export default function LiveEventPage() {
+  const router = useRouter();
+  const params = useParams();
+  const eventId = params.id as string;
+
+  const { event, stats, attendees, loading, error, lastUpdated, mode, refresh } = useLiveEvent(eventId);
+  const [bucketMinutes, setBucketMinutes] = useState(15);
+
+  const arrivals = useMemo(() => getArrivals(attendees), [attendees]);
+  const counts = useMemo(() => getDoorCounts(attendees), [attendees]);
+  const buckets = useMemo(() => bucketArrivals(arrivals, bucketMinutes), [arrivals, bucketMinutes]);
+
+  if (loading) {
+    return <LoadingSpinner message="Loading live door count..." />;
+  }
+
+  if (error && !event) {
+    return <ErrorMessage message={error} onRetry={refresh} />;
+  }
+
+  if (!event) {
+    return <ErrorMessage message="Event not found" onRetry={refresh} />;
+  }
+
+  const capacity = event.capacity || stats?.totalCapacity || 0;
+  const capacityPercent = capacity > 0 ? Math.round((counts.checkedIn / capacity) * 100) : 0;
+  const arrivalPercent = counts.expected > 0 ? Math.round((counts.checkedIn / counts.expected) * 100) : 0;
+
+  return (
+    <div className="p-4 md:p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => router.push('/events')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft size={20} />
+          Back to Events
+        </button>
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900">{event.eventName}</h1>
+            <p className="text-gray-600 mt-1 text-sm md:text-base">Live door count</p>
+          </div>
+          <div className="flex items-center gap-3 text-sm">
+            <span
+              className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${
+                mode === 'stream' ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+              }`}
+            >
+              <Radio size={14} className={mode === 'stream' ? 'animate-pulse' : ''} />
+              {mode === 'stream' ? 'Live' : mode === 'polling' ? 'Auto-refresh' : 'Connecting'}
+            </span>
+            {lastUpdated && (
+              <span className="text-gray-500">Updated {lastUpdated.toLocaleTimeString()}</span>
+            )}
+            <button
+              onClick={refresh}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50"
+            >
+              <RefreshCw size={14} />
+              Refresh
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg mb-6 text-sm">
+          Showing the last loaded figures. {error}
+        </div>
+      )}
+
+      {/* Key Metrics */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6 mb-6">
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-gray-500">Checked In</div>
+            <UserCheck className="text-green-600" size={20} />
+          </div>
+          <div className="text-3xl font-bold text-green-600">
+            {counts.checkedIn} <span className="text-lg text-gray-500">/ {counts.expected}</span>
+          </div>
+          <div className="text-xs text-gray-500 mt-1">
+            {arrivalPercent}% of confirmed (including plus ones)
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-gray-500">Guests</div>
+            <Users className="text-blue-600" size={20} />
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{counts.guestsCheckedIn}</div>
+          <div className="text-xs text-gray-500 mt-1">
+            of {counts.guestsExpected} confirmed
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-gray-500">Plus Ones</div>
+            <UserPlus className="text-purple-600" size={20} />
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{counts.plusOnesCheckedIn}</div>
+          <div className="text-xs text-gray-500 mt-1">
+            of {counts.plusOnesExpected} expected
+          </div>
+        </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-gray-500">Still to Arrive</div>
+            <Clock className="text-orange-600" size={20} />
+          </div>
+          <div className="text-3xl font-bold text-orange-600">
+            {Math.max(counts.expected - counts.checkedIn, 0)}
+          </div>
+          <div className="text-xs text-gray-500 mt-1">Confirmed, not yet scanned</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-6">
+        {/* Capacity Gauge */}
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Capacity</h2>
+          <div className="relative h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <RadialBarChart
+                cx="50%"
+                cy="80%"
+                innerRadius="110%"
+                outerRadius="150%"
+                startAngle={180}
+                endAngle={0}
+                data={[{ value: Math.min(capacityPercent, 100) }]}
+              >
+                <PolarAngleAxis type="number" domain={[0, 100]} tick={false} />
+                <RadialBar
+                  dataKey="value"
+                  background
+                  cornerRadius={8}
+                  fill={getGaugeColor(capacityPercent)}
+                />
+              </RadialBarChart>
+            </ResponsiveContainer>
+            <div className="absolute inset-x-0 bottom-4 text-center">
+              <div className="text-3xl font-bold text-gray-900">{capacityPercent}%</div>
+              <div className="text-xs text-gray-500">
+                {counts.checkedIn} in the venue of {capacity} capacity
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Arrivals per Bucket */}
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 lg:col-span-2">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-gray-900">Arrivals</h2>
+            <div className="inline-flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+              {BUCKET_OPTIONS.map((minutes) => (
+                <button
+                  key={minutes}
+                  onClick={() => setBucketMinutes(minutes)}
+                  className={`px-3 py-1.5 ${
+                    bucketMinutes === minutes ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {minutes} min
+                </button>
+              ))}
+            </div>
+          </div>
+          {buckets.length === 0 ? (
+            <div className="h-48 flex items-center justify-center text-gray-500 text-sm">
+              No check-ins yet
+            </div>
+          ) : (
+            <div className="h-48">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={buckets}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+                  <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={32} />
+                  <Tooltip />
+                  <Bar dataKey="count" name="Arrivals" fill="#2563eb" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Latest Check-ins */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Latest Check-ins</h2>
+        </div>
+        {arrivals.length === 0 ? (
+          <div className="px-6 py-12 text-center text-gray-500">No check-ins yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50 border-b border-gray-200">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Guest
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Type
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Time
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Scanned By
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {arrivals.slice(0, LATEST_LIMIT).map((arrival) => (
+                  <tr
+                    key={arrival.key}
+                    onClick={() => router.push(`/attendees/${arrival.attendeeId}`)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">{arrival.name}</td>
+                    <td className="px-6 py-4">
+                      <span
+                        className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                          arrival.isPlusOne ? 'bg-purple-100 text-purple-800' : 'bg-blue-100 text-blue-800'
+                        }`}
+                      >
+                        {arrival.isPlusOne ? 'PLUSONE' : 'GUEST'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {new Date(arrival.checkedInAt).toLocaleTimeString()}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-500">
+                      {arrival.checkedInBy?.name || '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,12 +2,43 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { ArrowLeft, Calendar, MapPin, Users } from 'lucide-react';
+import {
+  ArrowLeft,
+  BarChart3,
+  BookmarkPlus,
+  Calendar,
+  Copy,
+  Download,
+  History,
+  IdCard,
+  MapPin,
+  Pencil,
+  Repeat,
+  Users,
+} from 'lucide-react';
 import { api, endpoints, getErrorMessage } from '@/lib/api';
 import { Event } from '@/lib/types';
 import { eventSchema, EventFormData } from '@/lib/validation';
+import { invalidateEventData } from '@/lib/eventData';
+import { createEventTemplate, eventToFormData, toTemplateValues } from '@/lib/eventTemplates';
+import { SeriesScope, getSeriesEvents, selectSeriesScope, updateEventSeries } from '@/lib/eventSeries';
+import { normalizeEventSchedule } from '@/lib/eventSchedule';
+import { getTimeZones, getViewerTimeHint } from '@/lib/eventTime';
+import { COUNTRIES, getAddressFormat } from '@/lib/venueAddress';
+import { useEvents } from '@/lib/hooks/useEventData';
+import { usePermissions } from '@/lib/hooks/usePermissions';
+import EventAnalyticsPanel from '@/components/analytics/EventAnalyticsPanel';
+import ExportDialog from '@/components/attendees/ExportDialog';
+import BadgeGenerator from '@/components/badges/BadgeGenerator';
+import HistoryPanel from '@/components/audit/HistoryPanel';
+import SaveTemplateDialog from '@/components/events/SaveTemplateDialog';
+import AgendaFields from '@/components/events/AgendaFields';
+import SeriesScopeDialog from '@/components/events/SeriesScopeDialog';
+import { useNotify } from '@/components/ui/FeedbackProvider';
+
+type EventTab = 'details' | 'analytics' | 'badges' | 'history';
 
 export default function EditEventPage() {
   const router = useRouter();
@@ -17,16 +48,36 @@ export default function EditEventPage() {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<EventTab>('details');
+  const [exportOpen, setExportOpen] = useState(false);
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
+  const [event, setEvent] = useState<Event | null>(null);
+  // Edit waiting for the user to pick which events of the series it applies to
+  const [pendingSeriesEdit, setPendingSeriesEdit] = useState<EventFormData | null>(null);
+  const { can } = usePermissions();
+  const { success, error: showError } = useNotify();
+  const { events } = useEvents();
+  const seriesEvents = event?.seriesId ? getSeriesEvents(events, event.seriesId) : [];
+  const seriesIndex = seriesEvents.findIndex((e) => e.id === eventId);
 
   const {
     register,
+    control,
     handleSubmit,
     reset,
+    getValues,
     formState: { errors, isValid },
   } = useForm<EventFormData>({
     resolver: zodResolver(eventSchema),
     mode: 'onChange',
   });
+  const [eventDate, eventEndDate, eventStartTime, eventEndTime, timeZone, venueCountry] = useWatch({
+    control,
+    name: ['eventDate', 'eventEndDate', 'eventStartTime', 'eventEndTime', 'timeZone', 'venueCountry'],
+  });
+  const addressFormat = getAddressFormat(venueCountry);
+  const timeZones = getTimeZones();
+  const viewerTime = getViewerTimeHint({ eventDate, eventEndDate, eventStartTime, eventEndTime, timeZone });
 
   useEffect(() => {
     fetchEvent();
@@ -36,25 +87,9 @@ export default function EditEventPage() {
     try {
       setLoading(true);
       setError(null);
-      const event = await api.get<Event>(endpoints.events.get(eventId));
-      
-      // Convert event data to form data
-      reset({
-        eventName: event.eventName,
-        description: event.description || '',
-        eventDate: event.eventDate.split('T')[0], // Extract date part
-        eventStartTime: event.eventStartTime,
-        eventEndTime: event.eventEndTime,
-        venueName: event.venueName,
-        venueAddress: event.venueAddress,
-        venueCity: event.venueCity,
-        venueState: event.venueState,
-        venueZipCode: event.venueZipCode,
-        capacity: event.capacity,
-        waitlistEnabled: event.waitlistEnabled,
-        registrationOpen: event.registrationOpen,
-        dressCode: event.dressCode,
-      });
+      const data = await api.get<Event>(endpoints.events.get(eventId));
+      setEvent(data);
+      reset(eventToFormData(data));
     } catch (err) {
       setError(getErrorMessage(err));
     } finally {
@@ -62,12 +97,27 @@ export default function EditEventPage() {
     }
   };
 
-  const onSubmit = async (data: EventFormData) => {
+  const onSubmit = async (formData: EventFormData) => {
+    if (!can('events:manage')) return;
+    const data = normalizeEventSchedule(formData);
+    if (seriesEvents.length > 1) {
+      setPendingSeriesEdit(data);
+      return;
+    }
+    await saveEvent(data);
+  };
+
+  const saveEvent = async (data: EventFormData) => {
     setSaving(true);
     setError(null);
 
     try {
-      await api.put(endpoints.events.update(eventId), data);
+      await api.put(endpoints.events.update(eventId), data, {
+        action: 'event.update',
+        target: { type: 'event', id: eventId },
+        eventId,
+      });
+      invalidateEventData();
       router.push('/events');
     } catch (err) {
       setError(getErrorMessage(err));
@@ -76,6 +126,47 @@ export default function EditEventPage() {
     }
   };
 
+  const handleSeriesSave = async (scope: SeriesScope) => {
+    if (!event || !pendingSeriesEdit || saving) return;
+    const data = pendingSeriesEdit;
+    setPendingSeriesEdit(null);
+    if (scope === 'this') {
+      await saveEvent(data);
+      return;
+    }
+
+    const targets = selectSeriesScope(seriesEvents, event, scope);
+    setSaving(true);
+    setError(null);
+
+    try {
+      const result = await updateEventSeries(event, data, targets);
+      invalidateEventData();
+
+      if (result.failed.length === 0) {
+        success('Series Updated', `${result.succeeded.length} events have been updated.`);
+        router.push('/events');
+        return;
+      }
+      const errorMsg = `${result.succeeded.length} of ${targets.length} events were updated. ${result.failed.length} failed (${result.failed[0].error})`;
+      setError(errorMsg);
+      showError('Series Partly Updated', errorMsg);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Saves the form as it stands, including edits not yet saved to the event
+  const handleSaveTemplate = async (name: string) => {
+    try {
+      await createEventTemplate(name, toTemplateValues(getValues()));
+      setSaveTemplateOpen(false);
+      success('Template Saved', `"${name}" can now be used for new events.`);
+    } catch (err) {
+      showError('Failed to Save Template', getErrorMessage(err));
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -95,17 +186,114 @@ export default function EditEventPage() {
           <ArrowLeft size={20} />
           Back to Events
         </button>
-        <h1 className="text-3xl font-bold text-gray-900">Edit Event</h1>
-        <p className="text-gray-600 mt-1">Update event details</p>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Edit Event</h1>
+            <p className="text-gray-600 mt-1">Update event details</p>
+            {seriesIndex !== -1 && seriesEvents.length > 1 && (
+              <span className="inline-flex items-center gap-1 mt-2 px-2.5 py-0.5 rounded-full bg-purple-100 text-purple-800 text-xs font-medium">
+                <Repeat size={12} />
+                Series · {seriesIndex + 1} of {seriesEvents.length}
+              </span>
+            )}
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            {can('events:manage') && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => router.push(`/events/new?duplicate=${eventId}`)}
+                  className="flex items-center gap-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                >
+                  <Copy size={16} />
+                  Duplicate
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setSaveTemplateOpen(true)}
+                  className="flex items-center gap-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+                >
+                  <BookmarkPlus size={16} />
+                  Save as Template
+                </button>
+              </>
+            )}
+            <button
+              type="button"
+              onClick={() => setExportOpen(true)}
+              className="flex items-center gap-2 bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors text-sm"
+            >
+              <Download size={16} />
+              Export Attendees
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <ExportDialog isOpen={exportOpen} onClose={() => setExportOpen(false)} eventId={eventId} />
+
+      {pendingSeriesEdit && event && (
+        <SeriesScopeDialog
+          counts={{
+            this: 1,
+            following: selectSeriesScope(seriesEvents, event, 'following').length,
+            all: seriesEvents.length,
+          }}
+          saving={saving}
+          onClose={() => setPendingSeriesEdit(null)}
+          onSave={handleSeriesSave}
+        />
+      )}
+
+      {saveTemplateOpen && (
+        <SaveTemplateDialog
+          defaultName={getValues('venueName') || getValues('eventName')}
+          onClose={() => setSaveTemplateOpen(false)}
+          onSave={handleSaveTemplate}
+        />
+      )}
+
+      {/* Tabs */}
+      <div className="flex gap-6 border-b border-gray-200 mb-6">
+        {([
+          { id: 'details', label: 'Details', icon: Pencil },
+          { id: 'analytics', label: 'Analytics', icon: BarChart3 },
+          { id: 'badges', label: 'Badges', icon: IdCard },
+          ...(can('audit:view') ? [{ id: 'history', label: 'History', icon: History } as const] : []),
+        ] as const).map(({ id, label, icon: Icon }) => (
+          <button
+            key={id}
+            type="button"
+            onClick={() => setActiveTab(id)}
+            className={`flex items-center gap-2 pb-3 -mb-px border-b-2 text-sm font-medium transition-colors ${
+              activeTab === id
+                ? 'border-blue-600 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            <Icon size={16} />
+            {label}
+          </button>
+        ))}
       </div>
 
-      {error && (
+      {activeTab === 'analytics' && <EventAnalyticsPanel eventId={eventId} />}
+
+      {activeTab === 'badges' && <BadgeGenerator eventId={eventId} />}
+
+      {activeTab === 'history' && <HistoryPanel type="event" id={eventId} showTarget />}
+
+      {activeTab === 'details' && error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
           {error}
         </div>
       )}
 
-      <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
+      {/* Kept mounted while on the analytics tab so unsaved edits survive */}
+      <form
+        onSubmit={handleSubmit(onSubmit)}
+        className={activeTab === 'details' ? 'space-y-8' : 'hidden'}
+      >
         {/* Event Details Section */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center gap-2 mb-4">
@@ -148,7 +336,7 @@ export default function EditEventPage() {
               )}
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="eventDate" className="block text-sm font-medium text-gray-700 mb-1">
                   Event Date *
@@ -166,6 +354,26 @@ export default function EditEventPage() {
                 )}
               </div>
 
+              <div>
+                <label htmlFor="eventEndDate" className="block text-sm font-medium text-gray-700 mb-1">
+                  End Date
+                </label>
+                <input
+                  type="date"
+                  id="eventEndDate"
+                  {...register('eventEndDate')}
+                  min={eventDate || undefined}
+                  className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                    errors.eventEndDate ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                />
+                {errors.eventEndDate ? (
+                  <p className="mt-1 text-sm text-red-600">{errors.eventEndDate.message}</p>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">For overnight and multi-day events</p>
+                )}
+              </div>
+
               <div>
                 <label htmlFor="eventStartTime" className="block text-sm font-medium text-gray-700 mb-1">
                   Start Time *
@@ -201,6 +409,39 @@ export default function EditEventPage() {
               </div>
             </div>
 
+            <div>
+              <label htmlFor="timeZone" className="block text-sm font-medium text-gray-700 mb-1">
+                Time Zone *
+              </label>
+              <select
+                id="timeZone"
+                {...register('timeZone')}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.timeZone ? 'border-red-500' : 'border-gray-300'
+                }`}
+              >
+                <optgroup label={addressFormat.name}>
+                  {addressFormat.timeZones.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </optgroup>
+                <optgroup label="All time zones">
+                  {timeZones.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </optgroup>
+              </select>
+              {errors.timeZone ? (
+                <p className="mt-1 text-sm text-red-600">{errors.timeZone.message}</p>
+              ) : (
+                viewerTime && <p className="mt-1 text-sm text-gray-500">Your time: {viewerTime}</p>
+              )}
+            </div>
+
             <div>
               <label htmlFor="dressCode" className="block text-sm font-medium text-gray-700 mb-1">
                 Dress Code *
@@ -220,6 +461,14 @@ export default function EditEventPage() {
           </div>
         </div>
 
+        <AgendaFields
+          control={control}
+          register={register}
+          errors={errors}
+          eventDate={eventDate}
+          eventEndDate={eventEndDate}
+        />
+
         {/* Venue Section */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center gap-2 mb-4">
@@ -262,6 +511,28 @@ export default function EditEventPage() {
               )}
             </div>
 
+            <div>
+              <label htmlFor="venueCountry" className="block text-sm font-medium text-gray-700 mb-1">
+                Country *
+              </label>
+              <select
+                id="venueCountry"
+                {...register('venueCountry')}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.venueCountry ? 'border-red-500' : 'border-gray-300'
+                }`}
+              >
+                {COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {country.name}
+                  </option>
+                ))}
+              </select>
+              {errors.venueCountry && (
+                <p className="mt-1 text-sm text-red-600">{errors.venueCountry.message}</p>
+              )}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
                 <label htmlFor="venueCity" className="block text-sm font-medium text-gray-700 mb-1">
@@ -282,13 +553,13 @@ export default function EditEventPage() {
 
               <div>
                 <label htmlFor="venueState" className="block text-sm font-medium text-gray-700 mb-1">
-                  State *
+                  {addressFormat.regionLabel}
+                  {addressFormat.regionRequired && ' *'}
                 </label>
                 <input
                   type="text"
                   id="venueState"
                   {...register('venueState')}
-                  maxLength={2}
                   className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
                     errors.venueState ? 'border-red-500' : 'border-gray-300'
                   }`}
@@ -300,7 +571,7 @@ export default function EditEventPage() {
 
               <div>
                 <label htmlFor="venueZipCode" className="block text-sm font-medium text-gray-700 mb-1">
-                  Zip Code *
+                  {addressFormat.postalLabel} *
                 </label>
                 <input
                   type="text"
@@ -374,13 +645,15 @@ export default function EditEventPage() {
           >
             Cancel
           </button>
-          <button
-            type="submit"
-            disabled={saving || !isValid}
-            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {saving ? 'Saving...' : 'Save Changes'}
-          </button>
+          {can('events:manage') && (
+            <button
+              type="submit"
+              disabled={saving || !isValid}
+              className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Changes'}
+            </button>
+          )}
         </div>
       </form>
     </div>
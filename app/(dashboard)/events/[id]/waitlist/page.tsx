@@ -0,0 +1,397 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { ArrowLeft, ArrowDown, ArrowUp, Clock, GripVertical, RefreshCw, UserCheck, Users, UserPlus } from 'lucide-react';
+import { api, endpoints, getErrorMessage } from '@/lib/api';
+import { Attendee, Event } from '@/lib/types';
+import { invalidateEventData } from '@/lib/eventData';
+import { usePermissions } from '@/lib/hooks/usePermissions';
+import {
+  fetchWaitlist,
+  getOpenSlots,
+  moveItem,
+  promoteFromWaitlist,
+  saveWaitlistOrder,
+  setAutoPromote,
+  sortByRegistration,
+} from '@/lib/waitlist';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorMessage from '@/components/ui/ErrorMessage';
+import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import Button from '@/components/ui/Button';
+import { useNotify } from '@/components/ui/FeedbackProvider';
+
+export default function WaitlistPage() {
+  const router = useRouter();
+  const params = useParams();
+  const eventId = params.id as string;
+
+  const [event, setEvent] = useState<Event | null>(null);
+  const [entries, setEntries] = useState<Attendee[]>([]);
+  const [autoPromote, setAutoPromoteState] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [promoteCount, setPromoteCount] = useState<number | null>(null);
+  const [notify, setNotify] = useState(true);
+  const [promoteIds, setPromoteIds] = useState<string[] | null>(null);
+  const [promoting, setPromoting] = useState(false);
+  const [savingOrder, setSavingOrder] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+  const { success, error: showError } = useNotify();
+  const { can } = usePermissions();
+  const canManage = can('attendees:manage');
+
+  const load = useCallback(async () => {
+    try {
+      const [eventData, waitlist] = await Promise.all([
+        api.get<Event>(endpoints.events.get(eventId)),
+        fetchWaitlist(eventId),
+      ]);
+      setEvent(eventData);
+      setEntries(waitlist.entries);
+      setAutoPromoteState(waitlist.autoPromote);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  if (loading) {
+    return <LoadingSpinner message="Loading waitlist..." />;
+  }
+
+  if (!event) {
+    return <ErrorMessage message={error || 'Event not found'} onRetry={load} />;
+  }
+
+  const openSlots = getOpenSlots(event);
+  const count = promoteCount ?? Math.min(openSlots, entries.length);
+  const overCapacity = promoteIds ? promoteIds.length - openSlots : 0;
+
+  const reorder = async (from: number, to: number) => {
+    const previous = entries;
+    const next = moveItem(entries, from, to);
+    if (next === previous) return;
+
+    setEntries(next);
+    setSavingOrder(true);
+    try {
+      await saveWaitlistOrder(eventId, next.map((entry) => entry.id));
+    } catch (err) {
+      setEntries(previous);
+      showError('Could Not Save Order', getErrorMessage(err));
+    }
+    setSavingOrder(false);
+  };
+
+  const resetOrder = () => {
+    const byRegistration = sortByRegistration(entries);
+    const previous = entries;
+    setEntries(byRegistration);
+    saveWaitlistOrder(eventId, byRegistration.map((entry) => entry.id)).catch((err) => {
+      setEntries(previous);
+      showError('Could Not Save Order', getErrorMessage(err));
+    });
+  };
+
+  const toggleAutoPromote = async (enabled: boolean) => {
+    setAutoPromoteState(enabled);
+    try {
+      await setAutoPromote(eventId, enabled);
+      success('Waitlist Updated', enabled ? 'Guests will be promoted automatically' : 'Automatic promotion turned off');
+    } catch (err) {
+      setAutoPromoteState(!enabled);
+      showError('Could Not Update Setting', getErrorMessage(err));
+    }
+  };
+
+  const handlePromote = async () => {
+    if (!promoteIds) return;
+    const ids = promoteIds;
+    setPromoteIds(null);
+    setPromoting(true);
+
+    try {
+      const result = await promoteFromWaitlist(eventId, ids, notify);
+      const failed = result.failed || [];
+      invalidateEventData();
+      setPromoteCount(null);
+      await load();
+
+      const promoted = `${result.promoted.length} guest${result.promoted.length !== 1 ? 's' : ''} promoted`;
+      if (failed.length > 0) {
+        const names = new Map(entries.map((entry) => [entry.id, entry.name]));
+        showError(
+          'Some Promotions Failed',
+          `${promoted}. Failed: ${failed.map((f) => `${names.get(f.id) || f.id} (${f.error})`).join(', ')}`
+        );
+      } else {
+        success('Guests Promoted', notify ? `${promoted} and notified by email` : promoted);
+      }
+    } catch (err) {
+      showError('Promotion Failed', getErrorMessage(err));
+    }
+    setPromoting(false);
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) reorder(dragIndex, index);
+    setDragIndex(null);
+    setOverIndex(null);
+  };
+
+  return (
+    <div className="p-4 md:p-6">
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => router.push('/events')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft size={20} />
+          Back to Events
+        </button>
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900">{event.eventName}</h1>
+            <p className="text-gray-600 mt-1 text-sm md:text-base">Waitlist</p>
+          </div>
+          <button
+            onClick={load}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50 self-start sm:self-auto"
+          >
+            <RefreshCw size={14} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg mb-6 text-sm">
+          Showing the last loaded waitlist. {error}
+        </div>
+      )}
+
+      {!event.waitlistEnabled && (
+        <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg mb-6 text-sm">
+          The waitlist is turned off for this event, so new registrations are not being queued.
+        </div>
+      )}
+
+      {/* Capacity */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6 mb-6">
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-gray-500">Capacity</div>
+            <Users className="text-blue-600" size={20} />
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{event.capacity}</div>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-gray-500">Registered</div>
+            <UserCheck className="text-green-600" size={20} />
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{event.currentRegistrations}</div>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-gray-500">Open Slots</div>
+            <UserPlus className="text-purple-600" size={20} />
+          </div>
+          <div className={`text-3xl font-bold ${openSlots > 0 ? 'text-green-600' : 'text-gray-900'}`}>
+            {openSlots}
+          </div>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <div className="flex items-center justify-between mb-2">
+            <div className="text-sm font-medium text-gray-500">On Waitlist</div>
+            <Clock className="text-yellow-600" size={20} />
+          </div>
+          <div className="text-3xl font-bold text-gray-900">{entries.length}</div>
+        </div>
+      </div>
+
+      {/* Promotion */}
+      {canManage && (
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200 mb-6">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Promotion</h2>
+          <div className="flex flex-wrap items-end gap-4">
+            <div>
+              <label htmlFor="promoteCount" className="block text-sm font-medium text-gray-700 mb-2">
+                Guests to promote
+              </label>
+              <input
+                id="promoteCount"
+                type="number"
+                min={1}
+                max={entries.length}
+                value={count}
+                onChange={(e) => setPromoteCount(Math.max(0, Math.min(entries.length, Number(e.target.value))))}
+                className="w-28 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <Button
+              onClick={() => setPromoteIds(entries.slice(0, count).map((entry) => entry.id))}
+              disabled={count === 0}
+              loading={promoting}
+              icon={<UserCheck size={18} />}
+            >
+              Promote Next {count}
+            </Button>
+            <label className="flex items-center gap-2 text-sm text-gray-700 pb-2">
+              <input
+                type="checkbox"
+                checked={notify}
+                onChange={(e) => setNotify(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Email promoted guests
+            </label>
+          </div>
+
+          <label className="mt-6 flex items-start gap-3">
+            <input
+              type="checkbox"
+              checked={autoPromote}
+              onChange={(e) => toggleAutoPromote(e.target.checked)}
+              className="mt-0.5 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-700">
+                Auto-promote when a confirmed guest cancels
+              </span>
+              <span className="block text-xs text-gray-500">
+                The next guest in line is confirmed and emailed as soon as a place opens up.
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+
+      {/* Queue */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+        <div className="flex flex-wrap items-center justify-between gap-2 px-6 py-4 border-b border-gray-200">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Queue</h2>
+            {canManage && (
+              <p className="text-xs text-gray-500">
+                Drag guests to change who is promoted first{savingOrder && ' · Saving...'}
+              </p>
+            )}
+          </div>
+          {canManage && entries.length > 1 && (
+            <button onClick={resetOrder} className="text-sm text-blue-600 hover:text-blue-700">
+              Reset to registration order
+            </button>
+          )}
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="px-6 py-12 text-center text-sm text-gray-500">No one is on the waitlist</p>
+        ) : (
+          <ol className="divide-y divide-gray-200">
+            {entries.map((entry, index) => (
+              <li
+                key={entry.id}
+                draggable={canManage}
+                onDragStart={() => setDragIndex(index)}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setOverIndex(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setOverIndex(null);
+                }}
+                onDrop={() => handleDrop(index)}
+                className={`flex items-center gap-3 px-4 md:px-6 py-3 ${
+                  dragIndex === index ? 'opacity-50' : ''
+                } ${overIndex === index && dragIndex !== index ? 'bg-blue-50' : ''} ${
+                  index < openSlots ? 'border-l-4 border-l-green-500' : 'border-l-4 border-l-transparent'
+                }`}
+              >
+                {canManage && <GripVertical size={18} className="text-gray-400 cursor-grab flex-shrink-0" />}
+                <span className="w-8 text-sm font-medium text-gray-500">{index + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-900 truncate">{entry.name}</div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {entry.email}
+                    {entry.company && ` · ${entry.company}`}
+                    {entry.plusOne && ' · +1'}
+                  </div>
+                </div>
+                <div className="hidden sm:block text-xs text-gray-500 whitespace-nowrap">
+                  Joined{' '}
+                  {new Date(entry.createdAt).toLocaleString('en-US', {
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                </div>
+                {canManage && (
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => reorder(index, index - 1)}
+                      disabled={index === 0 || savingOrder}
+                      className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp size={16} />
+                    </button>
+                    <button
+                      onClick={() => reorder(index, index + 1)}
+                      disabled={index === entries.length - 1 || savingOrder}
+                      className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown size={16} />
+                    </button>
+                    <button
+                      onClick={() => setPromoteIds([entry.id])}
+                      disabled={promoting}
+                      className="ml-2 px-3 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded"
+                    >
+                      Promote
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <ConfirmDialog
+        isOpen={promoteIds !== null}
+        onClose={() => setPromoteIds(null)}
+        onConfirm={handlePromote}
+        title="Promote from Waitlist"
+        message={
+          <>
+            <p>
+              {promoteIds?.length} guest{promoteIds?.length !== 1 ? 's' : ''} will be confirmed
+              {notify ? ' and emailed that they have a place.' : '.'}
+            </p>
+            {overCapacity > 0 && (
+              <p className="mt-2 text-red-600">
+                This is {overCapacity} more than the {openSlots} open slot{openSlots !== 1 ? 's' : ''}.
+              </p>
+            )}
+          </>
+        }
+        confirmText="Promote"
+        variant={overCapacity > 0 ? 'warning' : 'info'}
+      />
+    </div>
+  );
+}
@@ -1,53 +1,174 @@
 'use client';
 
-import { useState } from 'react';
-import { useRouter } from 'next/navigation';
-import { useForm } from 'react-hook-form';
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { useForm, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { ArrowLeft, Calendar, MapPin, Users } from 'lucide-react';
+import { ArrowLeft, BookmarkPlus, Calendar, MapPin, Users } from 'lucide-react';
 import { api, endpoints, getErrorMessage } from '@/lib/api';
+import { Event } from '@/lib/types';
 import { eventSchema, EventFormData } from '@/lib/validation';
+import { invalidateEventData } from '@/lib/eventData';
+import { normalizeEventSchedule } from '@/lib/eventSchedule';
+import { getTimeZones, getViewerTimeHint, getViewerTimeZone } from '@/lib/eventTime';
+import { COUNTRIES, getAddressFormat } from '@/lib/venueAddress';
+import {
+  EMPTY_EVENT_FORM,
+  EventTemplate,
+  applyTemplate,
+  createEventTemplate,
+  deleteEventTemplate,
+  duplicateEventFormData,
+  fetchEventTemplates,
+  toTemplateValues,
+} from '@/lib/eventTemplates';
+import {
+  DEFAULT_SERIES_RULE,
+  SeriesRule,
+  createEventSeries,
+  generateSeriesDates,
+  validateSeriesRule,
+} from '@/lib/eventSeries';
 import Button from '@/components/ui/Button';
-import { useToast } from '@/lib/hooks/useToast';
-import { ToastContainer } from '@/components/ui/Toast';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { useConfirm, useNotify } from '@/components/ui/FeedbackProvider';
+import SaveTemplateDialog from '@/components/events/SaveTemplateDialog';
+import TemplatePicker from '@/components/events/TemplatePicker';
+import AgendaFields from '@/components/events/AgendaFields';
+import RecurrenceFields from '@/components/events/RecurrenceFields';
 
-export default function NewEventPage() {
+function NewEventContent() {
   const router = useRouter();
+  const searchParams = useSearchParams();
+  // Set when duplicating an existing event
+  const duplicateId = searchParams.get('duplicate');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { toasts, closeToast, success, error: showError } = useToast();
+  const [sourceEventName, setSourceEventName] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<EventTemplate[]>([]);
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
+  const [seriesRule, setSeriesRule] = useState<SeriesRule>(DEFAULT_SERIES_RULE);
+  const { success, warning, error: showError } = useNotify();
+  const confirm = useConfirm();
 
   const {
     register,
+    control,
     handleSubmit,
+    reset,
+    getValues,
     formState: { errors, isValid },
   } = useForm<EventFormData>({
     resolver: zodResolver(eventSchema),
     mode: 'onChange',
-    defaultValues: {
-      eventName: '',
-      description: '',
-      eventDate: '',
-      eventStartTime: '',
-      eventEndTime: '',
-      venueName: '',
-      venueAddress: '',
-      venueCity: '',
-      venueState: '',
-      venueZipCode: '',
-      capacity: 100,
-      waitlistEnabled: false,
-      registrationOpen: true,
-      dressCode: '',
-    },
+    defaultValues: { ...EMPTY_EVENT_FORM, timeZone: getViewerTimeZone() },
+  });
+  const [eventDate, eventEndDate, eventStartTime, eventEndTime, timeZone, venueCountry] = useWatch({
+    control,
+    name: ['eventDate', 'eventEndDate', 'eventStartTime', 'eventEndTime', 'timeZone', 'venueCountry'],
   });
+  const addressFormat = getAddressFormat(venueCountry);
+  const timeZones = getTimeZones();
+  const viewerTime = getViewerTimeHint({ eventDate, eventEndDate, eventStartTime, eventEndTime, timeZone });
+  const seriesError = validateSeriesRule(eventDate, seriesRule);
+  const seriesDates = seriesRule.frequency === 'none' ? [] : generateSeriesDates(eventDate, seriesRule);
+
+  const loadDuplicate = useCallback(async () => {
+    if (!duplicateId) return;
+    try {
+      const event = await api.get<Event>(endpoints.events.get(duplicateId));
+      reset(duplicateEventFormData(event));
+      setSourceEventName(event.eventName);
+    } catch (err) {
+      setError(`Could not load the event to duplicate: ${getErrorMessage(err)}`);
+    }
+  }, [duplicateId, reset]);
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await fetchEventTemplates());
+    } catch {
+      // The form works without templates; the picker just stays hidden
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDuplicate();
+  }, [loadDuplicate]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const handleApplyTemplate = (template: EventTemplate) => {
+    reset(applyTemplate(getValues(), template));
+    success('Template Applied', `Filled in from "${template.name}". Add a name and date to finish.`);
+  };
+
+  const handleDeleteTemplate = async (template: EventTemplate) => {
+    const confirmed = await confirm({
+      title: 'Delete Template',
+      message: `Delete the "${template.name}" template? Events created from it are not affected.`,
+      confirmText: 'Delete',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    try {
+      await deleteEventTemplate(template.id);
+      setTemplates((current) => current.filter((t) => t.id !== template.id));
+      success('Template Deleted', `"${template.name}" has been deleted.`);
+    } catch (err) {
+      showError('Failed to Delete Template', getErrorMessage(err));
+    }
+  };
+
+  const handleSaveTemplate = async (name: string) => {
+    try {
+      const template = await createEventTemplate(name, toTemplateValues(getValues()));
+      setTemplates((current) => [...current, template].sort((a, b) => a.name.localeCompare(b.name)));
+      setSaveTemplateOpen(false);
+      success('Template Saved', `"${name}" can now be used for new events.`);
+    } catch (err) {
+      showError('Failed to Save Template', getErrorMessage(err));
+    }
+  };
+
+  // Every occurrence is its own request; the ones that fail are listed so
+  // they can be added one at a time
+  const createSeries = async (data: EventFormData) => {
+    const { result } = await createEventSeries(data, seriesDates);
+    invalidateEventData('events');
+
+    if (result.failed.length === 0) {
+      success('Series Created', `${result.succeeded.length} events have been created.`);
+      setTimeout(() => router.push('/events'), 1000);
+      return;
+    }
 
-  const onSubmit = async (data: EventFormData) => {
+    const failedDates = result.failed.map((failure) => failure.id).join(', ');
+    const errorMsg = `${result.succeeded.length} of ${seriesDates.length} events were created. Failed: ${failedDates} (${result.failed[0].error})`;
+    setError(errorMsg);
+    if (result.succeeded.length > 0) {
+      warning('Series Partly Created', errorMsg);
+    } else {
+      showError('Failed to Create Series', errorMsg);
+    }
+  };
+
+  const onSubmit = async (formData: EventFormData) => {
+    const data = normalizeEventSchedule(formData);
     setLoading(true);
     setError(null);
 
     try {
-      await api.post(endpoints.events.create(), data);
+      if (seriesRule.frequency !== 'none') {
+        await createSeries(data);
+        return;
+      }
+
+      await api.post(endpoints.events.create(), data, { action: 'event.create', target: { type: 'event' } });
+      invalidateEventData('events');
       success('Event Created', 'The event has been created successfully.');
       setTimeout(() => router.push('/events'), 1000);
     } catch (err) {
@@ -61,8 +182,6 @@ export default function NewEventPage() {
 
   return (
     <div className="p-6 max-w-4xl mx-auto">
-      <ToastContainer toasts={toasts} onClose={closeToast} />
-      
       {/* Header */}
       <div className="mb-6">
         <button
@@ -72,10 +191,22 @@ export default function NewEventPage() {
           <ArrowLeft size={20} />
           Back to Events
         </button>
-        <h1 className="text-3xl font-bold text-gray-900">Create New Event</h1>
-        <p className="text-gray-600 mt-1">Fill in the details to create a new event</p>
+        <h1 className="text-3xl font-bold text-gray-900">{duplicateId ? 'Duplicate Event' : 'Create New Event'}</h1>
+        <p className="text-gray-600 mt-1">
+          {duplicateId
+            ? `Copy of ${sourceEventName ? `"${sourceEventName}"` : 'an existing event'}. Pick a date for the new event.`
+            : 'Fill in the details to create a new event'}
+        </p>
       </div>
 
+      {saveTemplateOpen && (
+        <SaveTemplateDialog
+          defaultName={getValues('venueName') || getValues('eventName')}
+          onClose={() => setSaveTemplateOpen(false)}
+          onSave={handleSaveTemplate}
+        />
+      )}
+
       {error && (
         <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
           {error}
@@ -83,6 +214,10 @@ export default function NewEventPage() {
       )}
 
       <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
+        {templates.length > 0 && (
+          <TemplatePicker templates={templates} onApply={handleApplyTemplate} onDelete={handleDeleteTemplate} />
+        )}
+
         {/* Event Details Section */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center gap-2 mb-4">
@@ -127,7 +262,7 @@ export default function NewEventPage() {
               )}
             </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="eventDate" className="block text-sm font-medium text-gray-700 mb-1">
                   Event Date *
@@ -145,6 +280,26 @@ export default function NewEventPage() {
                 )}
               </div>
 
+              <div>
+                <label htmlFor="eventEndDate" className="block text-sm font-medium text-gray-700 mb-1">
+                  End Date
+                </label>
+                <input
+                  type="date"
+                  id="eventEndDate"
+                  {...register('eventEndDate')}
+                  min={eventDate || undefined}
+                  className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                    errors.eventEndDate ? 'border-red-500' : 'border-gray-300'
+                  }`}
+                />
+                {errors.eventEndDate ? (
+                  <p className="mt-1 text-sm text-red-600">{errors.eventEndDate.message}</p>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-500">For overnight and multi-day events</p>
+                )}
+              </div>
+
               <div>
                 <label htmlFor="eventStartTime" className="block text-sm font-medium text-gray-700 mb-1">
                   Start Time *
@@ -180,6 +335,39 @@ export default function NewEventPage() {
               </div>
             </div>
 
+            <div>
+              <label htmlFor="timeZone" className="block text-sm font-medium text-gray-700 mb-1">
+                Time Zone *
+              </label>
+              <select
+                id="timeZone"
+                {...register('timeZone')}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.timeZone ? 'border-red-500' : 'border-gray-300'
+                }`}
+              >
+                <optgroup label={addressFormat.name}>
+                  {addressFormat.timeZones.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </optgroup>
+                <optgroup label="All time zones">
+                  {timeZones.map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone.replace(/_/g, ' ')}
+                    </option>
+                  ))}
+                </optgroup>
+              </select>
+              {errors.timeZone ? (
+                <p className="mt-1 text-sm text-red-600">{errors.timeZone.message}</p>
+              ) : (
+                viewerTime && <p className="mt-1 text-sm text-gray-500">Your time: {viewerTime}</p>
+              )}
+            </div>
+
             <div>
               <label htmlFor="dressCode" className="block text-sm font-medium text-gray-700 mb-1">
                 Dress Code *
@@ -200,6 +388,21 @@ export default function NewEventPage() {
           </div>
         </div>
 
+        <AgendaFields
+          control={control}
+          register={register}
+          errors={errors}
+          eventDate={eventDate}
+          eventEndDate={eventEndDate}
+        />
+
+        <RecurrenceFields
+          rule={seriesRule}
+          onChange={setSeriesRule}
+          startDate={eventDate}
+          error={seriesError}
+        />
+
         {/* Venue Section */}
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
           <div className="flex items-center gap-2 mb-4">
@@ -244,6 +447,28 @@ export default function NewEventPage() {
               )}
             </div>
 
+            <div>
+              <label htmlFor="venueCountry" className="block text-sm font-medium text-gray-700 mb-1">
+                Country *
+              </label>
+              <select
+                id="venueCountry"
+                {...register('venueCountry')}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.venueCountry ? 'border-red-500' : 'border-gray-300'
+                }`}
+              >
+                {COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {country.name}
+                  </option>
+                ))}
+              </select>
+              {errors.venueCountry && (
+                <p className="mt-1 text-sm text-red-600">{errors.venueCountry.message}</p>
+              )}
+            </div>
+
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <div>
                 <label htmlFor="venueCity" className="block text-sm font-medium text-gray-700 mb-1">
@@ -264,17 +489,17 @@ export default function NewEventPage() {
 
               <div>
                 <label htmlFor="venueState" className="block text-sm font-medium text-gray-700 mb-1">
-                  State *
+                  {addressFormat.regionLabel}
+                  {addressFormat.regionRequired && ' *'}
                 </label>
                 <input
                   type="text"
                   id="venueState"
                   {...register('venueState')}
-                  maxLength={2}
                   className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
                     errors.venueState ? 'border-red-500' : 'border-gray-300'
                   }`}
-                  placeholder="e.g., CA"
+                  placeholder={addressFormat.regionExample ? `e.g., ${addressFormat.regionExample}` : undefined}
                 />
                 {errors.venueState && (
                   <p className="mt-1 text-sm text-red-600">{errors.venueState.message}</p>
@@ -283,7 +508,7 @@ export default function NewEventPage() {
 
               <div>
                 <label htmlFor="venueZipCode" className="block text-sm font-medium text-gray-700 mb-1">
-                  Zip Code *
+                  {addressFormat.postalLabel} *
                 </label>
                 <input
                   type="text"
@@ -292,7 +517,7 @@ export default function NewEventPage() {
                   className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
                     errors.venueZipCode ? 'border-red-500' : 'border-gray-300'
                   }`}
-                  placeholder="12345"
+                  placeholder={addressFormat.postalExample}
                 />
                 {errors.venueZipCode && (
                   <p className="mt-1 text-sm text-red-600">{errors.venueZipCode.message}</p>
@@ -351,6 +576,15 @@ export default function NewEventPage() {
 
         {/* Form Actions */}
         <div className="flex items-center justify-end gap-4">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => setSaveTemplateOpen(true)}
+            icon={<BookmarkPlus size={18} />}
+            className="mr-auto"
+          >
+            Save as Template
+          </Button>
           <Button
             type="button"
             variant="secondary"
@@ -362,12 +596,20 @@ export default function NewEventPage() {
             type="submit"
             variant="primary"
             loading={loading}
-            disabled={!isValid}
+            disabled={!isValid || seriesError !== null}
           >
-            Create Event
+            {seriesRule.frequency === 'none' ? 'Create Event' : `Create ${seriesDates.length} Events`}
           </Button>
         </div>
       </form>
     </div>
   );
-}
\ No newline at end of file
+}
+
+export default function NewEventPage() {
+  return (
+    <Suspense fallback={<LoadingSpinner message="Loading..." />}>
+      <NewEventContent />
+    </Suspense>
+  );
+}
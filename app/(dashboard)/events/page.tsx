@@ -2,14 +2,19 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { Plus, Search, Calendar, MapPin, Users, Trash2, Edit } from 'lucide-react';
+import { Plus, Search, Calendar, MapPin, Users, Trash2, Edit, Radio, ListOrdered, Copy, Repeat } from 'lucide-react';
 import { api, endpoints, getErrorMessage } from '@/lib/api';
 import { Event } from '@/lib/types';
+import { invalidateEventData } from '@/lib/eventData';
+import { getSeriesPosition, listSeries } from '@/lib/eventSeries';
+import { formatEventDateRange, getEventStatus } from '@/lib/eventSchedule';
+import { formatEventTimes } from '@/lib/eventTime';
+import { formatVenueLocality } from '@/lib/venueAddress';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorMessage from '@/components/ui/ErrorMessage';
 import ConfirmDialog from '@/components/ui/ConfirmDialog';
-import { useToast } from '@/lib/hooks/useToast';
-import { ToastContainer } from '@/components/ui/Toast';
+import { useNotify } from '@/components/ui/FeedbackProvider';
+import { usePermissions } from '@/lib/hooks/usePermissions';
 
 type SortField = 'eventName' | 'eventDate' | 'capacity' | 'currentRegistrations';
 type SortOrder = 'asc' | 'desc';
@@ -21,6 +26,8 @@ export default function EventsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
+  // Empty for every event, otherwise the id of the series to show
+  const [seriesFilter, setSeriesFilter] = useState('');
   const [sortField, setSortField] = useState<SortField>('eventDate');
   const [sortOrder, setSortOrder] = useState<SortOrder>('asc');
   const [currentPage, setCurrentPage] = useState(1);
@@ -28,7 +35,8 @@ export default function EventsPage() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [eventToDelete, setEventToDelete] = useState<{ id: string; name: string } | null>(null);
   const [deleting, setDeleting] = useState(false);
-  const { toasts, closeToast, success, error: showError } = useToast();
+  const { success, error: showError } = useNotify();
+  const { can } = usePermissions();
 
   useEffect(() => {
     fetchEvents();
@@ -36,7 +44,7 @@ export default function EventsPage() {
 
   useEffect(() => {
     filterAndSortEvents();
-  }, [events, searchQuery, sortField, sortOrder]);
+  }, [events, searchQuery, seriesFilter, sortField, sortOrder]);
 
   const fetchEvents = async () => {
     try {
@@ -54,6 +62,10 @@ export default function EventsPage() {
   const filterAndSortEvents = () => {
     let filtered = [...events];
 
+    if (seriesFilter) {
+      filtered = filtered.filter((event) => event.seriesId === seriesFilter);
+    }
+
     // Apply search filter
     if (searchQuery) {
       const query = searchQuery.toLowerCase();
@@ -103,7 +115,12 @@ export default function EventsPage() {
 
     try {
       setDeleting(true);
-      await api.delete(endpoints.events.delete(eventToDelete.id));
+      await api.delete(endpoints.events.delete(eventToDelete.id), {
+        action: 'event.delete',
+        target: { type: 'event', id: eventToDelete.id },
+        eventId: eventToDelete.id,
+      });
+      invalidateEventData();
       setEvents(events.filter((e) => e.id !== eventToDelete.id));
       success('Event Deleted', `"${eventToDelete.name}" has been deleted successfully.`);
       setDeleteDialogOpen(false);
@@ -116,17 +133,6 @@ export default function EventsPage() {
     }
   };
 
-  const getEventStatus = (eventDate: string): 'upcoming' | 'ongoing' | 'past' => {
-    const now = new Date();
-    const date = new Date(eventDate);
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const eventDay = new Date(date.getFullYear(), date.getMonth(), date.getDate());
-
-    if (eventDay > today) return 'upcoming';
-    if (eventDay.getTime() === today.getTime()) return 'ongoing';
-    return 'past';
-  };
-
   const getCapacityColor = (current: number, total: number): string => {
     const utilization = (current / total) * 100;
     if (utilization >= 90) return 'text-red-600';
@@ -139,6 +145,24 @@ export default function EventsPage() {
   const startIndex = (currentPage - 1) * pageSize;
   const endIndex = startIndex + pageSize;
   const paginatedEvents = filteredEvents.slice(startIndex, endIndex);
+  const seriesOptions = listSeries(events);
+
+  // Badge linking an event to the rest of its series; clicking it lists just that series
+  const renderSeriesBadge = (event: Event) => {
+    const position = getSeriesPosition(events, event);
+    if (!position || !event.seriesId) return null;
+    const seriesId = event.seriesId;
+    return (
+      <button
+        onClick={() => setSeriesFilter(seriesId)}
+        className="inline-flex items-center gap-1 mt-1 px-2 py-0.5 rounded-full bg-purple-50 text-purple-700 text-xs font-medium hover:bg-purple-100 transition-colors"
+        title="Show this series"
+      >
+        <Repeat size={12} />
+        Series · {position.index} of {position.total}
+      </button>
+    );
+  };
 
   if (loading) {
     return <LoadingSpinner message="Loading events..." />;
@@ -150,8 +174,6 @@ export default function EventsPage() {
 
   return (
     <div className="p-4 md:p-6">
-      <ToastContainer toasts={toasts} onClose={closeToast} />
-      
       <ConfirmDialog
         isOpen={deleteDialogOpen}
         onClose={() => {
@@ -178,14 +200,16 @@ export default function EventsPage() {
           <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Events</h1>
           <p className="text-gray-600 mt-1 text-sm md:text-base">Manage your RSVP events</p>
         </div>
-        <button
-          onClick={() => router.push('/events/new')}
-          className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors whitespace-nowrap"
-        >
-          <Plus size={20} />
-          <span className="hidden sm:inline">Create Event</span>
-          <span className="sm:hidden">Create</span>
-        </button>
+        {can('events:manage') && (
+          <button
+            onClick={() => router.push('/events/new')}
+            className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors whitespace-nowrap"
+          >
+            <Plus size={20} />
+            <span className="hidden sm:inline">Create Event</span>
+            <span className="sm:hidden">Create</span>
+          </button>
+        )}
       </div>
 
       {/* Search and Filters */}
@@ -201,6 +225,20 @@ export default function EventsPage() {
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
+          {seriesOptions.length > 0 && (
+            <select
+              value={seriesFilter}
+              onChange={(e) => setSeriesFilter(e.target.value)}
+              className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All events</option>
+              {seriesOptions.map((series) => (
+                <option key={series.id} value={series.id}>
+                  {series.name} ({series.count} events)
+                </option>
+              ))}
+            </select>
+          )}
           <select
             value={pageSize}
             onChange={(e) => setPageSize(Number(e.target.value))}
@@ -285,9 +323,10 @@ export default function EventsPage() {
                 </tr>
               ) : (
                 paginatedEvents.map((event) => {
-                  const status = getEventStatus(event.eventDate);
+                  const status = getEventStatus(event);
                   const capacityColor = getCapacityColor(event.currentRegistrations, event.capacity);
                   const utilization = Math.round((event.currentRegistrations / event.capacity) * 100);
+                  const times = formatEventTimes(event);
 
                   return (
                     <tr key={event.id} className="hover:bg-gray-50">
@@ -296,17 +335,16 @@ export default function EventsPage() {
                           <Calendar size={16} className="text-gray-400" />
                           <div>
                             <div className="font-medium text-gray-900">{event.eventName}</div>
-                            <div className="text-sm text-gray-500">{event.eventStartTime} - {event.eventEndTime}</div>
+                            <div className="text-sm text-gray-500">{times.eventTime}</div>
+                            {times.viewerTime && (
+                              <div className="text-xs text-gray-400">Your time: {times.viewerTime}</div>
+                            )}
+                            {renderSeriesBadge(event)}
                           </div>
                         </div>
                       </td>
                       <td className="px-6 py-4 text-sm text-gray-900">
-                        {new Date(event.eventDate).toLocaleDateString('en-US', {
-                          month: 'short',
-                          day: 'numeric',
-                          year: 'numeric',
-                          timeZone: 'UTC',
-                        })}
+                        {formatEventDateRange(event)}
                       </td>
                       <td className="px-6 py-4">
                         <div className="flex items-center gap-2">
@@ -314,7 +352,7 @@ export default function EventsPage() {
                           <div>
                             <div className="text-sm text-gray-900">{event.venueName}</div>
                             <div className="text-xs text-gray-500">
-                              {event.venueCity}, {event.venueState}
+                              {formatVenueLocality(event)}
                             </div>
                           </div>
                         </div>
@@ -349,19 +387,46 @@ export default function EventsPage() {
                       <td className="px-6 py-4 text-right">
                         <div className="flex items-center justify-end gap-2">
                           <button
-                            onClick={() => router.push(`/dashboard/events/${event.id}`)}
-                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
-                            title="Edit event"
+                            onClick={() => router.push(`/events/${event.id}/live`)}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors"
+                            title="Live door count"
                           >
-                            <Edit size={18} />
+                            <Radio size={18} />
                           </button>
                           <button
-                            onClick={() => handleDelete(event.id, event.eventName)}
-                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                            title="Delete event"
+                            onClick={() => router.push(`/events/${event.id}/waitlist`)}
+                            className="p-2 text-yellow-600 hover:bg-yellow-50 rounded-lg transition-colors"
+                            title="Waitlist"
                           >
-                            <Trash2 size={18} />
+                            <ListOrdered size={18} />
                           </button>
+                          {can('events:manage') && (
+                            <button
+                              onClick={() => router.push(`/dashboard/events/${event.id}`)}
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                              title="Edit event"
+                            >
+                              <Edit size={18} />
+                            </button>
+                          )}
+                          {can('events:manage') && (
+                            <button
+                              onClick={() => router.push(`/events/new?duplicate=${event.id}`)}
+                              className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                              title="Duplicate event"
+                            >
+                              <Copy size={18} />
+                            </button>
+                          )}
+                          {can('events:delete') && (
+                            <button
+                              onClick={() => handleDelete(event.id, event.eventName)}
+                              className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              title="Delete event"
+                            >
+                              <Trash2 size={18} />
+                            </button>
+                          )}
                         </div>
                       </td>
                     </tr>
@@ -380,26 +445,26 @@ export default function EventsPage() {
             </div>
           ) : (
             paginatedEvents.map((event) => {
-              const status = getEventStatus(event.eventDate);
+              const status = getEventStatus(event);
               const capacityColor = getCapacityColor(event.currentRegistrations, event.capacity);
               const utilization = Math.round((event.currentRegistrations / event.capacity) * 100);
+              const times = formatEventTimes(event);
 
               return (
                 <div key={event.id} className="p-4 hover:bg-gray-50">
                   <div className="flex items-start justify-between mb-3">
                     <div className="flex-1">
                       <h3 className="font-medium text-gray-900 mb-1">{event.eventName}</h3>
+                      {event.seriesId && <div className="mb-1">{renderSeriesBadge(event)}</div>}
                       <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
                         <Calendar size={14} />
                         <span>
-                          {new Date(event.eventDate).toLocaleDateString('en-US', {
-                            month: 'short',
-                            day: 'numeric',
-                            year: 'numeric',
-                            timeZone: 'UTC',
-                          })}
+                          {formatEventDateRange(event)} · {times.eventTime}
                         </span>
                       </div>
+                      {times.viewerTime && (
+                        <div className="text-xs text-gray-400 mb-1">Your time: {times.viewerTime}</div>
+                      )}
                       <div className="flex items-center gap-2 text-sm text-gray-500">
                         <MapPin size={14} />
                         <span>{event.venueName}, {event.venueCity}</span>
@@ -430,19 +495,46 @@ export default function EventsPage() {
 
                   <div className="flex items-center gap-2">
                     <button
-                      onClick={() => router.push(`/dashboard/events/${event.id}`)}
-                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                      onClick={() => router.push(`/events/${event.id}/live`)}
+                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm text-green-600 bg-green-50 hover:bg-green-100 rounded-lg transition-colors"
                     >
-                      <Edit size={16} />
-                      Edit
+                      <Radio size={16} />
+                      Live
                     </button>
                     <button
-                      onClick={() => handleDelete(event.id, event.eventName)}
-                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+                      onClick={() => router.push(`/events/${event.id}/waitlist`)}
+                      className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm text-yellow-600 bg-yellow-50 hover:bg-yellow-100 rounded-lg transition-colors"
                     >
-                      <Trash2 size={16} />
-                      Delete
+                      <ListOrdered size={16} />
+                      Waitlist
                     </button>
+                    {can('events:manage') && (
+                      <button
+                        onClick={() => router.push(`/dashboard/events/${event.id}`)}
+                        className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors"
+                      >
+                        <Edit size={16} />
+                        Edit
+                      </button>
+                    )}
+                    {can('events:manage') && (
+                      <button
+                        onClick={() => router.push(`/events/new?duplicate=${event.id}`)}
+                        className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm text-gray-600 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+                      >
+                        <Copy size={16} />
+                        Copy
+                      </button>
+                    )}
+                    {can('events:delete') && (
+                      <button
+                        onClick={() => handleDelete(event.id, event.eventName)}
+                        className="flex-1 flex items-center justify-center gap-2 px-3 py-2 text-sm text-red-600 bg-red-50 hover:bg-red-100 rounded-lg transition-colors"
+                      >
+                        <Trash2 size={16} />
+                        Delete
+                      </button>
+                    )}
                   </div>
                 </div>
               );
@@ -6,8 +6,8 @@ import { api, endpoints, getErrorMessage } from '@/lib/api';
 import { Event } from '@/lib/types';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorMessage from '@/components/ui/ErrorMessage';
-import { useToast } from '@/lib/hooks/useToast';
-import { ToastContainer } from '@/components/ui/Toast';
+import { useNotify } from '@/components/ui/FeedbackProvider';
+import { usePermissions } from '@/lib/hooks/usePermissions';
 
 interface GeneratedToken {
   token: string;
@@ -39,7 +39,8 @@ export default function GenerateTokensPage() {
   const [generatedTokens, setGeneratedTokens] = useState<GeneratedToken[]>([]);
   const [tokenHistory, setTokenHistory] = useState<TokenHistory[]>([]);
   const [copiedUrl, setCopiedUrl] = useState<string | null>(null);
-  const { toasts, closeToast, success, error: showError } = useToast();
+  const { success, error: showError } = useNotify();
+  const { can } = usePermissions();
 
   useEffect(() => {
     fetchEvents();
@@ -119,7 +120,8 @@ export default function GenerateTokensPage() {
       
       const response = await api.post<{ tokens: GeneratedToken[] }>(
         `/admin/events/${selectedEventId}/generate-tokens`,
-        { count }
+        { count },
+        { action: 'tokens.generate', target: { type: 'event', id: selectedEventId }, eventId: selectedEventId }
       );
 
       setGeneratedTokens(response.tokens);
@@ -179,8 +181,6 @@ export default function GenerateTokensPage() {
 
   return (
     <div className="p-4 md:p-6">
-      <ToastContainer toasts={toasts} onClose={closeToast} />
-      
       {/* Header */}
       <div className="mb-6">
         <div className="flex items-center gap-3 mb-2">
@@ -244,7 +244,8 @@ export default function GenerateTokensPage() {
 
         <button
           onClick={handleGenerateTokens}
-          disabled={generating || !selectedEventId}
+          disabled={generating || !selectedEventId || !can('tokens:generate')}
+          title={can('tokens:generate') ? undefined : 'Your role cannot generate tokens'}
           className="w-full md:w-auto flex items-center justify-center gap-2 bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {generating ? (
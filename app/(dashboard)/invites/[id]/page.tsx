@@ -4,7 +4,11 @@ import { useEffect, useState } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { ArrowLeft, Mail, Calendar, Clock, CheckCircle, XCircle, Copy, Send, Download, ExternalLink } from 'lucide-react';
 import { api, endpoints, getErrorMessage } from '@/lib/api';
-import { Invite } from '@/lib/types';
+import { invalidateEventData } from '@/lib/eventData';
+import { useInvite } from '@/lib/hooks/useEventData';
+import { usePermissions } from '@/lib/hooks/usePermissions';
+import { useConfirm, useNotify } from '@/components/ui/FeedbackProvider';
+import HistoryPanel from '@/components/audit/HistoryPanel';
 
 type InviteStatus = 'pending' | 'accepted' | 'expired';
 
@@ -13,68 +17,29 @@ export default function InviteDetailsPage() {
   const params = useParams();
   const inviteId = params.id as string;
 
-  const [invite, setInvite] = useState<Invite | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const { invite, loading, error, refresh } = useInvite(inviteId);
   const [resending, setResending] = useState(false);
+  const confirm = useConfirm();
+  const { success, error: showError } = useNotify();
+  const { can } = usePermissions();
   const [copiedUrl, setCopiedUrl] = useState(false);
   const [copiedToken, setCopiedToken] = useState(false);
   const [qrCodeUrl, setQrCodeUrl] = useState<string | null>(null);
 
+  // Fetch QR code if invite is used (has attendee)
+  const attendeeId = invite?.isUsed ? invite.attendee?.id : undefined;
+
   useEffect(() => {
-    fetchInviteDetails();
-  }, [inviteId]);
+    if (!attendeeId) return;
+    fetchQrCode(attendeeId);
+  }, [attendeeId]);
 
-  const fetchInviteDetails = async () => {
+  const fetchQrCode = async (id: string) => {
     try {
-      setLoading(true);
-      setError(null);
-
-      // Fetch all events to find the invite
-      const events = await api.get<any[]>(endpoints.events.list());
-      
-      let foundInvite: Invite | null = null;
-      for (const event of events) {
-        try {
-          const invites = await api.get<Invite[]>(endpoints.invites.list(event.id));
-          const invite = invites.find(inv => inv.id === inviteId);
-          if (invite) {
-            foundInvite = {
-              ...invite,
-              event: {
-                eventName: event.eventName,
-                eventDate: event.eventDate,
-              }
-            };
-            break;
-          }
-        } catch (err) {
-          console.error(`Failed to fetch invites for event ${event.id}:`, err);
-        }
-      }
-
-      if (!foundInvite) {
-        setError('Invite not found');
-        return;
-      }
-
-      setInvite(foundInvite);
-
-      // Fetch QR code if invite is used (has attendee)
-      if (foundInvite.isUsed && foundInvite.attendee) {
-        try {
-          const qrData = await api.get<{ qrCode: string }>(
-            endpoints.qr.attendee(foundInvite.attendee.id)
-          );
-          setQrCodeUrl(qrData.qrCode);
-        } catch (err) {
-          console.error('Failed to fetch QR code:', err);
-        }
-      }
+      const qrData = await api.get<{ qrCode: string }>(endpoints.qr.attendee(id));
+      setQrCodeUrl(qrData.qrCode);
     } catch (err) {
-      setError(getErrorMessage(err));
-    } finally {
-      setLoading(false);
+      console.error('Failed to fetch QR code:', err);
     }
   };
 
@@ -88,16 +53,27 @@ export default function InviteDetailsPage() {
   const handleResend = async () => {
     if (!invite) return;
 
-    if (!confirm(`Resend invitation to ${invite.email}?`)) {
-      return;
-    }
+    const confirmed = await confirm({
+      title: 'Resend Invitation',
+      message: `Resend the invitation email to ${invite.email}?`,
+      confirmText: 'Resend',
+      variant: 'info',
+    });
+
+    if (!confirmed) return;
 
     try {
       setResending(true);
-      await api.post(endpoints.invites.resend(invite.id));
-      alert('Invitation email resent successfully!');
+      await api.post(endpoints.invites.resend(invite.id), undefined, {
+        action: 'invite.resend',
+        target: { type: 'invite', id: invite.id },
+        eventId: invite.eventId,
+      });
+      invalidateEventData('invite');
+      refresh();
+      success('Invitation Resent', `Invitation email sent to ${invite.email}`);
     } catch (err) {
-      alert(getErrorMessage(err));
+      showError('Failed to Resend Invitation', getErrorMessage(err));
     } finally {
       setResending(false);
     }
@@ -373,38 +349,42 @@ export default function InviteDetailsPage() {
               </div>
             </div>
           )}
+
+          <HistoryPanel type="invite" id={invite.id} />
         </div>
 
         {/* Sidebar */}
         <div className="space-y-6">
           {/* Actions */}
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <h2 className="text-lg font-semibold text-gray-900 mb-4">Actions</h2>
-            <div className="space-y-3">
-              <button
-                onClick={handleResend}
-                disabled={resending || status === 'accepted'}
-                className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-              >
-                {resending ? (
-                  <>
-                    <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                    Sending...
-                  </>
-                ) : (
-                  <>
-                    <Send size={20} />
-                    Resend Invitation
-                  </>
+          {can('invites:manage') && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Actions</h2>
+              <div className="space-y-3">
+                <button
+                  onClick={handleResend}
+                  disabled={resending || status === 'accepted'}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {resending ? (
+                    <>
+                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+                      Sending...
+                    </>
+                  ) : (
+                    <>
+                      <Send size={20} />
+                      Resend Invitation
+                    </>
+                  )}
+                </button>
+                {status === 'accepted' && (
+                  <p className="text-xs text-gray-500 text-center">
+                    This invite has been accepted and cannot be resent
+                  </p>
                 )}
-              </button>
-              {status === 'accepted' && (
-                <p className="text-xs text-gray-500 text-center">
-                  This invite has been accepted and cannot be resent
-                </p>
-              )}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* QR Code */}
           {qrCodeUrl && (
@@ -7,11 +7,12 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { ArrowLeft, Mail, Send, Plus, X } from 'lucide-react';
 import { api, endpoints, getErrorMessage } from '@/lib/api';
 import { Event } from '@/lib/types';
+import { invalidateEventData } from '@/lib/eventData';
 import { inviteSchema, InviteFormData } from '@/lib/validation';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import Button from '@/components/ui/Button';
-import { useToast } from '@/lib/hooks/useToast';
-import { ToastContainer } from '@/components/ui/Toast';
+import GuestListImport from '@/components/invites/GuestListImport';
+import { useNotify } from '@/components/ui/FeedbackProvider';
 
 interface BulkInvite {
   email: string;
@@ -24,7 +25,7 @@ export default function NewInvitePage() {
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [mode, setMode] = useState<'single' | 'bulk'>('single');
-  const { toasts, closeToast, success, error: showError } = useToast();
+  const { success, error: showError } = useNotify();
   
   // Single invite form with React Hook Form
   const {
@@ -77,7 +78,12 @@ export default function NewInvitePage() {
       setSubmitting(true);
       setError(null);
 
-      await api.post(endpoints.invites.create(), data);
+      await api.post(endpoints.invites.create(), data, {
+        action: 'invite.create',
+        target: { type: 'invite' },
+        eventId: data.eventId,
+      });
+      invalidateEventData('invite');
       
       success('Invite Created', 'The invitation has been sent successfully.');
       setTimeout(() => router.push('/invites'), 1000);
@@ -128,11 +134,16 @@ export default function NewInvitePage() {
       // Filter out empty emails
       const validInvites = bulkInvites.filter(inv => inv.email.trim());
 
-      const response = await api.post<{ created: number; failed: number }>('/invite/bulk-create', {
-        eventId: bulkEventId,
-        sendEmails: bulkSendEmails,
-        invites: validInvites,
-      });
+      const response = await api.post<{ created: number; failed: number }>(
+        '/invite/bulk-create',
+        {
+          eventId: bulkEventId,
+          sendEmails: bulkSendEmails,
+          invites: validInvites,
+        },
+        { action: 'invite.bulk_create', target: { type: 'event', id: bulkEventId }, eventId: bulkEventId }
+      );
+      invalidateEventData('invite');
 
       success('Invites Created', `Successfully created ${response.created} invites. ${response.failed} failed.`);
       setTimeout(() => router.push('/invites'), 1000);
@@ -145,6 +156,15 @@ export default function NewInvitePage() {
     }
   };
 
+  // The import stays on screen afterwards so its report can be downloaded
+  const handleImportComplete = (created: number, failed: number) => {
+    if (failed > 0) {
+      showError('Import Finished With Errors', `${created} invites created, ${failed} failed. Download the report for details.`);
+    } else {
+      success('Invites Imported', `Successfully created ${created} invites.`);
+    }
+  };
+
   const addBulkInvite = () => {
     setBulkInvites([...bulkInvites, { email: '' }]);
   };
@@ -181,8 +201,6 @@ export default function NewInvitePage() {
 
   return (
     <div className="p-6">
-      <ToastContainer toasts={toasts} onClose={closeToast} />
-      
       {/* Header */}
       <div className="mb-6">
         <button
@@ -356,6 +374,15 @@ export default function NewInvitePage() {
               </label>
             </div>
 
+            {/* Guest List Import */}
+            {bulkEventId && (
+              <GuestListImport
+                eventId={bulkEventId}
+                sendEmails={bulkSendEmails}
+                onComplete={handleImportComplete}
+              />
+            )}
+
             {/* Bulk Invites List */}
             <div>
               <div className="flex items-center justify-between mb-3">
@@ -1,148 +1,87 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { Suspense, useCallback, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Plus, Search, Mail, Eye, Send, Copy, CheckCircle, XCircle, Clock } from 'lucide-react';
 import { api, endpoints, getErrorMessage } from '@/lib/api';
-import { Invite, Event } from '@/lib/types';
+import { Invite } from '@/lib/types';
+import { ALL_EVENTS, fetchInvites, invalidateEventData } from '@/lib/eventData';
+import { ANY, ClientQueryOptions, PAGE_SIZE_OPTIONS, TableQuery, fetchTablePage } from '@/lib/tableQuery';
+import { useEvents } from '@/lib/hooks/useEventData';
+import { useTablePage, useTableQuery } from '@/lib/hooks/useTableQuery';
+import { usePermissions } from '@/lib/hooks/usePermissions';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorMessage from '@/components/ui/ErrorMessage';
 import ConfirmDialog from '@/components/ui/ConfirmDialog';
-import { useToast } from '@/lib/hooks/useToast';
-import { ToastContainer } from '@/components/ui/Toast';
+import { useNotify } from '@/components/ui/FeedbackProvider';
 
 type SortField = 'email' | 'createdAt' | 'expiresAt';
-type SortOrder = 'asc' | 'desc';
 type InviteStatus = 'pending' | 'accepted' | 'expired';
 
-export default function InvitesPage() {
+const DEFAULT_QUERY: TableQuery = {
+  page: 1,
+  pageSize: 50,
+  sortField: 'createdAt',
+  sortOrder: 'desc',
+  search: '',
+  filters: { eventId: ALL_EVENTS, status: ANY },
+};
+
+const getInviteStatus = (invite: Invite): InviteStatus => {
+  if (invite.isUsed) return 'accepted';
+  if (new Date(invite.expiresAt) < new Date()) return 'expired';
+  return 'pending';
+};
+
+// Used when the backend cannot query invites itself
+const clientQuery: ClientQueryOptions<Invite> = {
+  searchText: (invite) => [invite.email, invite.token],
+  filterValue: (invite, filter) => {
+    if (filter === 'status') return getInviteStatus(invite);
+    if (filter === 'eventId') return invite.eventId;
+    return undefined;
+  },
+  sortValue: (invite, field) => {
+    if (field === 'createdAt' || field === 'expiresAt') return new Date(invite[field]).getTime();
+    return invite.email;
+  },
+};
+
+function InvitesContent() {
   const router = useRouter();
-  const [invites, setInvites] = useState<Invite[]>([]);
-  const [events, setEvents] = useState<Event[]>([]);
-  const [filteredInvites, setFilteredInvites] = useState<Invite[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
-  const [statusFilter, setStatusFilter] = useState<InviteStatus | 'ALL'>('ALL');
-  const [eventFilter, setEventFilter] = useState<string>('ALL');
-  const [sortField, setSortField] = useState<SortField>('createdAt');
-  const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
-  const [currentPage, setCurrentPage] = useState(1);
-  const [pageSize, setPageSize] = useState(50);
+  const { query, setQuery, searchInput, setSearch, toggleSort } = useTableQuery(DEFAULT_QUERY);
+  const { events } = useEvents();
+  const loadInvites = useCallback(
+    (tableQuery: TableQuery) =>
+      fetchTablePage<Invite>(endpoints.invites.search(), tableQuery, {
+        // Only the selected event's invites are loaded
+        loadAll: () => fetchInvites(tableQuery.filters.eventId),
+        toRows: (items) => items,
+        client: clientQuery,
+      }),
+    []
+  );
+  const { items: invites, total, loaded, loading, error, refresh } = useTablePage(query, loadInvites);
   const [resendingId, setResendingId] = useState<string | null>(null);
   const [copiedToken, setCopiedToken] = useState<string | null>(null);
   const [resendDialogOpen, setResendDialogOpen] = useState(false);
-  const [inviteToResend, setInviteToResend] = useState<{ id: string; email: string } | null>(null);
-  const { toasts, closeToast, success, error: showError } = useToast();
-
-  useEffect(() => {
-    fetchData();
-  }, []);
+  const [inviteToResend, setInviteToResend] = useState<Invite | null>(null);
+  const { success, error: showError } = useNotify();
+  const { can } = usePermissions();
 
-  useEffect(() => {
-    filterAndSortInvites();
-  }, [invites, searchQuery, statusFilter, eventFilter, sortField, sortOrder]);
-
-  const fetchData = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      
-      // Fetch all events first
-      const eventsData = await api.get<Event[]>(endpoints.events.list());
-      setEvents(eventsData);
-
-      // Fetch invites for all events
-      const allInvites: Invite[] = [];
-      for (const event of eventsData) {
-        try {
-          const eventInvites = await api.get<Invite[]>(
-            endpoints.invites.list(event.id)
-          );
-          // Add event info to each invite
-          const invitesWithEvent = eventInvites.map(inv => ({
-            ...inv,
-            event: {
-              eventName: event.eventName,
-              eventDate: event.eventDate,
-            }
-          }));
-          allInvites.push(...invitesWithEvent);
-        } catch (err) {
-          console.error(`Failed to fetch invites for event ${event.id}:`, err);
-        }
-      }
-      
-      setInvites(allInvites);
-    } catch (err) {
-      setError(getErrorMessage(err));
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const getInviteStatus = (invite: Invite): InviteStatus => {
-    if (invite.isUsed) return 'accepted';
-    if (new Date(invite.expiresAt) < new Date()) return 'expired';
-    return 'pending';
-  };
-
-  const filterAndSortInvites = () => {
-    let filtered = [...invites];
-
-    // Apply search filter
-    if (searchQuery) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (invite) =>
-          invite.email.toLowerCase().includes(query) ||
-          invite.token.toLowerCase().includes(query)
-      );
-    }
-
-    // Apply status filter
-    if (statusFilter !== 'ALL') {
-      filtered = filtered.filter((invite) => getInviteStatus(invite) === statusFilter);
-    }
-
-    // Apply event filter
-    if (eventFilter !== 'ALL') {
-      filtered = filtered.filter((invite) => invite.eventId === eventFilter);
-    }
-
-    // Apply sorting
-    filtered.sort((a, b) => {
-      let aValue: any = a[sortField];
-      let bValue: any = b[sortField];
-
-      if (sortField === 'createdAt' || sortField === 'expiresAt') {
-        aValue = new Date(aValue).getTime();
-        bValue = new Date(bValue).getTime();
-      } else if (typeof aValue === 'string') {
-        aValue = aValue.toLowerCase();
-        bValue = bValue.toLowerCase();
-      }
-
-      if (aValue < bValue) return sortOrder === 'asc' ? -1 : 1;
-      if (aValue > bValue) return sortOrder === 'asc' ? 1 : -1;
-      return 0;
-    });
-
-    setFilteredInvites(filtered);
-    setCurrentPage(1);
-  };
+  const sortField = query.sortField as SortField;
+  const sortOrder = query.sortOrder;
+  const eventFilter = query.filters.eventId;
+  const statusFilter = query.filters.status as InviteStatus | 'ALL';
+  const currentPage = query.page;
+  const pageSize = query.pageSize;
 
   const handleSort = (field: SortField) => {
-    if (sortField === field) {
-      setSortOrder(sortOrder === 'asc' ? 'desc' : 'asc');
-    } else {
-      setSortField(field);
-      setSortOrder('asc');
-    }
+    toggleSort(field);
   };
 
-  const handleResend = async (inviteId: string, email: string) => {
-    setInviteToResend({ id: inviteId, email });
+  const handleResend = async (invite: Invite) => {
+    setInviteToResend(invite);
     setResendDialogOpen(true);
   };
 
@@ -151,7 +90,13 @@ export default function InvitesPage() {
 
     try {
       setResendingId(inviteToResend.id);
-      await api.post(endpoints.invites.resend(inviteToResend.id));
+      await api.post(endpoints.invites.resend(inviteToResend.id), undefined, {
+        action: 'invite.resend',
+        target: { type: 'invite', id: inviteToResend.id },
+        eventId: inviteToResend.eventId,
+      });
+      invalidateEventData('invite');
+      refresh();
       success('Invitation Resent', `Invitation email sent to ${inviteToResend.email}`);
       setResendDialogOpen(false);
       setInviteToResend(null);
@@ -197,23 +142,20 @@ export default function InvitesPage() {
   };
 
   // Pagination
-  const totalPages = Math.ceil(filteredInvites.length / pageSize);
+  const totalPages = Math.ceil(total / pageSize);
   const startIndex = (currentPage - 1) * pageSize;
   const endIndex = startIndex + pageSize;
-  const paginatedInvites = filteredInvites.slice(startIndex, endIndex);
 
-  if (loading) {
+  if (!loaded && loading) {
     return <LoadingSpinner message="Loading invites..." />;
   }
 
-  if (error) {
-    return <ErrorMessage message={error} onRetry={fetchData} />;
+  if (!loaded && error) {
+    return <ErrorMessage message={error} onRetry={refresh} />;
   }
 
   return (
     <div className="p-4 md:p-6">
-      <ToastContainer toasts={toasts} onClose={closeToast} />
-      
       <ConfirmDialog
         isOpen={resendDialogOpen}
         onClose={() => {
@@ -264,18 +206,18 @@ export default function InvitesPage() {
             <input
               type="text"
               placeholder="Search by email or token..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={searchInput}
+              onChange={(e) => setSearch(e.target.value)}
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
             />
           </div>
           
           <select
             value={eventFilter}
-            onChange={(e) => setEventFilter(e.target.value)}
+            onChange={(e) => setQuery({ filters: { eventId: e.target.value } })}
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
           >
-            <option value="ALL">All Events</option>
+            <option value={ALL_EVENTS}>All Events</option>
             {events.map((event) => (
               <option key={event.id} value={event.id}>
                 {event.eventName}
@@ -285,10 +227,10 @@ export default function InvitesPage() {
 
           <select
             value={statusFilter}
-            onChange={(e) => setStatusFilter(e.target.value as InviteStatus | 'ALL')}
+            onChange={(e) => setQuery({ filters: { status: e.target.value } })}
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
           >
-            <option value="ALL">All Statuses</option>
+            <option value={ANY}>All Statuses</option>
             <option value="pending">Pending</option>
             <option value="accepted">Accepted</option>
             <option value="expired">Expired</option>
@@ -297,17 +239,19 @@ export default function InvitesPage() {
 
         <div className="flex flex-col sm:flex-row items-stretch sm:items-center justify-between gap-4 mt-4 pt-4 border-t border-gray-200">
           <div className="text-sm text-gray-600">
-            Showing {filteredInvites.length} invite{filteredInvites.length !== 1 ? 's' : ''}
+            Showing {total} invite{total !== 1 ? 's' : ''}
+            {loading && <span className="ml-2 text-gray-400">Updating...</span>}
           </div>
           <select
             value={pageSize}
-            onChange={(e) => setPageSize(Number(e.target.value))}
+            onChange={(e) => setQuery({ pageSize: Number(e.target.value) })}
             className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
           >
-            <option value={10}>10 per page</option>
-            <option value={20}>20 per page</option>
-            <option value={50}>50 per page</option>
-            <option value={100}>100 per page</option>
+            {PAGE_SIZE_OPTIONS.map((size) => (
+              <option key={size} value={size}>
+                {size} per page
+              </option>
+            ))}
           </select>
         </div>
       </div>
@@ -363,16 +307,16 @@ export default function InvitesPage() {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {paginatedInvites.length === 0 ? (
+              {invites.length === 0 ? (
                 <tr>
                   <td colSpan={5} className="px-4 md:px-6 py-12 text-center text-gray-500 text-sm">
-                    {searchQuery || statusFilter !== 'ALL' || eventFilter !== 'ALL'
+                    {query.search || statusFilter !== ANY || eventFilter !== ALL_EVENTS
                       ? 'No invites found matching your filters.'
                       : 'No invites yet. Create your first invite!'}
                   </td>
                 </tr>
               ) : (
-                paginatedInvites.map((invite) => {
+                invites.map((invite) => {
                   const status = getInviteStatus(invite);
                   return (
                     <tr key={invite.id} className="hover:bg-gray-50">
@@ -419,18 +363,20 @@ export default function InvitesPage() {
                               <Copy size={18} />
                             )}
                           </button>
-                          <button
-                            onClick={() => handleResend(invite.id, invite.email)}
-                            disabled={resendingId === invite.id || status === 'accepted'}
-                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                            title="Resend invitation"
-                          >
-                            {resendingId === invite.id ? (
-                              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
-                            ) : (
-                              <Send size={18} />
-                            )}
-                          </button>
+                          {can('invites:manage') && (
+                            <button
+                              onClick={() => handleResend(invite)}
+                              disabled={resendingId === invite.id || status === 'accepted'}
+                              className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                              title="Resend invitation"
+                            >
+                              {resendingId === invite.id ? (
+                                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+                              ) : (
+                                <Send size={18} />
+                              )}
+                            </button>
+                          )}
                           <button
                             onClick={() => router.push(`/invites/${invite.id}`)}
                             className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
@@ -452,11 +398,11 @@ export default function InvitesPage() {
         {totalPages > 1 && (
           <div className="px-4 md:px-6 py-4 border-t border-gray-200 flex flex-col sm:flex-row items-center justify-between gap-4">
             <div className="text-sm text-gray-700">
-              Showing {startIndex + 1} to {Math.min(endIndex, filteredInvites.length)} of {filteredInvites.length} invites
+              Showing {startIndex + 1} to {Math.min(endIndex, total)} of {total} invites
             </div>
             <div className="flex items-center gap-2 flex-wrap justify-center">
               <button
-                onClick={() => setCurrentPage(currentPage - 1)}
+                onClick={() => setQuery({ page: currentPage - 1 })}
                 disabled={currentPage === 1}
                 className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
               >
@@ -476,7 +422,7 @@ export default function InvitesPage() {
                 return (
                   <button
                     key={page}
-                    onClick={() => setCurrentPage(page)}
+                    onClick={() => setQuery({ page })}
                     className={`px-3 py-1 rounded-lg text-sm ${
                       currentPage === page
                         ? 'bg-blue-600 text-white'
@@ -488,7 +434,7 @@ export default function InvitesPage() {
                 );
               })}
               <button
-                onClick={() => setCurrentPage(currentPage + 1)}
+                onClick={() => setQuery({ page: currentPage + 1 })}
                 disabled={currentPage === totalPages}
                 className="px-3 py-1 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
               >
@@ -501,3 +447,11 @@ export default function InvitesPage() {
     </div>
   );
 }
+
+export default function InvitesPage() {
+  return (
+    <Suspense fallback={<LoadingSpinner message="Loading invites..." />}>
+      <InvitesContent />
+    </Suspense>
+  );
+}
@@ -1,9 +1,12 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
 import Sidebar from '@/components/Sidebar';
-import { isAuthenticated, getUser } from '@/lib/auth';
+import SessionManager from '@/components/SessionManager';
+import { getLoginUrl, isAuthenticated } from '@/lib/auth';
+import { ROLE_LABELS, canAccessRoute, getHomeRoute } from '@/lib/permissions';
+import { usePermissions } from '@/lib/hooks/usePermissions';
 
 export default function DashboardLayout({
   children,
@@ -12,30 +15,25 @@ export default function DashboardLayout({
 }) {
   const router = useRouter();
   const pathname = usePathname();
-  const [userName, setUserName] = useState('Admin');
+  const { user, role } = usePermissions();
 
   useEffect(() => {
     // Check if user is authenticated (only on client side)
     if (!isAuthenticated()) {
-      router.push('/login');
+      router.push(getLoginUrl(pathname));
       return;
     }
 
-    // Get user name after component mounts to avoid hydration mismatch
-    const user = getUser();
-    if (user) {
-      setUserName(user.name || user.email || 'Admin');
-      
-      // Redirect check-in users to their dedicated page
-      if (user.role === 'checkin') {
-        router.push('/checkin');
-        return;
-      }
+    // Send users to their home page when their role cannot open this one
+    if (role && pathname && !canAccessRoute(role, pathname)) {
+      router.push(getHomeRoute(role));
     }
-  }, [router, pathname]);
+  }, [router, pathname, role]);
 
   return (
     <div className="flex min-h-screen bg-slate-50">
+      <SessionManager />
+
       {/* Sidebar */}
       <Sidebar />
 
@@ -52,9 +50,9 @@ export default function DashboardLayout({
             <div className="flex items-center gap-4">
               <div className="text-right">
                 <p className="text-sm font-medium text-slate-900">
-                  {userName}
+                  {user?.name || user?.email || 'Admin'}
                 </p>
-                <p className="text-xs text-slate-500">Administrator</p>
+                <p className="text-xs text-slate-500">{user ? ROLE_LABELS[user.role] : ''}</p>
               </div>
             </div>
           </div>
@@ -75,6 +73,8 @@ function getPageTitle(pathname: string | null): string {
   if (pathname.startsWith('/invites')) return 'Invites';
   if (pathname.startsWith('/analytics')) return 'Analytics';
   if (pathname.startsWith('/emails')) return 'Emails';
+  if (pathname.startsWith('/users')) return 'Users';
+  if (pathname.startsWith('/audit')) return 'Audit Log';
 
   return 'Dashboard';
 }
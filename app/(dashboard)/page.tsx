@@ -3,10 +3,12 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { api, endpoints, getErrorMessage } from '@/lib/api';
-import { DashboardStats, Event, Attendee } from '@/lib/types';
+import { DashboardStats } from '@/lib/types';
+import { ALL_EVENTS, fetchAttendees } from '@/lib/eventData';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ErrorMessage from '@/components/ui/ErrorMessage';
 import { isAuthenticated, getUser } from '@/lib/auth';
+import { getHomeRoute, hasPermission } from '@/lib/permissions';
 
 export default function DashboardPage() {
   const router = useRouter();
@@ -23,9 +25,9 @@ export default function DashboardPage() {
     }
 
     const user = getUser();
-    if (user && user.role === 'checkin') {
+    if (user && !hasPermission(user.role, 'dashboard:view')) {
       // Redirect check-in users to their dedicated page
-      router.push('/checkin');
+      router.push(getHomeRoute(user.role));
       return;
     }
 
@@ -41,20 +43,9 @@ export default function DashboardPage() {
       const data = await api.get<DashboardStats>(endpoints.admin.dashboardStats());
       setStats(data);
       
-      // Fetch all events to get attendees with plus ones
-      const events = await api.get<Event[]>(endpoints.events.list());
-      let totalCount = 0;
-      
-      for (const event of events) {
-        try {
-          const attendees = await api.get<Attendee[]>(`/admin/events/${event.id}/attendees`);
-          // Count attendees + their plus ones
-          totalCount += attendees.length;
-          totalCount += attendees.filter(a => a.plusOne).length;
-        } catch (err) {
-          console.warn(`Failed to fetch attendees for event ${event.id}:`, err);
-        }
-      }
+      // Count attendees + their plus ones across every event
+      const attendees = await fetchAttendees(ALL_EVENTS);
+      const totalCount = attendees.length + attendees.filter(a => a.plusOne).length;
       
       setTotalAttendeesWithPlusOnes(totalCount);
     } catch (err) {
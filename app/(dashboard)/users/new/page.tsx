@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Controller, useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { ArrowLeft, CalendarCheck, Shield, UserPlus } from 'lucide-react';
+import { api, endpoints, getErrorMessage } from '@/lib/api';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, USER_ROLES } from '@/lib/permissions';
+import { userInviteSchema, UserInviteFormData } from '@/lib/validation';
+import { useEvents } from '@/lib/hooks/useEventData';
+import Button from '@/components/ui/Button';
+import { useNotify } from '@/components/ui/FeedbackProvider';
+import EventChecklist from '@/components/users/EventChecklist';
+
+export default function InviteUserPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { events } = useEvents();
+  const { success, error: showError } = useNotify();
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    formState: { errors, isValid },
+  } = useForm<UserInviteFormData>({
+    resolver: zodResolver(userInviteSchema),
+    mode: 'onChange',
+    defaultValues: {
+      name: '',
+      email: '',
+      role: 'checkin',
+      eventIds: [],
+    },
+  });
+  const role = useWatch({ control, name: 'role' });
+
+  const onSubmit = async (data: UserInviteFormData) => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      // Event assignments only apply to check-in staff
+      await api.post(
+        endpoints.users.invite(),
+        {
+          ...data,
+          eventIds: data.role === 'checkin' ? data.eventIds : undefined,
+        },
+        { action: 'user.invite', target: { type: 'user' } }
+      );
+      success('Invitation Sent', `${data.email} will receive an email to set their password.`);
+      setTimeout(() => router.push('/users'), 1000);
+    } catch (err) {
+      const errorMsg = getErrorMessage(err);
+      setError(errorMsg);
+      showError('Failed to Invite User', errorMsg);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-6 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="mb-6">
+        <button
+          onClick={() => router.push('/users')}
+          className="flex items-center gap-2 text-gray-600 hover:text-gray-900 mb-4"
+        >
+          <ArrowLeft size={20} />
+          Back to Users
+        </button>
+        <h1 className="text-3xl font-bold text-gray-900">Invite User</h1>
+        <p className="text-gray-600 mt-1">They will get an email with a link to set their password</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+          {error}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-8">
+        {/* Details Section */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <UserPlus className="text-blue-600" size={24} />
+            <h2 className="text-xl font-semibold text-gray-900">Details</h2>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-1">
+                Name *
+              </label>
+              <input
+                type="text"
+                id="name"
+                {...register('name')}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.name ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="e.g., Jordan Lee"
+              />
+              {errors.name && <p className="mt-1 text-sm text-red-600">{errors.name.message}</p>}
+            </div>
+
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
+                Email *
+              </label>
+              <input
+                type="email"
+                id="email"
+                {...register('email')}
+                className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                  errors.email ? 'border-red-500' : 'border-gray-300'
+                }`}
+                placeholder="name@example.com"
+              />
+              {errors.email && <p className="mt-1 text-sm text-red-600">{errors.email.message}</p>}
+            </div>
+          </div>
+        </div>
+
+        {/* Role Section */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center gap-2 mb-4">
+            <Shield className="text-blue-600" size={24} />
+            <h2 className="text-xl font-semibold text-gray-900">Role</h2>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {USER_ROLES.map((option) => (
+              <label
+                key={option}
+                className={`flex items-start gap-3 px-4 py-3 rounded-lg border cursor-pointer transition-colors ${
+                  role === option ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <input
+                  type="radio"
+                  value={option}
+                  {...register('role')}
+                  className="mt-0.5 w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">{ROLE_LABELS[option]}</span>
+                  <span className="block text-xs text-gray-500">{ROLE_DESCRIPTIONS[option]}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Event Assignment Section */}
+        {role === 'checkin' && (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center gap-2 mb-1">
+              <CalendarCheck className="text-blue-600" size={24} />
+              <h2 className="text-xl font-semibold text-gray-900">Events</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">Check-in staff only see the events they work.</p>
+
+            <Controller
+              control={control}
+              name="eventIds"
+              render={({ field }) => (
+                <EventChecklist events={events} selected={field.value} onChange={field.onChange} />
+              )}
+            />
+            {errors.eventIds && <p className="mt-1 text-sm text-red-600">{errors.eventIds.message}</p>}
+          </div>
+        )}
+
+        {/* Form Actions */}
+        <div className="flex items-center justify-end gap-4">
+          <Button type="button" variant="secondary" onClick={() => router.push('/users')}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" loading={loading} disabled={!isValid}>
+            Send Invitation
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
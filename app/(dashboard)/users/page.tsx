@@ -0,0 +1,365 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { CalendarCheck, KeyRound, Search, UserCheck, UserPlus, UserX } from 'lucide-react';
+import { api, endpoints, getErrorMessage } from '@/lib/api';
+import { ROLE_LABELS, USER_ROLES } from '@/lib/permissions';
+import { UserAccount, UserRole } from '@/lib/types';
+import { useEvents } from '@/lib/hooks/useEventData';
+import { usePermissions } from '@/lib/hooks/usePermissions';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorMessage from '@/components/ui/ErrorMessage';
+import { useConfirm, useNotify } from '@/components/ui/FeedbackProvider';
+import EventAssignmentDialog from '@/components/users/EventAssignmentDialog';
+
+const ROLE_STYLES: Record<UserRole, string> = {
+  admin: 'bg-purple-100 text-purple-800',
+  event_manager: 'bg-blue-100 text-blue-800',
+  viewer: 'bg-gray-100 text-gray-800',
+  checkin: 'bg-green-100 text-green-800',
+};
+
+function getStatus(user: UserAccount): { label: string; className: string } {
+  if (!user.active) return { label: 'Deactivated', className: 'bg-red-100 text-red-800' };
+  if (user.pending) return { label: 'Invited', className: 'bg-yellow-100 text-yellow-800' };
+  return { label: 'Active', className: 'bg-green-100 text-green-800' };
+}
+
+export default function UsersPage() {
+  const router = useRouter();
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('');
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [assigning, setAssigning] = useState<UserAccount | null>(null);
+  const { events } = useEvents();
+  const { user: currentUser } = usePermissions();
+  const confirm = useConfirm();
+  const { success, error: showError } = useNotify();
+
+  const fetchUsers = useCallback(async () => {
+    try {
+      const data = await api.get<UserAccount[]>(endpoints.users.list());
+      setUsers(data);
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const eventNames = useMemo(() => new Map(events.map((event) => [event.id, event.eventName])), [events]);
+
+  const filteredUsers = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return users.filter(
+      (user) =>
+        (!roleFilter || user.role === roleFilter) &&
+        (!query ||
+          user.email.toLowerCase().includes(query) ||
+          (user.name || '').toLowerCase().includes(query))
+    );
+  }, [users, searchQuery, roleFilter]);
+
+  const updateUser = async (user: UserAccount, patch: Partial<UserAccount>, message: string) => {
+    setSavingId(user.id);
+    try {
+      const updated = await api.patch<UserAccount>(endpoints.users.update(user.id), patch, {
+        action: 'user.update',
+        target: { type: 'user', id: user.id },
+      });
+      setUsers((current) => current.map((u) => (u.id === user.id ? { ...u, ...patch, ...updated } : u)));
+      success('User Updated', message);
+      return true;
+    } catch (err) {
+      showError('Failed to Update User', getErrorMessage(err));
+      return false;
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleRoleChange = async (user: UserAccount, role: UserRole) => {
+    const confirmed = await confirm({
+      title: 'Change Role',
+      message: `${user.name || user.email} will become ${ROLE_LABELS[role]}. They get the new permissions the next time they sign in.`,
+      confirmText: 'Change Role',
+      variant: role === 'admin' ? 'warning' : 'info',
+    });
+    if (!confirmed) return;
+
+    const updated = await updateUser(user, { role }, `${user.name || user.email} is now ${ROLE_LABELS[role]}`);
+    // New check-in staff need events before they can work a door
+    if (updated && role === 'checkin' && !user.eventIds?.length) {
+      setAssigning({ ...user, role });
+    }
+  };
+
+  const handleToggleActive = async (user: UserAccount) => {
+    const confirmed = await confirm({
+      title: user.active ? 'Deactivate User' : 'Reactivate User',
+      message: user.active
+        ? `${user.name || user.email} will be signed out and will not be able to sign in until reactivated.`
+        : `${user.name || user.email} will be able to sign in again.`,
+      confirmText: user.active ? 'Deactivate' : 'Reactivate',
+      variant: user.active ? 'danger' : 'info',
+    });
+    if (!confirmed) return;
+
+    await updateUser(
+      user,
+      { active: !user.active },
+      `${user.name || user.email} has been ${user.active ? 'deactivated' : 'reactivated'}`
+    );
+  };
+
+  const handleResetPassword = async (user: UserAccount) => {
+    const confirmed = await confirm({
+      title: 'Reset Password',
+      message: `${user.email} will be emailed a link to choose a new password. Their current password stops working.`,
+      confirmText: 'Send Reset Link',
+      variant: 'warning',
+    });
+    if (!confirmed) return;
+
+    setSavingId(user.id);
+    try {
+      await api.post(endpoints.users.resetPassword(user.id), undefined, {
+        action: 'user.reset_password',
+        target: { type: 'user', id: user.id },
+      });
+      success('Reset Link Sent', `Password reset email sent to ${user.email}`);
+    } catch (err) {
+      showError('Failed to Reset Password', getErrorMessage(err));
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const handleAssignEvents = async (eventIds: string[]) => {
+    if (!assigning) return;
+    const saved = await updateUser(
+      assigning,
+      { eventIds },
+      `${assigning.name || assigning.email} is assigned to ${eventIds.length} event${eventIds.length !== 1 ? 's' : ''}`
+    );
+    if (saved) setAssigning(null);
+  };
+
+  const describeEvents = (user: UserAccount) => {
+    if (user.role !== 'checkin') return 'All events';
+    if (!user.eventIds?.length) return 'None assigned';
+    return user.eventIds.map((id) => eventNames.get(id) || 'Unknown event').join(', ');
+  };
+
+  if (loading) {
+    return <LoadingSpinner message="Loading users..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={fetchUsers} />;
+  }
+
+  const renderActions = (user: UserAccount) => {
+    const isSelf = user.id === currentUser?.id;
+    const busy = savingId === user.id;
+
+    return (
+      <div className="flex items-center justify-end gap-2">
+        {user.role === 'checkin' && (
+          <button
+            onClick={() => setAssigning(user)}
+            disabled={busy}
+            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50"
+            title="Assign events"
+          >
+            <CalendarCheck size={18} />
+          </button>
+        )}
+        <button
+          onClick={() => handleResetPassword(user)}
+          disabled={busy || !user.active}
+          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors disabled:opacity-50"
+          title="Reset password"
+        >
+          <KeyRound size={18} />
+        </button>
+        <button
+          onClick={() => handleToggleActive(user)}
+          disabled={busy || isSelf}
+          className={`p-2 rounded-lg transition-colors disabled:opacity-50 ${
+            user.active ? 'text-red-600 hover:bg-red-50' : 'text-green-600 hover:bg-green-50'
+          }`}
+          title={isSelf ? 'You cannot deactivate yourself' : user.active ? 'Deactivate' : 'Reactivate'}
+        >
+          {user.active ? <UserX size={18} /> : <UserCheck size={18} />}
+        </button>
+      </div>
+    );
+  };
+
+  const renderRoleSelect = (user: UserAccount) => (
+    <select
+      value={user.role}
+      onChange={(e) => handleRoleChange(user, e.target.value as UserRole)}
+      disabled={savingId === user.id || user.id === currentUser?.id}
+      className={`px-2 py-1 rounded-full text-xs font-medium border-0 focus:ring-2 focus:ring-blue-500 disabled:opacity-75 ${ROLE_STYLES[user.role]}`}
+    >
+      {USER_ROLES.map((role) => (
+        <option key={role} value={role}>
+          {ROLE_LABELS[role]}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="p-4 md:p-6">
+      {assigning && (
+        <EventAssignmentDialog
+          key={assigning.id}
+          user={assigning}
+          events={events}
+          onClose={() => setAssigning(null)}
+          onSave={handleAssignEvents}
+        />
+      )}
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Users</h1>
+          <p className="text-gray-600 mt-1 text-sm md:text-base">Manage who can access the dashboard</p>
+        </div>
+        <button
+          onClick={() => router.push('/users/new')}
+          className="flex items-center justify-center gap-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors whitespace-nowrap"
+        >
+          <UserPlus size={20} />
+          Invite User
+        </button>
+      </div>
+
+      {/* Search and Filters */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+        <div className="flex flex-col sm:flex-row items-stretch sm:items-center gap-4">
+          <div className="flex-1 relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" size={20} />
+            <input
+              type="text"
+              placeholder="Search by name or email..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+              className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <select
+            value={roleFilter}
+            onChange={(e) => setRoleFilter(e.target.value as UserRole | '')}
+            className="px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">All roles</option>
+            {USER_ROLES.map((role) => (
+              <option key={role} value={role}>
+                {ROLE_LABELS[role]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Users Table */}
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+        {/* Desktop Table View */}
+        <div className="hidden lg:block overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Events</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Sign-in</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {filteredUsers.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                    No users found
+                  </td>
+                </tr>
+              ) : (
+                filteredUsers.map((user) => {
+                  const status = getStatus(user);
+                  return (
+                    <tr key={user.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4">
+                        <div className="text-sm font-medium text-gray-900">
+                          {user.name || user.email}
+                          {user.id === currentUser?.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                        </div>
+                        {user.name && <div className="text-sm text-gray-500">{user.email}</div>}
+                      </td>
+                      <td className="px-6 py-4">{renderRoleSelect(user)}</td>
+                      <td className="px-6 py-4 text-sm text-gray-600 max-w-xs truncate" title={describeEvents(user)}>
+                        {describeEvents(user)}
+                      </td>
+                      <td className="px-6 py-4">
+                        <span className={`px-2 py-1 text-xs font-medium rounded-full ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}
+                      </td>
+                      <td className="px-6 py-4 text-right">{renderActions(user)}</td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Mobile Card View */}
+        <div className="lg:hidden divide-y divide-gray-200">
+          {filteredUsers.length === 0 ? (
+            <div className="px-4 py-12 text-center text-gray-500">No users found</div>
+          ) : (
+            filteredUsers.map((user) => {
+              const status = getStatus(user);
+              return (
+                <div key={user.id} className="p-4">
+                  <div className="flex items-start justify-between gap-2 mb-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{user.name || user.email}</div>
+                      {user.name && <div className="text-xs text-gray-500 truncate">{user.email}</div>}
+                    </div>
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full whitespace-nowrap ${status.className}`}>
+                      {status.label}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-600 mb-3 truncate">{describeEvents(user)}</div>
+                  <div className="flex items-center justify-between">
+                    {renderRoleSelect(user)}
+                    {renderActions(user)}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endpoints } from '@/lib/api';
+import { getTokenExpiry } from '@/lib/auth';
+import { BACKEND_URL, readBackendJson, setSessionCookies } from '@/lib/session';
+
+// Signs in against the backend and keeps the token in an httpOnly cookie.
+// The client gets the user and the expiry time, never the token.
+export async function POST(request: NextRequest) {
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${BACKEND_URL}${endpoints.login()}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: await request.text(),
+    });
+  } catch {
+    return NextResponse.json({ message: 'Could not reach the API server.' }, { status: 502 });
+  }
+
+  const data = await readBackendJson(upstream);
+  if (!upstream.ok || typeof data.token !== 'string') {
+    return NextResponse.json(data, { status: upstream.ok ? 502 : upstream.status });
+  }
+
+  const response = NextResponse.json({ user: data.user, expiresAt: getTokenExpiry(data.token) });
+  setSessionCookies(response, data.token, typeof data.refreshToken === 'string' ? data.refreshToken : undefined);
+  return response;
+}
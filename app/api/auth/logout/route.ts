@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endpoints } from '@/lib/api';
+import { BACKEND_URL, TOKEN_COOKIE, clearSessionCookies } from '@/lib/session';
+
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(TOKEN_COOKIE)?.value;
+
+  // Let the backend revoke the token; the cookies are cleared either way
+  if (token) {
+    await fetch(`${BACKEND_URL}${endpoints.logout()}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+    }).catch(() => {});
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  clearSessionCookies(response);
+  return response;
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endpoints } from '@/lib/api';
+import { getTokenExpiry } from '@/lib/auth';
+import { BACKEND_URL, REFRESH_COOKIE, TOKEN_COOKIE, readBackendJson, setSessionCookies } from '@/lib/session';
+
+// Exchanges the session for a new token when the backend supports refresh
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(TOKEN_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_COOKIE)?.value;
+  if (!token && !refreshToken) {
+    return NextResponse.json({ message: 'Not signed in' }, { status: 401 });
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${BACKEND_URL}${endpoints.refresh()}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+      body: JSON.stringify(refreshToken ? { refreshToken } : {}),
+    });
+  } catch {
+    return NextResponse.json({ message: 'Could not reach the API server.' }, { status: 502 });
+  }
+
+  const data = await readBackendJson(upstream);
+  if (!upstream.ok || typeof data.token !== 'string') {
+    return NextResponse.json(data, { status: upstream.ok ? 502 : upstream.status });
+  }
+
+  const response = NextResponse.json({ expiresAt: getTokenExpiry(data.token) });
+  setSessionCookies(response, data.token, typeof data.refreshToken === 'string' ? data.refreshToken : undefined);
+  return response;
+}
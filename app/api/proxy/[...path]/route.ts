@@ -0,0 +1,61 @@
+import { NextRequest } from 'next/server';
+import { BACKEND_URL, TOKEN_COOKIE } from '@/lib/session';
+
+// Request and response headers passed between the browser and the backend
+const FORWARDED_REQUEST_HEADERS = [
+  'content-type',
+  'accept',
+  'x-audit-action',
+  'x-audit-target-type',
+  'x-audit-target-id',
+  'x-audit-event-id',
+];
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'content-disposition', 'cache-control'];
+
+// Forwards /api/proxy/* to the backend with the session token from the
+// httpOnly cookie. Response bodies are streamed, so event streams work too.
+async function forward(request: NextRequest, { params }: { params: Promise<{ path: string[] }> }) {
+  const { path } = await params;
+  const url = `${BACKEND_URL}/${path.map(encodeURIComponent).join('/')}${request.nextUrl.search}`;
+
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) headers.set(name, value);
+  }
+  const token = request.cookies.get(TOKEN_COOKIE)?.value;
+  if (token) {
+    headers.set('Authorization', `Bearer ${token}`);
+  }
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(url, {
+      method: request.method,
+      headers,
+      body: request.method === 'GET' || request.method === 'HEAD' ? undefined : await request.arrayBuffer(),
+      signal: request.signal,
+      cache: 'no-store',
+    });
+  } catch {
+    return Response.json({ message: 'Could not reach the API server.' }, { status: 502 });
+  }
+
+  const responseHeaders = new Headers();
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) responseHeaders.set(name, value);
+  }
+
+  return new Response(upstream.body, {
+    status: upstream.status,
+    statusText: upstream.statusText,
+    headers: responseHeaders,
+  });
+}
+
+export const GET = forward;
+export const POST = forward;
+export const PUT = forward;
+export const PATCH = forward;
+export const DELETE = forward;
@@ -2,7 +2,9 @@
 
 import { useEffect, useState } from 'react';
 import { useRouter, usePathname } from 'next/navigation';
-import { isAuthenticated, getUser } from '@/lib/auth';
+import { isAuthenticated, getUser, getLoginUrl, signOut } from '@/lib/auth';
+import SessionManager from '@/components/SessionManager';
+import { hasPermission } from '@/lib/permissions';
 import { QrCode, LogOut } from 'lucide-react';
 
 export default function CheckinLayout({
@@ -18,7 +20,7 @@ export default function CheckinLayout({
   useEffect(() => {
     // Check if user is authenticated (only on client side)
     if (!isAuthenticated()) {
-      router.push('/login');
+      router.push(getLoginUrl(pathname));
       return;
     }
 
@@ -28,23 +30,23 @@ export default function CheckinLayout({
       setUserName(user.name || user.email || 'Check-in Staff');
       setUserRole(user.role);
       
-      // Only allow checkin and admin roles
-      if (user.role !== 'checkin' && user.role !== 'admin') {
+      // Only roles that can check guests in
+      if (!hasPermission(user.role, 'checkin:perform')) {
         router.push('/login');
         return;
       }
     }
   }, [router, pathname]);
 
-  const handleLogout = () => {
-    localStorage.removeItem('auth_token');
-    localStorage.removeItem('user');
-    document.cookie = 'auth_token=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT';
+  const handleLogout = async () => {
+    await signOut();
     router.push('/login');
   };
 
   return (
     <div className="min-h-screen bg-slate-50">
+      <SessionManager />
+
       {/* Header */}
       <header className="bg-white border-b border-slate-200 px-6 py-4">
         <div className="flex items-center justify-between max-w-6xl mx-auto">
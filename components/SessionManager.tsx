@@ -0,0 +1,86 @@
+'use client';
+
+import { useEffect, useState, useSyncExternalStore } from 'react';
+import { usePathname, useRouter } from 'next/navigation';
+import { refreshSession } from '@/lib/api';
+import { expireSession, getLoginUrl, getSessionExpiry, onSessionExpired } from '@/lib/auth';
+import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import { useNotify } from '@/components/ui/FeedbackProvider';
+
+// How long before expiry the "stay signed in" prompt appears
+const WARNING_MS = 5 * 60 * 1000;
+// How long before expiry the token is refreshed without asking
+const REFRESH_AHEAD_MS = 30 * 1000;
+
+// Re-read the expiry every second and whenever another tab changes it
+function subscribe(onChange: () => void) {
+  const timer = setInterval(onChange, 1000);
+  window.addEventListener('storage', onChange);
+  return () => {
+    clearInterval(timer);
+    window.removeEventListener('storage', onChange);
+  };
+}
+
+function formatRemaining(ms: number): string {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+// Warns before the token expires, extends the session on request and sends
+// the user to login, with a way back, once the session is gone. Shortly
+// before expiry, and again at expiry, the token is refreshed silently; the
+// session only ends when that fails.
+export default function SessionManager() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { error: showError } = useNotify();
+  // Expiry the user chose not to extend; a refreshed session prompts again
+  const [dismissedExpiry, setDismissedExpiry] = useState<number | null>(null);
+  const [extending, setExtending] = useState(false);
+
+  const expiry = useSyncExternalStore(subscribe, getSessionExpiry, () => null);
+  const now = useSyncExternalStore(subscribe, () => Math.floor(Date.now() / 1000) * 1000, () => 0);
+  const remaining = expiry !== null && now ? expiry - now : null;
+  const expired = remaining !== null && remaining <= 0;
+  const renewing = remaining !== null && remaining <= REFRESH_AHEAD_MS;
+
+  useEffect(() => {
+    return onSessionExpired(() => {
+      router.replace(getLoginUrl(pathname + window.location.search, 'session_expired'));
+    });
+  }, [router, pathname]);
+
+  // Runs once when the refresh window opens and once more at expiry; a
+  // successful refresh moves the expiry and closes the window
+  useEffect(() => {
+    if (!renewing) return;
+    refreshSession().then((refreshed) => {
+      if (!refreshed && expired) expireSession();
+    });
+  }, [renewing, expired]);
+
+  const handleStaySignedIn = async () => {
+    setExtending(true);
+    const refreshed = await refreshSession();
+    setExtending(false);
+    if (!refreshed) {
+      setDismissedExpiry(expiry);
+      showError('Could Not Extend Session', 'Save your work and sign in again before the session ends.');
+    }
+  };
+
+  return (
+    <ConfirmDialog
+      isOpen={remaining !== null && remaining > 0 && remaining <= WARNING_MS && dismissedExpiry !== expiry}
+      onClose={() => setDismissedExpiry(expiry)}
+      onConfirm={handleStaySignedIn}
+      title="Your Session Is Ending"
+      message={`You will be signed out in ${formatRemaining(remaining ?? 0)}. Stay signed in to keep working.`}
+      confirmText="Stay Signed In"
+      cancelText="Not Now"
+      variant="warning"
+      loading={extending}
+    />
+  );
+}
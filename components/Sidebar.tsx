@@ -13,34 +13,44 @@ import {
   QrCode,
   Sheet,
   Key,
+  Inbox,
+  UserCog,
+  History,
 } from 'lucide-react';
 import { useState } from 'react';
-import { clearAuthToken } from '@/lib/auth';
+import { signOut } from '@/lib/auth';
+import { Permission } from '@/lib/permissions';
+import { usePermissions } from '@/lib/hooks/usePermissions';
 
 interface NavItem {
   label: string;
   href: string;
   icon: React.ComponentType<{ className?: string }>;
+  permission: Permission;
 }
 
 const navItems: NavItem[] = [
-  { label: 'Dashboard', href: '/', icon: LayoutDashboard },
-  { label: 'Attendees', href: '/attendees', icon: Users },
-  { label: 'Invites', href: '/invites', icon: Mail },
-  { label: 'Generate Tokens', href: '/generate-tokens', icon: Key },
-  { label: 'Check-In', href: '/check-in', icon: QrCode },
-  { label: 'Analytics', href: '/analytics', icon: BarChart3 },
-  { label: 'Attendee Sheet', href: '/attendee-sheet', icon: Sheet },
+  { label: 'Dashboard', href: '/', icon: LayoutDashboard, permission: 'dashboard:view' },
+  { label: 'Attendees', href: '/attendees', icon: Users, permission: 'attendees:view' },
+  { label: 'Invites', href: '/invites', icon: Mail, permission: 'invites:view' },
+  { label: 'Emails', href: '/emails', icon: Inbox, permission: 'emails:view' },
+  { label: 'Generate Tokens', href: '/generate-tokens', icon: Key, permission: 'tokens:generate' },
+  { label: 'Check-In', href: '/check-in', icon: QrCode, permission: 'checkin:perform' },
+  { label: 'Analytics', href: '/analytics', icon: BarChart3, permission: 'analytics:view' },
+  { label: 'Attendee Sheet', href: '/attendee-sheet', icon: Sheet, permission: 'attendees:view' },
+  { label: 'Users', href: '/users', icon: UserCog, permission: 'users:manage' },
+  { label: 'Audit Log', href: '/audit', icon: History, permission: 'audit:view' },
 ];
 
 export default function Sidebar() {
   const pathname = usePathname();
   const router = useRouter();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
+  const { can } = usePermissions();
 
-  const handleLogout = () => {
-    // Clear all auth data
-    clearAuthToken();
+  const handleLogout = async () => {
+    // Clear all auth data, including the httpOnly session cookie
+    await signOut();
     
     // Redirect to login
     router.push('/login');
@@ -94,7 +104,7 @@ export default function Sidebar() {
 
           {/* Navigation */}
           <nav className="flex-1 p-4 space-y-1 overflow-y-auto">
-            {navItems.map((item) => {
+            {navItems.filter((item) => can(item.permission)).map((item) => {
               const Icon = item.icon;
               const active = isActive(item.href);
 
@@ -0,0 +1,39 @@
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from 'recharts';
+import { ArrivalCurves } from '@/lib/analytics';
+import ChartCard, { CHART_COLORS } from './ChartCard';
+
+interface ArrivalCurveChartProps {
+  curves: ArrivalCurves;
+  className?: string;
+}
+
+export default function ArrivalCurveChart({ curves, className }: ArrivalCurveChartProps) {
+  return (
+    <ChartCard
+      title="Check-In Arrival Curves"
+      subtitle="Cumulative check-ins (including plus ones) by time from event start"
+      empty={curves.series.length === 0}
+      className={className}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={curves.data}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={32} />
+          <Tooltip />
+          <Legend />
+          {curves.series.map((series, index) => (
+            <Line
+              key={series.eventId}
+              type="stepAfter"
+              dataKey={series.eventId}
+              name={series.eventName}
+              stroke={CHART_COLORS[index % CHART_COLORS.length]}
+              dot={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  );
+}
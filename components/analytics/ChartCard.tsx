@@ -0,0 +1,30 @@
+import { ReactNode } from 'react';
+
+interface ChartCardProps {
+  title: string;
+  subtitle?: string;
+  empty?: boolean;
+  className?: string;
+  children: ReactNode;
+}
+
+// Palette shared by the analytics charts
+export const CHART_COLORS = ['#2563eb', '#16a34a', '#9333ea', '#ea580c', '#dc2626', '#0891b2', '#ca8a04'];
+
+export default function ChartCard({ title, subtitle, empty = false, className = '', children }: ChartCardProps) {
+  return (
+    <div className={`bg-white p-6 rounded-lg shadow-sm border border-gray-200 ${className}`}>
+      <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+      {subtitle && <p className="text-xs text-gray-500 mt-1">{subtitle}</p>}
+      <div className="h-64 mt-4">
+        {empty ? (
+          <div className="h-full flex items-center justify-center text-gray-500 text-sm">
+            No data for the selected filters
+          </div>
+        ) : (
+          children
+        )}
+      </div>
+    </div>
+  );
+}
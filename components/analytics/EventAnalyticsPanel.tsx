@@ -0,0 +1,240 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowDownRight, ArrowUpRight, Minus } from 'lucide-react';
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from 'recharts';
+import { api, endpoints, getErrorMessage } from '@/lib/api';
+import { Attendee, DashboardStats, EventStats } from '@/lib/types';
+import { getEventMetrics, getPortfolioAverages } from '@/lib/analytics';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorMessage from '@/components/ui/ErrorMessage';
+import ChartCard, { CHART_COLORS } from './ChartCard';
+
+interface EventAnalyticsPanelProps {
+  eventId: string;
+}
+
+interface ComparisonCardProps {
+  label: string;
+  value: number | null;
+  average: number | null;
+  format: (value: number) => string;
+  // Whether a value above the average is good news, bad news or neither
+  higherIs: 'better' | 'worse' | 'neutral';
+  emptyText?: string;
+}
+
+function formatCount(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+function formatPercent(value: number): string {
+  return `${value.toFixed(1)}%`;
+}
+
+function ComparisonCard({ label, value, average, format, higherIs, emptyText }: ComparisonCardProps) {
+  const diff = value !== null && average !== null ? value - average : null;
+  const isGood = diff !== null && higherIs !== 'neutral' && (higherIs === 'better' ? diff > 0 : diff < 0);
+  const isBad = diff !== null && higherIs !== 'neutral' && (higherIs === 'better' ? diff < 0 : diff > 0);
+  const DiffIcon = diff === null || diff === 0 ? Minus : diff > 0 ? ArrowUpRight : ArrowDownRight;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="text-sm font-medium text-gray-500 mb-2">{label}</div>
+      <div className="text-3xl font-bold text-gray-900">
+        {value === null ? <span className="text-base font-normal text-gray-500">{emptyText}</span> : format(value)}
+      </div>
+      <div className="flex items-center gap-1 text-xs mt-1">
+        {diff !== null && (
+          <span
+            className={`inline-flex items-center font-medium ${
+              isGood ? 'text-green-600' : isBad ? 'text-red-600' : 'text-gray-600'
+            }`}
+          >
+            <DiffIcon size={14} />
+            {format(Math.abs(diff))}
+          </span>
+        )}
+        <span className="text-gray-500">
+          {average === null ? 'No portfolio average yet' : `vs. ${format(average)} portfolio average`}
+        </span>
+      </div>
+    </div>
+  );
+}
+
+export default function EventAnalyticsPanel({ eventId }: EventAnalyticsPanelProps) {
+  const [stats, setStats] = useState<EventStats | null>(null);
+  const [portfolio, setPortfolio] = useState<DashboardStats | null>(null);
+  const [attendees, setAttendees] = useState<Attendee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const [statsData, portfolioData, attendeesData] = await Promise.all([
+        api.get<EventStats>(endpoints.admin.stats(eventId)),
+        api.get<DashboardStats>(endpoints.admin.dashboardStats()),
+        api.get<Attendee[]>(endpoints.admin.attendees(eventId)),
+      ]);
+      setStats(statsData);
+      setPortfolio(portfolioData);
+      setAttendees(attendeesData);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  if (loading) {
+    return <LoadingSpinner message="Loading event analytics..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={fetchAnalytics} />;
+  }
+
+  if (!stats || !portfolio) {
+    return <ErrorMessage message="No data available" onRetry={fetchAnalytics} />;
+  }
+
+  const metrics = getEventMetrics(stats, attendees);
+  const averages = getPortfolioAverages(portfolio);
+
+  const rateComparison = [
+    { metric: 'Invite Conversion', event: metrics.inviteConversion, portfolio: averages.inviteConversion },
+    { metric: 'No-Show Rate', event: metrics.noShowRate ?? 0, portfolio: averages.noShowRate ?? 0 },
+  ];
+
+  const inviteBreakdown = [
+    { status: 'Accepted', count: stats.inviteStats.used },
+    { status: 'Pending', count: stats.inviteStats.unused },
+    { status: 'Expired', count: stats.inviteStats.expired },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Event vs. Portfolio */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 md:gap-6">
+        <ComparisonCard
+          label="Registrations"
+          value={metrics.registrations}
+          average={averages.registrations}
+          format={formatCount}
+          higherIs="better"
+        />
+        <ComparisonCard
+          label="Invite Conversion"
+          value={metrics.inviteConversion}
+          average={averages.inviteConversion}
+          format={formatPercent}
+          higherIs="better"
+        />
+        <ComparisonCard
+          label="Waitlist Depth"
+          value={metrics.waitlistDepth}
+          average={averages.waitlistDepth}
+          format={formatCount}
+          higherIs="neutral"
+        />
+        <ComparisonCard
+          label="No-Show Rate"
+          value={metrics.noShowRate}
+          average={averages.noShowRate}
+          format={formatPercent}
+          higherIs="worse"
+          emptyText="Available after check-in starts"
+        />
+      </div>
+
+      {/* Event Stats */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Capacity</h2>
+          <div className="mb-4">
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>
+                {stats.currentRegistrations} / {stats.totalCapacity} registered
+              </span>
+              <span>{formatPercent(metrics.fillRate)}</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full ${metrics.fillRate >= 100 ? 'bg-red-600' : 'bg-blue-600'}`}
+                style={{ width: `${Math.min(metrics.fillRate, 100)}%` }}
+              />
+            </div>
+          </div>
+          <dl className="grid grid-cols-2 gap-4 text-sm">
+            <div>
+              <dt className="text-gray-500">Available Slots</dt>
+              <dd className="text-2xl font-bold text-gray-900">{stats.availableSlots}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Confirmed</dt>
+              <dd className="text-2xl font-bold text-green-600">{stats.confirmedAttendees}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Waitlisted</dt>
+              <dd className="text-2xl font-bold text-yellow-600">{stats.waitlistedAttendees}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Cancelled</dt>
+              <dd className="text-2xl font-bold text-red-600">{stats.cancelledAttendees}</dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Bringing a Plus One</dt>
+              <dd className="text-2xl font-bold text-purple-600">
+                {stats.attendeesWithPlusOne}
+                <span className="text-sm font-normal text-gray-500 ml-1">
+                  ({formatPercent(metrics.plusOneShare)})
+                </span>
+              </dd>
+            </div>
+            <div>
+              <dt className="text-gray-500">Checked In</dt>
+              <dd className="text-2xl font-bold text-gray-900">{metrics.checkedIn}</dd>
+            </div>
+          </dl>
+        </div>
+
+        <ChartCard
+          title="Invites"
+          subtitle={`${stats.inviteStats.total} sent for this event`}
+          empty={stats.inviteStats.total === 0}
+        >
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={inviteBreakdown}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="status" tick={{ fontSize: 12 }} />
+              <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={32} />
+              <Tooltip />
+              <Bar dataKey="count" name="Invites" fill={CHART_COLORS[2]} radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </ChartCard>
+      </div>
+
+      <ChartCard title="Rates vs. Portfolio" subtitle="This event against the average across all events">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={rateComparison}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="metric" tick={{ fontSize: 12 }} />
+            <YAxis unit="%" domain={[0, 100]} tick={{ fontSize: 12 }} width={40} />
+            <Tooltip formatter={(value) => formatPercent(Number(value))} />
+            <Legend />
+            <Bar dataKey="event" name="This Event" fill={CHART_COLORS[0]} radius={[4, 4, 0, 0]} />
+            <Bar dataKey="portfolio" name="Portfolio Average" fill="#9ca3af" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartCard>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import {
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  Legend,
+  CartesianGrid,
+  Cell,
+} from 'recharts';
+import { DailyInvites, FunnelStage } from '@/lib/analytics';
+import ChartCard, { CHART_COLORS } from './ChartCard';
+
+interface InviteFunnelChartProps {
+  funnel: FunnelStage[];
+  daily: DailyInvites[];
+}
+
+export default function InviteFunnelChart({ funnel, daily }: InviteFunnelChartProps) {
+  const sent = funnel[0]?.count || 0;
+
+  return (
+    <>
+      <ChartCard
+        title="Invite Funnel"
+        subtitle="From invitation sent to guest at the door"
+        empty={sent === 0}
+      >
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={funnel} layout="vertical" margin={{ left: 16 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" allowDecimals={false} tick={{ fontSize: 12 }} />
+            <YAxis type="category" dataKey="stage" tick={{ fontSize: 12 }} width={80} />
+            <Tooltip
+              formatter={(value) => {
+                const count = Number(value);
+                return [`${count} (${sent > 0 ? ((count / sent) * 100).toFixed(1) : 0}%)`, 'Count'];
+              }}
+            />
+            <Bar dataKey="count" radius={[0, 4, 4, 0]}>
+              {funnel.map((stage, index) => (
+                <Cell key={stage.stage} fill={CHART_COLORS[index % CHART_COLORS.length]} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </ChartCard>
+
+      <ChartCard
+        title="Invites Sent vs. Accepted"
+        subtitle="By the day the invite was sent"
+        empty={daily.length === 0}
+      >
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={daily}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={32} />
+            <Tooltip />
+            <Legend />
+            <Line type="monotone" dataKey="sent" name="Sent" stroke={CHART_COLORS[2]} dot={false} />
+            <Line type="monotone" dataKey="accepted" name="Accepted" stroke={CHART_COLORS[1]} dot={false} />
+          </LineChart>
+        </ResponsiveContainer>
+      </ChartCard>
+    </>
+  );
+}
@@ -0,0 +1,34 @@
+import { ResponsiveContainer, PieChart, Pie, Cell, Tooltip, Legend } from 'recharts';
+import { PlusOneRatio } from '@/lib/analytics';
+import ChartCard, { CHART_COLORS } from './ChartCard';
+
+interface PlusOneRatioChartProps {
+  data: PlusOneRatio;
+}
+
+export default function PlusOneRatioChart({ data }: PlusOneRatioChartProps) {
+  const slices = [
+    { name: 'With plus one', value: data.withPlusOne },
+    { name: 'Solo', value: data.withoutPlusOne },
+  ];
+
+  return (
+    <ChartCard
+      title="Plus-One Ratio"
+      subtitle={`${(data.ratio * 100).toFixed(1)}% of active registrations bring a plus one`}
+      empty={data.withPlusOne + data.withoutPlusOne === 0}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <PieChart>
+          <Pie data={slices} dataKey="value" nameKey="name" innerRadius="50%" outerRadius="80%" paddingAngle={2}>
+            {slices.map((slice, index) => (
+              <Cell key={slice.name} fill={CHART_COLORS[index === 0 ? 2 : 0]} />
+            ))}
+          </Pie>
+          <Tooltip />
+          <Legend />
+        </PieChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  );
+}
@@ -0,0 +1,30 @@
+import { ResponsiveContainer, AreaChart, Area, XAxis, YAxis, Tooltip, CartesianGrid } from 'recharts';
+import { DailyCount } from '@/lib/analytics';
+import ChartCard, { CHART_COLORS } from './ChartCard';
+
+interface RsvpTimelineChartProps {
+  data: DailyCount[];
+}
+
+export default function RsvpTimelineChart({ data }: RsvpTimelineChartProps) {
+  return (
+    <ChartCard title="RSVPs per Day" subtitle="Registrations by the day they were made" empty={data.length === 0}>
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+          <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={32} />
+          <Tooltip />
+          <Area
+            type="monotone"
+            dataKey="count"
+            name="RSVPs"
+            stroke={CHART_COLORS[0]}
+            fill={CHART_COLORS[0]}
+            fillOpacity={0.15}
+          />
+        </AreaChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  );
+}
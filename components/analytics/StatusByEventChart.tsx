@@ -0,0 +1,34 @@
+import { ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend, CartesianGrid } from 'recharts';
+import { EventStatusBreakdown } from '@/lib/analytics';
+import ChartCard from './ChartCard';
+
+interface StatusByEventChartProps {
+  data: EventStatusBreakdown[];
+  className?: string;
+}
+
+export default function StatusByEventChart({ data, className }: StatusByEventChartProps) {
+  const hasData = data.some((row) => row.confirmed + row.waitlisted + row.cancelled > 0);
+
+  return (
+    <ChartCard
+      title="Attendee Status by Event"
+      subtitle="Confirmed, waitlisted and cancelled registrations"
+      empty={!hasData}
+      className={className}
+    >
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" vertical={false} />
+          <XAxis dataKey="eventName" tick={{ fontSize: 12 }} interval={0} />
+          <YAxis allowDecimals={false} tick={{ fontSize: 12 }} width={32} />
+          <Tooltip />
+          <Legend />
+          <Bar dataKey="confirmed" name="Confirmed" stackId="status" fill="#16a34a" />
+          <Bar dataKey="waitlisted" name="Waitlisted" stackId="status" fill="#ca8a04" />
+          <Bar dataKey="cancelled" name="Cancelled" stackId="status" fill="#dc2626" />
+        </BarChart>
+      </ResponsiveContainer>
+    </ChartCard>
+  );
+}
@@ -0,0 +1,83 @@
+import { CheckCircle, Clock, Download, Mail, XCircle } from 'lucide-react';
+import { BulkAction, BULK_ACTIONS } from '@/lib/bulkActions';
+
+const ACTION_ICONS: Record<BulkAction, typeof Mail> = {
+  confirm: CheckCircle,
+  waitlist: Clock,
+  resend: Mail,
+  cancel: XCircle,
+};
+
+interface BulkActionBarProps {
+  count: number;
+  // Set while an action is running
+  progress: { done: number; total: number } | null;
+  onAction: (action: BulkAction) => void;
+  onExport: () => void;
+  onClear: () => void;
+}
+
+export default function BulkActionBar({ count, progress, onAction, onExport, onClear }: BulkActionBarProps) {
+  const running = progress !== null;
+
+  return (
+    <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 mb-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-blue-900 mr-2">{count} selected</span>
+
+        {(['confirm', 'waitlist', 'resend', 'cancel'] as const).map((action) => {
+          const Icon = ACTION_ICONS[action];
+          return (
+            <button
+              key={action}
+              onClick={() => onAction(action)}
+              disabled={running}
+              className={`flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium border transition-colors disabled:opacity-50 ${
+                action === 'cancel'
+                  ? 'bg-white border-red-200 text-red-700 hover:bg-red-50'
+                  : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              <Icon size={14} />
+              {BULK_ACTIONS[action].label}
+            </button>
+          );
+        })}
+
+        <button
+          onClick={onExport}
+          disabled={running}
+          className="flex items-center gap-1 px-3 py-1.5 rounded-md text-xs font-medium border bg-white border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download size={14} />
+          Export
+        </button>
+
+        <button
+          onClick={onClear}
+          disabled={running}
+          className="ml-auto text-xs text-blue-700 hover:text-blue-900 disabled:opacity-50"
+        >
+          Clear selection
+        </button>
+      </div>
+
+      {progress && (
+        <div className="mt-3">
+          <div className="flex justify-between text-xs text-blue-900 mb-1">
+            <span>Working...</span>
+            <span>
+              {progress.done} of {progress.total}
+            </span>
+          </div>
+          <div className="w-full bg-blue-100 rounded-full h-2">
+            <div
+              className="bg-blue-600 h-2 rounded-full transition-all"
+              style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
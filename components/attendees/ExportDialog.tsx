@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { getErrorMessage } from '@/lib/api';
+import {
+  CheckInFilter,
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  ExportColumn,
+  ExportOptions,
+  PlusOneMode,
+  exportAttendees,
+  fetchExportAttendees,
+} from '@/lib/attendeeExport';
+import { ALL_EVENTS } from '@/lib/eventData';
+import { ANY } from '@/lib/tableQuery';
+import { AttendeeStatus } from '@/lib/types';
+import { useEvents } from '@/lib/hooks/useEventData';
+import Button from '@/components/ui/Button';
+
+const PLUS_ONE_MODES: { mode: PlusOneMode; label: string }[] = [
+  { mode: 'rows', label: 'Separate rows' },
+  { mode: 'merged', label: 'Merged into attendee row' },
+  { mode: 'none', label: 'Leave out' },
+];
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // A single event, or ALL_EVENTS for every event
+  eventId: string;
+  // Limit the export to these attendees, e.g. a table selection
+  attendeeIds?: string[];
+  onExported?: (rowCount: number) => void;
+}
+
+export default function ExportDialog({ isOpen, onClose, eventId, attendeeIds, onExported }: ExportDialogProps) {
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { events } = useEvents();
+
+  if (!isOpen) return null;
+
+  const eventName =
+    eventId === ALL_EVENTS ? null : events.find((event) => event.id === eventId)?.eventName || null;
+
+  const updateOptions = (patch: Partial<ExportOptions>) => {
+    setOptions((current) => ({ ...current, ...patch }));
+  };
+
+  const toggleColumn = (key: ExportColumn) => {
+    setOptions((current) => ({
+      ...current,
+      columns: current.columns.includes(key)
+        ? current.columns.filter((column) => column !== key)
+        : [...current.columns, key],
+    }));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      let attendees = await fetchExportAttendees(eventId);
+      if (attendeeIds) {
+        const wanted = new Set(attendeeIds);
+        attendees = attendees.filter((attendee) => wanted.has(attendee.id));
+      }
+      const rowCount = await exportAttendees(attendees, options, eventName);
+      onExported?.(rowCount);
+      onClose();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    }
+    setExporting(false);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={exporting ? undefined : onClose}
+      ></div>
+
+      {/* Dialog */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full p-6">
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+            disabled={exporting}
+          >
+            <X size={20} />
+          </button>
+
+          <h3 className="text-lg font-semibold text-gray-900">Export Attendees</h3>
+          <p className="text-sm text-gray-600 mb-5">
+            {eventName || 'All events'}
+            {attendeeIds && ` · ${attendeeIds.length} selected attendee${attendeeIds.length !== 1 ? 's' : ''}`}
+          </p>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-4 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-5">
+            {/* Format */}
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Format</p>
+              <div className="grid grid-cols-2 gap-2">
+                {EXPORT_FORMATS.map(({ format, label, description }) => (
+                  <button
+                    key={format}
+                    type="button"
+                    onClick={() => updateOptions({ format })}
+                    className={`text-left px-3 py-2 rounded-lg border transition-colors ${
+                      options.format === format
+                        ? 'border-blue-600 bg-blue-50'
+                        : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <span className="block text-sm font-medium text-gray-900">{label}</span>
+                    <span className="block text-xs text-gray-500">{description}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Columns */}
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-2">Columns</p>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                {EXPORT_COLUMNS.map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={options.columns.includes(key)}
+                      onChange={() => toggleColumn(key)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Plus ones and filters */}
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              <div>
+                <label htmlFor="exportPlusOnes" className="block text-xs font-medium text-gray-600 mb-1">
+                  Plus ones
+                </label>
+                <select
+                  id="exportPlusOnes"
+                  value={options.plusOnes}
+                  onChange={(e) => updateOptions({ plusOnes: e.target.value as PlusOneMode })}
+                  className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  {PLUS_ONE_MODES.map(({ mode, label }) => (
+                    <option key={mode} value={mode}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="exportStatus" className="block text-xs font-medium text-gray-600 mb-1">
+                  Status
+                </label>
+                <select
+                  id="exportStatus"
+                  value={options.status}
+                  onChange={(e) => updateOptions({ status: e.target.value as AttendeeStatus | typeof ANY })}
+                  className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value={ANY}>All statuses</option>
+                  <option value="CONFIRMED">Confirmed</option>
+                  <option value="WAITLISTED">Waitlisted</option>
+                  <option value="CANCELLED">Cancelled</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="exportCheckIn" className="block text-xs font-medium text-gray-600 mb-1">
+                  Check-in
+                </label>
+                <select
+                  id="exportCheckIn"
+                  value={options.checkIn}
+                  onChange={(e) => updateOptions({ checkIn: e.target.value as CheckInFilter })}
+                  className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value={ANY}>Everyone</option>
+                  <option value="CHECKED_IN">Checked in</option>
+                  <option value="NOT_CHECKED_IN">Not checked in</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-6 flex gap-3">
+            <Button variant="secondary" onClick={onClose} disabled={exporting} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleExport}
+              loading={exporting}
+              disabled={options.columns.length === 0}
+              icon={<Download size={18} />}
+              className="flex-1"
+            >
+              {options.format === 'pdf' ? 'Print Roster' : 'Download'}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
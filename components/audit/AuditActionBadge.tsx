@@ -0,0 +1,20 @@
+import { AUDIT_ACTION_LABELS, AuditTone, getActionTone } from '@/lib/audit';
+import { AuditAction } from '@/lib/types';
+
+const TONE_CLASSES: Record<AuditTone, string> = {
+  destructive: 'bg-red-100 text-red-800',
+  create: 'bg-green-100 text-green-800',
+  change: 'bg-blue-100 text-blue-800',
+};
+
+export default function AuditActionBadge({ action }: { action: AuditAction }) {
+  return (
+    <span
+      className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${
+        TONE_CLASSES[getActionTone(action)]
+      }`}
+    >
+      {AUDIT_ACTION_LABELS[action] || action}
+    </span>
+  );
+}
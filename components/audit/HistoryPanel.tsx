@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { History, RefreshCw } from 'lucide-react';
+import { getErrorMessage } from '@/lib/api';
+import { describeActor, describeTarget, fetchEntityHistory } from '@/lib/audit';
+import { AuditEntry, AuditTargetType } from '@/lib/types';
+import { usePermissions } from '@/lib/hooks/usePermissions';
+import AuditActionBadge from '@/components/audit/AuditActionBadge';
+
+interface HistoryPanelProps {
+  type: AuditTargetType;
+  id: string;
+  // Show what each entry changed; off when every entry is about the same thing
+  showTarget?: boolean;
+}
+
+// Recent audit log entries for one event, attendee or invite
+export default function HistoryPanel({ type, id, showTarget = false }: HistoryPanelProps) {
+  const { can } = usePermissions();
+  const allowed = can('audit:view');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!allowed) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await fetchEntityHistory({ type, id });
+      setEntries(page.items);
+      setTotal(page.total);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setLoading(false);
+    }
+  }, [allowed, type, id]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  if (!allowed) return null;
+
+  const filterParam = type === 'event' ? `eventId=${id}` : `targetType=${type}&targetId=${id}`;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <History className="text-blue-600" size={24} />
+          <h2 className="text-xl font-semibold text-gray-900">History</h2>
+        </div>
+        <button
+          onClick={fetchHistory}
+          disabled={loading}
+          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          title="Refresh history"
+        >
+          <RefreshCw size={18} className={loading ? 'animate-spin' : ''} />
+        </button>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : loading && entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No changes recorded yet.</p>
+      ) : (
+        <ol className="divide-y divide-gray-100">
+          {entries.map((entry) => (
+            <li key={entry.id} className="py-3 flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
+              <div className="text-xs text-gray-500 sm:w-40 flex-shrink-0">
+                {new Date(entry.createdAt).toLocaleString()}
+              </div>
+              <div className="flex flex-wrap items-center gap-2 text-sm min-w-0">
+                <AuditActionBadge action={entry.action} />
+                {showTarget && <span className="text-gray-900 truncate">{describeTarget(entry)}</span>}
+                <span className="text-gray-500">by {describeActor(entry)}</span>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {total > entries.length && (
+        <Link href={`/audit?${filterParam}`} className="inline-block mt-4 text-sm text-blue-600 hover:text-blue-800">
+          View all {total} entries
+        </Link>
+      )}
+    </div>
+  );
+}
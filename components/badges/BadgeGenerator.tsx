@@ -0,0 +1,212 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Printer, RotateCcw } from 'lucide-react';
+import {
+  BADGE_TEMPLATES,
+  BadgeFilters,
+  buildBadgeSheetHtml,
+  clearPrintedBadges,
+  generateQrImages,
+  getPrintedBadgeIds,
+  labelsPerSheet,
+  layoutSheets,
+  markBadgesPrinted,
+  toBadges,
+} from '@/lib/badges';
+import { printHtml, slugify } from '@/lib/files';
+import { ANY } from '@/lib/tableQuery';
+import { AttendeeStatus } from '@/lib/types';
+import { useAttendees, useEvents } from '@/lib/hooks/useEventData';
+import Button from '@/components/ui/Button';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import ErrorMessage from '@/components/ui/ErrorMessage';
+
+interface BadgeGeneratorProps {
+  eventId: string;
+}
+
+export default function BadgeGenerator({ eventId }: BadgeGeneratorProps) {
+  const { attendees, loading, error, refresh } = useAttendees(eventId);
+  const { events } = useEvents();
+  const [templateId, setTemplateId] = useState(BADGE_TEMPLATES[0].id);
+  const [filters, setFilters] = useState<BadgeFilters>({ status: 'CONFIRMED', includePlusOnes: true });
+  const [onlyUnprinted, setOnlyUnprinted] = useState(false);
+  const [skip, setSkip] = useState(0);
+  const [printedIds, setPrintedIds] = useState(() => getPrintedBadgeIds(eventId));
+  const [qrImages, setQrImages] = useState<Record<string, string>>({});
+
+  const template = BADGE_TEMPLATES.find((t) => t.id === templateId) || BADGE_TEMPLATES[0];
+  const eventName = events.find((event) => event.id === eventId)?.eventName || 'Event';
+
+  const badges = useMemo(() => {
+    const all = toBadges(attendees, filters);
+    return onlyUnprinted ? all.filter((badge) => !printedIds.has(badge.id)) : all;
+  }, [attendees, filters, onlyUnprinted, printedIds]);
+
+  const sheets = useMemo(() => layoutSheets(badges, template, skip), [badges, template, skip]);
+
+  useEffect(() => {
+    let cancelled = false;
+    generateQrImages(badges.map((badge) => badge.qrCode))
+      .then((images) => {
+        if (!cancelled) setQrImages(images);
+      })
+      .catch((err) => console.error('Failed to generate QR codes:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [badges]);
+
+  const html = useMemo(
+    () => buildBadgeSheetHtml(sheets, template, qrImages, `${slugify(eventName)}-badges`),
+    [sheets, template, qrImages, eventName]
+  );
+  const qrReady = badges.every((badge) => qrImages[badge.qrCode]);
+
+  const handlePrint = () => {
+    printHtml(html);
+    setPrintedIds(markBadgesPrinted(eventId, badges.map((badge) => badge.id)));
+    setSkip(0);
+  };
+
+  if (loading) {
+    return <LoadingSpinner message="Loading attendees..." />;
+  }
+
+  if (error) {
+    return <ErrorMessage message={error} onRetry={refresh} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Options */}
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="badgeTemplate" className="block text-sm font-medium text-gray-700 mb-2">
+              Label sheet
+            </label>
+            <select
+              id="badgeTemplate"
+              value={templateId}
+              onChange={(e) => {
+                setTemplateId(e.target.value);
+                setSkip(0);
+              }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {BADGE_TEMPLATES.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name} ({t.description})
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="badgeStatus" className="block text-sm font-medium text-gray-700 mb-2">
+              Status
+            </label>
+            <select
+              id="badgeStatus"
+              value={filters.status}
+              onChange={(e) =>
+                setFilters({ ...filters, status: e.target.value as AttendeeStatus | typeof ANY })
+              }
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value={ANY}>All statuses</option>
+              <option value="CONFIRMED">Confirmed</option>
+              <option value="WAITLISTED">Waitlisted</option>
+              <option value="CANCELLED">Cancelled</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="badgeSkip" className="block text-sm font-medium text-gray-700 mb-2">
+              Start at label
+            </label>
+            <input
+              id="badgeSkip"
+              type="number"
+              min={1}
+              max={labelsPerSheet(template)}
+              value={skip + 1}
+              onChange={(e) => {
+                const position = Number(e.target.value);
+                if (position >= 1 && position <= labelsPerSheet(template)) setSkip(position - 1);
+              }}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center gap-6">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={filters.includePlusOnes}
+              onChange={(e) => setFilters({ ...filters, includePlusOnes: e.target.checked })}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            Include plus ones
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={onlyUnprinted}
+              onChange={(e) => setOnlyUnprinted(e.target.checked)}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            Only not yet printed
+          </label>
+          {printedIds.size > 0 && (
+            <button
+              type="button"
+              onClick={() => setPrintedIds(clearPrintedBadges(eventId))}
+              className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              <RotateCcw size={14} />
+              Reset printed ({printedIds.size})
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Preview */}
+      <div className="bg-white p-6 rounded-lg shadow-sm border border-gray-200">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Preview</h3>
+            <p className="text-sm text-gray-600">
+              {badges.length} badge{badges.length !== 1 ? 's' : ''} on {sheets.length} sheet
+              {sheets.length !== 1 ? 's' : ''}
+            </p>
+          </div>
+          <Button
+            type="button"
+            onClick={handlePrint}
+            disabled={badges.length === 0 || !qrReady}
+            icon={<Printer size={18} />}
+          >
+            Print Badges
+          </Button>
+        </div>
+
+        {badges.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-500">No badges match these filters</p>
+        ) : (
+          <iframe
+            title="Badge preview"
+            srcDoc={html}
+            className="w-full h-[70vh] border border-gray-200 rounded-lg bg-gray-100"
+          />
+        )}
+        <p className="mt-3 text-xs text-gray-500">
+          Print at 100% scale with margins set to none. Badges are marked as printed once sent to the printer.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { CheckCircle, XCircle, User, Clock, AlertCircle, UserPlus, Users } from 'lucide-react';
+import {
+  CheckInResult,
+  CheckInTarget,
+  getResultTone,
+  getResultTitle,
+  hasPendingPlusOne,
+} from '@/lib/checkin';
+
+interface CheckInResultCardProps {
+  result: CheckInResult;
+  onReset: () => void;
+  onCheckIn: (target: CheckInTarget) => void;
+  loading?: boolean;
+}
+
+const toneStyles = {
+  success: {
+    panel: 'bg-green-50 border-green-500',
+    title: 'text-green-900',
+    message: 'text-green-700',
+    time: 'bg-green-100 text-green-800 border border-green-300',
+  },
+  warning: {
+    panel: 'bg-yellow-50 border-yellow-500',
+    title: 'text-yellow-900',
+    message: 'text-yellow-700',
+    time: 'bg-yellow-100 text-yellow-800 border border-yellow-300',
+  },
+  error: {
+    panel: 'bg-red-50 border-red-500',
+    title: 'text-red-900',
+    message: 'text-red-700',
+    time: 'bg-red-100 text-red-800 border border-red-300',
+  },
+};
+
+export default function CheckInResultCard({
+  result,
+  onReset,
+  onCheckIn,
+  loading = false,
+}: CheckInResultCardProps) {
+  const tone = getResultTone(result);
+  const styles = toneStyles[tone];
+  const attendee = result.attendee;
+  const choosing = result.outcome === 'choose_target';
+  const canCheckInPlusOne = !choosing && !!attendee && hasPendingPlusOne(attendee);
+
+  return (
+    <div className="space-y-4">
+      {/* Result Status */}
+      <div className={`p-4 rounded-lg border-2 ${styles.panel}`}>
+        <div className="flex items-center gap-3">
+          {tone === 'warning' ? (
+            <AlertCircle className="w-8 h-8 text-yellow-600" />
+          ) : tone === 'success' ? (
+            <CheckCircle className="w-8 h-8 text-green-600" />
+          ) : (
+            <XCircle className="w-8 h-8 text-red-600" />
+          )}
+          <div>
+            <h3 className={`text-lg font-semibold ${styles.title}`}>{getResultTitle(result)}</h3>
+            {result.message && <p className={styles.message}>{result.message}</p>}
+          </div>
+        </div>
+      </div>
+
+      {/* Attendee Details */}
+      {result.valid && attendee && (
+        <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+          <div className="flex items-center gap-2 text-gray-900 font-semibold text-lg">
+            <User size={20} />
+            Attendee Information
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            <div>
+              <p className="text-sm text-gray-600">Name</p>
+              <p className="font-medium text-gray-900">{attendee.name}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Company</p>
+              <p className="font-medium text-gray-900">{attendee.company}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Title</p>
+              <p className="font-medium text-gray-900">{attendee.title}</p>
+            </div>
+            {/* Email is stripped by the engine for roles that may not see it */}
+            {attendee.email && (
+              <div>
+                <p className="text-sm text-gray-600">Email</p>
+                <p className="font-medium text-gray-900">{attendee.email}</p>
+              </div>
+            )}
+            <div>
+              <p className="text-sm text-gray-600">Registration ID</p>
+              <p className="font-medium text-gray-900 font-mono">{attendee.registrationId}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Status</p>
+              <span
+                className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                  attendee.status === 'CONFIRMED'
+                    ? 'bg-green-100 text-green-800'
+                    : attendee.status === 'WAITLISTED'
+                    ? 'bg-yellow-100 text-yellow-800'
+                    : 'bg-red-100 text-red-800'
+                }`}
+              >
+                {attendee.status}
+              </span>
+            </div>
+          </div>
+
+          {/* Plus One Info */}
+          {attendee.plusOne && (
+            <div className="mt-4 pt-4 border-t border-gray-200">
+              <p className="text-sm font-semibold text-gray-900 mb-2">Plus One</p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <p className="text-sm text-gray-600">Name</p>
+                  <p className="font-medium text-gray-900">{attendee.plusOne.name}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-600">Company</p>
+                  <p className="font-medium text-gray-900">{attendee.plusOne.company}</p>
+                </div>
+                {attendee.plusOne.email && (
+                  <div>
+                    <p className="text-sm text-gray-600">Email</p>
+                    <p className="font-medium text-gray-900">{attendee.plusOne.email}</p>
+                  </div>
+                )}
+                <div>
+                  <p className="text-sm text-gray-600">Checked In</p>
+                  <p className="font-medium text-gray-900">
+                    {attendee.plusOne.checkedInAt
+                      ? new Date(attendee.plusOne.checkedInAt).toLocaleString()
+                      : 'Not yet'}
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Check-in Time */}
+          {attendee.checkedInAt && (
+            <div className={`flex items-center gap-2 text-sm mt-3 p-3 rounded-lg ${styles.time}`}>
+              <Clock size={16} />
+              <span className="font-medium">
+                {result.alreadyCheckedIn ? 'Previously checked in at:' : 'Checked in at:'}
+              </span>
+              <span>{new Date(attendee.checkedInAt).toLocaleString()}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Plus-One Check-In Choice */}
+      {choosing && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <button
+            onClick={() => onCheckIn('guest')}
+            disabled={loading}
+            className="inline-flex items-center justify-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <User size={18} />
+            Check in guest
+          </button>
+          <button
+            onClick={() => onCheckIn('plusOne')}
+            disabled={loading}
+            className="inline-flex items-center justify-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <UserPlus size={18} />
+            Check in plus-one
+          </button>
+          <button
+            onClick={() => onCheckIn('both')}
+            disabled={loading}
+            className="inline-flex items-center justify-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Users size={18} />
+            Check in both
+          </button>
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-3">
+        {canCheckInPlusOne && (
+          <button
+            onClick={() => onCheckIn('plusOne')}
+            disabled={loading}
+            className="flex-1 inline-flex items-center justify-center gap-2 bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <UserPlus size={18} />
+            Check in plus-one
+          </button>
+        )}
+        <button
+          onClick={onReset}
+          className={`flex-1 px-4 py-2 rounded-lg transition-colors ${
+            choosing
+              ? 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+          }`}
+        >
+          {choosing ? 'Cancel' : 'Scan Next'}
+        </button>
+      </div>
+    </div>
+  );
+}
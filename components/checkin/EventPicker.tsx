@@ -0,0 +1,38 @@
+import { ReactNode } from 'react';
+import { Event } from '@/lib/types';
+
+interface EventPickerProps {
+  events: Event[];
+  selectedEventId: string;
+  onChange: (eventId: string) => void;
+  children?: ReactNode;
+}
+
+export default function EventPicker({ events, selectedEventId, onChange, children }: EventPickerProps) {
+  const selectedEvent = events.find((e) => e.id === selectedEventId);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 mb-6">
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Select Event
+      </label>
+      <select
+        value={selectedEventId}
+        onChange={(e) => onChange(e.target.value)}
+        className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+      >
+        {events.map((event) => (
+          <option key={event.id} value={event.id}>
+            {event.eventName} - {new Date(event.eventDate).toLocaleDateString('en-US', { timeZone: 'UTC' })}
+          </option>
+        ))}
+      </select>
+      {selectedEvent && (
+        <div className="mt-3 text-sm text-gray-600">
+          <p>Capacity: {selectedEvent.currentRegistrations} / {selectedEvent.capacity}</p>
+        </div>
+      )}
+      {children}
+    </div>
+  );
+}
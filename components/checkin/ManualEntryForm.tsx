@@ -0,0 +1,45 @@
+'use client';
+
+import { useState } from 'react';
+
+interface ManualEntryFormProps {
+  onSubmit: (qrCode: string) => void;
+  loading?: boolean;
+}
+
+export default function ManualEntryForm({ onSubmit, loading = false }: ManualEntryFormProps) {
+  const [manualCode, setManualCode] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (manualCode.trim()) {
+      onSubmit(manualCode.trim());
+      setManualCode('');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">Manual Entry</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Enter the QR code manually if scanning is not available
+      </p>
+      <form onSubmit={handleSubmit} className="flex gap-3">
+        <input
+          type="text"
+          value={manualCode}
+          onChange={(e) => setManualCode(e.target.value)}
+          placeholder="Enter QR code..."
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="submit"
+          disabled={!manualCode.trim() || loading}
+          className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {loading ? 'Checking...' : 'Check In'}
+        </button>
+      </form>
+    </div>
+  );
+}
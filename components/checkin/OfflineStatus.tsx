@@ -0,0 +1,112 @@
+import { AlertCircle, XCircle, Wifi, WifiOff, RefreshCw, Download } from 'lucide-react';
+import { getErrorMessage } from '@/lib/api';
+import { useOfflineCheckin } from '@/lib/hooks/useOfflineCheckin';
+
+type OfflineState = ReturnType<typeof useOfflineCheckin>;
+
+interface OfflineStatusBarProps {
+  offline: OfflineState;
+  onDownloadError: (message: string) => void;
+}
+
+// Connectivity badge, pending queue and roster controls for the event picker
+export function OfflineStatusBar({ offline, onDownloadError }: OfflineStatusBarProps) {
+  if (!offline.available) return null;
+
+  return (
+    <div className="mt-4 pt-4 border-t border-gray-200 flex flex-col sm:flex-row sm:items-center justify-between gap-3 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span
+          className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium ${
+            offline.isOnline ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+          }`}
+        >
+          {offline.isOnline ? <Wifi size={14} /> : <WifiOff size={14} />}
+          {offline.isOnline ? 'Online' : 'Offline'}
+        </span>
+        {offline.pendingCount > 0 && (
+          <span className="inline-flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+            {offline.pendingCount} pending sync
+          </span>
+        )}
+        <span className="text-gray-500">
+          {offline.rosterMeta
+            ? `Roster: ${offline.rosterMeta.count} guests, saved ${new Date(offline.rosterMeta.downloadedAt).toLocaleTimeString()}`
+            : 'Roster not downloaded'}
+        </span>
+        {offline.rosterError && (
+          <span className="inline-flex items-center gap-1 text-red-600" title={offline.rosterError}>
+            <AlertCircle size={14} />
+            Roster update failed
+          </span>
+        )}
+        {offline.syncError && (
+          <span className="inline-flex items-center gap-1 text-red-600" title={offline.syncError}>
+            <AlertCircle size={14} />
+            Sync failed, will retry
+          </span>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        {offline.pendingCount > 0 && (
+          <button
+            onClick={offline.syncNow}
+            disabled={!offline.isOnline || offline.syncing}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <RefreshCw size={14} className={offline.syncing ? 'animate-spin' : ''} />
+            Sync now
+          </button>
+        )}
+        <button
+          onClick={() => offline.downloadRoster().catch((err) => onDownloadError(getErrorMessage(err)))}
+          disabled={!offline.isOnline || offline.downloading}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Download size={14} />
+          {offline.downloading ? 'Downloading...' : 'Refresh roster'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface SyncConflictListProps {
+  offline: OfflineState;
+}
+
+export function SyncConflictList({ offline }: SyncConflictListProps) {
+  if (offline.conflicts.length === 0) return null;
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-300 rounded-lg p-4 mb-6">
+      <h3 className="text-sm font-semibold text-yellow-900 mb-2 flex items-center gap-2">
+        <AlertCircle size={16} />
+        Offline check-ins that could not be synced
+      </h3>
+      <ul className="space-y-2">
+        {offline.conflicts.map((conflict, index) => (
+          <li
+            key={`${conflict.checkIn.id}-${index}`}
+            className="flex items-start justify-between gap-3 text-sm text-yellow-800"
+          >
+            <div>
+              <span className="font-medium">{conflict.checkIn.attendeeName}</span>
+              {' '}scanned at {new Date(conflict.checkIn.scannedAt).toLocaleTimeString()}: {conflict.message}
+              {conflict.serverCheckedInAt && (
+                <span> (server check-in at {new Date(conflict.serverCheckedInAt).toLocaleTimeString()})</span>
+              )}
+            </div>
+            <button
+              onClick={() => offline.dismissConflict(index)}
+              className="text-yellow-700 hover:text-yellow-900 flex-shrink-0"
+              title="Dismiss"
+            >
+              <XCircle size={16} />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
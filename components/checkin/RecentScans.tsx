@@ -0,0 +1,66 @@
+import { CheckCircle, XCircle, AlertCircle, UserPlus } from 'lucide-react';
+import { ScanRecord, getResultTone, getResultTitle, hasPendingPlusOne } from '@/lib/checkin';
+
+interface RecentScansProps {
+  scans: ScanRecord[];
+  onClear: () => void;
+  onCheckInPlusOne: (qrCode: string) => void;
+}
+
+export default function RecentScans({ scans, onClear, onCheckInPlusOne }: RecentScansProps) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Recent Scans</h3>
+        {scans.length > 0 && (
+          <button onClick={onClear} className="text-sm text-gray-600 hover:text-gray-900">
+            Clear
+          </button>
+        )}
+      </div>
+
+      {scans.length === 0 ? (
+        <p className="text-sm text-gray-500">Scanned guests will appear here</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {scans.map((scan) => {
+            const tone = getResultTone(scan.result);
+            return (
+              <li key={scan.id} className="py-2 flex items-center gap-3">
+                {tone === 'success' ? (
+                  <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                ) : tone === 'warning' ? (
+                  <AlertCircle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+                ) : (
+                  <XCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {scan.result.attendee?.name || scan.qrCode}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {getResultTitle(scan.result)}
+                    {scan.result.offline && ' (offline)'}
+                  </p>
+                </div>
+                {scan.result.valid && hasPendingPlusOne(scan.result.attendee) && (
+                  <button
+                    onClick={() => onCheckInPlusOne(scan.qrCode)}
+                    className="inline-flex items-center gap-1 px-2 py-1 text-xs border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 flex-shrink-0"
+                    title={`Check in ${scan.result.attendee?.plusOne?.name}`}
+                  >
+                    <UserPlus size={14} />
+                    Plus-one
+                  </button>
+                )}
+                <span className="text-xs text-gray-500 flex-shrink-0">
+                  {new Date(scan.scannedAt).toLocaleTimeString()}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
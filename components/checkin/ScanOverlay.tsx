@@ -0,0 +1,61 @@
+'use client';
+
+import { useEffect } from 'react';
+import { CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { ScanRecord, getResultTone, getResultTitle } from '@/lib/checkin';
+
+interface ScanOverlayProps {
+  scan: ScanRecord | null;
+  onDismiss: () => void;
+}
+
+const toneStyles = {
+  success: 'bg-green-600/90',
+  warning: 'bg-amber-500/90',
+  error: 'bg-red-600/90',
+};
+
+// Problems stay up a little longer so staff notice them
+const DISPLAY_MS = {
+  success: 1200,
+  warning: 2500,
+  error: 2500,
+};
+
+export default function ScanOverlay({ scan, onDismiss }: ScanOverlayProps) {
+  const tone = scan ? getResultTone(scan.result) : 'success';
+
+  useEffect(() => {
+    if (!scan) return;
+    const timer = setTimeout(onDismiss, DISPLAY_MS[tone]);
+    return () => clearTimeout(timer);
+  }, [scan, tone, onDismiss]);
+
+  if (!scan) return null;
+
+  const attendee = scan.result.attendee;
+
+  return (
+    <div
+      onClick={onDismiss}
+      className={`fixed inset-0 z-50 flex flex-col items-center justify-center text-white text-center p-6 ${toneStyles[tone]}`}
+    >
+      {tone === 'success' ? (
+        <CheckCircle className="w-24 h-24 mb-4" />
+      ) : tone === 'warning' ? (
+        <AlertCircle className="w-24 h-24 mb-4" />
+      ) : (
+        <XCircle className="w-24 h-24 mb-4" />
+      )}
+      <h2 className="text-3xl md:text-4xl font-bold">{getResultTitle(scan.result)}</h2>
+      {attendee && (
+        <p className="text-2xl mt-3 font-semibold">
+          {attendee.name}
+          {attendee.plusOne && <span className="font-normal"> + {attendee.plusOne.name}</span>}
+        </p>
+      )}
+      {attendee?.company && <p className="text-lg opacity-90">{attendee.company}</p>}
+      {scan.result.message && <p className="text-lg mt-3 opacity-90">{scan.result.message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { RefObject } from 'react';
+import { Camera, Repeat } from 'lucide-react';
+import { SCAN_DEBOUNCE_OPTIONS_MS } from '@/lib/checkin';
+
+interface ScannerPanelProps {
+  scanning: boolean;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  cameraError: string | null;
+  onStart: () => void;
+  onStop: () => void;
+  continuous: boolean;
+  onContinuousChange: (continuous: boolean) => void;
+  debounceMs: number;
+  onDebounceChange: (debounceMs: number) => void;
+}
+
+export default function ScannerPanel({
+  scanning,
+  videoRef,
+  cameraError,
+  onStart,
+  onStop,
+  continuous,
+  onContinuousChange,
+  debounceMs,
+  onDebounceChange,
+}: ScannerPanelProps) {
+  if (!scanning) {
+    return (
+      <div className="text-center">
+        <Camera className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">Ready to Scan</h2>
+        <p className="text-gray-600 mb-6">Click the button below to start scanning QR codes</p>
+        {cameraError && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-red-700 text-sm">
+            {cameraError}
+          </div>
+        )}
+        <button
+          onClick={onStart}
+          className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors inline-flex items-center gap-2"
+        >
+          <Camera size={20} />
+          Start Scanning
+        </button>
+
+        {/* Rapid Scan Settings */}
+        <div className="mt-6 pt-4 border-t border-gray-200 flex flex-col sm:flex-row items-center justify-center gap-4 text-sm">
+          <label className="inline-flex items-center gap-2 text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={continuous}
+              onChange={(e) => onContinuousChange(e.target.checked)}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            Continuous scanning
+          </label>
+          {continuous && (
+            <label className="inline-flex items-center gap-2 text-gray-700">
+              Ignore repeat scans for
+              <select
+                value={debounceMs}
+                onChange={(e) => onDebounceChange(Number(e.target.value))}
+                className="px-2 py-1 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {SCAN_DEBOUNCE_OPTIONS_MS.map((ms) => (
+                  <option key={ms} value={ms}>
+                    {ms / 1000} seconds
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="mb-4 relative bg-black rounded-lg overflow-hidden" style={{ paddingTop: '75%' }}>
+        <video
+          ref={videoRef}
+          className="absolute top-0 left-0 w-full h-full object-cover"
+        />
+        <div className="absolute inset-0 border-4 border-blue-500 pointer-events-none">
+          <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 w-48 h-48 border-2 border-white rounded-lg"></div>
+        </div>
+      </div>
+      {continuous && (
+        <p className="mb-3 text-sm text-gray-600 flex items-center gap-2">
+          <Repeat size={16} />
+          Continuous scanning: the camera stays on between guests
+        </p>
+      )}
+      <button
+        onClick={onStop}
+        className="w-full bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+      >
+        Stop Scanning
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+'use client';
+
+import { useEffect } from 'react';
+import { Control, FieldErrors, UseFormRegister, useFieldArray } from 'react-hook-form';
+import { CalendarRange, Plus, X } from 'lucide-react';
+import { addDays, getEventDayCount } from '@/lib/eventSchedule';
+import { EventFormData } from '@/lib/validation';
+
+interface AgendaFieldsProps {
+  control: Control<EventFormData>;
+  register: UseFormRegister<EventFormData>;
+  errors: FieldErrors<EventFormData>;
+  eventDate: string;
+  eventEndDate?: string;
+}
+
+const DEFAULT_DAY = { title: '', startTime: '09:00', endTime: '17:00' };
+
+const inputClassName =
+  'w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function formatDay(day: string): string {
+  return new Date(day).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+// Title and hours for each day of a multi-day event. Shown once the event
+// ends on a later date; the agenda itself stays optional.
+export default function AgendaFields({ control, register, errors, eventDate, eventEndDate }: AgendaFieldsProps) {
+  const { fields, append, remove, replace } = useFieldArray({ control, name: 'agenda' });
+  const days = getEventDayCount(eventDate, eventEndDate);
+
+  // Keep one row per day when the end date moves. A single-day form keeps
+  // its rows so a copied event gets its agenda back once its dates are set.
+  useEffect(() => {
+    if (fields.length === 0 || days < 2) return;
+    if (fields.length < days) {
+      append(Array.from({ length: days - fields.length }, () => DEFAULT_DAY));
+    } else if (fields.length > days) {
+      remove(Array.from({ length: fields.length - days }, (_, i) => days + i));
+    }
+  }, [days, fields.length, append, remove]);
+
+  if (days < 2) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarRange className="text-blue-600" size={24} />
+          <h2 className="text-xl font-semibold text-gray-900">Agenda</h2>
+        </div>
+        {fields.length > 0 && (
+          <button
+            type="button"
+            onClick={() => replace([])}
+            className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <X size={16} />
+            Remove Agenda
+          </button>
+        )}
+      </div>
+
+      {fields.length === 0 ? (
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <p className="text-sm text-gray-600">
+            This event runs over {days} days. Add a title and hours for each day, or leave the agenda out.
+          </p>
+          <button
+            type="button"
+            onClick={() => replace(Array.from({ length: days }, () => DEFAULT_DAY))}
+            className="flex items-center justify-center gap-2 px-4 py-2 text-sm text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors whitespace-nowrap"
+          >
+            <Plus size={16} />
+            Add Agenda
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {fields.slice(0, days).map((field, index) => {
+            const dayErrors = errors.agenda?.[index];
+            return (
+              <div key={field.id} className="grid grid-cols-1 md:grid-cols-4 gap-4 md:items-start">
+                <div className="md:col-span-2">
+                  <label htmlFor={`agenda-${index}-title`} className="block text-sm font-medium text-gray-700 mb-1">
+                    Day {index + 1} · {formatDay(addDays(eventDate, index))}
+                  </label>
+                  <input
+                    type="text"
+                    id={`agenda-${index}-title`}
+                    {...register(`agenda.${index}.title`)}
+                    className={`${inputClassName} ${dayErrors?.title ? 'border-red-500' : 'border-gray-300'}`}
+                    placeholder="e.g., Workshops"
+                  />
+                  {dayErrors?.title && <p className="mt-1 text-sm text-red-600">{dayErrors.title.message}</p>}
+                </div>
+
+                <div>
+                  <label htmlFor={`agenda-${index}-startTime`} className="block text-sm font-medium text-gray-700 mb-1">
+                    Starts
+                  </label>
+                  <input
+                    type="time"
+                    id={`agenda-${index}-startTime`}
+                    {...register(`agenda.${index}.startTime`)}
+                    className={`${inputClassName} ${dayErrors?.startTime ? 'border-red-500' : 'border-gray-300'}`}
+                  />
+                  {dayErrors?.startTime && (
+                    <p className="mt-1 text-sm text-red-600">{dayErrors.startTime.message}</p>
+                  )}
+                </div>
+
+                <div>
+                  <label htmlFor={`agenda-${index}-endTime`} className="block text-sm font-medium text-gray-700 mb-1">
+                    Ends
+                  </label>
+                  <input
+                    type="time"
+                    id={`agenda-${index}-endTime`}
+                    {...register(`agenda.${index}.endTime`)}
+                    className={`${inputClassName} ${dayErrors?.endTime ? 'border-red-500' : 'border-gray-300'}`}
+                  />
+                  {dayErrors?.endTime && <p className="mt-1 text-sm text-red-600">{dayErrors.endTime.message}</p>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+'use client';
+
+import { useState } from 'react';
+import { Repeat, X } from 'lucide-react';
+import {
+  MAX_SERIES_EVENTS,
+  MAX_SERIES_INTERVAL,
+  MonthlyMode,
+  RecurrenceFrequency,
+  SeriesRule,
+  describeMonthlyDay,
+  generateSeriesDates,
+} from '@/lib/eventSeries';
+
+interface RecurrenceFieldsProps {
+  rule: SeriesRule;
+  onChange: (rule: SeriesRule) => void;
+  // Event date from the form; the series starts on it
+  startDate: string;
+  error: string | null;
+}
+
+// Dates listed in the preview before it is cut short
+const PREVIEW_LIMIT = 12;
+
+const inputClassName =
+  'px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+function formatDay(day: string): string {
+  return new Date(day).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+}
+
+// Repeat settings on the new event form
+export default function RecurrenceFields({ rule, onChange, startDate, error }: RecurrenceFieldsProps) {
+  const [customDate, setCustomDate] = useState('');
+  const dates = rule.frequency === 'none' ? [] : generateSeriesDates(startDate, rule);
+  const unit = rule.frequency === 'weekly' ? 'week' : 'month';
+
+  const update = (patch: Partial<SeriesRule>) => onChange({ ...rule, ...patch });
+
+  const addCustomDate = () => {
+    if (!customDate || rule.customDates.includes(customDate)) return;
+    update({ customDates: [...rule.customDates, customDate].sort() });
+    setCustomDate('');
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center gap-2 mb-4">
+        <Repeat className="text-blue-600" size={24} />
+        <h2 className="text-xl font-semibold text-gray-900">Repeat</h2>
+      </div>
+
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="frequency" className="block text-sm font-medium text-gray-700 mb-1">
+            Frequency
+          </label>
+          <select
+            id="frequency"
+            value={rule.frequency}
+            onChange={(e) => update({ frequency: e.target.value as RecurrenceFrequency })}
+            className={`w-full ${inputClassName}`}
+          >
+            <option value="none">Does not repeat</option>
+            <option value="weekly">Weekly</option>
+            <option value="monthly">Monthly</option>
+            <option value="custom">Custom dates</option>
+          </select>
+        </div>
+
+        {(rule.frequency === 'weekly' || rule.frequency === 'monthly') && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="interval" className="block text-sm font-medium text-gray-700 mb-1">
+                Every
+              </label>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  id="interval"
+                  min={1}
+                  max={MAX_SERIES_INTERVAL}
+                  value={rule.interval}
+                  onChange={(e) => update({ interval: e.target.valueAsNumber })}
+                  className={`w-24 ${inputClassName}`}
+                />
+                <span className="text-sm text-gray-700">
+                  {unit}
+                  {rule.interval !== 1 ? 's' : ''}
+                </span>
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="count" className="block text-sm font-medium text-gray-700 mb-1">
+                Number of Events
+              </label>
+              <input
+                type="number"
+                id="count"
+                min={2}
+                max={MAX_SERIES_EVENTS}
+                value={rule.count}
+                onChange={(e) => update({ count: e.target.valueAsNumber })}
+                className={`w-24 ${inputClassName}`}
+              />
+            </div>
+          </div>
+        )}
+
+        {rule.frequency === 'monthly' && (
+          <div className="flex flex-col sm:flex-row gap-2 sm:gap-6">
+            {(['dayOfMonth', 'weekdayOfMonth'] as MonthlyMode[]).map((mode) => (
+              <label key={mode} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="monthlyMode"
+                  checked={rule.monthlyMode === mode}
+                  onChange={() => update({ monthlyMode: mode })}
+                  className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                />
+                <span className="text-sm font-medium text-gray-700">
+                  Monthly {describeMonthlyDay(startDate, mode)}
+                </span>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {rule.frequency === 'custom' && (
+          <div>
+            <label htmlFor="customDate" className="block text-sm font-medium text-gray-700 mb-1">
+              More Dates
+            </label>
+            <div className="flex gap-2">
+              <input
+                type="date"
+                id="customDate"
+                value={customDate}
+                onChange={(e) => setCustomDate(e.target.value)}
+                className={inputClassName}
+              />
+              <button
+                type="button"
+                onClick={addCustomDate}
+                disabled={!customDate}
+                className="px-4 py-2 text-sm text-blue-600 bg-blue-50 hover:bg-blue-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add Date
+              </button>
+            </div>
+            {rule.customDates.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {rule.customDates.map((day) => (
+                  <span
+                    key={day}
+                    className="inline-flex items-center gap-1 px-2.5 py-0.5 rounded-full bg-gray-100 text-gray-700 text-xs"
+                  >
+                    {formatDay(day)}
+                    <button
+                      type="button"
+                      onClick={() => update({ customDates: rule.customDates.filter((d) => d !== day) })}
+                      className="text-gray-500 hover:text-gray-900"
+                      title="Remove date"
+                    >
+                      <X size={14} />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {rule.frequency !== 'none' &&
+          (error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : (
+            <div className="bg-gray-50 rounded-lg p-4">
+              <p className="text-sm font-medium text-gray-700 mb-2">
+                Creates {dates.length} events with the same settings:
+              </p>
+              <ul className="grid grid-cols-1 sm:grid-cols-2 gap-1 text-sm text-gray-600">
+                {dates.slice(0, PREVIEW_LIMIT).map((day) => (
+                  <li key={day}>{formatDay(day)}</li>
+                ))}
+              </ul>
+              {dates.length > PREVIEW_LIMIT && (
+                <p className="text-sm text-gray-500 mt-1">and {dates.length - PREVIEW_LIMIT} more</p>
+              )}
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import Button from '@/components/ui/Button';
+
+interface SaveTemplateDialogProps {
+  // Suggested template name, usually the event's
+  defaultName: string;
+  onClose: () => void;
+  onSave: (name: string) => Promise<void>;
+}
+
+// Mounted when opened, so the name starts from the current event
+export default function SaveTemplateDialog({ defaultName, onClose, onSave }: SaveTemplateDialogProps) {
+  const [name, setName] = useState(defaultName);
+  const [saving, setSaving] = useState(false);
+  const trimmed = name.trim();
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!trimmed) return;
+    setSaving(true);
+    try {
+      await onSave(trimmed);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={saving ? undefined : onClose}
+      ></div>
+
+      {/* Dialog */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <form onSubmit={handleSave} className="relative bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+            disabled={saving}
+          >
+            <X size={20} />
+          </button>
+
+          <h3 className="text-lg font-semibold text-gray-900">Save as Template</h3>
+          <p className="text-sm text-gray-600 mb-5">
+            Saves the venue, times, dress code, capacity and settings. The name and date are filled in for each new
+            event.
+          </p>
+
+          <label htmlFor="templateName" className="block text-sm font-medium text-gray-700 mb-1">
+            Template Name
+          </label>
+          <input
+            type="text"
+            id="templateName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            maxLength={100}
+            autoFocus
+            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder="e.g., Monthly Supper Club"
+          />
+
+          <div className="mt-6 flex gap-3">
+            <Button type="button" variant="secondary" onClick={onClose} disabled={saving} className="flex-1">
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" loading={saving} disabled={!trimmed} className="flex-1">
+              Save Template
+            </Button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { SeriesScope } from '@/lib/eventSeries';
+import Button from '@/components/ui/Button';
+
+interface SeriesScopeDialogProps {
+  // Events each choice would update
+  counts: Record<SeriesScope, number>;
+  // Set while an edit is being saved
+  saving: boolean;
+  onClose: () => void;
+  onSave: (scope: SeriesScope) => void;
+}
+
+const SCOPE_LABELS: Record<SeriesScope, string> = {
+  this: 'This event',
+  following: 'This and following events',
+  all: 'All events in the series',
+};
+
+// Asks which events of a recurring series an edit applies to
+export default function SeriesScopeDialog({ counts, saving, onClose, onSave }: SeriesScopeDialogProps) {
+  const [scope, setScope] = useState<SeriesScope>('this');
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={saving ? undefined : onClose}
+      ></div>
+
+      {/* Dialog */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+            disabled={saving}
+          >
+            <X size={20} />
+          </button>
+
+          <h3 className="text-lg font-semibold text-gray-900">Edit Recurring Event</h3>
+          <p className="text-sm text-gray-600 mb-5">
+            Other events keep their own dates; everything else is copied from this form.
+          </p>
+
+          <div className="space-y-2">
+            {(Object.keys(SCOPE_LABELS) as SeriesScope[]).map((option) => (
+              <label
+                key={option}
+                className={`flex items-center justify-between gap-3 px-4 py-3 rounded-lg border cursor-pointer transition-colors ${
+                  scope === option ? 'border-blue-600 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <span className="flex items-center gap-3">
+                  <input
+                    type="radio"
+                    name="seriesScope"
+                    checked={scope === option}
+                    onChange={() => setScope(option)}
+                    disabled={saving}
+                    className="w-4 h-4 text-blue-600 border-gray-300 focus:ring-blue-500"
+                  />
+                  <span className="text-sm font-medium text-gray-900">{SCOPE_LABELS[option]}</span>
+                </span>
+                <span className="text-xs text-gray-500">
+                  {counts[option]} event{counts[option] !== 1 ? 's' : ''}
+                </span>
+              </label>
+            ))}
+          </div>
+
+          <div className="mt-6 flex gap-3">
+            <Button variant="secondary" onClick={onClose} disabled={saving} className="flex-1">
+              Cancel
+            </Button>
+            <Button variant="primary" onClick={() => onSave(scope)} loading={saving} className="flex-1">
+              Save Changes
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
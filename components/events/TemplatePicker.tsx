@@ -0,0 +1,64 @@
+'use client';
+
+import { useState } from 'react';
+import { LayoutTemplate, Trash2 } from 'lucide-react';
+import { EventTemplate } from '@/lib/eventTemplates';
+import Button from '@/components/ui/Button';
+
+interface TemplatePickerProps {
+  templates: EventTemplate[];
+  onApply: (template: EventTemplate) => void;
+  onDelete: (template: EventTemplate) => void;
+}
+
+// Fill the new event form from a saved template
+export default function TemplatePicker({ templates, onApply, onDelete }: TemplatePickerProps) {
+  const [selectedId, setSelectedId] = useState('');
+  const selected = templates.find((template) => template.id === selectedId);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center gap-2 mb-1">
+        <LayoutTemplate className="text-blue-600" size={24} />
+        <h2 className="text-xl font-semibold text-gray-900">Start from a Template</h2>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">Fills in everything except the event name and date.</p>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <select
+          value={selected ? selectedId : ''}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+          aria-label="Template"
+        >
+          <option value="">Choose a template...</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>
+              {template.name}
+            </option>
+          ))}
+        </select>
+        <div className="flex gap-3">
+          <Button
+            type="button"
+            variant="primary"
+            onClick={() => selected && onApply(selected)}
+            disabled={!selected}
+            className="flex-1 sm:flex-none"
+          >
+            Use Template
+          </Button>
+          <button
+            type="button"
+            onClick={() => selected && onDelete(selected)}
+            disabled={!selected}
+            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            title="Delete template"
+          >
+            <Trash2 size={18} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,379 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { Download, FileSpreadsheet, Upload, X } from 'lucide-react';
+import { api, getErrorMessage } from '@/lib/api';
+import { invalidateEventData } from '@/lib/eventData';
+import { downloadBlob } from '@/lib/files';
+import {
+  BulkCreateResponse,
+  ColumnMapping,
+  GUEST_FIELDS,
+  GuestField,
+  IMPORT_CHUNK_SIZE,
+  ImportResult,
+  ImportRowStatus,
+  buildImportReport,
+  buildImportRows,
+  chunk,
+  failedChunkResults,
+  guessMapping,
+  isHeaderless,
+  readGuestFile,
+  resultsForChunk,
+  skippedResults,
+} from '@/lib/guestImport';
+import { useInvites } from '@/lib/hooks/useEventData';
+import Button from '@/components/ui/Button';
+
+// Keep very large lists from rendering thousands of table rows
+const PREVIEW_LIMIT = 500;
+
+const STATUS_STYLES: Record<ImportRowStatus, { label: string; className: string }> = {
+  ready: { label: 'Ready', className: 'bg-green-100 text-green-800' },
+  invalid: { label: 'Invalid', className: 'bg-red-100 text-red-800' },
+  duplicate: { label: 'Duplicate', className: 'bg-yellow-100 text-yellow-800' },
+  existing: { label: 'Already invited', className: 'bg-gray-100 text-gray-700' },
+};
+
+interface GuestListImportProps {
+  eventId: string;
+  sendEmails: boolean;
+  onComplete: (created: number, failed: number) => void;
+}
+
+export default function GuestListImport({ eventId, sendEmails, onComplete }: GuestListImportProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [fileRows, setFileRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [problemsOnly, setProblemsOnly] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [results, setResults] = useState<ImportResult[] | null>(null);
+  const { invites: existingInvites, loading: invitesLoading } = useInvites(eventId);
+
+  const columnCount = useMemo(
+    () => fileRows.reduce((max, row) => Math.max(max, row.length), 0),
+    [fileRows]
+  );
+
+  const columnLabels = useMemo(
+    () =>
+      Array.from({ length: columnCount }, (_, index) =>
+        hasHeader && fileRows[0]?.[index] ? fileRows[0][index] : `Column ${index + 1}`
+      ),
+    [columnCount, fileRows, hasHeader]
+  );
+
+  const rows = useMemo(() => {
+    if (!mapping) return [];
+    const dataRows = hasHeader ? fileRows.slice(1) : fileRows;
+    return buildImportRows(
+      dataRows,
+      mapping,
+      existingInvites.map((invite) => invite.email),
+      hasHeader ? 2 : 1
+    );
+  }, [fileRows, hasHeader, mapping, existingInvites]);
+
+  const counts = useMemo(() => {
+    const totals: Record<ImportRowStatus, number> = { ready: 0, invalid: 0, duplicate: 0, existing: 0 };
+    rows.forEach((row) => totals[row.status]++);
+    return totals;
+  }, [rows]);
+
+  const previewRows = (problemsOnly ? rows.filter((row) => row.status !== 'ready') : rows).slice(
+    0,
+    PREVIEW_LIMIT
+  );
+  const importing = progress !== null && results === null;
+
+  const reset = () => {
+    setFileName(null);
+    setFileRows([]);
+    setMapping(null);
+    setReadError(null);
+    setProgress(null);
+    setResults(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    reset();
+    try {
+      const parsed = await readGuestFile(file);
+      if (parsed.length === 0) {
+        setReadError('The file does not contain any rows');
+        return;
+      }
+      const guessed = guessMapping(parsed[0]);
+      setFileName(file.name);
+      setFileRows(parsed);
+      setHasHeader(!isHeaderless(parsed[0], guessed));
+      setMapping(guessed);
+    } catch (err) {
+      setReadError(`Could not read ${file.name}: ${getErrorMessage(err)}`);
+    }
+  };
+
+  const updateMapping = (field: GuestField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: value === '' ? null : Number(value) });
+  };
+
+  // Batches go out one after another so a failure only affects its own rows
+  const handleImport = async () => {
+    const ready = rows.filter((row) => row.status === 'ready');
+    if (ready.length === 0) return;
+
+    const batches = chunk(ready, IMPORT_CHUNK_SIZE);
+    const collected: ImportResult[] = skippedResults(rows);
+    setProgress({ done: 0, total: ready.length });
+
+    for (const batch of batches) {
+      try {
+        const response = await api.post<BulkCreateResponse>(
+          '/invite/bulk-create',
+          {
+            eventId,
+            sendEmails,
+            invites: batch.map((row) => row.invite),
+          },
+          { action: 'invite.bulk_create', target: { type: 'event', id: eventId }, eventId }
+        );
+        collected.push(...resultsForChunk(batch, response));
+      } catch (err) {
+        collected.push(...failedChunkResults(batch, getErrorMessage(err)));
+      }
+      setProgress((current) => current && { ...current, done: current.done + batch.length });
+    }
+
+    invalidateEventData('invite');
+    setResults(collected);
+    onComplete(
+      collected.filter((result) => result.status === 'created').length,
+      collected.filter((result) => result.status === 'failed').length
+    );
+  };
+
+  const downloadReport = () => {
+    if (!results) return;
+    downloadBlob(
+      new Blob([buildImportReport(results)], { type: 'text/csv' }),
+      `import-report-${new Date().toISOString().split('T')[0]}.csv`
+    );
+  };
+
+  const resultCount = (status: ImportResult['status']) =>
+    results ? results.filter((result) => result.status === status).length : 0;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div className="flex items-center gap-2">
+          <FileSpreadsheet size={20} className="text-gray-500" />
+          <div>
+            <p className="text-sm font-medium text-gray-700">Import from file</p>
+            <p className="text-xs text-gray-500">
+              {fileName || 'CSV or XLSX with an email column, plus optional name, company, title and tags'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {fileName && !importing && (
+            <button
+              type="button"
+              onClick={reset}
+              className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors"
+              title="Clear file"
+            >
+              <X size={18} />
+            </button>
+          )}
+          <label
+            className={`flex items-center gap-2 px-3 py-1.5 text-sm rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50 cursor-pointer ${
+              importing ? 'opacity-50 pointer-events-none' : ''
+            }`}
+          >
+            <Upload size={16} />
+            {fileName ? 'Choose another file' : 'Choose file'}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFile}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </div>
+
+      {readError && (
+        <div className="mt-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg text-sm">
+          {readError}
+        </div>
+      )}
+
+      {mapping && !results && (
+        <div className="mt-4 space-y-4">
+          {/* Column mapping */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-sm font-medium text-gray-700">Columns</p>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={hasHeader}
+                  onChange={(e) => setHasHeader(e.target.checked)}
+                  disabled={importing}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                First row is a header
+              </label>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+              {GUEST_FIELDS.map(({ field, label, required }) => (
+                <div key={field}>
+                  <label htmlFor={`import-${field}`} className="block text-xs font-medium text-gray-600 mb-1">
+                    {label} {required && <span className="text-red-500">*</span>}
+                  </label>
+                  <select
+                    id={`import-${field}`}
+                    value={mapping[field] ?? ''}
+                    onChange={(e) => updateMapping(field, e.target.value)}
+                    disabled={importing}
+                    className="w-full px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="">{required ? 'Select a column' : 'Do not import'}</option>
+                    {columnLabels.map((columnLabel, index) => (
+                      <option key={index} value={index}>
+                        {columnLabel}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+            <p className="mt-2 text-xs text-gray-500">
+              Separate multiple tags in a cell with commas or semicolons.
+            </p>
+          </div>
+
+          {/* Summary */}
+          <div className="flex items-center justify-between gap-3 flex-wrap">
+            <div className="flex flex-wrap gap-2 text-xs">
+              {(Object.keys(STATUS_STYLES) as ImportRowStatus[]).map((status) => (
+                <span key={status} className={`px-2 py-1 rounded-full font-medium ${STATUS_STYLES[status].className}`}>
+                  {counts[status]} {STATUS_STYLES[status].label.toLowerCase()}
+                </span>
+              ))}
+              {invitesLoading && <span className="px-2 py-1 text-gray-500">Checking existing invites...</span>}
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-600">
+              <input
+                type="checkbox"
+                checked={problemsOnly}
+                onChange={(e) => setProblemsOnly(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Only show rows with problems
+            </label>
+          </div>
+
+          {/* Preview */}
+          <div className="max-h-96 overflow-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Row</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Email</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Name</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Company</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Title</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Tags</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {previewRows.map((row) => (
+                  <tr key={row.rowNumber} className={row.status === 'ready' ? '' : 'bg-red-50/40'}>
+                    <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                    <td className="px-3 py-2 text-gray-900">{row.invite.email || '—'}</td>
+                    <td className="px-3 py-2 text-gray-700">{row.invite.name || '—'}</td>
+                    <td className="px-3 py-2 text-gray-700">{row.invite.company || '—'}</td>
+                    <td className="px-3 py-2 text-gray-700">{row.invite.title || '—'}</td>
+                    <td className="px-3 py-2 text-gray-700">{row.invite.tags?.join(', ') || '—'}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[row.status].className}`}>
+                        {STATUS_STYLES[row.status].label}
+                      </span>
+                      {row.errors.length > 0 && (
+                        <p className="mt-1 text-xs text-red-600">{row.errors.join('; ')}</p>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {previewRows.length === 0 && (
+              <p className="px-3 py-6 text-center text-sm text-gray-500">No rows to show</p>
+            )}
+          </div>
+          {rows.length > PREVIEW_LIMIT && !problemsOnly && (
+            <p className="text-xs text-gray-500">
+              Showing the first {PREVIEW_LIMIT} of {rows.length} rows.
+            </p>
+          )}
+
+          {/* Submit */}
+          <div className="flex items-center justify-between gap-3 flex-wrap">
+            <p className="text-sm text-gray-600">
+              {progress
+                ? `Importing ${progress.done} of ${progress.total}...`
+                : `Invalid, duplicate and already invited rows are skipped and listed in the report.`}
+            </p>
+            <Button
+              type="button"
+              variant="primary"
+              size="sm"
+              loading={importing}
+              disabled={counts.ready === 0 || invitesLoading}
+              onClick={handleImport}
+              icon={<Upload size={16} />}
+            >
+              Import {counts.ready} Invites
+            </Button>
+          </div>
+          {progress && (
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {results && (
+        <div className="mt-4 flex items-center justify-between gap-3 flex-wrap">
+          <p className="text-sm text-gray-700">
+            <span className="text-green-700 font-medium">{resultCount('created')} created</span>
+            {', '}
+            <span className="text-red-700 font-medium">{resultCount('failed')} failed</span>
+            {', '}
+            <span className="text-gray-600">{resultCount('skipped')} skipped</span>
+          </p>
+          <Button type="button" variant="secondary" size="sm" onClick={downloadReport} icon={<Download size={16} />}>
+            Download Report
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+'use client';
+
+import { ReactNode, createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import { useToast } from '@/lib/hooks/useToast';
+import { ToastContainer } from '@/components/ui/Toast';
+import ConfirmDialog from '@/components/ui/ConfirmDialog';
+
+type Notify = (title: string, message?: string, duration?: number) => void;
+
+interface NotifyApi {
+  success: Notify;
+  error: Notify;
+  warning: Notify;
+  info: Notify;
+}
+
+export interface ConfirmOptions {
+  title: string;
+  message: string | ReactNode;
+  confirmText?: string;
+  cancelText?: string;
+  variant?: 'danger' | 'warning' | 'info';
+}
+
+type Confirm = (options: ConfirmOptions) => Promise<boolean>;
+
+const NotifyContext = createContext<NotifyApi | null>(null);
+const ConfirmContext = createContext<Confirm | null>(null);
+
+// App-wide toasts and confirmation dialog. Toasts live above the page, so one
+// shown just before navigating stays on screen.
+export function FeedbackProvider({ children }: { children: ReactNode }) {
+  const { toasts, closeToast, success, error, warning, info } = useToast();
+  const [pending, setPending] = useState<ConfirmOptions | null>(null);
+  const resolveRef = useRef<((confirmed: boolean) => void) | null>(null);
+
+  const settle = useCallback((confirmed: boolean) => {
+    resolveRef.current?.(confirmed);
+    resolveRef.current = null;
+    setPending(null);
+  }, []);
+
+  const confirm = useCallback<Confirm>(
+    (options) => {
+      // Only one dialog at a time; an unanswered one counts as cancelled
+      settle(false);
+      setPending(options);
+      return new Promise<boolean>((resolve) => {
+        resolveRef.current = resolve;
+      });
+    },
+    [settle]
+  );
+
+  const notify = useMemo(() => ({ success, error, warning, info }), [success, error, warning, info]);
+
+  return (
+    <NotifyContext.Provider value={notify}>
+      <ConfirmContext.Provider value={confirm}>
+        {children}
+        <ToastContainer toasts={toasts} onClose={closeToast} />
+        <ConfirmDialog
+          isOpen={pending !== null}
+          onClose={() => settle(false)}
+          onConfirm={() => settle(true)}
+          title={pending?.title || ''}
+          message={pending?.message}
+          confirmText={pending?.confirmText}
+          cancelText={pending?.cancelText}
+          variant={pending?.variant}
+        />
+      </ConfirmContext.Provider>
+    </NotifyContext.Provider>
+  );
+}
+
+export function useNotify(): NotifyApi {
+  const notify = useContext(NotifyContext);
+  if (!notify) throw new Error('useNotify must be used inside FeedbackProvider');
+  return notify;
+}
+
+// Resolves true when the user confirms, false when they cancel or dismiss
+export function useConfirm(): Confirm {
+  const confirm = useContext(ConfirmContext);
+  if (!confirm) throw new Error('useConfirm must be used inside FeedbackProvider');
+  return confirm;
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { Event, UserAccount } from '@/lib/types';
+import Button from '@/components/ui/Button';
+import EventChecklist from '@/components/users/EventChecklist';
+
+interface EventAssignmentDialogProps {
+  user: UserAccount;
+  events: Event[];
+  onClose: () => void;
+  onSave: (eventIds: string[]) => Promise<void>;
+}
+
+// Mounted per user, so the selection starts from that user's assignments
+export default function EventAssignmentDialog({ user, events, onClose, onSave }: EventAssignmentDialogProps) {
+  const [selected, setSelected] = useState<string[]>(user.eventIds || []);
+  const [saving, setSaving] = useState(false);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(selected);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 overflow-y-auto">
+      {/* Backdrop */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 transition-opacity"
+        onClick={saving ? undefined : onClose}
+      ></div>
+
+      {/* Dialog */}
+      <div className="flex min-h-full items-center justify-center p-4">
+        <div className="relative bg-white rounded-lg shadow-xl max-w-lg w-full p-6">
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 transition-colors"
+            disabled={saving}
+          >
+            <X size={20} />
+          </button>
+
+          <h3 className="text-lg font-semibold text-gray-900">Assign Events</h3>
+          <p className="text-sm text-gray-600 mb-5">
+            {user.name || user.email} will only see and check in guests for the selected events.
+          </p>
+
+          <EventChecklist events={events} selected={selected} onChange={setSelected} disabled={saving} />
+
+          <div className="mt-6 flex gap-3">
+            <Button variant="secondary" onClick={onClose} disabled={saving} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleSave}
+              loading={saving}
+              disabled={selected.length === 0}
+              className="flex-1"
+            >
+              Save {selected.length} Event{selected.length !== 1 ? 's' : ''}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
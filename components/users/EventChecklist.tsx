@@ -0,0 +1,39 @@
+import { Event } from '@/lib/types';
+
+interface EventChecklistProps {
+  events: Event[];
+  selected: string[];
+  onChange: (eventIds: string[]) => void;
+  disabled?: boolean;
+}
+
+// Events a check-in staff member is assigned to
+export default function EventChecklist({ events, selected, onChange, disabled }: EventChecklistProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-gray-500">No events yet</p>;
+  }
+
+  const toggle = (eventId: string) => {
+    onChange(selected.includes(eventId) ? selected.filter((id) => id !== eventId) : [...selected, eventId]);
+  };
+
+  return (
+    <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+      {events.map((event) => (
+        <label key={event.id} className="flex items-center gap-3 px-3 py-2 text-sm hover:bg-gray-50 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={selected.includes(event.id)}
+            onChange={() => toggle(event.id)}
+            disabled={disabled}
+            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+          />
+          <span className="flex-1 min-w-0 truncate text-gray-900">{event.eventName}</span>
+          <span className="text-xs text-gray-500 whitespace-nowrap">
+            {new Date(event.eventDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </span>
+        </label>
+      ))}
+    </div>
+  );
+}
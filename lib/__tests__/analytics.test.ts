@@ -0,0 +1,228 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  getArrivalCurves,
+  getEventMetrics,
+  getInviteFunnel,
+  getInvitesPerDay,
+  getPlusOneRatio,
+  getPortfolioAverages,
+  getRsvpsPerDay,
+  getStatusByEvent,
+  isInDateRange,
+} from '../analytics';
+import type { Attendee, DashboardStats, Event, EventStats, Invite } from '../types';
+
+const event: Event = {
+  id: 'event-1',
+  eventName: 'Launch Party',
+  description: null,
+  eventDate: '2025-03-10T00:00:00.000Z',
+  eventStartTime: '18:00',
+  eventEndTime: '22:00',
+  venueName: 'Hall',
+  venueAddress: '1 Main St',
+  venueCity: 'Springfield',
+  venueState: 'IL',
+  venueZipCode: '62701',
+  venueLatitude: null,
+  venueLongitude: null,
+  capacity: 100,
+  currentRegistrations: 3,
+  waitlistEnabled: true,
+  registrationOpen: true,
+  dressCode: 'Casual',
+  createdAt: '2025-02-01T10:00:00',
+  updatedAt: '2025-02-01T10:00:00',
+};
+
+function makeAttendee(overrides: Partial<Attendee>): Attendee {
+  return {
+    id: 'attendee',
+    name: 'Guest',
+    company: 'Acme',
+    title: 'Engineer',
+    email: 'guest@example.com',
+    status: 'CONFIRMED',
+    qrCode: 'QR',
+    registrationId: 'REG',
+    inviteId: 'invite',
+    eventId: 'event-1',
+    createdAt: '2025-03-01T12:00:00',
+    updatedAt: '2025-03-01T12:00:00',
+    ...overrides,
+  };
+}
+
+function makeInvite(overrides: Partial<Invite>): Invite {
+  return {
+    id: 'invite',
+    email: 'guest@example.com',
+    token: 'token',
+    isUsed: false,
+    expiresAt: '2025-03-09T00:00:00',
+    eventId: 'event-1',
+    createdAt: '2025-03-01T09:00:00',
+    ...overrides,
+  };
+}
+
+const attendees: Attendee[] = [
+  makeAttendee({ id: 'a1', checkedInAt: '2025-03-10T18:05:00' }),
+  makeAttendee({
+    id: 'a2',
+    createdAt: '2025-03-03T12:00:00',
+    checkedInAt: '2025-03-10T18:20:00',
+    plusOne: {
+      id: 'p2',
+      name: 'Friend',
+      company: '',
+      title: '',
+      email: 'friend@example.com',
+      attendeeId: 'a2',
+      createdAt: '2025-03-03T12:00:00',
+      checkedInAt: '2025-03-10T18:40:00',
+    },
+  }),
+  makeAttendee({ id: 'a3', status: 'WAITLISTED', createdAt: '2025-03-03T15:00:00' }),
+  makeAttendee({ id: 'a4', status: 'CANCELLED', createdAt: '2025-03-03T16:00:00' }),
+];
+
+const invites: Invite[] = [
+  makeInvite({ id: 'i1', isUsed: true }),
+  makeInvite({ id: 'i2', isUsed: true }),
+  makeInvite({ id: 'i3', createdAt: '2025-03-02T09:00:00' }),
+];
+
+const allTime = { from: '', to: '' };
+
+describe('isInDateRange', () => {
+  it('includes the whole of the last day', () => {
+    expect(isInDateRange('2025-03-03T23:30:00', { from: '2025-03-01', to: '2025-03-03' })).toBe(true);
+    expect(isInDateRange('2025-03-04T00:00:00', { from: '2025-03-01', to: '2025-03-03' })).toBe(false);
+  });
+
+  it('treats a missing timestamp as out of range', () => {
+    expect(isInDateRange(null, allTime)).toBe(false);
+  });
+});
+
+describe('getRsvpsPerDay', () => {
+  it('fills quiet days with zero', () => {
+    const days = getRsvpsPerDay(attendees, allTime);
+    expect(days.map((d) => [d.date, d.count])).toEqual([
+      ['2025-03-01', 1],
+      ['2025-03-02', 0],
+      ['2025-03-03', 3],
+    ]);
+  });
+
+  it('respects the date range', () => {
+    const days = getRsvpsPerDay(attendees, { from: '2025-03-02', to: '2025-03-03' });
+    expect(days.map((d) => d.count)).toEqual([0, 3]);
+  });
+});
+
+describe('invite charts', () => {
+  it('counts invites sent and accepted per day', () => {
+    const days = getInvitesPerDay(invites, allTime);
+    expect(days.map((d) => [d.date, d.sent, d.accepted])).toEqual([
+      ['2025-03-01', 2, 2],
+      ['2025-03-02', 1, 0],
+    ]);
+  });
+
+  it('builds the funnel from sent to checked in', () => {
+    expect(getInviteFunnel(invites, attendees, allTime)).toEqual([
+      { stage: 'Sent', count: 3 },
+      { stage: 'Accepted', count: 2 },
+      { stage: 'Confirmed', count: 2 },
+      { stage: 'Checked In', count: 2 },
+    ]);
+  });
+});
+
+describe('status and plus-one breakdowns', () => {
+  it('splits attendees by status per event', () => {
+    expect(getStatusByEvent([event], attendees, allTime)).toEqual([
+      { eventId: 'event-1', eventName: 'Launch Party', confirmed: 2, waitlisted: 1, cancelled: 1 },
+    ]);
+  });
+
+  it('ignores cancelled registrations in the plus-one ratio', () => {
+    const ratio = getPlusOneRatio(attendees, allTime);
+    expect(ratio.withPlusOne).toBe(1);
+    expect(ratio.withoutPlusOne).toBe(2);
+    expect(ratio.ratio).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('getArrivalCurves', () => {
+  it('accumulates guest and plus-one check-ins from the event start', () => {
+    const curves = getArrivalCurves([event], attendees, allTime, 15);
+    expect(curves.series).toEqual([{ eventId: 'event-1', eventName: 'Launch Party' }]);
+    expect(curves.data.map((row) => [row.label, row['event-1']])).toEqual([
+      ['+0:00', 1],
+      ['+0:15', 2],
+      ['+0:30', 3],
+    ]);
+  });
+
+  it('leaves out events with no check-ins', () => {
+    const curves = getArrivalCurves([event], [makeAttendee({ id: 'a5' })], allTime);
+    expect(curves).toEqual({ data: [], series: [] });
+  });
+});
+
+describe('event metrics', () => {
+  const stats: EventStats = {
+    totalCapacity: 10,
+    currentRegistrations: 4,
+    availableSlots: 6,
+    confirmedAttendees: 2,
+    waitlistedAttendees: 1,
+    cancelledAttendees: 1,
+    attendeesWithPlusOne: 1,
+    totalPlusOnes: 1,
+    inviteStats: { total: 8, used: 4, unused: 3, expired: 1 },
+  };
+
+  it('derives conversion, fill and plus-one share from the event stats', () => {
+    const metrics = getEventMetrics(stats, attendees);
+    expect(metrics.fillRate).toBe(40);
+    expect(metrics.inviteConversion).toBe(50);
+    expect(metrics.waitlistDepth).toBe(1);
+    expect(metrics.plusOneShare).toBeCloseTo(100 / 3);
+  });
+
+  it('reports no-shows only once check-ins have happened', () => {
+    const notStarted = attendees.map((a) => ({ ...a, checkedInAt: null }));
+    expect(getEventMetrics(stats, notStarted).noShowRate).toBeNull();
+
+    const partial = attendees.map((a) => (a.id === 'a2' ? { ...a, checkedInAt: null } : a));
+    expect(getEventMetrics(stats, partial).noShowRate).toBe(50);
+  });
+
+  it('averages the dashboard totals per event', () => {
+    const dashboard: DashboardStats = {
+      totalEvents: 4,
+      upcomingEvents: 1,
+      totalAttendees: 20,
+      confirmedAttendees: 16,
+      waitlistedAttendees: 6,
+      cancelledAttendees: 2,
+      totalInvites: 40,
+      usedInvites: 10,
+      pendingInvites: 30,
+      totalCheckedIn: 12,
+      checkInRate: 75,
+      recentActivity: [],
+    };
+    expect(getPortfolioAverages(dashboard)).toEqual({
+      registrations: 5,
+      inviteConversion: 25,
+      waitlistDepth: 1.5,
+      noShowRate: 25,
+    });
+    expect(getPortfolioAverages({ ...dashboard, totalCheckedIn: 0 }).noShowRate).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  ExportOptions,
+  buildExportTable,
+  buildRosterHtml,
+  exportFileName,
+  toExportCsv,
+  toExportJson,
+} from '../attendeeExport';
+import { ANY } from '../tableQuery';
+import { Attendee } from '../types';
+
+function attendee(overrides: Partial<Attendee>): Attendee {
+  return {
+    id: 'a1',
+    name: 'Alice Adams',
+    company: 'Acme',
+    title: 'CTO',
+    email: 'alice@example.com',
+    status: 'CONFIRMED',
+    qrCode: 'qr-a1',
+    registrationId: 'REG-1',
+    inviteId: 'i1',
+    eventId: 'e1',
+    createdAt: '2025-03-01T10:00:00.000Z',
+    updatedAt: '2025-03-01T10:00:00.000Z',
+    checkedInAt: null,
+    plusOne: null,
+    event: { eventName: 'Launch', eventDate: '2025-04-01' },
+    ...overrides,
+  };
+}
+
+const attendees: Attendee[] = [
+  attendee({
+    checkedInAt: '2025-04-01T18:00:00.000Z',
+    checkedInBy: { id: 's1', name: 'Sam' },
+    plusOne: {
+      id: 'p1',
+      name: 'Pat Adams',
+      company: 'Globex',
+      title: 'Engineer',
+      email: 'pat@example.com',
+      attendeeId: 'a1',
+      createdAt: '2025-03-01T10:00:00.000Z',
+      checkedInAt: null,
+    },
+  }),
+  attendee({
+    id: 'a2',
+    name: 'Bob Brown',
+    email: 'bob@example.com',
+    company: 'Initech',
+    title: 'PM',
+    status: 'WAITLISTED',
+    registrationId: 'REG-2',
+  }),
+];
+
+const options = (overrides: Partial<ExportOptions>): ExportOptions => ({
+  ...DEFAULT_EXPORT_OPTIONS,
+  columns: ['name', 'email', 'status'],
+  ...overrides,
+});
+
+describe('buildExportTable', () => {
+  it('gives plus ones their own rows', () => {
+    const table = buildExportTable(attendees, options({ plusOnes: 'rows' }));
+
+    expect(table.columns.map((column) => column.label)).toEqual([
+      'Name',
+      'Email',
+      'Status',
+      'Type',
+      'Guest Of',
+    ]);
+    expect(table.rows).toEqual([
+      ['Alice Adams', 'alice@example.com', 'CONFIRMED', 'Attendee', ''],
+      ['Pat Adams', 'pat@example.com', 'PLUS_ONE', 'Plus One', 'Alice Adams'],
+      ['Bob Brown', 'bob@example.com', 'WAITLISTED', 'Attendee', ''],
+    ]);
+  });
+
+  it('merges plus ones onto the attendee row', () => {
+    const table = buildExportTable(attendees, options({ plusOnes: 'merged' }));
+
+    expect(table.columns.map((column) => column.key)).toEqual([
+      'name',
+      'email',
+      'status',
+      'plusOneName',
+      'plusOneEmail',
+    ]);
+    expect(table.rows).toEqual([
+      ['Alice Adams', 'alice@example.com', 'CONFIRMED', 'Pat Adams', 'pat@example.com'],
+      ['Bob Brown', 'bob@example.com', 'WAITLISTED', '', ''],
+    ]);
+  });
+
+  it('can leave plus ones out', () => {
+    const table = buildExportTable(attendees, options({ plusOnes: 'none' }));
+    expect(table.rows).toHaveLength(2);
+    expect(table.columns).toHaveLength(3);
+  });
+
+  it('keeps columns in their standard order', () => {
+    const table = buildExportTable(
+      attendees,
+      options({ columns: ['checkedInBy', 'name', 'event'], plusOnes: 'none' })
+    );
+    expect(table.columns.map((column) => column.key)).toEqual(['name', 'event', 'checkedInBy']);
+    expect(table.rows[0]).toEqual(['Alice Adams', 'Launch', 'Sam']);
+  });
+
+  it('filters by status, carrying plus ones along', () => {
+    const confirmed = buildExportTable(attendees, options({ status: 'CONFIRMED' }));
+    expect(confirmed.rows.map((row) => row[0])).toEqual(['Alice Adams', 'Pat Adams']);
+
+    const waitlisted = buildExportTable(attendees, options({ status: 'WAITLISTED' }));
+    expect(waitlisted.rows.map((row) => row[0])).toEqual(['Bob Brown']);
+  });
+
+  it('filters each person by their own check-in', () => {
+    const checkedIn = buildExportTable(attendees, options({ checkIn: 'CHECKED_IN' }));
+    expect(checkedIn.rows.map((row) => row[0])).toEqual(['Alice Adams']);
+
+    const notCheckedIn = buildExportTable(attendees, options({ checkIn: 'NOT_CHECKED_IN' }));
+    expect(notCheckedIn.rows.map((row) => row[0])).toEqual(['Pat Adams', 'Bob Brown']);
+
+    const everyone = buildExportTable(attendees, options({ checkIn: ANY }));
+    expect(everyone.rows).toHaveLength(3);
+  });
+});
+
+describe('export formats', () => {
+  const table = buildExportTable(
+    [attendee({ name: 'Smith, "Jo"' })],
+    options({ columns: ['name', 'checkedInAt'], plusOnes: 'none' })
+  );
+
+  it('writes CSV with a header row', () => {
+    expect(toExportCsv(table)).toBe('Name,Checked In At\n"Smith, ""Jo""",');
+  });
+
+  it('writes JSON records keyed by column', () => {
+    expect(JSON.parse(toExportJson(table))).toEqual([{ name: 'Smith, "Jo"', checkedInAt: null }]);
+  });
+
+  it('escapes the printable roster', () => {
+    const html = buildRosterHtml('Launch <VIP>', table, 'launch-attendees', new Date('2025-04-01T00:00:00Z'));
+    expect(html).toContain('<title>launch-attendees</title>');
+    expect(html).toContain('<h1>Launch &lt;VIP&gt;</h1>');
+    expect(html).toContain('<td>Smith, &quot;Jo&quot;</td>');
+    expect(html).toContain('1 guest');
+  });
+});
+
+describe('exportFileName', () => {
+  const date = new Date('2025-04-01T12:00:00Z');
+
+  it('names files after the event and date', () => {
+    expect(exportFileName('Spring Launch: 2025!', 'xlsx', date)).toBe(
+      'spring-launch-2025-attendees-2025-04-01.xlsx'
+    );
+  });
+
+  it('uses a generic name across all events', () => {
+    expect(exportFileName(null, 'csv', date)).toBe('all-events-attendees-2025-04-01.csv');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from '@jest/globals';
+import { auditHeaders } from '../api';
+import {
+  DEFAULT_AUDIT_QUERY,
+  describeActor,
+  describeTarget,
+  getActionTone,
+  getTargetHref,
+  toAuditParams,
+} from '../audit';
+import { TableQuery } from '../tableQuery';
+
+function withFilters(filters: Record<string, string>): TableQuery {
+  return { ...DEFAULT_AUDIT_QUERY, filters: { ...DEFAULT_AUDIT_QUERY.filters, ...filters } };
+}
+
+describe('auditHeaders', () => {
+  it('sends the action, target and event', () => {
+    expect(
+      auditHeaders({ action: 'attendee.cancel', target: { type: 'attendee', id: 'att-1' }, eventId: 'event-1' })
+    ).toEqual({
+      'X-Audit-Action': 'attendee.cancel',
+      'X-Audit-Target-Type': 'attendee',
+      'X-Audit-Target-Id': 'att-1',
+      'X-Audit-Event-Id': 'event-1',
+    });
+  });
+
+  it('leaves out what is not known', () => {
+    expect(auditHeaders({ action: 'event.create', target: { type: 'event' } })).toEqual({
+      'X-Audit-Action': 'event.create',
+      'X-Audit-Target-Type': 'event',
+    });
+    expect(auditHeaders(undefined)).toEqual({});
+  });
+});
+
+describe('toAuditParams', () => {
+  it('only sends filters that are set', () => {
+    const params = toAuditParams(withFilters({ action: 'event.delete', eventId: 'event-1' }));
+    expect(params.get('action')).toBe('event.delete');
+    expect(params.get('eventId')).toBe('event-1');
+    expect(params.has('actorId')).toBe(false);
+    expect(params.has('from')).toBe(false);
+    expect(params.get('sortOrder')).toBe('desc');
+  });
+
+  it('covers whole days in the local timezone', () => {
+    const params = toAuditParams(withFilters({ from: '2026-03-01', to: '2026-03-02' }));
+    expect(params.get('from')).toBe(new Date(2026, 2, 1).toISOString());
+    expect(params.get('to')).toBe(new Date(2026, 2, 2, 23, 59, 59, 999).toISOString());
+  });
+
+  it('drops malformed days', () => {
+    expect(toAuditParams(withFilters({ from: 'yesterday' })).has('from')).toBe(false);
+  });
+});
+
+describe('getActionTone', () => {
+  it('marks removals and additions', () => {
+    expect(getActionTone('event.delete')).toBe('destructive');
+    expect(getActionTone('attendee.cancel')).toBe('destructive');
+    expect(getActionTone('invite.bulk_create')).toBe('create');
+    expect(getActionTone('user.invite')).toBe('create');
+    expect(getActionTone('waitlist.reorder')).toBe('change');
+  });
+});
+
+describe('getTargetHref', () => {
+  it('links to the changed record', () => {
+    expect(getTargetHref({ type: 'attendee', id: 'att-1' })).toBe('/attendees/att-1');
+    expect(getTargetHref({ type: 'user', id: 'user-1' })).toBe('/users');
+    expect(getTargetHref({ type: 'invite' })).toBeNull();
+  });
+});
+
+describe('describing entries', () => {
+  it('prefers names and labels', () => {
+    expect(describeActor({ actor: { id: 'u1', email: 'sam@example.com', name: 'Sam' } })).toBe('Sam');
+    expect(describeActor({ actor: { id: 'u1', email: 'sam@example.com' } })).toBe('sam@example.com');
+    expect(describeActor({ actor: null })).toBe('System');
+    expect(describeTarget({ target: { type: 'event', id: 'e1', label: 'Launch Party' } })).toBe('Launch Party');
+    expect(describeTarget({ target: { type: 'invite', id: 'inv-1' } })).toBe('Invite inv-1');
+  });
+});
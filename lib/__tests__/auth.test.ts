@@ -0,0 +1,51 @@
+import { describe, it, expect } from '@jest/globals';
+import { getLoginUrl, getSafeNext, getTokenExpiry, parseUser } from '../auth';
+
+function makeToken(claims: object): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+}
+
+describe('getTokenExpiry', () => {
+  it('reads exp in milliseconds', () => {
+    expect(getTokenExpiry(makeToken({ exp: 1700000000 }))).toBe(1700000000000);
+  });
+
+  it('returns null without an exp claim', () => {
+    expect(getTokenExpiry(makeToken({ sub: 'user-1' }))).toBeNull();
+    expect(getTokenExpiry('opaque-token')).toBeNull();
+  });
+});
+
+describe('login redirects', () => {
+  it('carries the page to return to', () => {
+    expect(getLoginUrl('/attendees?status=CONFIRMED', 'session_expired')).toBe(
+      '/login?error=session_expired&next=%2Fattendees%3Fstatus%3DCONFIRMED'
+    );
+    expect(getLoginUrl('/')).toBe('/login');
+  });
+
+  it('only follows same-site paths', () => {
+    expect(getSafeNext('/events/abc')).toBe('/events/abc');
+    expect(getSafeNext('https://evil.example')).toBeNull();
+    expect(getSafeNext('//evil.example')).toBeNull();
+    expect(getSafeNext('/login?next=/')).toBeNull();
+    expect(getSafeNext(null)).toBeNull();
+  });
+});
+
+describe('parseUser', () => {
+  it('accepts users with a known role', () => {
+    expect(parseUser('{"id":"1","email":"a@example.com","role":"viewer"}')).toEqual({
+      id: '1',
+      email: 'a@example.com',
+      role: 'viewer',
+    });
+  });
+
+  it('rejects malformed data and unknown roles', () => {
+    expect(parseUser('{"id":"1","role":"owner"}')).toBeNull();
+    expect(parseUser('not json')).toBeNull();
+    expect(parseUser(null)).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  BADGE_TEMPLATES,
+  Badge,
+  buildBadgeSheetHtml,
+  labelPosition,
+  labelsPerSheet,
+  layoutSheets,
+  toBadges,
+} from '../badges';
+import { ANY } from '../tableQuery';
+import { Attendee } from '../types';
+
+const avery5390 = BADGE_TEMPLATES.find((template) => template.id === 'avery-5390')!;
+
+function attendee(overrides: Partial<Attendee>): Attendee {
+  return {
+    id: 'a1',
+    name: 'Alice Adams',
+    company: 'Acme',
+    title: 'CTO',
+    email: 'alice@example.com',
+    status: 'CONFIRMED',
+    qrCode: 'qr-a1',
+    registrationId: 'REG-1',
+    inviteId: 'i1',
+    eventId: 'e1',
+    createdAt: '2025-03-01T10:00:00.000Z',
+    updatedAt: '2025-03-01T10:00:00.000Z',
+    plusOne: null,
+    ...overrides,
+  };
+}
+
+function badge(id: string): Badge {
+  return { id, name: id, company: '', title: '', qrCode: `qr-${id}` };
+}
+
+describe('label geometry', () => {
+  it('counts labels per sheet', () => {
+    expect(labelsPerSheet(avery5390)).toBe(8);
+  });
+
+  it('places labels left to right, top to bottom', () => {
+    expect(labelPosition(avery5390, 0)).toEqual({ top: 1, left: 0.75 });
+    expect(labelPosition(avery5390, 1)).toEqual({ top: 1, left: 4.25 });
+    expect(labelPosition(avery5390, 2)).toEqual({ top: 3.25, left: 0.75 });
+    expect(labelPosition(avery5390, 7)).toEqual({ top: 7.75, left: 4.25 });
+  });
+
+  it('keeps every template on its page', () => {
+    BADGE_TEMPLATES.forEach((template) => {
+      const last = labelPosition(template, labelsPerSheet(template) - 1);
+      expect(last.left + template.labelWidth).toBeLessThanOrEqual(template.pageWidth);
+      expect(last.top + template.labelHeight).toBeLessThanOrEqual(template.pageHeight);
+    });
+  });
+});
+
+describe('toBadges', () => {
+  const attendees = [
+    attendee({
+      plusOne: {
+        id: 'p1',
+        name: 'Pat Adams',
+        company: 'Globex',
+        title: 'Engineer',
+        email: 'pat@example.com',
+        attendeeId: 'a1',
+        createdAt: '2025-03-01T10:00:00.000Z',
+      },
+    }),
+    attendee({ id: 'a2', name: 'Bob Brown', status: 'WAITLISTED', qrCode: 'qr-a2' }),
+  ];
+
+  it('adds a badge for each plus one using the attendee QR code', () => {
+    const badges = toBadges(attendees, { status: ANY, includePlusOnes: true });
+    expect(badges.map((b) => b.id)).toEqual(['a1', 'plusone-p1', 'a2']);
+    expect(badges[1]).toEqual({
+      id: 'plusone-p1',
+      name: 'Pat Adams',
+      company: 'Globex',
+      title: 'Engineer',
+      qrCode: 'qr-a1',
+      guestOf: 'Alice Adams',
+    });
+  });
+
+  it('filters by status and can leave plus ones out', () => {
+    expect(toBadges(attendees, { status: 'CONFIRMED', includePlusOnes: false }).map((b) => b.id)).toEqual([
+      'a1',
+    ]);
+    expect(toBadges(attendees, { status: 'WAITLISTED', includePlusOnes: true }).map((b) => b.id)).toEqual([
+      'a2',
+    ]);
+  });
+});
+
+describe('layoutSheets', () => {
+  const badges = Array.from({ length: 10 }, (_, i) => badge(`b${i}`));
+
+  it('fills sheets in order', () => {
+    const sheets = layoutSheets(badges, avery5390);
+    expect(sheets.map((sheet) => sheet.length)).toEqual([8, 2]);
+  });
+
+  it('leaves skipped labels empty on the first sheet', () => {
+    const sheets = layoutSheets(badges, avery5390, 3);
+    expect(sheets[0].slice(0, 4).map((slot) => slot?.id ?? null)).toEqual([null, null, null, 'b0']);
+    expect(sheets.map((sheet) => sheet.length)).toEqual([8, 5]);
+  });
+});
+
+describe('buildBadgeSheetHtml', () => {
+  it('renders one page per sheet with escaped text and QR images', () => {
+    const sheets = layoutSheets([{ ...badge('x'), name: '<Ann>', guestOf: 'Bo & Co' }, badge('y')], avery5390);
+    const html = buildBadgeSheetHtml(sheets, avery5390, { 'qr-x': 'data:image/png;base64,AAA' }, 'launch-badges');
+
+    expect(html.match(/class="sheet"/g)).toHaveLength(1);
+    expect(html).toContain('@page { size: 8.5in 11in; margin: 0; }');
+    expect(html).toContain('&lt;Ann&gt;');
+    expect(html).toContain('Guest of Bo &amp; Co');
+    expect(html).toContain('src="data:image/png;base64,AAA"');
+    expect(html).toContain('style="top:1in;left:4.25in"');
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from '@jest/globals';
+import { APIError } from '../api';
+import {
+  BULK_ACTIONS,
+  BULK_CONCURRENCY,
+  describeBulkAction,
+  runBulkAction,
+  summarizeBulkResult,
+} from '../bulkActions';
+
+describe('runBulkAction', () => {
+  it('collects successes and failures per id', async () => {
+    const result = await runBulkAction(['a', 'b', 'c'], async (id) => {
+      if (id === 'b') throw new APIError(409, 'Event is full');
+    });
+
+    expect(result.succeeded).toEqual(['a', 'c']);
+    expect(result.failed).toEqual([{ id: 'b', error: 'Event is full' }]);
+  });
+
+  it('reports progress as each request settles', async () => {
+    const progress: Array<[number, number]> = [];
+    await runBulkAction(
+      ['a', 'b', 'c'],
+      async (id) => {
+        if (id === 'a') throw new Error('boom');
+      },
+      (done, total) => progress.push([done, total])
+    );
+
+    expect(progress).toEqual([
+      [1, 3],
+      [2, 3],
+      [3, 3],
+    ]);
+  });
+
+  it('limits how many requests run at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const ids = Array.from({ length: 10 }, (_, i) => `id-${i}`);
+
+    await runBulkAction(ids, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      running--;
+    });
+
+    expect(peak).toBe(BULK_CONCURRENCY);
+  });
+});
+
+describe('bulk action eligibility', () => {
+  it('skips attendees already in the target state', () => {
+    expect(BULK_ACTIONS.cancel.appliesTo('CANCELLED')).toBe(false);
+    expect(BULK_ACTIONS.confirm.appliesTo('CONFIRMED')).toBe(false);
+    expect(BULK_ACTIONS.confirm.appliesTo('WAITLISTED')).toBe(true);
+    expect(BULK_ACTIONS.waitlist.appliesTo('WAITLISTED')).toBe(false);
+    expect(BULK_ACTIONS.resend.appliesTo('CANCELLED')).toBe(false);
+    expect(BULK_ACTIONS.resend.appliesTo('CONFIRMED')).toBe(true);
+  });
+});
+
+describe('bulk action messages', () => {
+  it('describes what will happen, including skipped attendees', () => {
+    expect(describeBulkAction('cancel', 3, 3)).toBe('3 attendees will be cancelled.');
+    expect(describeBulkAction('waitlist', 3, 1)).toBe(
+      '1 attendee will be moved to the waitlist. 2 attendees already on the waitlist will be skipped.'
+    );
+  });
+
+  it('summarizes results', () => {
+    expect(summarizeBulkResult('confirm', { succeeded: ['a', 'b'], failed: [] })).toBe('2 attendees confirmed');
+    expect(summarizeBulkResult('resend', { succeeded: ['a'], failed: [{ id: 'b', error: 'x' }] })).toBe(
+      '1 attendee emailed, 1 failed'
+    );
+  });
+});
@@ -0,0 +1,320 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  CheckInAttendee,
+  CheckInClient,
+  CheckInConfig,
+  OfflineCheckInSource,
+  runCheckIn,
+  runOfflineCheckIn,
+  selectBackCamera,
+  shouldAcceptScan,
+} from '../checkin';
+import type { RosterEntry } from '../offlineCheckin';
+
+const config: CheckInConfig = {
+  validateEndpoint: (qrCode) => `/validate/${qrCode}`,
+  checkInEndpoint: (qrCode) => `/check-in/${qrCode}`,
+  plusOneCheckInEndpoint: (qrCode) => `/check-in-plus-one/${qrCode}`,
+  emailRoles: ['admin'],
+};
+
+const attendee: CheckInAttendee = {
+  id: 'attendee-1',
+  name: 'Jane Doe',
+  company: 'Acme',
+  title: 'Engineer',
+  registrationId: 'REG-001',
+  status: 'CONFIRMED',
+  eventId: 'event-1',
+  email: 'jane@example.com',
+  plusOne: {
+    name: 'John Doe',
+    company: 'Acme',
+    title: 'Designer',
+    email: 'john@example.com',
+  },
+};
+
+function createClient(validateResponse: unknown, checkInResponse: unknown = { success: true }) {
+  const calls: string[] = [];
+  const client: CheckInClient = {
+    get: async <T>(endpoint: string) => {
+      calls.push(`GET ${endpoint}`);
+      return validateResponse as T;
+    },
+    post: async <T>(endpoint: string) => {
+      calls.push(`POST ${endpoint}`);
+      return checkInResponse as T;
+    },
+  };
+  return { client, calls };
+}
+
+const rosterEntry: RosterEntry = {
+  qrCode: 'QR-1',
+  eventId: 'event-1',
+  attendeeId: 'attendee-1',
+  name: 'Jane Doe',
+  company: 'Acme',
+  title: 'Engineer',
+  registrationId: 'REG-001',
+  status: 'CONFIRMED',
+  checkedInAt: null,
+  email: 'jane@example.com',
+  plusOne: null,
+};
+
+interface QueuedEntry {
+  entry: RosterEntry;
+  plusOne: boolean;
+}
+
+function createSource(entry: RosterEntry | null): OfflineCheckInSource & { queued: QueuedEntry[] } {
+  const queued: QueuedEntry[] = [];
+  return {
+    queued,
+    rosterMeta: { eventId: 'event-1', downloadedAt: '2024-12-31T18:00:00.000Z', count: 1 },
+    lookup: async () => entry,
+    queueCheckIn: async (queuedEntry, plusOne = false) => {
+      queued.push({ entry: queuedEntry, plusOne });
+      return '2024-12-31T18:30:00.000Z';
+    },
+  };
+}
+
+describe('Check-in Engine', () => {
+  it('should check in a valid attendee for the selected event', async () => {
+    const { client, calls } = createClient({ valid: true, attendee: { ...attendee, plusOne: null } });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1', role: 'admin' }, config, client);
+
+    expect(result.outcome).toBe('checked_in');
+    expect(result.valid).toBe(true);
+    expect(result.target).toBe('guest');
+    expect(calls).toEqual(['GET /validate/QR-1', 'POST /check-in/QR-1']);
+  });
+
+  it('should reject a QR code for a different event without checking in', async () => {
+    const { client, calls } = createClient({ valid: true, attendee });
+    const result = await runCheckIn('QR-1', { eventId: 'event-2' }, config, client);
+
+    expect(result.outcome).toBe('wrong_event');
+    expect(result.valid).toBe(false);
+    expect(result.attendee).toBeUndefined();
+    expect(calls).toEqual(['GET /validate/QR-1']);
+  });
+
+  it('should report an attendee who is already checked in', async () => {
+    const { client, calls } = createClient({
+      valid: true,
+      attendee: { ...attendee, alreadyCheckedIn: true, checkedInAt: '2024-12-31T18:05:00.000Z' },
+    });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1' }, config, client);
+
+    expect(result.outcome).toBe('already_checked_in');
+    expect(result.alreadyCheckedIn).toBe(true);
+    expect(result.attendee?.checkedInAt).toBe('2024-12-31T18:05:00.000Z');
+    expect(calls).toEqual(['GET /validate/QR-1']);
+  });
+
+  it('should reject an invalid QR code', async () => {
+    const { client, calls } = createClient({ valid: false, message: 'QR code not found' });
+    const result = await runCheckIn('BAD', { eventId: 'event-1' }, config, client);
+
+    expect(result.outcome).toBe('invalid');
+    expect(result.valid).toBe(false);
+    expect(result.message).toBe('QR code not found');
+    expect(calls).toEqual(['GET /validate/BAD']);
+  });
+
+  it('should report a failed check-in', async () => {
+    const { client } = createClient({ valid: true, attendee }, { success: false, message: 'Event closed' });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1' }, config, client, 'guest');
+
+    expect(result.outcome).toBe('failed');
+    expect(result.message).toBe('Event closed');
+  });
+
+  it('should hide attendee and plus-one email from non-admin roles', async () => {
+    const { client } = createClient({ valid: true, attendee });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1', role: 'checkin' }, config, client, 'guest');
+
+    expect(result.attendee?.email).toBeUndefined();
+    expect(result.attendee?.plusOne?.email).toBeUndefined();
+    expect(result.attendee?.plusOne?.name).toBe('John Doe');
+  });
+
+  it('should show email to admins', async () => {
+    const { client } = createClient({ valid: true, attendee });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1', role: 'admin' }, config, client, 'guest');
+
+    expect(result.attendee?.email).toBe('jane@example.com');
+    expect(result.attendee?.plusOne?.email).toBe('john@example.com');
+  });
+
+  it('should show email to everyone when no email roles are configured', async () => {
+    const { client } = createClient({ valid: true, attendee });
+    const openConfig = { ...config, emailRoles: undefined };
+    const result = await runCheckIn('QR-1', { eventId: 'event-1' }, openConfig, client, 'guest');
+
+    expect(result.attendee?.email).toBe('jane@example.com');
+  });
+});
+
+describe('Plus-one Check-in', () => {
+  it('should ask who is checking in when the guest has a plus-one', async () => {
+    const { client, calls } = createClient({ valid: true, attendee });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1' }, config, client);
+
+    expect(result.outcome).toBe('choose_target');
+    expect(result.attendee?.plusOne?.name).toBe('John Doe');
+    expect(calls).toEqual(['GET /validate/QR-1']);
+  });
+
+  it('should check in only the plus-one', async () => {
+    const { client, calls } = createClient({ valid: true, attendee });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1' }, config, client, 'plusOne');
+
+    expect(result.outcome).toBe('checked_in');
+    expect(result.target).toBe('plusOne');
+    expect(result.attendee?.plusOne?.checkedInAt).toBeTruthy();
+    expect(result.attendee?.checkedInAt).toBeUndefined();
+    expect(calls).toEqual(['GET /validate/QR-1', 'POST /check-in-plus-one/QR-1']);
+  });
+
+  it('should check in both guest and plus-one', async () => {
+    const { client, calls } = createClient({ valid: true, attendee });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1' }, config, client, 'both');
+
+    expect(result.outcome).toBe('checked_in');
+    expect(result.target).toBe('both');
+    expect(result.attendee?.checkedInAt).toBeTruthy();
+    expect(result.attendee?.plusOne?.checkedInAt).toBeTruthy();
+    expect(calls).toEqual(['GET /validate/QR-1', 'POST /check-in/QR-1', 'POST /check-in-plus-one/QR-1']);
+  });
+
+  it('should check in a late plus-one after the guest arrived', async () => {
+    const { client, calls } = createClient({
+      valid: true,
+      attendee: { ...attendee, alreadyCheckedIn: true, checkedInAt: '2024-12-31T18:05:00.000Z' },
+    });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1' }, config, client, 'both');
+
+    expect(result.outcome).toBe('checked_in');
+    expect(result.target).toBe('plusOne');
+    expect(calls).toEqual(['GET /validate/QR-1', 'POST /check-in-plus-one/QR-1']);
+  });
+
+  it('should report a plus-one who is already checked in', async () => {
+    const { client, calls } = createClient({
+      valid: true,
+      attendee: { ...attendee, plusOne: { ...attendee.plusOne!, checkedInAt: '2024-12-31T18:05:00.000Z' } },
+    });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1' }, config, client, 'plusOne');
+
+    expect(result.outcome).toBe('already_checked_in');
+    expect(result.message).toBe('Plus-one already checked in');
+    expect(calls).toEqual(['GET /validate/QR-1']);
+  });
+
+  it('should refuse a plus-one check-in without a plus-one', async () => {
+    const { client } = createClient({ valid: true, attendee: { ...attendee, plusOne: null } });
+    const result = await runCheckIn('QR-1', { eventId: 'event-1' }, config, client, 'plusOne');
+
+    expect(result.outcome).toBe('failed');
+  });
+});
+
+describe('Offline Check-in Engine', () => {
+  it('should queue a check-in from the roster', async () => {
+    const source = createSource(rosterEntry);
+    const result = await runOfflineCheckIn('QR-1', { eventId: 'event-1' }, config, source);
+
+    expect(result.outcome).toBe('checked_in');
+    expect(result.offline).toBe(true);
+    expect(result.attendee?.checkedInAt).toBe('2024-12-31T18:30:00.000Z');
+    expect(source.queued).toHaveLength(1);
+  });
+
+  it('should queue a separate plus-one check-in', async () => {
+    const source = createSource({
+      ...rosterEntry,
+      plusOne: { name: 'John Doe', company: 'Acme', title: 'Designer', email: 'john@example.com', checkedInAt: null },
+    });
+    const result = await runOfflineCheckIn('QR-1', { eventId: 'event-1' }, config, source, 'both');
+
+    expect(result.outcome).toBe('checked_in');
+    expect(result.target).toBe('both');
+    expect(source.queued).toEqual([
+      { entry: expect.objectContaining({ qrCode: 'QR-1' }), plusOne: false },
+      { entry: expect.objectContaining({ qrCode: 'QR-1' }), plusOne: true },
+    ]);
+  });
+
+  it('should reject a roster entry for a different event', async () => {
+    const source = createSource(rosterEntry);
+    const result = await runOfflineCheckIn('QR-1', { eventId: 'event-2' }, config, source);
+
+    expect(result.outcome).toBe('wrong_event');
+    expect(source.queued).toHaveLength(0);
+  });
+
+  it('should report an attendee already checked in on this device', async () => {
+    const source = createSource({ ...rosterEntry, checkedInAt: '2024-12-31T18:05:00.000Z' });
+    const result = await runOfflineCheckIn('QR-1', { eventId: 'event-1' }, config, source);
+
+    expect(result.outcome).toBe('already_checked_in');
+    expect(source.queued).toHaveLength(0);
+  });
+
+  it('should reject a QR code missing from the roster', async () => {
+    const source = createSource(null);
+    const result = await runOfflineCheckIn('BAD', { eventId: 'event-1' }, config, source);
+
+    expect(result.outcome).toBe('invalid');
+    expect(result.message).toBe('QR code not found in the downloaded roster');
+  });
+});
+
+describe('Camera Selection', () => {
+  it('should prefer a back-facing camera', () => {
+    const deviceId = selectBackCamera([
+      { deviceId: 'front', label: 'Front Camera' },
+      { deviceId: 'back', label: 'Back Camera' },
+      { deviceId: 'other', label: 'USB Camera' },
+    ]);
+    expect(deviceId).toBe('back');
+  });
+
+  it('should fall back to the last camera', () => {
+    expect(selectBackCamera([
+      { deviceId: 'first', label: 'Camera 1' },
+      { deviceId: 'last', label: 'Camera 2' },
+    ])).toBe('last');
+  });
+
+  it('should return null without cameras', () => {
+    expect(selectBackCamera([])).toBeNull();
+  });
+});
+
+describe('Continuous Scan Debounce', () => {
+  it('should ignore repeat reads of the same code within the window', () => {
+    const lastReads = new Map<string, number>();
+    expect(shouldAcceptScan('QR-1', 1000, lastReads, 5000)).toBe(true);
+    expect(shouldAcceptScan('QR-1', 3000, lastReads, 5000)).toBe(false);
+    expect(shouldAcceptScan('QR-1', 6000, lastReads, 5000)).toBe(true);
+  });
+
+  it('should accept different codes back to back', () => {
+    const lastReads = new Map<string, number>();
+    expect(shouldAcceptScan('QR-1', 1000, lastReads, 5000)).toBe(true);
+    expect(shouldAcceptScan('QR-2', 1100, lastReads, 5000)).toBe(true);
+  });
+
+  it('should forget codes once their window has passed', () => {
+    const lastReads = new Map<string, number>();
+    shouldAcceptScan('QR-1', 1000, lastReads, 5000);
+    shouldAcceptScan('QR-2', 7000, lastReads, 5000);
+    expect(lastReads.has('QR-1')).toBe(false);
+  });
+});
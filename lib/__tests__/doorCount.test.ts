@@ -0,0 +1,64 @@
+import { describe, it, expect } from '@jest/globals';
+import { getDoorCounts } from '../doorCount';
+import { Attendee } from '../types';
+
+function makeAttendee(overrides: Partial<Attendee>): Attendee {
+  return {
+    id: 'attendee',
+    name: 'Guest',
+    company: 'Acme',
+    title: 'Engineer',
+    email: 'guest@example.com',
+    status: 'CONFIRMED',
+    qrCode: 'QR',
+    registrationId: 'REG',
+    inviteId: 'invite',
+    eventId: 'event-1',
+    createdAt: '2025-03-01T12:00:00',
+    updatedAt: '2025-03-01T12:00:00',
+    ...overrides,
+  };
+}
+
+function makePlusOne(attendeeId: string, checkedInAt?: string): Attendee['plusOne'] {
+  return {
+    id: `${attendeeId}-p`,
+    name: 'Friend',
+    company: '',
+    title: '',
+    email: 'friend@example.com',
+    attendeeId,
+    createdAt: '2025-03-01T12:00:00',
+    checkedInAt,
+  };
+}
+
+describe('getDoorCounts', () => {
+  it('counts confirmed guests and their plus ones', () => {
+    const counts = getDoorCounts([
+      makeAttendee({ id: 'a1', checkedInAt: '2025-03-10T18:05:00' }),
+      makeAttendee({ id: 'a2', plusOne: makePlusOne('a2', '2025-03-10T18:40:00') }),
+    ]);
+    expect(counts).toEqual({
+      expected: 3,
+      guestsExpected: 2,
+      plusOnesExpected: 1,
+      checkedIn: 2,
+      guestsCheckedIn: 1,
+      plusOnesCheckedIn: 1,
+    });
+  });
+
+  it('leaves out arrivals of guests no longer confirmed', () => {
+    const counts = getDoorCounts([
+      makeAttendee({ id: 'a1', plusOne: makePlusOne('a1') }),
+      makeAttendee({
+        id: 'a2',
+        status: 'CANCELLED',
+        checkedInAt: '2025-03-10T18:05:00',
+        plusOne: makePlusOne('a2', '2025-03-10T18:10:00'),
+      }),
+    ]);
+    expect(counts).toMatchObject({ expected: 2, checkedIn: 0, guestsCheckedIn: 0, plusOnesCheckedIn: 0 });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  STALE_AFTER_MS,
+  getCacheEntry,
+  invalidateEventData,
+  isFresh,
+  mapWithConcurrency,
+  revalidate,
+} from '../eventData';
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('mapWithConcurrency', () => {
+  it('never runs more than the limit at once and keeps result order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise((resolve) => setTimeout(resolve, 5 - n));
+      running--;
+      return n * 10;
+    });
+
+    expect(peak).toBe(2);
+    expect(results.map((r) => (r.status === 'fulfilled' ? r.value : null))).toEqual([10, 20, 30, 40, 50]);
+  });
+
+  it('reports failures per item without stopping the rest', async () => {
+    const results = await mapWithConcurrency(['a', 'b'], 4, async (id) => {
+      if (id === 'a') throw new Error('boom');
+      return id;
+    });
+
+    expect(results[0].status).toBe('rejected');
+    expect(results[1]).toEqual({ status: 'fulfilled', value: 'b' });
+  });
+});
+
+describe('revalidate', () => {
+  it('shares one request between concurrent callers', async () => {
+    const pending = deferred<string[]>();
+    let calls = 0;
+    const loader = () => {
+      calls++;
+      return pending.promise;
+    };
+
+    const first = revalidate('test:shared', loader);
+    const second = revalidate('test:shared', loader);
+    pending.resolve(['x']);
+
+    await expect(first).resolves.toEqual(['x']);
+    await expect(second).resolves.toEqual(['x']);
+    expect(calls).toBe(1);
+  });
+
+  it('serves fresh data from the cache until it is invalidated', async () => {
+    let calls = 0;
+    const loader = async () => ++calls;
+
+    await revalidate('test:fresh', loader);
+    await expect(revalidate('test:fresh', loader)).resolves.toBe(1);
+
+    invalidateEventData('test:fresh');
+    // Stale data stays readable while it is refetched
+    expect(getCacheEntry('test:fresh').data).toBe(1);
+    await expect(revalidate('test:fresh', loader)).resolves.toBe(2);
+  });
+
+  it('refetches when forced', async () => {
+    let calls = 0;
+    const loader = async () => ++calls;
+
+    await revalidate('test:force', loader);
+    await expect(revalidate('test:force', loader, true)).resolves.toBe(2);
+  });
+
+  it('keeps the last data and records the error when a refetch fails', async () => {
+    await revalidate('test:error', async () => 'ok');
+    await expect(
+      revalidate('test:error', async () => {
+        throw new Error('Network down');
+      }, true)
+    ).rejects.toThrow('Network down');
+
+    const entry = getCacheEntry('test:error');
+    expect(entry.data).toBe('ok');
+    expect(entry.error).toBe('Network down');
+    expect(entry.isValidating).toBe(false);
+  });
+});
+
+describe('isFresh', () => {
+  it('expires entries after the stale window', () => {
+    const entry = { data: [], error: null, updatedAt: 1000, isValidating: false };
+    expect(isFresh(entry, 1000 + STALE_AFTER_MS - 1)).toBe(true);
+    expect(isFresh(entry, 1000 + STALE_AFTER_MS)).toBe(false);
+  });
+});
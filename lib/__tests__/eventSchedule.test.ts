@@ -0,0 +1,107 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatEventDateRange,
+  getEventDayCount,
+  getEventSpan,
+  getEventStatus,
+  normalizeEventSchedule,
+  shiftEventDates,
+} from '../eventSchedule';
+import { EMPTY_EVENT_FORM } from '../eventTemplates';
+
+const party = {
+  eventDate: '2026-03-12T00:00:00.000Z',
+  eventEndDate: '2026-03-13T00:00:00.000Z',
+  eventStartTime: '22:00',
+  eventEndTime: '02:00',
+  timeZone: 'Europe/London',
+};
+
+const conference = {
+  eventDate: '2026-03-12T00:00:00.000Z',
+  eventEndDate: '2026-03-14T00:00:00.000Z',
+  eventStartTime: '09:00',
+  eventEndTime: '17:00',
+  timeZone: 'America/Toronto',
+};
+
+describe('getEventDayCount', () => {
+  it('counts the first and last day', () => {
+    expect(getEventDayCount('2026-03-12')).toBe(1);
+    expect(getEventDayCount('2026-03-12', '2026-03-14')).toBe(3);
+    expect(getEventDayCount('2026-03-12', '2026-03-11')).toBe(0);
+    expect(getEventDayCount('')).toBe(0);
+  });
+});
+
+describe('getEventSpan', () => {
+  it('ends an overnight event on the next day', () => {
+    const { start, end } = getEventSpan(party);
+    expect(start.toISOString()).toBe('2026-03-12T22:00:00.000Z');
+    expect(end.toISOString()).toBe('2026-03-13T02:00:00.000Z');
+  });
+});
+
+describe('getEventStatus', () => {
+  it('keeps an overnight event ongoing past midnight', () => {
+    expect(getEventStatus(party, new Date('2026-03-12T12:00:00Z'))).toBe('ongoing');
+    expect(getEventStatus(party, new Date('2026-03-13T01:30:00Z'))).toBe('ongoing');
+    expect(getEventStatus(party, new Date('2026-03-13T02:00:00Z'))).toBe('past');
+  });
+
+  it('covers every day of a multi-day event', () => {
+    expect(getEventStatus(conference, new Date('2026-03-11T12:00:00Z'))).toBe('upcoming');
+    expect(getEventStatus(conference, new Date('2026-03-13T03:00:00Z'))).toBe('ongoing');
+    expect(getEventStatus(conference, new Date('2026-03-14T20:00:00Z'))).toBe('ongoing');
+    expect(getEventStatus(conference, new Date('2026-03-14T21:30:00Z'))).toBe('past');
+  });
+
+  it('counts days in the event time zone', () => {
+    // Still March 11 in Toronto
+    expect(getEventStatus(conference, new Date('2026-03-12T02:00:00Z'))).toBe('upcoming');
+  });
+
+  it('treats events without an end date as single-day', () => {
+    const dinner = { ...conference, eventEndDate: null };
+    expect(getEventStatus(dinner, new Date('2026-03-12T20:00:00Z'))).toBe('ongoing');
+    expect(getEventStatus(dinner, new Date('2026-03-12T21:00:00Z'))).toBe('past');
+  });
+});
+
+describe('formatEventDateRange', () => {
+  it('shortens ranges within a month or year', () => {
+    expect(formatEventDateRange({ eventDate: '2026-03-12T00:00:00.000Z' })).toBe('Mar 12, 2026');
+    expect(formatEventDateRange(conference)).toBe('Mar 12 - 14, 2026');
+    expect(formatEventDateRange({ eventDate: '2026-03-30', eventEndDate: '2026-04-01' })).toBe('Mar 30 - Apr 1, 2026');
+    expect(formatEventDateRange({ eventDate: '2026-12-31', eventEndDate: '2027-01-01' })).toBe(
+      'Dec 31, 2026 - Jan 1, 2027'
+    );
+  });
+});
+
+describe('shiftEventDates', () => {
+  it('keeps the length of the event', () => {
+    expect(shiftEventDates({ eventDate: '2026-03-12', eventEndDate: '2026-03-14' }, '2026-03-30')).toEqual({
+      eventDate: '2026-03-30',
+      eventEndDate: '2026-04-01',
+    });
+    expect(shiftEventDates({ eventDate: '2026-03-12', eventEndDate: '' }, '2026-03-30')).toEqual({
+      eventDate: '2026-03-30',
+      eventEndDate: '',
+    });
+  });
+});
+
+describe('normalizeEventSchedule', () => {
+  const day = { title: '', startTime: '09:00', endTime: '17:00' };
+
+  it('keeps the agenda to the days of the event', () => {
+    const data = { ...EMPTY_EVENT_FORM, eventDate: '2026-03-12', eventEndDate: '2026-03-13', agenda: [day, day, day] };
+    expect(normalizeEventSchedule(data).agenda).toHaveLength(2);
+  });
+
+  it('drops the end date and agenda of a single-day event', () => {
+    const data = { ...EMPTY_EVENT_FORM, eventDate: '2026-03-12', eventEndDate: '2026-03-12', agenda: [day] };
+    expect(normalizeEventSchedule(data)).toMatchObject({ eventEndDate: '', agenda: [] });
+  });
+});
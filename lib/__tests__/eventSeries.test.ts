@@ -0,0 +1,138 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_SERIES_RULE,
+  SeriesRule,
+  describeMonthlyDay,
+  generateSeriesDates,
+  getSeriesPosition,
+  listSeries,
+  selectSeriesScope,
+  validateSeriesRule,
+} from '../eventSeries';
+import { Event } from '../types';
+
+const rule = (patch: Partial<SeriesRule>): SeriesRule => ({ ...DEFAULT_SERIES_RULE, ...patch });
+
+const makeEvent = (id: string, eventDate: string, seriesId: string | null = 'series-1'): Event => ({
+  id,
+  eventName: `Supper Club ${id}`,
+  description: null,
+  eventDate: `${eventDate}T00:00:00.000Z`,
+  eventStartTime: '19:00',
+  eventEndTime: '22:00',
+  venueName: 'The Loft',
+  venueAddress: '1 Main St',
+  venueCity: 'Springfield',
+  venueState: 'IL',
+  venueZipCode: '62701',
+  venueLatitude: null,
+  venueLongitude: null,
+  capacity: 40,
+  currentRegistrations: 0,
+  waitlistEnabled: false,
+  registrationOpen: true,
+  dressCode: 'Smart Casual',
+  seriesId,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('generateSeriesDates', () => {
+  it('repeats weekly at the interval', () => {
+    expect(generateSeriesDates('2026-03-12', rule({ frequency: 'weekly', interval: 2, count: 3 }))).toEqual([
+      '2026-03-12',
+      '2026-03-26',
+      '2026-04-09',
+    ]);
+  });
+
+  it('moves the 31st to the last day of shorter months', () => {
+    expect(generateSeriesDates('2026-01-31', rule({ frequency: 'monthly', count: 4 }))).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+      '2026-04-30',
+    ]);
+  });
+
+  it('repeats monthly on the same weekday of the month', () => {
+    // Second Thursday
+    expect(
+      generateSeriesDates('2026-03-12', rule({ frequency: 'monthly', monthlyMode: 'weekdayOfMonth', count: 3 }))
+    ).toEqual(['2026-03-12', '2026-04-09', '2026-05-14']);
+  });
+
+  it('keeps a last weekday on the last one of each month', () => {
+    // Last Friday
+    expect(
+      generateSeriesDates('2026-01-30', rule({ frequency: 'monthly', monthlyMode: 'weekdayOfMonth', count: 3 }))
+    ).toEqual(['2026-01-30', '2026-02-27', '2026-03-27']);
+  });
+
+  it('sorts custom dates and drops repeats', () => {
+    expect(
+      generateSeriesDates('2026-03-12', rule({ frequency: 'custom', customDates: ['2026-05-01', '2026-03-12', '2026-04-01'] }))
+    ).toEqual(['2026-03-12', '2026-04-01', '2026-05-01']);
+  });
+
+  it('returns nothing without a start date', () => {
+    expect(generateSeriesDates('', rule({ frequency: 'weekly' }))).toEqual([]);
+  });
+});
+
+describe('describeMonthlyDay', () => {
+  it('names the day or weekday of the month', () => {
+    expect(describeMonthlyDay('2026-03-12', 'dayOfMonth')).toBe('on day 12');
+    expect(describeMonthlyDay('2026-03-12', 'weekdayOfMonth')).toBe('on the second Thursday');
+    expect(describeMonthlyDay('2026-01-30', 'weekdayOfMonth')).toBe('on the last Friday');
+  });
+});
+
+describe('validateSeriesRule', () => {
+  it('accepts a single event', () => {
+    expect(validateSeriesRule('', DEFAULT_SERIES_RULE)).toBeNull();
+  });
+
+  it('needs a start date', () => {
+    expect(validateSeriesRule('', rule({ frequency: 'weekly' }))).toMatch(/event date/);
+  });
+
+  it('limits the interval and number of events', () => {
+    expect(validateSeriesRule('2026-03-12', rule({ frequency: 'weekly', interval: 0 }))).not.toBeNull();
+    expect(validateSeriesRule('2026-03-12', rule({ frequency: 'weekly', count: 1 }))).not.toBeNull();
+    expect(validateSeriesRule('2026-03-12', rule({ frequency: 'monthly', count: 53 }))).not.toBeNull();
+    expect(validateSeriesRule('2026-03-12', rule({ frequency: 'monthly', count: 6 }))).toBeNull();
+  });
+
+  it('needs a second custom date', () => {
+    expect(validateSeriesRule('2026-03-12', rule({ frequency: 'custom', customDates: ['2026-03-12'] }))).not.toBeNull();
+    expect(validateSeriesRule('2026-03-12', rule({ frequency: 'custom', customDates: ['2026-04-01'] }))).toBeNull();
+  });
+});
+
+describe('series membership', () => {
+  const events = [
+    makeEvent('c', '2026-05-14'),
+    makeEvent('a', '2026-03-12'),
+    makeEvent('x', '2026-04-01', null),
+    makeEvent('b', '2026-04-09'),
+  ];
+  const series = events.filter((event) => event.seriesId === 'series-1');
+
+  it('numbers events by date', () => {
+    expect(getSeriesPosition(events, events[3])).toEqual({ index: 2, total: 3 });
+    expect(getSeriesPosition(events, events[2])).toBeNull();
+  });
+
+  it('lists each series once under its first event', () => {
+    expect(listSeries(events)).toEqual([{ id: 'series-1', name: 'Supper Club a', count: 3 }]);
+  });
+
+  it('selects the events an edit applies to', () => {
+    const ids = (scope: 'this' | 'following' | 'all') =>
+      selectSeriesScope(series, events[3], scope).map((event) => event.id).sort();
+    expect(ids('this')).toEqual(['b']);
+    expect(ids('following')).toEqual(['b', 'c']);
+    expect(ids('all')).toEqual(['a', 'b', 'c']);
+  });
+});
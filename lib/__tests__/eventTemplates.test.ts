@@ -0,0 +1,73 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  EMPTY_EVENT_FORM,
+  applyTemplate,
+  duplicateEventFormData,
+  eventToFormData,
+  toTemplateValues,
+} from '../eventTemplates';
+import { Event } from '../types';
+
+const event: Event = {
+  id: 'event-1',
+  eventName: 'Supper Club',
+  description: null,
+  eventDate: '2026-03-12T00:00:00.000Z',
+  eventStartTime: '19:00',
+  eventEndTime: '22:00',
+  venueName: 'The Loft',
+  venueAddress: '1 Main St',
+  venueCity: 'Springfield',
+  venueState: 'IL',
+  venueZipCode: '62701',
+  venueLatitude: null,
+  venueLongitude: null,
+  capacity: 40,
+  currentRegistrations: 38,
+  waitlistEnabled: true,
+  registrationOpen: false,
+  dressCode: 'Smart Casual',
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('eventToFormData', () => {
+  it('keeps the date part and blanks a missing description', () => {
+    const data = eventToFormData(event);
+    expect(data.eventDate).toBe('2026-03-12');
+    expect(data.description).toBe('');
+    expect(data.capacity).toBe(40);
+  });
+});
+
+describe('duplicateEventFormData', () => {
+  it('copies the event under a new name without a date', () => {
+    const data = duplicateEventFormData(event);
+    expect(data.eventName).toBe('Supper Club (Copy)');
+    expect(data.eventDate).toBe('');
+    expect(data.venueName).toBe('The Loft');
+    expect(data.waitlistEnabled).toBe(true);
+  });
+
+  it('opens registration on the copy', () => {
+    expect(duplicateEventFormData(event).registrationOpen).toBe(true);
+  });
+});
+
+describe('templates', () => {
+  it('leave out the name and date', () => {
+    const values = toTemplateValues(eventToFormData(event));
+    expect(values).not.toHaveProperty('eventName');
+    expect(values).not.toHaveProperty('eventDate');
+    expect(values.dressCode).toBe('Smart Casual');
+  });
+
+  it('fill the form but keep the name and date already entered', () => {
+    const current = { ...EMPTY_EVENT_FORM, eventName: 'April Supper Club', eventDate: '2026-04-09' };
+    const data = applyTemplate(current, { values: toTemplateValues(eventToFormData(event)) });
+    expect(data.eventName).toBe('April Supper Club');
+    expect(data.eventDate).toBe('2026-04-09');
+    expect(data.venueAddress).toBe('1 Main St');
+    expect(data.eventStartTime).toBe('19:00');
+  });
+});
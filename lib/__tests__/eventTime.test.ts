@@ -0,0 +1,55 @@
+import { describe, it, expect } from '@jest/globals';
+import { formatEventTimes, getViewerTimeHint, isValidTimeZone, zonedTimeToUtc } from '../eventTime';
+
+const event = {
+  eventDate: '2026-03-12T00:00:00.000Z',
+  eventStartTime: '18:00',
+  eventEndTime: '22:00',
+  timeZone: 'Europe/London',
+};
+
+describe('zonedTimeToUtc', () => {
+  it('reads the time in the zone', () => {
+    expect(zonedTimeToUtc('2026-01-15', '18:00', 'Europe/London').toISOString()).toBe('2026-01-15T18:00:00.000Z');
+    expect(zonedTimeToUtc('2026-01-15', '18:00', 'America/Toronto').toISOString()).toBe('2026-01-15T23:00:00.000Z');
+  });
+
+  it('follows daylight saving time', () => {
+    expect(zonedTimeToUtc('2026-07-15', '18:00', 'Europe/London').toISOString()).toBe('2026-07-15T17:00:00.000Z');
+    // Toronto moves its clocks on March 8, London not until March 29
+    expect(zonedTimeToUtc('2026-03-09', '09:00', 'America/Toronto').toISOString()).toBe('2026-03-09T13:00:00.000Z');
+  });
+});
+
+describe('isValidTimeZone', () => {
+  it('accepts IANA zones only', () => {
+    expect(isValidTimeZone('America/Toronto')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    expect(isValidTimeZone('')).toBe(false);
+  });
+});
+
+describe('formatEventTimes', () => {
+  it('shows the event zone with the viewer time alongside', () => {
+    expect(formatEventTimes(event, 'America/Toronto')).toEqual({
+      eventTime: '18:00 - 22:00 GMT',
+      viewerTime: '14:00 - 18:00 EDT',
+    });
+  });
+
+  it('leaves out the viewer time in the same zone', () => {
+    expect(formatEventTimes(event, 'Europe/London').viewerTime).toBeNull();
+  });
+
+  it('dates the viewer time when it falls on another day', () => {
+    expect(formatEventTimes(event, 'Australia/Sydney').viewerTime).toBe('Mar 13, 05:00 - 09:00 GMT+11');
+  });
+});
+
+describe('getViewerTimeHint', () => {
+  it('waits for a complete form', () => {
+    expect(getViewerTimeHint({ ...event, eventEndTime: '' }, 'America/Toronto')).toBeNull();
+    expect(getViewerTimeHint({ ...event, timeZone: '' }, 'America/Toronto')).toBeNull();
+    expect(getViewerTimeHint(event, 'America/Toronto')).toBe('14:00 - 18:00 EDT');
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ImportRow,
+  buildImportReport,
+  buildImportRows,
+  chunk,
+  failedChunkResults,
+  guessMapping,
+  isHeaderless,
+  parseCsv,
+  resultsForChunk,
+  skippedResults,
+  splitTags,
+} from '../guestImport';
+
+function readyRow(rowNumber: number, email: string): ImportRow {
+  return { rowNumber, invite: { email }, status: 'ready', errors: [] };
+}
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('email,name\na@example.com,Alice\n')).toEqual([
+      ['email', 'name'],
+      ['a@example.com', 'Alice'],
+    ]);
+  });
+
+  it('handles quoted commas, quotes and newlines', () => {
+    const text = 'name,company\r\n"Smith, Jane","The ""Best"" Co"\r\n"Line\nBreak",x';
+    expect(parseCsv(text)).toEqual([
+      ['name', 'company'],
+      ['Smith, Jane', 'The "Best" Co'],
+      ['Line\nBreak', 'x'],
+    ]);
+  });
+
+  it('detects semicolon separators and strips a byte order mark', () => {
+    expect(parseCsv('\uFEFFemail;name\na@example.com;Alice')).toEqual([
+      ['email', 'name'],
+      ['a@example.com', 'Alice'],
+    ]);
+  });
+
+  it('trims cells and drops blank lines', () => {
+    expect(parseCsv('email\n\n  a@example.com  \n,\n')).toEqual([['email'], ['a@example.com']]);
+  });
+});
+
+describe('guessMapping', () => {
+  it('matches common header spellings', () => {
+    expect(guessMapping(['Full Name', 'E-mail', 'Organization', 'Job_Title', 'Tags'])).toEqual({
+      email: 1,
+      name: 0,
+      company: 2,
+      title: 3,
+      tags: 4,
+    });
+  });
+
+  it('leaves unknown columns unmapped', () => {
+    expect(guessMapping(['Email', 'Notes'])).toEqual({
+      email: 0,
+      name: null,
+      company: null,
+      title: null,
+      tags: null,
+    });
+  });
+
+  it('recognises a headerless list of addresses', () => {
+    const headers = ['Alice', 'alice@example.com'];
+    const mapping = guessMapping(headers);
+    expect(mapping.email).toBe(1);
+    expect(isHeaderless(headers, mapping)).toBe(true);
+    expect(isHeaderless(['Email'], guessMapping(['Email']))).toBe(false);
+  });
+});
+
+describe('splitTags', () => {
+  it('splits on common separators and removes duplicates', () => {
+    expect(splitTags('vip; press, vip | speaker')).toEqual(['vip', 'press', 'speaker']);
+    expect(splitTags('')).toEqual([]);
+  });
+});
+
+describe('buildImportRows', () => {
+  const mapping = { email: 0, name: 1, company: null, title: null, tags: 2 };
+
+  it('maps cells onto invites and validates them', () => {
+    const rows = buildImportRows(
+      [
+        ['Alice@Example.com', 'Alice', 'vip'],
+        ['not-an-email', 'Bob', ''],
+      ],
+      mapping,
+      []
+    );
+
+    expect(rows[0]).toEqual({
+      rowNumber: 2,
+      invite: { email: 'alice@example.com', name: 'Alice', tags: ['vip'] },
+      status: 'ready',
+      errors: [],
+    });
+    expect(rows[1].status).toBe('invalid');
+    expect(rows[1].errors).toEqual(['Invalid email address']);
+  });
+
+  it('flags repeats within the file and existing invites', () => {
+    const rows = buildImportRows(
+      [['a@example.com'], ['b@example.com'], ['A@example.com']],
+      mapping,
+      ['B@example.com']
+    );
+
+    expect(rows.map((row) => row.status)).toEqual(['ready', 'existing', 'duplicate']);
+    expect(rows[2].errors).toEqual(['Duplicate of row 2']);
+  });
+
+  it('marks every row invalid when no email column is mapped', () => {
+    const rows = buildImportRows([['Alice']], { ...mapping, email: null }, []);
+    expect(rows[0].status).toBe('invalid');
+  });
+
+  it('numbers rows from the first data row', () => {
+    const rows = buildImportRows([['a@example.com']], mapping, [], 1);
+    expect(rows[0].rowNumber).toBe(1);
+  });
+});
+
+describe('chunk', () => {
+  it('splits items into batches of the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(chunk([], 2)).toEqual([]);
+  });
+});
+
+describe('import results', () => {
+  const batch = [readyRow(2, 'a@example.com'), readyRow(3, 'b@example.com')];
+
+  it('marks every row created when nothing failed', () => {
+    const results = resultsForChunk(batch, { created: 2, failed: 0 });
+    expect(results.map((result) => result.status)).toEqual(['created', 'created']);
+  });
+
+  it('attributes failures reported per address', () => {
+    const results = resultsForChunk(batch, {
+      created: 1,
+      failed: 1,
+      errors: [{ email: 'B@example.com', error: 'Bounced previously' }],
+    });
+    expect(results[0].status).toBe('created');
+    expect(results[1]).toEqual({
+      rowNumber: 3,
+      email: 'b@example.com',
+      status: 'failed',
+      message: 'Bounced previously',
+    });
+  });
+
+  it('fails the whole batch when failures cannot be attributed', () => {
+    const results = resultsForChunk(batch, { created: 1, failed: 1 });
+    expect(results.every((result) => result.status === 'failed')).toBe(true);
+    expect(results[0].message).toBe('1 of 2 rows in this batch failed');
+  });
+
+  it('records request errors and skipped rows', () => {
+    expect(failedChunkResults(batch, 'Network error')[1].message).toBe('Network error');
+
+    const skipped = skippedResults([
+      batch[0],
+      { rowNumber: 4, invite: { email: 'x' }, status: 'invalid', errors: ['Invalid email address'] },
+    ]);
+    expect(skipped).toEqual([
+      { rowNumber: 4, email: 'x', status: 'skipped', message: 'Invalid email address' },
+    ]);
+  });
+
+  it('builds a CSV report ordered by row', () => {
+    const report = buildImportReport([
+      { rowNumber: 3, email: 'b@example.com', status: 'failed', message: 'Said "no", twice' },
+      { rowNumber: 2, email: 'a@example.com', status: 'created', message: 'Invite created' },
+    ]);
+    expect(report.split('\n')).toEqual([
+      'Row,Email,Status,Message',
+      '2,a@example.com,created,Invite created',
+      '3,b@example.com,failed,"Said ""no"", twice"',
+    ]);
+  });
+});
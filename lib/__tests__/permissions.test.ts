@@ -0,0 +1,111 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  canAccessRoute,
+  decodeTokenClaims,
+  filterAssignedEvents,
+  getHomeRoute,
+  getRoutePermission,
+  getTokenRole,
+  hasPermission,
+} from '../permissions';
+
+function makeToken(claims: object): string {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'HS256', typ: 'JWT' })}.${encode(claims)}.signature`;
+}
+
+describe('hasPermission', () => {
+  it('grants each role its own permissions', () => {
+    expect(hasPermission('admin', 'events:delete')).toBe(true);
+    expect(hasPermission('event_manager', 'events:manage')).toBe(true);
+    expect(hasPermission('event_manager', 'events:delete')).toBe(false);
+    expect(hasPermission('viewer', 'attendees:view')).toBe(true);
+    expect(hasPermission('viewer', 'attendees:manage')).toBe(false);
+    expect(hasPermission('checkin', 'checkin:perform')).toBe(true);
+    expect(hasPermission('checkin', 'dashboard:view')).toBe(false);
+  });
+
+  it('grants nothing without a role', () => {
+    expect(hasPermission(null, 'dashboard:view')).toBe(false);
+  });
+});
+
+describe('route permissions', () => {
+  it('matches the most specific route', () => {
+    expect(getRoutePermission('/events/new')).toBe('events:manage');
+    expect(getRoutePermission('/events/abc/waitlist')).toBe('attendees:manage');
+    expect(getRoutePermission('/events/abc')).toBe('events:view');
+    expect(getRoutePermission('/invites/new')).toBe('invites:manage');
+    expect(getRoutePermission('/check-in')).toBe('checkin:perform');
+    expect(getRoutePermission('/')).toBe('dashboard:view');
+  });
+
+  it('does not treat a shared prefix as a parent route', () => {
+    expect(getRoutePermission('/attendee-sheet')).toBe('attendees:view');
+    expect(getRoutePermission('/eventsx')).toBe('dashboard:view');
+  });
+
+  it('limits each role to its pages', () => {
+    expect(canAccessRoute('viewer', '/events/new')).toBe(false);
+    expect(canAccessRoute('event_manager', '/generate-tokens')).toBe(false);
+    expect(canAccessRoute('admin', '/generate-tokens')).toBe(true);
+    expect(canAccessRoute('checkin', '/attendees')).toBe(false);
+    expect(canAccessRoute('checkin', '/checkin')).toBe(true);
+    expect(canAccessRoute('event_manager', '/users')).toBe(false);
+    expect(canAccessRoute('admin', '/users/new')).toBe(true);
+    expect(canAccessRoute('admin', '/audit')).toBe(true);
+    expect(canAccessRoute('viewer', '/audit')).toBe(false);
+    expect(canAccessRoute('viewer', '/events/abc/waitlist')).toBe(false);
+    expect(canAccessRoute('event_manager', '/events/abc/waitlist')).toBe(true);
+  });
+
+  it('keeps viewers away from actions that change guests, invites and events', () => {
+    // Bulk actions, cancelling, resending, saving an event and the waitlist
+    for (const permission of ['attendees:manage', 'invites:manage', 'events:manage'] as const) {
+      expect(hasPermission('viewer', permission)).toBe(false);
+      expect(hasPermission('event_manager', permission)).toBe(true);
+    }
+  });
+
+  it('sends every role to a page it can open', () => {
+    for (const role of ['admin', 'event_manager', 'viewer', 'checkin'] as const) {
+      expect(canAccessRoute(role, getHomeRoute(role))).toBe(true);
+    }
+    expect(getHomeRoute('checkin')).toBe('/checkin');
+  });
+});
+
+describe('filterAssignedEvents', () => {
+  const events = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+
+  it('limits check-in staff to their assigned events', () => {
+    expect(filterAssignedEvents(events, { role: 'checkin', eventIds: ['b'] })).toEqual([{ id: 'b' }]);
+  });
+
+  it('shows every event to other roles and unassigned staff', () => {
+    expect(filterAssignedEvents(events, { role: 'admin', eventIds: ['b'] })).toEqual(events);
+    expect(filterAssignedEvents(events, { role: 'checkin' })).toEqual(events);
+    expect(filterAssignedEvents(events, null)).toEqual(events);
+  });
+});
+
+describe('token claims', () => {
+  it('reads the role from the JWT payload', () => {
+    const token = makeToken({ sub: 'user-1', role: 'event_manager', exp: 2000000000 });
+    expect(decodeTokenClaims(token)).toEqual({ sub: 'user-1', role: 'event_manager', exp: 2000000000 });
+    expect(getTokenRole(token)).toBe('event_manager');
+  });
+
+  it('rejects malformed tokens and unknown roles', () => {
+    expect(decodeTokenClaims('not-a-token')).toBeNull();
+    expect(decodeTokenClaims('a.%%%.c')).toBeNull();
+    expect(getTokenRole(makeToken({ role: 'superuser' }))).toBeNull();
+    expect(getTokenRole(makeToken({ sub: 'user-1' }))).toBeNull();
+  });
+
+  it('ignores the role of an expired token', () => {
+    const token = makeToken({ role: 'admin', exp: 1700000000 });
+    expect(getTokenRole(token, 1700000000 * 1000 - 1)).toBe('admin');
+    expect(getTokenRole(token, 1700000000 * 1000)).toBeNull();
+  });
+});
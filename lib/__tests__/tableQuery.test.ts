@@ -0,0 +1,135 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  ANY,
+  ClientQueryOptions,
+  TableQuery,
+  applyClientQuery,
+  isPaginatedResponse,
+  parseTableQuery,
+  toApiParams,
+  toServerPage,
+  toUrlParams,
+} from '../tableQuery';
+
+const defaults: TableQuery = {
+  page: 1,
+  pageSize: 50,
+  sortField: 'createdAt',
+  sortOrder: 'desc',
+  search: '',
+  filters: { eventId: ANY, status: ANY },
+};
+
+interface Row {
+  name: string;
+  status: string;
+  createdAt: string;
+}
+
+const rows: Row[] = [
+  { name: 'Charlie', status: 'CONFIRMED', createdAt: '2025-03-01T10:00:00Z' },
+  { name: 'alice', status: 'WAITLISTED', createdAt: '2025-03-03T10:00:00Z' },
+  { name: 'Bob', status: 'CONFIRMED', createdAt: '2025-03-02T10:00:00Z' },
+];
+
+const options: ClientQueryOptions<Row> = {
+  searchText: (row) => [row.name],
+  filterValue: (row, filter) => (filter === 'status' ? row.status : undefined),
+  sortValue: (row, field) => (field === 'createdAt' ? new Date(row.createdAt).getTime() : row.name),
+};
+
+describe('parseTableQuery', () => {
+  it('falls back to the defaults for missing or invalid values', () => {
+    const query = parseTableQuery(new URLSearchParams('page=-2&pageSize=7&sortOrder=up'), defaults);
+    expect(query).toEqual(defaults);
+  });
+
+  it('reads page, sort, search and known filters', () => {
+    const query = parseTableQuery(
+      new URLSearchParams('page=3&pageSize=20&sortBy=name&sortOrder=asc&search=ann&status=CONFIRMED&other=x'),
+      defaults
+    );
+    expect(query).toEqual({
+      page: 3,
+      pageSize: 20,
+      sortField: 'name',
+      sortOrder: 'asc',
+      search: 'ann',
+      filters: { eventId: ANY, status: 'CONFIRMED' },
+    });
+  });
+});
+
+describe('query parameters', () => {
+  const query: TableQuery = { ...defaults, page: 2, search: 'bob', filters: { eventId: 'event-1', status: ANY } };
+
+  it('keeps only non-default values in the URL and round-trips them', () => {
+    const params = toUrlParams(query, defaults);
+    expect(params.toString()).toBe('page=2&search=bob&eventId=event-1');
+    expect(parseTableQuery(params, defaults)).toEqual(query);
+  });
+
+  it('sends every setting to the API but leaves out unset filters', () => {
+    expect(Object.fromEntries(toApiParams(query))).toEqual({
+      page: '2',
+      pageSize: '50',
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+      search: 'bob',
+      eventId: 'event-1',
+    });
+  });
+
+  it('leaves out filters only the browser applies', () => {
+    const filtered = { ...query, filters: { eventId: 'event-1', status: 'CONFIRMED' } };
+    expect(toApiParams(filtered, ['status']).has('status')).toBe(false);
+    expect(toApiParams(filtered, ['status']).get('eventId')).toBe('event-1');
+  });
+});
+
+describe('applyClientQuery', () => {
+  it('searches case-insensitively and filters', () => {
+    const result = applyClientQuery(rows, { ...defaults, search: 'B', filters: { eventId: ANY, status: 'CONFIRMED' } }, options);
+    expect(result.items.map((row) => row.name)).toEqual(['Bob']);
+    expect(result.total).toBe(1);
+  });
+
+  it('sorts and pages, reporting the total before paging', () => {
+    const result = applyClientQuery(rows, { ...defaults, sortField: 'name', sortOrder: 'asc', pageSize: 10 }, options);
+    expect(result.items.map((row) => row.name)).toEqual(['alice', 'Bob', 'Charlie']);
+
+    const newestFirst = applyClientQuery(rows, { ...defaults, pageSize: 10 }, options);
+    expect(newestFirst.items.map((row) => row.name)).toEqual(['alice', 'Bob', 'Charlie']);
+
+    const secondPage = applyClientQuery(rows, { ...defaults, sortField: 'name', sortOrder: 'desc', page: 2, pageSize: 2 }, options);
+    expect(secondPage.items.map((row) => row.name)).toEqual(['alice']);
+    expect(secondPage.total).toBe(3);
+  });
+});
+
+describe('isPaginatedResponse', () => {
+  it('tells a paged response from a plain list', () => {
+    expect(isPaginatedResponse({ data: [], total: 0, page: 1, pageSize: 50 })).toBe(true);
+    expect(isPaginatedResponse([])).toBe(false);
+    expect(isPaginatedResponse(null)).toBe(false);
+  });
+});
+
+describe('toServerPage', () => {
+  const response = { data: rows, total: 30, page: 1, pageSize: 3 };
+  const withGuests = (items: Row[]) => items.flatMap((row) => [row, { ...row, name: `${row.name}'s guest` }]);
+
+  it('keeps the backend total when each record is one row', () => {
+    expect(toServerPage(response, defaults, (items) => items)).toEqual({ items: rows, total: 30, serverSide: true });
+  });
+
+  it('gives up when records turn into more rows than the backend counted', () => {
+    expect(toServerPage(response, defaults, withGuests)).toBeNull();
+  });
+
+  it('gives up while a browser-only filter is set', () => {
+    const query = { ...defaults, filters: { eventId: ANY, status: 'CONFIRMED' } };
+    expect(toServerPage(response, query, (items) => items, ['status'])).toBeNull();
+    expect(toServerPage(response, defaults, (items) => items, ['status'])).not.toBeNull();
+  });
+});
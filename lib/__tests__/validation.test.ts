@@ -1,5 +1,5 @@
 import { describe, it, expect } from '@jest/globals';
-import { eventSchema, inviteSchema } from '../validation';
+import { eventSchema, inviteSchema, userInviteSchema } from '../validation';
 
 describe('Event Validation Schema', () => {
   it('should validate a valid event form', () => {
@@ -9,11 +9,13 @@ describe('Event Validation Schema', () => {
       eventDate: '2024-12-31',
       eventStartTime: '18:00',
       eventEndTime: '22:00',
+      timeZone: 'America/Los_Angeles',
       venueName: 'Test Venue',
       venueAddress: '123 Test St',
       venueCity: 'Test City',
       venueState: 'CA',
       venueZipCode: '12345',
+      venueCountry: 'US',
       capacity: 100,
       waitlistEnabled: false,
       registrationOpen: true,
@@ -121,6 +123,133 @@ describe('Event Validation Schema', () => {
   });
 });
 
+describe('Event venue address and time zone', () => {
+  const baseEvent = {
+    eventName: 'Test Event',
+    eventDate: '2024-12-31',
+    eventStartTime: '18:00',
+    eventEndTime: '22:00',
+    timeZone: 'America/New_York',
+    venueName: 'Test Venue',
+    venueAddress: '123 Test St',
+    venueCity: 'Test City',
+    venueState: 'NY',
+    venueZipCode: '10001',
+    venueCountry: 'US',
+    capacity: 100,
+    waitlistEnabled: false,
+    registrationOpen: true,
+    dressCode: 'Business Casual',
+  };
+
+  const issuePaths = (data: object) => {
+    const result = eventSchema.safeParse(data);
+    return result.success ? [] : result.error.issues.map((issue) => issue.path.join('.'));
+  };
+
+  it('should accept a US ZIP+4 code', () => {
+    expect(issuePaths({ ...baseEvent, venueZipCode: '10001-1234' })).toEqual([]);
+  });
+
+  it('should reject a lowercase US state', () => {
+    expect(issuePaths({ ...baseEvent, venueState: 'ny' })).toEqual(['venueState']);
+  });
+
+  it('should accept a UK venue without a county', () => {
+    const london = {
+      ...baseEvent,
+      venueCity: 'London',
+      venueState: '',
+      venueZipCode: 'SW1A 1AA',
+      venueCountry: 'GB',
+      timeZone: 'Europe/London',
+    };
+    expect(issuePaths(london)).toEqual([]);
+  });
+
+  it('should reject a US ZIP code for a UK venue', () => {
+    expect(issuePaths({ ...baseEvent, venueState: '', venueCountry: 'GB' })).toEqual(['venueZipCode']);
+  });
+
+  it('should accept a Canadian postal code with or without the space', () => {
+    const toronto = {
+      ...baseEvent,
+      venueCity: 'Toronto',
+      venueState: 'ON',
+      venueZipCode: 'M5V 2T6',
+      venueCountry: 'CA',
+      timeZone: 'America/Toronto',
+    };
+    expect(issuePaths(toronto)).toEqual([]);
+    expect(issuePaths({ ...toronto, venueZipCode: 'M5V2T6' })).toEqual([]);
+  });
+
+  it('should require a known province for a Canadian venue', () => {
+    const toronto = { ...baseEvent, venueZipCode: 'M5V 2T6', venueCountry: 'CA' };
+    expect(issuePaths({ ...toronto, venueState: '' })).toEqual(['venueState']);
+    expect(issuePaths({ ...toronto, venueState: 'Ontario' })).toEqual(['venueState']);
+  });
+
+  it('should require a country', () => {
+    expect(issuePaths({ ...baseEvent, venueCountry: '' })).toContain('venueCountry');
+  });
+
+  it('should reject a missing or unknown time zone', () => {
+    expect(issuePaths({ ...baseEvent, timeZone: '' })).toEqual(['timeZone']);
+    expect(issuePaths({ ...baseEvent, timeZone: 'Mars/Olympus_Mons' })).toEqual(['timeZone']);
+  });
+});
+
+describe('Event overnight and multi-day schedule', () => {
+  const baseEvent = {
+    eventName: 'Test Event',
+    eventDate: '2024-12-31',
+    eventStartTime: '22:00',
+    eventEndTime: '02:00',
+    timeZone: 'Europe/London',
+    venueName: 'Test Venue',
+    venueAddress: '1 Test St',
+    venueCity: 'London',
+    venueState: '',
+    venueZipCode: 'SW1A 1AA',
+    venueCountry: 'GB',
+    capacity: 100,
+    waitlistEnabled: false,
+    registrationOpen: true,
+    dressCode: 'Black Tie',
+  };
+
+  it('should accept an overnight event ending the next day', () => {
+    const result = eventSchema.safeParse({ ...baseEvent, eventEndDate: '2025-01-01' });
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject an end date before the event date', () => {
+    const result = eventSchema.safeParse({ ...baseEvent, eventEndDate: '2024-12-30' });
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject an event longer than the maximum', () => {
+    const result = eventSchema.safeParse({ ...baseEvent, eventEndDate: '2025-01-31' });
+    expect(result.success).toBe(false);
+  });
+
+  it('should validate the hours of each agenda day', () => {
+    const conference = { ...baseEvent, eventStartTime: '09:00', eventEndTime: '17:00', eventEndDate: '2025-01-02' };
+    const agenda = [
+      { title: 'Keynotes', startTime: '09:00', endTime: '17:00' },
+      { title: 'Workshops', startTime: '10:00', endTime: '16:00' },
+    ];
+    expect(eventSchema.safeParse({ ...conference, agenda }).success).toBe(true);
+
+    const result = eventSchema.safeParse({ ...conference, agenda: [agenda[0], { ...agenda[1], endTime: '09:00' }] });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['agenda', 1, 'endTime']);
+    }
+  });
+});
+
 describe('Invite Validation Schema', () => {
   it('should validate a valid invite form', () => {
     const validInvite = {
@@ -182,3 +311,44 @@ describe('Invite Validation Schema', () => {
     expect(result.success).toBe(false);
   });
 });
+
+describe('User Invite Validation Schema', () => {
+  it('should validate a valid user invite', () => {
+    const validUser = {
+      name: 'Jordan Lee',
+      email: 'jordan@example.com',
+      role: 'viewer' as const,
+      eventIds: [],
+    };
+
+    const result = userInviteSchema.safeParse(validUser);
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject check-in staff without assigned events', () => {
+    const invalidUser = {
+      name: 'Door Staff',
+      email: 'door@example.com',
+      role: 'checkin' as const,
+      eventIds: [],
+    };
+
+    const result = userInviteSchema.safeParse(invalidUser);
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.issues[0].path).toEqual(['eventIds']);
+    }
+  });
+
+  it('should reject an unknown role', () => {
+    const invalidUser = {
+      name: 'Jordan Lee',
+      email: 'jordan@example.com',
+      role: 'owner',
+      eventIds: [],
+    };
+
+    const result = userInviteSchema.safeParse(invalidUser);
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from '@jest/globals';
+import { Attendee } from '../types';
+import { getOpenSlots, moveItem, sortByRegistration } from '../waitlist';
+
+function attendee(id: string, status: Attendee['status'], createdAt: string): Attendee {
+  return { id, status, createdAt, name: id, email: `${id}@example.com` } as Attendee;
+}
+
+describe('getOpenSlots', () => {
+  it('counts remaining places and never goes below zero', () => {
+    expect(getOpenSlots({ capacity: 100, currentRegistrations: 97 })).toBe(3);
+    expect(getOpenSlots({ capacity: 100, currentRegistrations: 104 })).toBe(0);
+  });
+});
+
+describe('sortByRegistration', () => {
+  it('keeps waitlisted attendees, earliest registration first', () => {
+    const sorted = sortByRegistration([
+      attendee('late', 'WAITLISTED', '2026-03-02T10:00:00Z'),
+      attendee('confirmed', 'CONFIRMED', '2026-03-01T09:00:00Z'),
+      attendee('early', 'WAITLISTED', '2026-03-01T10:00:00Z'),
+    ]);
+
+    expect(sorted.map((a) => a.id)).toEqual(['early', 'late']);
+  });
+});
+
+describe('moveItem', () => {
+  it('moves an item to a new position', () => {
+    expect(moveItem(['a', 'b', 'c', 'd'], 0, 2)).toEqual(['b', 'c', 'a', 'd']);
+    expect(moveItem(['a', 'b', 'c', 'd'], 3, 0)).toEqual(['d', 'a', 'b', 'c']);
+  });
+
+  it('returns the same array when nothing moves', () => {
+    const items = ['a', 'b'];
+    expect(moveItem(items, 1, 1)).toBe(items);
+    expect(moveItem(items, 5, 0)).toBe(items);
+  });
+
+  it('clamps targets past either end', () => {
+    expect(moveItem(['a', 'b', 'c'], 0, 10)).toEqual(['b', 'c', 'a']);
+    expect(moveItem(['a', 'b', 'c'], 2, -1)).toEqual(['c', 'a', 'b']);
+  });
+});
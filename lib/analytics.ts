@@ -0,0 +1,286 @@
+// Chart series for the analytics page, computed client-side from attendee
+// and invite records
+
+import { getEventTimeZone, zonedTimeToUtc } from '@/lib/eventTime';
+import { Attendee, DashboardStats, Event, EventStats, Invite } from '@/lib/types';
+
+export interface DateRange {
+  from: string; // YYYY-MM-DD, empty for no lower bound
+  to: string; // YYYY-MM-DD, empty for no upper bound
+}
+
+export interface DailyCount {
+  date: string;
+  label: string;
+  count: number;
+}
+
+export interface DailyInvites {
+  date: string;
+  label: string;
+  sent: number;
+  accepted: number;
+}
+
+export interface FunnelStage {
+  stage: string;
+  count: number;
+}
+
+export interface EventStatusBreakdown {
+  eventId: string;
+  eventName: string;
+  confirmed: number;
+  waitlisted: number;
+  cancelled: number;
+}
+
+export interface PlusOneRatio {
+  withPlusOne: number;
+  withoutPlusOne: number;
+  ratio: number;
+}
+
+export interface ArrivalCurves {
+  // One row per bucket, keyed by event id with the cumulative count
+  data: Array<{ minute: number; label: string } & Record<string, number | string>>;
+  series: { eventId: string; eventName: string }[];
+}
+
+// Headline figures for one event, as percentages where they are rates
+export interface EventMetrics {
+  registrations: number;
+  fillRate: number;
+  inviteConversion: number;
+  waitlistDepth: number;
+  plusOneShare: number;
+  checkedIn: number;
+  // Null until someone has checked in, otherwise every guest is a no-show
+  noShowRate: number | null;
+}
+
+export interface PortfolioAverages {
+  registrations: number;
+  inviteConversion: number;
+  waitlistDepth: number;
+  noShowRate: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function toDayKey(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+function formatDayLabel(dayKey: string): string {
+  return new Date(`${dayKey}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+export function isInDateRange(timestamp: string | null | undefined, range: DateRange): boolean {
+  if (!timestamp) return false;
+  const time = new Date(timestamp).getTime();
+  if (range.from && time < new Date(`${range.from}T00:00:00`).getTime()) return false;
+  if (range.to && time > new Date(`${range.to}T23:59:59.999`).getTime()) return false;
+  return true;
+}
+
+// Every day between the first and last key, so quiet days show as zero
+function getDayKeys(keys: string[], range: DateRange): string[] {
+  if (keys.length === 0) return [];
+
+  const sorted = [...keys].sort();
+  const first = range.from || sorted[0];
+  const last = range.to || sorted[sorted.length - 1];
+
+  const days: string[] = [];
+  for (
+    let time = new Date(`${first}T00:00:00`).getTime();
+    time <= new Date(`${last}T00:00:00`).getTime();
+    time += DAY_MS
+  ) {
+    days.push(toDayKey(new Date(time)));
+  }
+  // Collapse any duplicate produced by a daylight saving shift
+  return Array.from(new Set(days));
+}
+
+export function getRsvpsPerDay(attendees: Attendee[], range: DateRange): DailyCount[] {
+  const counts = new Map<string, number>();
+  attendees
+    .filter((a) => isInDateRange(a.createdAt, range))
+    .forEach((a) => {
+      const key = toDayKey(new Date(a.createdAt));
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+
+  return getDayKeys(Array.from(counts.keys()), range).map((date) => ({
+    date,
+    label: formatDayLabel(date),
+    count: counts.get(date) || 0,
+  }));
+}
+
+// Invites by the day they were sent, with how many of each day's invites
+// have since been accepted
+export function getInvitesPerDay(invites: Invite[], range: DateRange): DailyInvites[] {
+  const days = new Map<string, { sent: number; accepted: number }>();
+  invites
+    .filter((invite) => isInDateRange(invite.createdAt, range))
+    .forEach((invite) => {
+      const key = toDayKey(new Date(invite.createdAt));
+      const day = days.get(key) || { sent: 0, accepted: 0 };
+      day.sent++;
+      if (invite.isUsed) day.accepted++;
+      days.set(key, day);
+    });
+
+  return getDayKeys(Array.from(days.keys()), range).map((date) => ({
+    date,
+    label: formatDayLabel(date),
+    sent: days.get(date)?.sent || 0,
+    accepted: days.get(date)?.accepted || 0,
+  }));
+}
+
+export function getInviteFunnel(invites: Invite[], attendees: Attendee[], range: DateRange): FunnelStage[] {
+  const sent = invites.filter((invite) => isInDateRange(invite.createdAt, range));
+  const registered = attendees.filter((a) => isInDateRange(a.createdAt, range));
+
+  return [
+    { stage: 'Sent', count: sent.length },
+    { stage: 'Accepted', count: sent.filter((invite) => invite.isUsed).length },
+    { stage: 'Confirmed', count: registered.filter((a) => a.status === 'CONFIRMED').length },
+    { stage: 'Checked In', count: registered.filter((a) => a.checkedInAt).length },
+  ];
+}
+
+export function getStatusByEvent(
+  events: Event[],
+  attendees: Attendee[],
+  range: DateRange
+): EventStatusBreakdown[] {
+  return events.map((event) => {
+    const eventAttendees = attendees.filter(
+      (a) => a.eventId === event.id && isInDateRange(a.createdAt, range)
+    );
+    return {
+      eventId: event.id,
+      eventName: event.eventName,
+      confirmed: eventAttendees.filter((a) => a.status === 'CONFIRMED').length,
+      waitlisted: eventAttendees.filter((a) => a.status === 'WAITLISTED').length,
+      cancelled: eventAttendees.filter((a) => a.status === 'CANCELLED').length,
+    };
+  });
+}
+
+export function getPlusOneRatio(attendees: Attendee[], range: DateRange): PlusOneRatio {
+  const active = attendees.filter((a) => a.status !== 'CANCELLED' && isInDateRange(a.createdAt, range));
+  const withPlusOne = active.filter((a) => a.plusOne).length;
+  return {
+    withPlusOne,
+    withoutPlusOne: active.length - withPlusOne,
+    ratio: active.length > 0 ? withPlusOne / active.length : 0,
+  };
+}
+
+// Event start as a timestamp, from the date and HH:mm start time in the event's zone
+export function getEventStartTime(event: Event): number {
+  return zonedTimeToUtc(event.eventDate.split('T')[0], event.eventStartTime, getEventTimeZone(event)).getTime();
+}
+
+function formatOffset(minute: number): string {
+  const sign = minute < 0 ? '-' : '+';
+  const abs = Math.abs(minute);
+  const hours = Math.floor(abs / 60);
+  const minutes = abs % 60;
+  return `${sign}${hours}:${String(minutes).padStart(2, '0')}`;
+}
+
+// Cumulative check-ins (guests and plus-ones) against minutes from each
+// event's start time, so events on different days line up on one chart
+export function getArrivalCurves(
+  events: Event[],
+  attendees: Attendee[],
+  range: DateRange,
+  bucketMinutes = 15
+): ArrivalCurves {
+  const offsetsByEvent = new Map<string, number[]>();
+
+  events.forEach((event) => {
+    const start = getEventStartTime(event);
+    if (Number.isNaN(start)) return;
+
+    const offsets: number[] = [];
+    attendees
+      .filter((a) => a.eventId === event.id)
+      .forEach((a) => {
+        [a.checkedInAt, a.plusOne?.checkedInAt].forEach((checkedInAt) => {
+          if (checkedInAt && isInDateRange(checkedInAt, range)) {
+            const minutes = (new Date(checkedInAt).getTime() - start) / 60000;
+            offsets.push(Math.floor(minutes / bucketMinutes) * bucketMinutes);
+          }
+        });
+      });
+
+    if (offsets.length > 0) offsetsByEvent.set(event.id, offsets);
+  });
+
+  const series = events
+    .filter((event) => offsetsByEvent.has(event.id))
+    .map((event) => ({ eventId: event.id, eventName: event.eventName }));
+  if (series.length === 0) return { data: [], series };
+
+  const allOffsets = Array.from(offsetsByEvent.values()).flat();
+  const first = Math.min(...allOffsets);
+  const last = Math.max(...allOffsets);
+
+  const data: ArrivalCurves['data'] = [];
+  const running = new Map<string, number>();
+  for (let minute = first; minute <= last; minute += bucketMinutes) {
+    const row: ArrivalCurves['data'][number] = { minute, label: formatOffset(minute) };
+    series.forEach(({ eventId }) => {
+      const inBucket = offsetsByEvent.get(eventId)!.filter((offset) => offset === minute).length;
+      const total = (running.get(eventId) || 0) + inBucket;
+      running.set(eventId, total);
+      row[eventId] = total;
+    });
+    data.push(row);
+  }
+
+  return { data, series };
+}
+
+function toPercent(part: number, whole: number): number {
+  return whole > 0 ? (part / whole) * 100 : 0;
+}
+
+export function getEventMetrics(stats: EventStats, attendees: Attendee[]): EventMetrics {
+  const confirmed = attendees.filter((a) => a.status === 'CONFIRMED');
+  const checkedIn = attendees.filter((a) => a.checkedInAt).length;
+  const noShows = confirmed.filter((a) => !a.checkedInAt).length;
+  const active = stats.confirmedAttendees + stats.waitlistedAttendees;
+
+  return {
+    registrations: stats.currentRegistrations,
+    fillRate: toPercent(stats.currentRegistrations, stats.totalCapacity),
+    inviteConversion: toPercent(stats.inviteStats.used, stats.inviteStats.total),
+    waitlistDepth: stats.waitlistedAttendees,
+    plusOneShare: toPercent(stats.attendeesWithPlusOne, active),
+    checkedIn,
+    noShowRate: checkedIn > 0 ? toPercent(noShows, confirmed.length) : null,
+  };
+}
+
+// Per-event averages across every event, from the dashboard totals
+export function getPortfolioAverages(stats: DashboardStats): PortfolioAverages {
+  const events = stats.totalEvents || 1;
+  return {
+    registrations: stats.totalAttendees / events,
+    inviteConversion: toPercent(stats.usedInvites, stats.totalInvites),
+    waitlistDepth: stats.waitlistedAttendees / events,
+    noShowRate: stats.totalCheckedIn > 0 ? Math.max(100 - (stats.checkInRate || 0), 0) : null,
+  };
+}
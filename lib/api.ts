@@ -1,6 +1,12 @@
 // API client for backend communication
 
-const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3002';
+import { SESSION_URL, expireSession, setSessionExpiry } from '@/lib/auth';
+import type { SessionInfo } from '@/lib/session';
+import { AuditTag, User } from '@/lib/types';
+
+// Requests go through the app's proxy route, which adds the token from the
+// httpOnly session cookie and forwards them to the backend
+const API_BASE_URL = '/api/proxy';
 
 export class APIError extends Error {
   constructor(
@@ -13,10 +19,32 @@ export class APIError extends Error {
   }
 }
 
-// Helper to get auth token from localStorage
-function getAuthToken(): string | null {
-  if (typeof window === 'undefined') return null;
-  return localStorage.getItem('auth_token');
+// Set while a refresh is in flight; other requests wait on it
+let refreshPromise: Promise<boolean> | null = null;
+
+async function requestNewToken(): Promise<boolean> {
+  try {
+    const response = await fetch(`${SESSION_URL}/refresh`, { method: 'POST' });
+    // Includes 404 when the backend has no refresh endpoint
+    if (!response.ok) return false;
+
+    const session: SessionInfo = await response.json();
+    setSessionExpiry(session.expiresAt);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Exchange the current session for a fresh token. Concurrent callers share
+// one request. Resolves to false when the session cannot be extended.
+export function refreshSession(): Promise<boolean> {
+  if (!refreshPromise) {
+    refreshPromise = requestNewToken().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
 }
 
 // Helper to handle API responses
@@ -38,19 +66,6 @@ async function handleResponse<T>(response: Response): Promise<T> {
       }
     }
 
-    // Handle 401 Unauthorized - redirect to login
-    if (response.status === 401) {
-      if (typeof window !== 'undefined') {
-        // Clear auth data
-        localStorage.removeItem('auth_token');
-        localStorage.removeItem('user');
-        document.cookie = 'auth_token=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT';
-        
-        // Redirect to login with message
-        window.location.href = '/login?error=session_expired';
-      }
-    }
-
     throw new APIError(response.status, errorMessage, errorDetails);
   }
 
@@ -65,9 +80,14 @@ async function handleResponse<T>(response: Response): Promise<T> {
 // Generic request function
 async function request<T>(
   endpoint: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  isRetry = false
 ): Promise<T> {
-  const token = getAuthToken();
+  // Wait for a running refresh so the request goes out with the new token
+  if (refreshPromise) {
+    await refreshPromise;
+  }
+
   const headers: Record<string, string> = {
     'Content-Type': 'application/json',
   };
@@ -80,63 +100,158 @@ async function request<T>(
     });
   }
 
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  }
-
   const url = `${API_BASE_URL}${endpoint}`;
 
   console.log('API Request:', { url, method: options.method || 'GET', headers });
 
+  let response: Response;
   try {
-    const response = await fetch(url, {
+    response = await fetch(url, {
       ...options,
       headers,
     });
 
     console.log('API Response:', { status: response.status, statusText: response.statusText });
-
-    return handleResponse<T>(response);
   } catch (error) {
     console.error('API Error:', error);
-    if (error instanceof APIError) {
-      throw error;
-    }
     // Network or other errors
     throw new APIError(0, 'Network error. Please check your connection.');
   }
+
+  // Expired or revoked session: refresh once and replay the request,
+  // otherwise end the session so the app can send the user to login
+  if (response.status === 401 && typeof window !== 'undefined') {
+    if (!isRetry && (await refreshSession())) {
+      return request<T>(endpoint, options, true);
+    }
+    expireSession();
+  }
+
+  return handleResponse<T>(response);
+}
+
+// Sign in through the session route, which keeps the token in an httpOnly
+// cookie and returns only the user and expiry
+export async function login(email: string, password: string): Promise<{ user: User } & SessionInfo> {
+  let response: Response;
+  try {
+    response = await fetch(`${SESSION_URL}/login`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    });
+  } catch {
+    throw new APIError(0, 'Network error. Please check your connection.');
+  }
+  return handleResponse(response);
 }
 
-// HTTP method helpers
+// Headers the backend reads to write the audit log entry for a change
+export function auditHeaders(audit?: AuditTag): Record<string, string> {
+  if (!audit) return {};
+
+  const headers: Record<string, string> = {
+    'X-Audit-Action': audit.action,
+    'X-Audit-Target-Type': audit.target.type,
+  };
+  if (audit.target.id) headers['X-Audit-Target-Id'] = audit.target.id;
+  if (audit.eventId) headers['X-Audit-Event-Id'] = audit.eventId;
+  return headers;
+}
+
+// HTTP method helpers. Mutating calls must pass an audit tag naming the
+// action and what it touched.
 export const api = {
   get: <T>(endpoint: string) => request<T>(endpoint, { method: 'GET' }),
 
-  post: <T>(endpoint: string, data?: any) =>
+  post: <T>(endpoint: string, data: any, audit: AuditTag) =>
     request<T>(endpoint, {
       method: 'POST',
+      headers: auditHeaders(audit),
       body: data ? JSON.stringify(data) : undefined,
     }),
 
-  put: <T>(endpoint: string, data?: any) =>
+  put: <T>(endpoint: string, data: any, audit: AuditTag) =>
     request<T>(endpoint, {
       method: 'PUT',
+      headers: auditHeaders(audit),
       body: data ? JSON.stringify(data) : undefined,
     }),
 
-  patch: <T>(endpoint: string, data?: any) =>
+  patch: <T>(endpoint: string, data: any, audit: AuditTag) =>
     request<T>(endpoint, {
       method: 'PATCH',
+      headers: auditHeaders(audit),
       body: data ? JSON.stringify(data) : undefined,
     }),
 
-  delete: <T>(endpoint: string) => request<T>(endpoint, { method: 'DELETE' }),
+  delete: <T>(endpoint: string, audit: AuditTag) =>
+    request<T>(endpoint, { method: 'DELETE', headers: auditHeaders(audit) }),
 };
 
+interface EventStreamOptions {
+  onOpen?: () => void;
+  onMessage: (data: string) => void;
+  signal?: AbortSignal;
+}
+
+// Read a server-sent events stream, calling onMessage with the data of each
+// event. Uses fetch rather than EventSource so it can be aborted.
+// Resolves when the server closes the stream.
+export async function openEventStream(
+  endpoint: string,
+  { onOpen, onMessage, signal }: EventStreamOptions
+): Promise<void> {
+  const headers: Record<string, string> = { Accept: 'text/event-stream' };
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}${endpoint}`, { headers, signal });
+  } catch {
+    if (signal?.aborted) return;
+    throw new APIError(0, 'Network error. Please check your connection.');
+  }
+
+  const contentType = response.headers.get('content-type');
+  if (!response.ok || !response.body || !contentType?.includes('text/event-stream')) {
+    throw new APIError(response.status, `Event stream unavailable (HTTP ${response.status})`);
+  }
+
+  onOpen?.();
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() || '';
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (data) onMessage(data);
+      }
+    }
+  } catch {
+    if (signal?.aborted) return;
+    throw new APIError(0, 'Event stream interrupted');
+  }
+}
+
 // API endpoints
 export const endpoints = {
   // Auth
   login: () => '/auth/login',
   logout: () => '/auth/logout',
+  refresh: () => '/auth/refresh',
 
   // Events
   events: {
@@ -147,18 +262,35 @@ export const endpoints = {
     delete: (id: string) => `/event/${id}`,
   },
 
+  // Saved event settings for creating similar events
+  eventTemplates: {
+    list: () => '/event-templates',
+    create: () => '/event-templates',
+    delete: (id: string) => `/event-templates/${id}`,
+  },
+
   // Admin
   admin: {
     attendees: (eventId: string) => `/admin/events/${eventId}/attendees`,
     stats: (eventId: string) => `/admin/events/${eventId}/stats`,
     export: (eventId: string) => `/admin/events/${eventId}/export`,
+    checkInStream: (eventId: string) => `/admin/events/${eventId}/check-ins/stream`,
+    waitlist: (eventId: string) => `/admin/events/${eventId}/waitlist`,
+    promoteWaitlist: (eventId: string) => `/admin/events/${eventId}/waitlist/promote`,
+    // Attendees across events, accepting page/sort/filter query parameters
+    attendeeSearch: () => '/admin/attendees',
     cancel: (attendeeId: string) => `/admin/attendees/${attendeeId}`,
+    updateStatus: (attendeeId: string) => `/admin/attendees/${attendeeId}/status`,
+    resendConfirmation: (attendeeId: string) => `/admin/attendees/${attendeeId}/resend-confirmation`,
     dashboardStats: () => '/admin/dashboard-stats',
   },
 
   // Invites
   invites: {
     list: (eventId: string) => `/invite/event/${eventId}`,
+    get: (id: string) => `/invite/${id}`,
+    // Invites across events, accepting page/sort/filter query parameters
+    search: () => '/invite',
     create: () => '/invite/create',
     resend: (id: string) => `/invite/resend/${id}`,
   },
@@ -172,6 +304,27 @@ export const endpoints = {
   qr: {
     attendee: (attendeeId: string) => `/qr/attendee/${attendeeId}`,
     validate: (qrCode: string) => `/qr/validate/${qrCode}`,
+    validateCheckin: (qrCode: string) => `/qr/validate-checkin/${qrCode}`,
+    checkIn: (qrCode: string) => `/qr/check-in/${qrCode}`,
+    checkInSecure: (qrCode: string) => `/qr/check-in-secure/${qrCode}`,
+    checkInPlusOne: (qrCode: string) => `/qr/check-in-plus-one/${qrCode}`,
+    checkInPlusOneSecure: (qrCode: string) => `/qr/check-in-plus-one-secure/${qrCode}`,
+  },
+
+  // Dashboard user accounts
+  users: {
+    list: () => '/admin/users',
+    get: (id: string) => `/admin/users/${id}`,
+    // Creates the account and emails a link to set a password
+    invite: () => '/admin/users',
+    update: (id: string) => `/admin/users/${id}`,
+    resetPassword: (id: string) => `/admin/users/${id}/reset-password`,
+  },
+
+  // Audit log, accepting actor/action/event/target/time range and page
+  // query parameters
+  audit: {
+    list: () => '/admin/audit',
   },
 
   // Emails (future endpoint - not yet implemented in backend)
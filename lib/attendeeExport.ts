@@ -0,0 +1,281 @@
+// Attendee exports. Records come from the admin export endpoint when the
+// backend can return them as JSON; the file itself is always built in the
+// browser so every format honours the same columns and filters.
+
+import { api, APIError, endpoints } from '@/lib/api';
+import { ALL_EVENTS, fetchAttendees } from '@/lib/eventData';
+import { downloadBlob, escapeHtml, printHtml, slugify, toCsv } from '@/lib/files';
+import { ANY } from '@/lib/tableQuery';
+import { Attendee, AttendeeStatus, PlusOne } from '@/lib/types';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'json' | 'pdf';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'csv', label: 'CSV', description: 'Spreadsheets and mail merge' },
+  { format: 'xlsx', label: 'Excel', description: 'Microsoft Excel workbook' },
+  { format: 'json', label: 'JSON', description: 'For other systems' },
+  { format: 'pdf', label: 'PDF roster', description: 'Printable sign-in sheet' },
+];
+
+// How plus ones appear: their own rows, extra columns on the attendee's row,
+// or left out
+export type PlusOneMode = 'rows' | 'merged' | 'none';
+
+export type CheckInFilter = typeof ANY | 'CHECKED_IN' | 'NOT_CHECKED_IN';
+
+export type ExportColumn =
+  | 'name'
+  | 'email'
+  | 'company'
+  | 'title'
+  | 'status'
+  | 'registrationId'
+  | 'event'
+  | 'registeredAt'
+  | 'checkedInAt'
+  | 'checkedInBy';
+
+export const EXPORT_COLUMNS: { key: ExportColumn; label: string; default: boolean }[] = [
+  { key: 'name', label: 'Name', default: true },
+  { key: 'email', label: 'Email', default: true },
+  { key: 'company', label: 'Company', default: true },
+  { key: 'title', label: 'Title', default: true },
+  { key: 'status', label: 'Status', default: true },
+  { key: 'registrationId', label: 'Registration ID', default: true },
+  { key: 'event', label: 'Event', default: false },
+  { key: 'registeredAt', label: 'Registered At', default: false },
+  { key: 'checkedInAt', label: 'Checked In At', default: true },
+  { key: 'checkedInBy', label: 'Checked In By', default: false },
+];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  plusOnes: PlusOneMode;
+  status: AttendeeStatus | typeof ANY;
+  checkIn: CheckInFilter;
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'csv',
+  columns: EXPORT_COLUMNS.filter((column) => column.default).map((column) => column.key),
+  plusOnes: 'rows',
+  status: ANY,
+  checkIn: ANY,
+};
+
+export interface ExportTable {
+  columns: { key: string; label: string }[];
+  rows: string[][];
+}
+
+// Plus one fields that can be merged onto the attendee's row
+const PLUS_ONE_COLUMNS: ExportColumn[] = ['name', 'email', 'company', 'title', 'checkedInAt'];
+
+function columnLabel(key: ExportColumn): string {
+  return EXPORT_COLUMNS.find((column) => column.key === key)?.label || key;
+}
+
+function attendeeValue(attendee: Attendee, key: ExportColumn): string {
+  switch (key) {
+    case 'event':
+      return attendee.event?.eventName || '';
+    case 'registeredAt':
+      return attendee.createdAt;
+    case 'checkedInAt':
+      return attendee.checkedInAt || '';
+    case 'checkedInBy':
+      return attendee.checkedInBy?.name || '';
+    default:
+      return attendee[key] || '';
+  }
+}
+
+// Plus ones share the attendee's registration and event
+function plusOneValue(plusOne: PlusOne, attendee: Attendee, key: ExportColumn): string {
+  switch (key) {
+    case 'name':
+    case 'email':
+    case 'company':
+    case 'title':
+      return plusOne[key] || '';
+    case 'status':
+      return 'PLUS_ONE';
+    case 'checkedInAt':
+      return plusOne.checkedInAt || '';
+    case 'checkedInBy':
+      return plusOne.checkedInBy?.name || '';
+    default:
+      return attendeeValue(attendee, key);
+  }
+}
+
+function matchesCheckIn(checkedInAt: string | null | undefined, filter: CheckInFilter): boolean {
+  if (filter === 'CHECKED_IN') return Boolean(checkedInAt);
+  if (filter === 'NOT_CHECKED_IN') return !checkedInAt;
+  return true;
+}
+
+// Rows and columns for an export. The status filter applies to attendees and
+// carries over to their plus ones; the check-in filter applies to each person
+// on their own row.
+export function buildExportTable(attendees: Attendee[], options: ExportOptions): ExportTable {
+  const columnKeys = EXPORT_COLUMNS.map((column) => column.key).filter((key) =>
+    options.columns.includes(key)
+  );
+  const mergedKeys = PLUS_ONE_COLUMNS.filter((key) => options.columns.includes(key));
+
+  const columns: ExportTable['columns'] = columnKeys.map((key) => ({ key, label: columnLabel(key) }));
+  if (options.plusOnes === 'rows') {
+    columns.push({ key: 'type', label: 'Type' }, { key: 'guestOf', label: 'Guest Of' });
+  }
+  if (options.plusOnes === 'merged') {
+    mergedKeys.forEach((key) => {
+      const label = columnLabel(key);
+      columns.push({
+        key: `plusOne${label.replace(/\s+/g, '')}`,
+        label: `Plus One ${label}`,
+      });
+    });
+  }
+
+  const rows: string[][] = [];
+  attendees
+    .filter((attendee) => options.status === ANY || attendee.status === options.status)
+    .forEach((attendee) => {
+      const plusOne = attendee.plusOne;
+
+      if (matchesCheckIn(attendee.checkedInAt, options.checkIn)) {
+        const row = columnKeys.map((key) => attendeeValue(attendee, key));
+        if (options.plusOnes === 'rows') row.push('Attendee', '');
+        if (options.plusOnes === 'merged') {
+          row.push(...mergedKeys.map((key) => (plusOne ? plusOneValue(plusOne, attendee, key) : '')));
+        }
+        rows.push(row);
+      }
+
+      if (plusOne && options.plusOnes === 'rows' && matchesCheckIn(plusOne.checkedInAt, options.checkIn)) {
+        rows.push([
+          ...columnKeys.map((key) => plusOneValue(plusOne, attendee, key)),
+          'Plus One',
+          attendee.name,
+        ]);
+      }
+    });
+
+  return { columns, rows };
+}
+
+export function toExportCsv(table: ExportTable): string {
+  return toCsv([table.columns.map((column) => column.label), ...table.rows]);
+}
+
+// One object per row keyed by column, with empty cells as null
+export function toExportJson(table: ExportTable): string {
+  const records = table.rows.map((row) =>
+    Object.fromEntries(table.columns.map((column, index) => [column.key, row[index] || null]))
+  );
+  return JSON.stringify(records, null, 2);
+}
+
+// Standalone page for the PDF roster, printed (or saved as PDF) from the
+// browser's print dialog. Includes an empty column to tick guests off.
+// `documentTitle` becomes the suggested name when saving as PDF.
+export function buildRosterHtml(
+  heading: string,
+  table: ExportTable,
+  documentTitle: string = heading,
+  generatedAt: Date = new Date()
+): string {
+  const header = ['', ...table.columns.map((column) => column.label)]
+    .map((label) => `<th>${escapeHtml(label)}</th>`)
+    .join('');
+  const body = table.rows
+    .map(
+      (row) =>
+        `<tr><td class="check"></td>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(documentTitle)}</title>
+<style>
+  @page { size: landscape; margin: 12mm; }
+  body { font-family: system-ui, sans-serif; font-size: 10pt; color: #111827; }
+  h1 { font-size: 16pt; margin: 0 0 4px; }
+  p { margin: 0 0 12px; color: #4b5563; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { border: 1px solid #d1d5db; padding: 4px 6px; text-align: left; vertical-align: top; }
+  th { background: #f3f4f6; }
+  thead { display: table-header-group; }
+  tr { page-break-inside: avoid; }
+  td.check { width: 18px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(heading)}</h1>
+<p>${table.rows.length} ${table.rows.length === 1 ? 'guest' : 'guests'} &middot; Generated ${escapeHtml(generatedAt.toLocaleString('en-US'))}</p>
+<table><thead><tr>${header}</tr></thead><tbody>${body}</tbody></table>
+</body>
+</html>`;
+}
+
+export function exportFileName(eventName: string | null, format: ExportFormat, date: Date = new Date()): string {
+  const prefix = eventName ? slugify(eventName) : 'all-events';
+  return `${prefix}-attendees-${date.toISOString().split('T')[0]}.${format}`;
+}
+
+// Fresh attendee records for an export. The per-event export endpoint is
+// asked for JSON; backends that only produce their own CSV, or that lack the
+// endpoint, fall back to the attendee list.
+export async function fetchExportAttendees(eventId: string): Promise<Attendee[]> {
+  if (eventId !== ALL_EVENTS) {
+    try {
+      const response = await api.get<Attendee[] | string>(`${endpoints.admin.export(eventId)}?format=json`);
+      if (Array.isArray(response)) return response;
+    } catch (err) {
+      if (!(err instanceof APIError) || ![404, 405, 501].includes(err.statusCode)) throw err;
+    }
+  }
+  return fetchAttendees(eventId, true);
+}
+
+// Build the file and hand it to the browser. The PDF roster opens the print
+// dialog rather than downloading, so it can be saved as PDF or printed.
+export async function exportAttendees(
+  attendees: Attendee[],
+  options: ExportOptions,
+  eventName: string | null
+): Promise<number> {
+  const table = buildExportTable(attendees, options);
+  const fileName = exportFileName(eventName, options.format);
+
+  switch (options.format) {
+    case 'csv':
+      downloadBlob(new Blob([toExportCsv(table)], { type: 'text/csv' }), fileName);
+      break;
+    case 'json':
+      downloadBlob(new Blob([toExportJson(table)], { type: 'application/json' }), fileName);
+      break;
+    case 'xlsx': {
+      // Only pulled into the bundle when someone exports a workbook
+      const { default: writeXlsxFile } = await import('write-excel-file/browser');
+      const blob = await writeXlsxFile([
+        table.columns.map((column) => ({ value: column.label, fontWeight: 'bold' as const })),
+        ...table.rows,
+      ]).toBlob();
+      downloadBlob(blob, fileName);
+      break;
+    }
+    case 'pdf':
+      printHtml(
+        buildRosterHtml(`${eventName || 'All events'} attendees`, table, fileName.replace(/\.pdf$/, ''))
+      );
+      break;
+  }
+
+  return table.rows.length;
+}
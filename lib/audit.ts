@@ -0,0 +1,162 @@
+// Audit log of changes made from the dashboard. Mutating API calls carry an
+// audit tag (see auditHeaders in lib/api.ts); the backend records who made
+// each one and serves the history back, newest first.
+
+import { api, endpoints } from '@/lib/api';
+import { ANY, TablePage, TableQuery, isPaginatedResponse, toApiParams } from '@/lib/tableQuery';
+import { AuditAction, AuditEntry, AuditTarget, AuditTargetType, PaginatedResponse } from '@/lib/types';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'event.create': 'Created event',
+  'event.update': 'Updated event',
+  'event.delete': 'Deleted event',
+  'template.create': 'Saved event template',
+  'template.delete': 'Deleted event template',
+  'attendee.cancel': 'Cancelled registration',
+  'attendee.status_update': 'Changed attendee status',
+  'attendee.resend_confirmation': 'Resent confirmation',
+  'attendee.check_in': 'Checked in guest',
+  'waitlist.reorder': 'Reordered waitlist',
+  'waitlist.settings_update': 'Changed waitlist settings',
+  'waitlist.promote': 'Promoted from waitlist',
+  'invite.create': 'Created invite',
+  'invite.bulk_create': 'Imported invites',
+  'invite.resend': 'Resent invite',
+  'tokens.generate': 'Generated tokens',
+  'email.resend': 'Resent email',
+  'user.invite': 'Invited user',
+  'user.update': 'Updated user',
+  'user.reset_password': 'Reset password',
+  'sheet.initialize': 'Initialized attendee sheet',
+};
+
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABELS) as AuditAction[];
+
+export const AUDIT_TARGET_LABELS: Record<AuditTargetType, string> = {
+  event: 'Event',
+  template: 'Event template',
+  attendee: 'Attendee',
+  invite: 'Invite',
+  email: 'Email',
+  user: 'User',
+  sheet: 'Attendee sheet',
+};
+
+export type AuditTone = 'destructive' | 'create' | 'change';
+
+// Removals stand out in red, additions in green
+export function getActionTone(action: AuditAction): AuditTone {
+  if (action.endsWith('.delete') || action === 'attendee.cancel') return 'destructive';
+  if (action.endsWith('create') || action === 'user.invite' || action === 'tokens.generate') return 'create';
+  return 'change';
+}
+
+// Filters on the audit page; the history panels use the target and event ones
+export interface AuditFilters {
+  actorId: string;
+  action: string;
+  eventId: string;
+  targetType: string;
+  targetId: string;
+  // Days as YYYY-MM-DD, both inclusive
+  from: string;
+  to: string;
+}
+
+export const DEFAULT_AUDIT_QUERY: TableQuery = {
+  page: 1,
+  pageSize: 50,
+  sortField: 'createdAt',
+  sortOrder: 'desc',
+  search: '',
+  filters: {
+    actorId: ANY,
+    action: ANY,
+    eventId: ANY,
+    targetType: ANY,
+    targetId: ANY,
+    from: ANY,
+    to: ANY,
+  } satisfies AuditFilters,
+};
+
+// Turn a local calendar day into the instant it starts or ends
+function dayBoundary(day: string, end: boolean): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  if (!match) return null;
+  const [, year, month, date] = match.map(Number);
+  const boundary = end
+    ? new Date(year, month - 1, date, 23, 59, 59, 999)
+    : new Date(year, month - 1, date, 0, 0, 0, 0);
+  return boundary.toISOString();
+}
+
+// Query string for the audit endpoint. The date range is sent as instants so
+// the backend does not need to know the viewer's timezone.
+export function toAuditParams(query: TableQuery): URLSearchParams {
+  const params = toApiParams(query);
+  for (const key of ['from', 'to'] as const) {
+    const day = params.get(key);
+    if (day === null) continue;
+    const instant = dayBoundary(day, key === 'to');
+    if (instant) params.set(key, instant);
+    else params.delete(key);
+  }
+  return params;
+}
+
+export async function fetchAuditPage(query: TableQuery): Promise<TablePage<AuditEntry>> {
+  const response = await api.get<PaginatedResponse<AuditEntry> | AuditEntry[]>(
+    `${endpoints.audit.list()}?${toAuditParams(query)}`
+  );
+  if (isPaginatedResponse<AuditEntry>(response)) {
+    return { items: response.data, total: response.total, serverSide: true };
+  }
+  return { items: response, total: response.length, serverSide: true };
+}
+
+// Most recent changes to one event, attendee or invite. Event history also
+// covers changes to the event's guests, invites and waitlist.
+export function fetchEntityHistory(target: Required<AuditTarget>, limit = 20): Promise<TablePage<AuditEntry>> {
+  const filters: Partial<AuditFilters> =
+    target.type === 'event'
+      ? { eventId: target.id }
+      : { targetType: target.type, targetId: target.id };
+  return fetchAuditPage({
+    ...DEFAULT_AUDIT_QUERY,
+    pageSize: limit,
+    filters: { ...DEFAULT_AUDIT_QUERY.filters, ...filters },
+  });
+}
+
+// Dashboard page for the thing an entry changed, if it has one
+export function getTargetHref(target: AuditTarget): string | null {
+  switch (target.type) {
+    case 'event':
+      return target.id ? `/events/${target.id}` : '/events';
+    case 'template':
+      return '/events/new';
+    case 'attendee':
+      return target.id ? `/attendees/${target.id}` : null;
+    case 'invite':
+      return target.id ? `/invites/${target.id}` : null;
+    case 'email':
+      return target.id ? `/emails/${target.id}` : null;
+    case 'user':
+      return '/users';
+    case 'sheet':
+      return '/attendee-sheet';
+  }
+}
+
+export function describeActor(entry: Pick<AuditEntry, 'actor'>): string {
+  if (!entry.actor) return 'System';
+  return entry.actor.name || entry.actor.email;
+}
+
+export function describeTarget(entry: Pick<AuditEntry, 'target'>): string {
+  const { target } = entry;
+  if (target.label) return target.label;
+  const type = AUDIT_TARGET_LABELS[target.type];
+  return target.id ? `${type} ${target.id}` : type;
+}
@@ -1,71 +1,115 @@
 // Authentication utilities
 
-export function getAuthToken(): string | null {
+import { decodeTokenClaims, isUserRole } from '@/lib/permissions';
+import { User } from '@/lib/types';
+
+// The token itself is kept in an httpOnly cookie by the app/api/auth route
+// handlers; page scripts only know who is signed in and until when.
+export const SESSION_URL = '/api/auth';
+
+// Expiry of a JWT in ms since the epoch, or null when it has no exp claim
+export function getTokenExpiry(token: string): number | null {
+  const exp = decodeTokenClaims(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : null;
+}
+
+// When the session token expires, in ms since the epoch
+export function getSessionExpiry(): number | null {
   if (typeof window === 'undefined') return null;
-  return localStorage.getItem('auth_token');
+  const expiresAt = localStorage.getItem('session_expires_at');
+  return expiresAt ? Number(expiresAt) : null;
 }
 
-export function setAuthToken(token: string): void {
+export function setSessionExpiry(expiresAt: number | null): void {
   if (typeof window === 'undefined') return;
-  
-  // Store in localStorage
-  localStorage.setItem('auth_token', token);
-  
-  // Store timestamp when token was set
-  localStorage.setItem('auth_token_timestamp', Date.now().toString());
-  
-  // Store in cookie for middleware (7 days expiry)
-  document.cookie = `auth_token=${token}; path=/; max-age=${7 * 24 * 60 * 60}; SameSite=Lax`;
+  if (expiresAt) {
+    localStorage.setItem('session_expires_at', String(expiresAt));
+  } else {
+    localStorage.removeItem('session_expires_at');
+  }
 }
 
-export function clearAuthToken(): void {
+// Forget the session in this browser tab's storage
+export function clearSession(): void {
   if (typeof window === 'undefined') return;
-  
-  // Clear localStorage
-  localStorage.removeItem('auth_token');
-  localStorage.removeItem('auth_token_timestamp');
+  localStorage.removeItem('session_expires_at');
   localStorage.removeItem('user');
-  
-  // Clear cookie
-  document.cookie = 'auth_token=; path=/; expires=Thu, 01 Jan 1970 00:00:00 GMT';
 }
 
+// Clear local state and ask the server to drop the session cookies
+export async function signOut(): Promise<void> {
+  clearSession();
+  await fetch(`${SESSION_URL}/logout`, { method: 'POST' }).catch(() => {});
+}
+
+// A lapsed token does not sign the user out here: the session may still be
+// refreshed, and SessionManager signs out when it cannot be
 export function isAuthenticated(): boolean {
-  const token = getAuthToken();
-  if (!token) return false;
-  
-  // Check if token is expired (7 days = 604800000 ms)
-  const timestamp = localStorage.getItem('auth_token_timestamp');
-  if (timestamp) {
-    const tokenAge = Date.now() - parseInt(timestamp, 10);
-    const sevenDays = 7 * 24 * 60 * 60 * 1000;
-    
-    if (tokenAge > sevenDays) {
-      // Token expired, clear it
-      clearAuthToken();
-      return false;
-    }
+  return getUser() !== null;
+}
+
+// Login page URL that brings the user back to `next` after signing in
+export function getLoginUrl(next?: string | null, reason?: 'session_expired'): string {
+  const params = new URLSearchParams();
+  if (reason) params.set('error', reason);
+  if (next && next !== '/') params.set('next', next);
+  const query = params.toString();
+  return query ? `/login?${query}` : '/login';
+}
+
+// Only same-site paths are followed after login
+export function getSafeNext(next: string | null): string | null {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/login')) {
+    return null;
   }
-  
-  return true;
+  return next;
 }
 
-export function getUser(): any {
-  if (typeof window === 'undefined') return null;
-  
+type SessionListener = () => void;
+const sessionExpiredListeners = new Set<SessionListener>();
+
+// Called when the API rejects the session and it cannot be refreshed
+export function onSessionExpired(listener: SessionListener): () => void {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+}
+
+export function expireSession(): void {
+  // Wait for the cookies to go so the login page does not bounce back
+  signOut().then(() => {
+    if (sessionExpiredListeners.size === 0) {
+      // Nothing on screen handles it, e.g. a page outside the app layouts
+      window.location.href = getLoginUrl(window.location.pathname + window.location.search, 'session_expired');
+      return;
+    }
+    sessionExpiredListeners.forEach((listener) => listener());
+  });
+}
+
+// Stored user, or null when missing or malformed
+export function parseUser(userStr: string | null): User | null {
+  if (!userStr) return null;
+
   try {
-    const userStr = localStorage.getItem('user');
-    if (userStr) {
-      return JSON.parse(userStr);
+    const user = JSON.parse(userStr);
+    if (user && isUserRole(user.role)) {
+      return user;
     }
   } catch {
     // Ignore parsing errors
   }
-  
+
   return null;
 }
 
-export function setUser(user: any): void {
+export function getUser(): User | null {
+  if (typeof window === 'undefined') return null;
+  return parseUser(localStorage.getItem('user'));
+}
+
+export function setUser(user: User): void {
   if (typeof window === 'undefined') return;
   localStorage.setItem('user', JSON.stringify(user));
 }
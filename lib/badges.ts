@@ -0,0 +1,256 @@
+// Name badges for printing on label sheets. Every attendee and plus one gets
+// a badge with their name, title, company and QR code; the sheet layout is
+// plain HTML measured in inches so the same markup serves the on-screen
+// preview and the printout.
+
+import QRCode from 'qrcode';
+import { escapeHtml } from '@/lib/files';
+import { ANY } from '@/lib/tableQuery';
+import { Attendee, AttendeeStatus } from '@/lib/types';
+
+// Label sheet geometry, all in inches
+export interface BadgeTemplate {
+  id: string;
+  name: string;
+  description: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+export const BADGE_TEMPLATES: BadgeTemplate[] = [
+  {
+    id: 'avery-5390',
+    name: 'Avery 5390',
+    description: '3½ × 2¼ in, 8 per sheet',
+    pageWidth: 8.5,
+    pageHeight: 11,
+    columns: 2,
+    rows: 4,
+    labelWidth: 3.5,
+    labelHeight: 2.25,
+    marginTop: 1,
+    marginLeft: 0.75,
+    gapX: 0,
+    gapY: 0,
+  },
+  {
+    id: 'avery-5392',
+    name: '4 × 3 badges (Avery 5392)',
+    description: '4 × 3 in, 6 per sheet',
+    pageWidth: 8.5,
+    pageHeight: 11,
+    columns: 2,
+    rows: 3,
+    labelWidth: 4,
+    labelHeight: 3,
+    marginTop: 1,
+    marginLeft: 0.25,
+    gapX: 0,
+    gapY: 0,
+  },
+  {
+    id: 'badge-printer-4x3',
+    name: 'Badge printer',
+    description: '4 × 3 in, one per page',
+    pageWidth: 4,
+    pageHeight: 3,
+    columns: 1,
+    rows: 1,
+    labelWidth: 4,
+    labelHeight: 3,
+    marginTop: 0,
+    marginLeft: 0,
+    gapX: 0,
+    gapY: 0,
+  },
+];
+
+export interface Badge {
+  // Attendee id, or `plusone-<id>` for a plus one
+  id: string;
+  name: string;
+  company: string;
+  title: string;
+  // Plus ones carry their attendee's code; the scanner then asks who arrived
+  qrCode: string;
+  guestOf?: string;
+}
+
+export interface BadgeFilters {
+  status: AttendeeStatus | typeof ANY;
+  includePlusOnes: boolean;
+}
+
+export function labelsPerSheet(template: BadgeTemplate): number {
+  return template.columns * template.rows;
+}
+
+// Top-left corner of a label on its sheet, in inches
+export function labelPosition(template: BadgeTemplate, index: number): { top: number; left: number } {
+  const column = index % template.columns;
+  const row = Math.floor(index / template.columns) % template.rows;
+  return {
+    top: template.marginTop + row * (template.labelHeight + template.gapY),
+    left: template.marginLeft + column * (template.labelWidth + template.gapX),
+  };
+}
+
+export function toBadges(attendees: Attendee[], filters: BadgeFilters): Badge[] {
+  const badges: Badge[] = [];
+
+  attendees
+    .filter((attendee) => filters.status === ANY || attendee.status === filters.status)
+    .forEach((attendee) => {
+      badges.push({
+        id: attendee.id,
+        name: attendee.name,
+        company: attendee.company,
+        title: attendee.title,
+        qrCode: attendee.qrCode,
+      });
+
+      if (attendee.plusOne && filters.includePlusOnes) {
+        badges.push({
+          id: `plusone-${attendee.plusOne.id}`,
+          name: attendee.plusOne.name,
+          company: attendee.plusOne.company,
+          title: attendee.plusOne.title,
+          qrCode: attendee.qrCode,
+          guestOf: attendee.name,
+        });
+      }
+    });
+
+  return badges;
+}
+
+// Split badges into sheets. `skip` leaves the first labels of the first sheet
+// empty so a partly used sheet can go back into the printer.
+export function layoutSheets(
+  badges: Badge[],
+  template: BadgeTemplate,
+  skip = 0
+): Array<Array<Badge | null>> {
+  const perSheet = labelsPerSheet(template);
+  const slots: Array<Badge | null> = [...Array(skip % perSheet).fill(null), ...badges];
+  const sheets: Array<Array<Badge | null>> = [];
+
+  for (let i = 0; i < slots.length; i += perSheet) {
+    sheets.push(slots.slice(i, i + perSheet));
+  }
+  return sheets;
+}
+
+// Data URLs for each QR code, cached across renders
+const qrImageCache = new Map<string, string>();
+
+export async function generateQrImages(codes: string[]): Promise<Record<string, string>> {
+  const unique = Array.from(new Set(codes));
+  await Promise.all(
+    unique
+      .filter((code) => !qrImageCache.has(code))
+      .map(async (code) => {
+        qrImageCache.set(code, await QRCode.toDataURL(code, { margin: 0, width: 256 }));
+      })
+  );
+
+  const images: Record<string, string> = {};
+  unique.forEach((code) => {
+    images[code] = qrImageCache.get(code) as string;
+  });
+  return images;
+}
+
+function badgeHtml(badge: Badge, template: BadgeTemplate, index: number, qrImage?: string): string {
+  const { top, left } = labelPosition(template, index);
+  const details = [badge.title, badge.company]
+    .filter(Boolean)
+    .map((line) => `<div class="detail">${escapeHtml(line)}</div>`)
+    .join('');
+  const guestOf = badge.guestOf ? `<div class="guest-of">Guest of ${escapeHtml(badge.guestOf)}</div>` : '';
+  const qr = qrImage ? `<img class="qr" src="${qrImage}" alt="">` : '<div class="qr"></div>';
+
+  return `<div class="badge" style="top:${top}in;left:${left}in">
+<div class="text"><div class="name">${escapeHtml(badge.name)}</div>${details}${guestOf}</div>${qr}
+</div>`;
+}
+
+// Printable document with one page per sheet. Sizes scale with the label so
+// small and large templates stay readable.
+export function buildBadgeSheetHtml(
+  sheets: Array<Array<Badge | null>>,
+  template: BadgeTemplate,
+  qrImages: Record<string, string>,
+  title: string
+): string {
+  const scale = template.labelHeight;
+  const pages = sheets
+    .map(
+      (sheet) =>
+        `<section class="sheet">${sheet
+          .map((badge, index) => (badge ? badgeHtml(badge, template, index, qrImages[badge.qrCode]) : ''))
+          .join('')}</section>`
+    )
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: ${template.pageWidth}in ${template.pageHeight}in; margin: 0; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, sans-serif; color: #111827; }
+  .sheet { position: relative; width: ${template.pageWidth}in; height: ${template.pageHeight}in; overflow: hidden; page-break-after: always; background: #fff; }
+  .sheet:last-child { page-break-after: auto; }
+  .badge { position: absolute; width: ${template.labelWidth}in; height: ${template.labelHeight}in; padding: ${0.08 * scale}in ${0.1 * scale}in; display: flex; flex-direction: column; align-items: center; justify-content: center; gap: ${0.06 * scale}in; text-align: center; overflow: hidden; }
+  .text { max-width: 100%; }
+  .name { font-size: ${8 * scale}pt; font-weight: 700; line-height: 1.1; overflow-wrap: anywhere; }
+  .detail { font-size: ${4 * scale}pt; color: #374151; margin-top: 2px; }
+  .guest-of { font-size: ${3.2 * scale}pt; color: #6b7280; margin-top: 2px; font-style: italic; }
+  .qr { width: ${0.38 * scale}in; height: ${0.38 * scale}in; flex-shrink: 0; }
+  @media screen {
+    body { background: #f3f4f6; padding: 16px; }
+    .sheet { margin: 0 auto 16px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.2); }
+    .badge { outline: 1px dashed #d1d5db; }
+  }
+</style>
+</head>
+<body>${pages}</body>
+</html>`;
+}
+
+// Badges already printed are remembered per event in this browser
+function printedKey(eventId: string): string {
+  return `badges_printed_${eventId}`;
+}
+
+export function getPrintedBadgeIds(eventId: string): Set<string> {
+  if (typeof window === 'undefined') return new Set();
+  try {
+    return new Set(JSON.parse(localStorage.getItem(printedKey(eventId)) || '[]'));
+  } catch {
+    return new Set();
+  }
+}
+
+export function markBadgesPrinted(eventId: string, badgeIds: string[]): Set<string> {
+  const printed = getPrintedBadgeIds(eventId);
+  badgeIds.forEach((id) => printed.add(id));
+  localStorage.setItem(printedKey(eventId), JSON.stringify(Array.from(printed)));
+  return printed;
+}
+
+export function clearPrintedBadges(eventId: string): Set<string> {
+  localStorage.removeItem(printedKey(eventId));
+  return new Set();
+}
@@ -0,0 +1,139 @@
+// Actions applied to many attendees at once from the attendees table. Each
+// attendee is a separate request, so some can fail while the rest succeed;
+// results are collected per attendee for the summary.
+
+import { api, endpoints, getErrorMessage } from '@/lib/api';
+import { mapWithConcurrency } from '@/lib/eventData';
+import { AttendeeStatus } from '@/lib/types';
+
+export type BulkAction = 'cancel' | 'confirm' | 'waitlist' | 'resend';
+
+// Requests in flight at once, kept low to go easy on the backend and mail
+// provider
+export const BULK_CONCURRENCY = 4;
+
+export interface BulkActionConfig {
+  label: string;
+  title: string;
+  confirmText: string;
+  variant: 'danger' | 'warning' | 'info';
+  // Verb for summaries, e.g. "3 attendees cancelled"
+  done: string;
+  // Why an attendee the action does not apply to is skipped
+  skipped: string;
+  // Attendees the action would change; others are skipped
+  appliesTo: (status: AttendeeStatus) => boolean;
+  run: (attendeeId: string) => Promise<unknown>;
+}
+
+function updateStatus(attendeeId: string, status: AttendeeStatus) {
+  return api.patch(
+    endpoints.admin.updateStatus(attendeeId),
+    { status },
+    { action: 'attendee.status_update', target: { type: 'attendee', id: attendeeId } }
+  );
+}
+
+export const BULK_ACTIONS: Record<BulkAction, BulkActionConfig> = {
+  cancel: {
+    label: 'Cancel',
+    title: 'Cancel Registrations',
+    confirmText: 'Cancel Registrations',
+    variant: 'danger',
+    done: 'cancelled',
+    skipped: 'already cancelled',
+    appliesTo: (status) => status !== 'CANCELLED',
+    run: (attendeeId) =>
+      api.delete(endpoints.admin.cancel(attendeeId), {
+        action: 'attendee.cancel',
+        target: { type: 'attendee', id: attendeeId },
+      }),
+  },
+  confirm: {
+    label: 'Confirm',
+    title: 'Confirm Attendees',
+    confirmText: 'Confirm',
+    variant: 'info',
+    done: 'confirmed',
+    skipped: 'already confirmed',
+    appliesTo: (status) => status !== 'CONFIRMED',
+    run: (attendeeId) => updateStatus(attendeeId, 'CONFIRMED'),
+  },
+  waitlist: {
+    label: 'Move to Waitlist',
+    title: 'Move to Waitlist',
+    confirmText: 'Move to Waitlist',
+    variant: 'warning',
+    done: 'moved to the waitlist',
+    skipped: 'already on the waitlist',
+    appliesTo: (status) => status !== 'WAITLISTED',
+    run: (attendeeId) => updateStatus(attendeeId, 'WAITLISTED'),
+  },
+  resend: {
+    label: 'Resend Confirmation',
+    title: 'Resend Confirmation Emails',
+    confirmText: 'Resend',
+    variant: 'info',
+    done: 'emailed',
+    skipped: 'with cancelled registrations',
+    appliesTo: (status) => status !== 'CANCELLED',
+    run: (attendeeId) =>
+      api.post(endpoints.admin.resendConfirmation(attendeeId), undefined, {
+        action: 'attendee.resend_confirmation',
+        target: { type: 'attendee', id: attendeeId },
+      }),
+  },
+};
+
+export interface BulkFailure {
+  id: string;
+  error: string;
+}
+
+export interface BulkResult {
+  succeeded: string[];
+  failed: BulkFailure[];
+}
+
+// Run `run` for every id, reporting progress as each request settles
+export async function runBulkAction(
+  ids: string[],
+  run: (id: string) => Promise<unknown>,
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkResult> {
+  let done = 0;
+  const settled = await mapWithConcurrency(ids, BULK_CONCURRENCY, async (id) => {
+    try {
+      return await run(id);
+    } finally {
+      onProgress?.(++done, ids.length);
+    }
+  });
+
+  const result: BulkResult = { succeeded: [], failed: [] };
+  settled.forEach((outcome, index) => {
+    if (outcome.status === 'fulfilled') {
+      result.succeeded.push(ids[index]);
+    } else {
+      result.failed.push({ id: ids[index], error: getErrorMessage(outcome.reason) });
+    }
+  });
+  return result;
+}
+
+function pluralize(count: number): string {
+  return `${count} attendee${count !== 1 ? 's' : ''}`;
+}
+
+export function describeBulkAction(action: BulkAction, selected: number, applicable: number): string {
+  const config = BULK_ACTIONS[action];
+  const skipped = selected - applicable;
+  const summary = `${pluralize(applicable)} will be ${config.done}.`;
+  return skipped > 0 ? `${summary} ${pluralize(skipped)} ${config.skipped} will be skipped.` : summary;
+}
+
+export function summarizeBulkResult(action: BulkAction, result: BulkResult): string {
+  const { done } = BULK_ACTIONS[action];
+  const summary = `${pluralize(result.succeeded.length)} ${done}`;
+  return result.failed.length > 0 ? `${summary}, ${result.failed.length} failed` : summary;
+}
@@ -0,0 +1,429 @@
+// Check-in engine shared by the dashboard and staff check-in pages
+
+import { endpoints } from '@/lib/api';
+import type { RosterEntry, RosterMeta } from '@/lib/offlineCheckin';
+import type { AuditTag } from '@/lib/types';
+
+export type CheckInOutcome =
+  | 'checked_in'
+  | 'choose_target'
+  | 'already_checked_in'
+  | 'wrong_event'
+  | 'cancelled'
+  | 'invalid'
+  | 'failed';
+
+// Who is being checked in on a registration that has a plus-one
+export type CheckInTarget = 'guest' | 'plusOne' | 'both';
+
+export interface CheckInAttendee {
+  id: string;
+  name: string;
+  company: string;
+  title: string;
+  registrationId: string;
+  status: string;
+  eventId: string;
+  checkedInAt?: string | null;
+  alreadyCheckedIn?: boolean;
+  email?: string;
+  plusOne?: {
+    name: string;
+    company: string;
+    title: string;
+    email?: string;
+    checkedInAt?: string | null;
+  } | null;
+}
+
+export interface CheckInResult {
+  outcome: CheckInOutcome;
+  valid: boolean;
+  attendee?: CheckInAttendee;
+  message?: string;
+  alreadyCheckedIn?: boolean;
+  offline?: boolean;
+  // What this result checked in, when it checked anyone in
+  target?: CheckInTarget;
+}
+
+// Raw response shape of the validate and check-in endpoints
+interface CheckInResponse {
+  valid?: boolean;
+  success?: boolean;
+  attendee?: CheckInAttendee;
+  message?: string;
+  alreadyCheckedIn?: boolean;
+}
+
+export type CheckInTone = 'success' | 'warning' | 'error';
+
+// One entry in the rolling list shown during continuous scanning
+export interface ScanRecord {
+  id: number;
+  qrCode: string;
+  scannedAt: string;
+  result: CheckInResult;
+}
+
+// Continuous mode ignores repeat reads of the same code within this window
+export const DEFAULT_SCAN_DEBOUNCE_MS = 5000;
+export const SCAN_DEBOUNCE_OPTIONS_MS = [2000, 5000, 10000, 30000];
+export const RECENT_SCANS_LIMIT = 10;
+
+export interface CheckInConfig {
+  validateEndpoint: (qrCode: string) => string;
+  checkInEndpoint: (qrCode: string) => string;
+  plusOneCheckInEndpoint: (qrCode: string) => string;
+  // Roles allowed to see attendee and plus-one email addresses. Leave unset
+  // to show email to everyone who can reach the page.
+  emailRoles?: string[];
+}
+
+export interface CheckInClient {
+  get: <T>(endpoint: string) => Promise<T>;
+  post: <T>(endpoint: string, data: unknown, audit: AuditTag) => Promise<T>;
+}
+
+export interface CheckInContext {
+  eventId: string;
+  role?: string | null;
+}
+
+// Subset of useOfflineCheckin the engine needs to work from the local roster
+export interface OfflineCheckInSource {
+  rosterMeta: RosterMeta | null;
+  lookup: (qrCode: string) => Promise<RosterEntry | null>;
+  queueCheckIn: (entry: RosterEntry, plusOne?: boolean) => Promise<string>;
+}
+
+export function canViewEmail(config: CheckInConfig, role?: string | null): boolean {
+  if (!config.emailRoles) return true;
+  return !!role && config.emailRoles.includes(role);
+}
+
+export function redactAttendee(
+  attendee: CheckInAttendee,
+  config: CheckInConfig,
+  role?: string | null
+): CheckInAttendee {
+  if (canViewEmail(config, role)) return attendee;
+
+  const redacted = { ...attendee };
+  delete redacted.email;
+  if (!redacted.plusOne) return redacted;
+
+  const plusOne = { ...redacted.plusOne };
+  delete plusOne.email;
+  return { ...redacted, plusOne };
+}
+
+export function getResultTone(result: CheckInResult): CheckInTone {
+  if (result.alreadyCheckedIn || result.outcome === 'choose_target') return 'warning';
+  return result.valid ? 'success' : 'error';
+}
+
+export function getResultTitle(result: CheckInResult): string {
+  switch (result.outcome) {
+    case 'checked_in':
+      return 'Check-In Successful';
+    case 'choose_target':
+      return 'Guest Has a Plus-One';
+    case 'already_checked_in':
+      return 'Already Checked In';
+    case 'wrong_event':
+      return 'Wrong Event';
+    case 'cancelled':
+      return 'Registration Cancelled';
+    case 'failed':
+      return 'Check-In Failed';
+    default:
+      return 'Invalid QR Code';
+  }
+}
+
+export function hasPendingPlusOne(attendee: CheckInAttendee | undefined): boolean {
+  return !!attendee?.plusOne && !attendee.plusOne.checkedInAt;
+}
+
+// Work out which check-ins a request for target still needs. Returns a
+// finished result when there is nothing left to do.
+function planCheckIn(
+  attendee: CheckInAttendee,
+  guestCheckedIn: boolean,
+  target: CheckInTarget | undefined
+): { guest: boolean; plusOne: boolean } | CheckInResult {
+  const plusOnePending = hasPendingPlusOne(attendee);
+
+  // Let staff decide who is at the door before checking anyone in
+  if (!target && !guestCheckedIn && plusOnePending) {
+    return {
+      outcome: 'choose_target',
+      valid: true,
+      attendee,
+      message: 'Choose who is checking in',
+    };
+  }
+
+  const wanted = target || 'guest';
+
+  if (wanted !== 'guest' && !attendee.plusOne) {
+    return {
+      outcome: 'failed',
+      valid: false,
+      message: 'This registration has no plus-one',
+    };
+  }
+
+  const guest = wanted !== 'plusOne' && !guestCheckedIn;
+  const plusOne = wanted !== 'guest' && plusOnePending;
+
+  if (!guest && !plusOne) {
+    return {
+      outcome: 'already_checked_in',
+      valid: true,
+      attendee,
+      message: wanted === 'plusOne' ? 'Plus-one already checked in' : 'Already checked in',
+      alreadyCheckedIn: true,
+    };
+  }
+
+  return { guest, plusOne };
+}
+
+function getCheckedInTarget(guest: boolean, plusOne: boolean): CheckInTarget {
+  if (guest && plusOne) return 'both';
+  return plusOne ? 'plusOne' : 'guest';
+}
+
+function getCheckedInMessage(target: CheckInTarget): string | undefined {
+  if (target === 'both') return 'Guest and plus-one checked in';
+  if (target === 'plusOne') return 'Plus-one checked in';
+  return undefined;
+}
+
+export async function runCheckIn(
+  qrCode: string,
+  context: CheckInContext,
+  config: CheckInConfig,
+  client: CheckInClient,
+  target?: CheckInTarget
+): Promise<CheckInResult> {
+  const validateResponse = await client.get<CheckInResponse>(config.validateEndpoint(qrCode));
+
+  if (!validateResponse.valid || !validateResponse.attendee) {
+    return {
+      outcome: 'invalid',
+      valid: false,
+      message: validateResponse.message || 'Invalid QR code',
+    };
+  }
+
+  let attendee = redactAttendee(validateResponse.attendee, config, context.role);
+
+  // Check if attendee belongs to selected event
+  if (attendee.eventId !== context.eventId) {
+    return {
+      outcome: 'wrong_event',
+      valid: false,
+      message: 'This QR code is for a different event',
+    };
+  }
+
+  const guestCheckedIn = !!(attendee.alreadyCheckedIn || validateResponse.alreadyCheckedIn);
+  const plan = planCheckIn(attendee, guestCheckedIn, target);
+  if ('outcome' in plan) return plan;
+
+  const audit: AuditTag = {
+    action: 'attendee.check_in',
+    target: { type: 'attendee', id: attendee.id },
+    eventId: context.eventId,
+  };
+
+  if (plan.guest) {
+    const checkInResponse = await client.post<CheckInResponse>(config.checkInEndpoint(qrCode), undefined, audit);
+
+    if (!checkInResponse.success) {
+      return {
+        outcome: 'failed',
+        valid: false,
+        message: checkInResponse.message || 'Check-in failed',
+      };
+    }
+
+    attendee = {
+      ...attendee,
+      ...(checkInResponse.attendee ? redactAttendee(checkInResponse.attendee, config, context.role) : {}),
+      plusOne: attendee.plusOne,
+    };
+    attendee.checkedInAt = attendee.checkedInAt || new Date().toISOString();
+  }
+
+  if (plan.plusOne && attendee.plusOne) {
+    const plusOneResponse = await client.post<CheckInResponse>(
+      config.plusOneCheckInEndpoint(qrCode),
+      undefined,
+      audit
+    );
+
+    if (!plusOneResponse.success) {
+      return {
+        outcome: 'failed',
+        valid: false,
+        attendee: plan.guest ? attendee : undefined,
+        message: plan.guest
+          ? `Guest checked in, but the plus-one check-in failed: ${plusOneResponse.message || 'unknown error'}`
+          : plusOneResponse.message || 'Plus-one check-in failed',
+      };
+    }
+
+    attendee = {
+      ...attendee,
+      plusOne: {
+        ...attendee.plusOne,
+        checkedInAt: plusOneResponse.attendee?.plusOne?.checkedInAt || new Date().toISOString(),
+      },
+    };
+  }
+
+  const checkedIn = getCheckedInTarget(plan.guest, plan.plusOne);
+  return {
+    outcome: 'checked_in',
+    valid: true,
+    attendee,
+    message: getCheckedInMessage(checkedIn),
+    target: checkedIn,
+  };
+}
+
+export function rosterEntryToAttendee(entry: RosterEntry): CheckInAttendee {
+  return {
+    id: entry.attendeeId,
+    name: entry.name,
+    company: entry.company,
+    title: entry.title,
+    registrationId: entry.registrationId,
+    status: entry.status,
+    eventId: entry.eventId,
+    checkedInAt: entry.checkedInAt,
+    email: entry.email,
+    plusOne: entry.plusOne,
+  };
+}
+
+// Validate against the downloaded roster and queue the check-in for sync
+export async function runOfflineCheckIn(
+  qrCode: string,
+  context: CheckInContext,
+  config: CheckInConfig,
+  source: OfflineCheckInSource,
+  target?: CheckInTarget
+): Promise<CheckInResult> {
+  const entry = await source.lookup(qrCode);
+
+  if (!entry) {
+    return {
+      outcome: 'invalid',
+      valid: false,
+      offline: true,
+      message: source.rosterMeta
+        ? 'QR code not found in the downloaded roster'
+        : 'No roster downloaded for offline check-in',
+    };
+  }
+
+  if (entry.eventId !== context.eventId) {
+    return {
+      outcome: 'wrong_event',
+      valid: false,
+      offline: true,
+      message: 'This QR code is for a different event',
+    };
+  }
+
+  if (entry.status === 'CANCELLED') {
+    return {
+      outcome: 'cancelled',
+      valid: false,
+      offline: true,
+      message: 'This registration has been cancelled',
+    };
+  }
+
+  let attendee = redactAttendee(rosterEntryToAttendee(entry), config, context.role);
+
+  const plan = planCheckIn(attendee, !!entry.checkedInAt, target);
+  if ('outcome' in plan) {
+    return { ...plan, offline: true };
+  }
+
+  if (plan.guest) {
+    const scannedAt = await source.queueCheckIn(entry);
+    attendee = { ...attendee, checkedInAt: scannedAt };
+  }
+
+  if (plan.plusOne && attendee.plusOne) {
+    const scannedAt = await source.queueCheckIn(entry, true);
+    attendee = { ...attendee, plusOne: { ...attendee.plusOne, checkedInAt: scannedAt } };
+  }
+
+  const checkedIn = getCheckedInTarget(plan.guest, plan.plusOne);
+  return {
+    outcome: 'checked_in',
+    valid: true,
+    offline: true,
+    attendee,
+    message: 'Saved offline. It will sync when the connection returns.',
+    target: checkedIn,
+  };
+}
+
+// Drop reads of a code that was accepted less than debounceMs ago. Mutates
+// lastReads so the caller can keep it in a ref between frames.
+export function shouldAcceptScan(
+  qrCode: string,
+  now: number,
+  lastReads: Map<string, number>,
+  debounceMs: number
+): boolean {
+  const last = lastReads.get(qrCode);
+  if (last !== undefined && now - last < debounceMs) {
+    return false;
+  }
+
+  // Forget stale codes so the map stays small over a long door shift
+  for (const [code, readAt] of lastReads) {
+    if (now - readAt >= debounceMs) lastReads.delete(code);
+  }
+  lastReads.set(qrCode, now);
+  return true;
+}
+
+// Prefer the back (environment-facing) camera on mobile devices
+export function selectBackCamera(devices: { deviceId: string; label: string }[]): string | null {
+  if (devices.length === 0) return null;
+
+  // Back cameras typically have labels containing "back" or "environment"
+  const backCamera = devices.find((device) => {
+    const label = device.label.toLowerCase();
+    return label.includes('back') || label.includes('environment') || label.includes('rear');
+  });
+  if (backCamera) return backCamera.deviceId;
+
+  // If no explicit back camera found, use the last camera (often the back camera)
+  return devices[devices.length - 1].deviceId;
+}
+
+export const dashboardCheckInConfig: CheckInConfig = {
+  validateEndpoint: endpoints.qr.validate,
+  checkInEndpoint: endpoints.qr.checkIn,
+  plusOneCheckInEndpoint: endpoints.qr.checkInPlusOne,
+};
+
+// Staff portal uses the role-aware endpoints and hides email from door staff
+export const staffCheckInConfig: CheckInConfig = {
+  validateEndpoint: endpoints.qr.validateCheckin,
+  checkInEndpoint: endpoints.qr.checkInSecure,
+  plusOneCheckInEndpoint: endpoints.qr.checkInPlusOneSecure,
+  emailRoles: ['admin'],
+};
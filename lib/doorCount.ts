@@ -0,0 +1,106 @@
+// Door-count figures for the live event view, derived from the attendee list
+
+import { Attendee, CheckInStaff } from '@/lib/types';
+
+export interface Arrival {
+  key: string;
+  attendeeId: string;
+  name: string;
+  isPlusOne: boolean;
+  checkedInAt: string;
+  checkedInBy: CheckInStaff | null;
+}
+
+export interface ArrivalBucket {
+  start: string;
+  label: string;
+  count: number;
+}
+
+export interface DoorCounts {
+  // Confirmed guests plus their plus-ones
+  expected: number;
+  guestsExpected: number;
+  plusOnesExpected: number;
+  checkedIn: number;
+  guestsCheckedIn: number;
+  plusOnesCheckedIn: number;
+}
+
+export function getArrivals(attendees: Attendee[]): Arrival[] {
+  const arrivals: Arrival[] = [];
+
+  attendees.forEach((attendee) => {
+    if (attendee.checkedInAt) {
+      arrivals.push({
+        key: `${attendee.id}-guest`,
+        attendeeId: attendee.id,
+        name: attendee.name,
+        isPlusOne: false,
+        checkedInAt: attendee.checkedInAt,
+        checkedInBy: attendee.checkedInBy || null,
+      });
+    }
+    if (attendee.plusOne?.checkedInAt) {
+      arrivals.push({
+        key: `${attendee.id}-plusone`,
+        attendeeId: attendee.id,
+        name: attendee.plusOne.name,
+        isPlusOne: true,
+        checkedInAt: attendee.plusOne.checkedInAt,
+        checkedInBy: attendee.plusOne.checkedInBy || null,
+      });
+    }
+  });
+
+  // Most recent first
+  return arrivals.sort(
+    (a, b) => new Date(b.checkedInAt).getTime() - new Date(a.checkedInAt).getTime()
+  );
+}
+
+// Arrivals are counted among confirmed guests only, so a guest checked in
+// before being cancelled or waitlisted never counts beyond what is expected
+export function getDoorCounts(attendees: Attendee[]): DoorCounts {
+  const confirmed = attendees.filter((a) => a.status === 'CONFIRMED');
+  const guestsCheckedIn = confirmed.filter((a) => a.checkedInAt).length;
+  const plusOnesCheckedIn = confirmed.filter((a) => a.plusOne?.checkedInAt).length;
+
+  const plusOnesExpected = confirmed.filter((a) => a.plusOne).length;
+
+  return {
+    expected: confirmed.length + plusOnesExpected,
+    guestsExpected: confirmed.length,
+    plusOnesExpected,
+    checkedIn: guestsCheckedIn + plusOnesCheckedIn,
+    guestsCheckedIn,
+    plusOnesCheckedIn,
+  };
+}
+
+// Group arrivals into fixed-size time buckets from the first arrival to the
+// last, including empty buckets so gaps show up on the chart
+export function bucketArrivals(arrivals: Arrival[], bucketMinutes: number): ArrivalBucket[] {
+  if (arrivals.length === 0) return [];
+
+  const bucketMs = bucketMinutes * 60 * 1000;
+  const times = arrivals.map((a) => new Date(a.checkedInAt).getTime());
+  const first = Math.floor(Math.min(...times) / bucketMs) * bucketMs;
+  const last = Math.floor(Math.max(...times) / bucketMs) * bucketMs;
+
+  const counts = new Map<number, number>();
+  times.forEach((time) => {
+    const bucket = Math.floor(time / bucketMs) * bucketMs;
+    counts.set(bucket, (counts.get(bucket) || 0) + 1);
+  });
+
+  const buckets: ArrivalBucket[] = [];
+  for (let start = first; start <= last; start += bucketMs) {
+    buckets.push({
+      start: new Date(start).toISOString(),
+      label: new Date(start).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' }),
+      count: counts.get(start) || 0,
+    });
+  }
+  return buckets;
+}
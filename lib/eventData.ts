@@ -0,0 +1,239 @@
+// Shared loading and caching of events and their attendees and invites.
+// Results are cached per event with stale-while-revalidate semantics, so
+// pages render the last known list straight away and refresh it in the
+// background, and loading "all events" fans out with bounded concurrency
+// instead of one request after another.
+
+import { api, endpoints, getErrorMessage } from '@/lib/api';
+import { Attendee, Event, Invite } from '@/lib/types';
+
+export const ALL_EVENTS = 'ALL';
+
+// Cached data younger than this is served without a refetch
+export const STALE_AFTER_MS = 30000;
+// Parallel per-event requests when loading every event
+export const MAX_CONCURRENT_REQUESTS = 6;
+
+export interface CacheEntry<T> {
+  data: T | undefined;
+  error: string | null;
+  updatedAt: number;
+  isValidating: boolean;
+}
+
+export type Loader<T> = (force: boolean) => Promise<T>;
+
+export const EMPTY_ENTRY: CacheEntry<never> = {
+  data: undefined,
+  error: null,
+  updatedAt: 0,
+  isValidating: false,
+};
+
+const cache = new Map<string, CacheEntry<unknown>>();
+const inflight = new Map<string, Promise<unknown>>();
+const listeners = new Set<() => void>();
+
+export function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Entries are replaced rather than mutated, so they are safe to use as
+// useSyncExternalStore snapshots
+export function getCacheEntry<T>(key: string): CacheEntry<T> {
+  return (cache.get(key) as CacheEntry<T> | undefined) || EMPTY_ENTRY;
+}
+
+function setCacheEntry<T>(key: string, patch: Partial<CacheEntry<T>>) {
+  cache.set(key, { ...getCacheEntry<T>(key), ...patch });
+  listeners.forEach((listener) => listener());
+}
+
+export function isFresh(entry: CacheEntry<unknown>, now = Date.now()): boolean {
+  return entry.data !== undefined && now - entry.updatedAt < STALE_AFTER_MS;
+}
+
+// Return cached data while it is fresh, otherwise load it, sharing one
+// request between concurrent callers for the same key
+export function revalidate<T>(key: string, loader: Loader<T>, force = false): Promise<T> {
+  const entry = getCacheEntry<T>(key);
+  if (!force && isFresh(entry)) {
+    return Promise.resolve(entry.data as T);
+  }
+
+  const pending = inflight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  setCacheEntry<T>(key, { isValidating: true, error: null });
+  const promise = loader(force)
+    .then((data) => {
+      setCacheEntry<T>(key, { data, error: null, updatedAt: Date.now(), isValidating: false });
+      return data;
+    })
+    .catch((err) => {
+      setCacheEntry<T>(key, { error: getErrorMessage(err), isValidating: false });
+      throw err;
+    })
+    .finally(() => {
+      inflight.delete(key);
+    });
+
+  inflight.set(key, promise);
+  return promise;
+}
+
+// Mark cached entries stale so the next read refetches them. Without a
+// prefix everything is invalidated.
+export function invalidateEventData(prefix = '') {
+  let changed = false;
+  cache.forEach((entry, key) => {
+    if (key.startsWith(prefix)) {
+      cache.set(key, { ...entry, updatedAt: 0 });
+      changed = true;
+    }
+  });
+  if (changed) listeners.forEach((listener) => listener());
+}
+
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await worker(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  return results;
+}
+
+export const cacheKeys = {
+  events: () => 'events',
+  attendees: (eventId: string) => `attendees:${eventId}`,
+  invites: (eventId: string) => `invites:${eventId}`,
+  invite: (inviteId: string) => `invite:${inviteId}`,
+};
+
+function withEvent<T extends { event?: { eventName: string; eventDate: string } }>(
+  items: T[],
+  event: Event
+): T[] {
+  return items.map((item) => ({
+    ...item,
+    event: {
+      eventName: event.eventName,
+      eventDate: event.eventDate,
+    },
+  }));
+}
+
+export function fetchEvents(force = false): Promise<Event[]> {
+  return revalidate(cacheKeys.events(), () => api.get<Event[]>(endpoints.events.list()), force);
+}
+
+async function findEvent(eventId: string): Promise<Event> {
+  const event = (await fetchEvents()).find((e) => e.id === eventId);
+  if (!event) throw new Error('Event not found');
+  return event;
+}
+
+function fetchEventAttendees(eventId: string, force: boolean): Promise<Attendee[]> {
+  return revalidate(
+    cacheKeys.attendees(eventId),
+    async () => {
+      const event = await findEvent(eventId);
+      return withEvent(await api.get<Attendee[]>(endpoints.admin.attendees(eventId)), event);
+    },
+    force
+  );
+}
+
+function fetchEventInvites(eventId: string, force: boolean): Promise<Invite[]> {
+  return revalidate(
+    cacheKeys.invites(eventId),
+    async () => {
+      const event = await findEvent(eventId);
+      return withEvent(await api.get<Invite[]>(endpoints.invites.list(eventId)), event);
+    },
+    force
+  );
+}
+
+// Per-event lists are cached on their own, so the "all events" list reuses
+// whatever a single-event view has already loaded. A failed event is
+// logged and left out rather than failing the whole list.
+async function fetchForAllEvents<T>(
+  label: string,
+  fetchOne: (eventId: string, force: boolean) => Promise<T[]>,
+  force: boolean
+): Promise<T[]> {
+  const events = await fetchEvents(force);
+  const results = await mapWithConcurrency(events, MAX_CONCURRENT_REQUESTS, (event) =>
+    fetchOne(event.id, force)
+  );
+
+  return results.flatMap((result, index) => {
+    if (result.status === 'fulfilled') return result.value;
+    console.error(`Failed to fetch ${label} for event ${events[index].id}:`, result.reason);
+    return [];
+  });
+}
+
+export function fetchAttendees(eventId: string = ALL_EVENTS, force = false): Promise<Attendee[]> {
+  if (eventId !== ALL_EVENTS) return fetchEventAttendees(eventId, force);
+  return revalidate(
+    cacheKeys.attendees(ALL_EVENTS),
+    (forceAll) => fetchForAllEvents('attendees', fetchEventAttendees, forceAll),
+    force
+  );
+}
+
+export function fetchInvites(eventId: string = ALL_EVENTS, force = false): Promise<Invite[]> {
+  if (eventId !== ALL_EVENTS) return fetchEventInvites(eventId, force);
+  return revalidate(
+    cacheKeys.invites(ALL_EVENTS),
+    (forceAll) => fetchForAllEvents('invites', fetchEventInvites, forceAll),
+    force
+  );
+}
+
+// Look one invite up directly. An invite already in a cached list is shown
+// straight away while the direct request refreshes it.
+export function fetchInvite(inviteId: string, force = false): Promise<Invite> {
+  const key = cacheKeys.invite(inviteId);
+
+  if (getCacheEntry(key).data === undefined) {
+    for (const [cachedKey, entry] of cache) {
+      if (!cachedKey.startsWith('invites:') || !Array.isArray(entry.data)) continue;
+      const cached = (entry.data as Invite[]).find((invite) => invite.id === inviteId);
+      if (cached) {
+        setCacheEntry<Invite>(key, { data: cached, updatedAt: 0 });
+        break;
+      }
+    }
+  }
+
+  return revalidate(
+    key,
+    async () => {
+      const invite = await api.get<Invite>(endpoints.invites.get(inviteId));
+      if (invite.event) return invite;
+      return withEvent([invite], await findEvent(invite.eventId))[0];
+    },
+    force
+  );
+}
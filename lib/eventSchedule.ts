@@ -0,0 +1,100 @@
+// When an event runs. An event starts at eventStartTime on eventDate and ends
+// at eventEndTime on eventEndDate, which is unset for events that end the day
+// they start. Overnight events end on the next day; multi-day events can add
+// an agenda with a title and hours for each day.
+
+import { getEventTimeZone, zonedTimeToUtc } from '@/lib/eventTime';
+import { Event } from '@/lib/types';
+import { EventFormData } from '@/lib/validation';
+
+export type EventStatus = 'upcoming' | 'ongoing' | 'past';
+
+// Longest span the form accepts, counting the first and last day
+export const MAX_EVENT_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+function dayToUtc(day: string): number {
+  const [year, month, date] = day.split('-').map(Number);
+  return Date.UTC(year, month - 1, date);
+}
+
+function utcToDay(time: number): string {
+  return new Date(time).toISOString().split('T')[0];
+}
+
+// Date (YYYY-MM-DD) the event ends on
+export function getEventEndDay(event: Pick<Event, 'eventDate' | 'eventEndDate'>): string {
+  return (event.eventEndDate || event.eventDate).split('T')[0];
+}
+
+// Days the event runs on, counting the first and last; 0 for unusable dates
+export function getEventDayCount(startDay: string, endDay?: string): number {
+  if (!startDay) return 0;
+  const days = Math.round((dayToUtc(endDay || startDay) - dayToUtc(startDay)) / DAY_MS) + 1;
+  return Number.isNaN(days) || days < 1 ? 0 : days;
+}
+
+// Date of the nth day of an event (0 for the first day)
+export function addDays(day: string, days: number): string {
+  return utcToDay(dayToUtc(day) + days * DAY_MS);
+}
+
+export function getEventSpan(event: Pick<Event, 'eventDate' | 'eventEndDate' | 'eventStartTime' | 'eventEndTime' | 'timeZone'>): {
+  start: Date;
+  end: Date;
+} {
+  const timeZone = getEventTimeZone(event);
+  return {
+    start: zonedTimeToUtc(event.eventDate.split('T')[0], event.eventStartTime, timeZone),
+    end: zonedTimeToUtc(getEventEndDay(event), event.eventEndTime, timeZone),
+  };
+}
+
+// Upcoming until the day it starts, ongoing from that day until it ends,
+// then past. Days are counted in the event's time zone.
+export function getEventStatus(
+  event: Pick<Event, 'eventDate' | 'eventEndDate' | 'eventStartTime' | 'eventEndTime' | 'timeZone'>,
+  now: Date = new Date()
+): EventStatus {
+  const today = new Intl.DateTimeFormat('en-CA', { timeZone: getEventTimeZone(event) }).format(now);
+  const { end } = getEventSpan(event);
+  const ended = Number.isNaN(end.getTime()) ? getEventEndDay(event) < today : now.getTime() >= end.getTime();
+
+  if (ended) return 'past';
+  return today >= event.eventDate.split('T')[0] ? 'ongoing' : 'upcoming';
+}
+
+// "Mar 12, 2026", or "Mar 12 - 14, 2026" for events over several days
+export function formatEventDateRange(event: Pick<Event, 'eventDate' | 'eventEndDate'>): string {
+  const [startYear, startMonth, startDate] = event.eventDate.split('T')[0].split('-').map(Number);
+  const [endYear, endMonth, endDate] = getEventEndDay(event).split('-').map(Number);
+  const start = `${MONTHS[startMonth - 1]} ${startDate}`;
+
+  if (startYear === endYear && startMonth === endMonth && startDate === endDate) return `${start}, ${startYear}`;
+  if (startYear === endYear && startMonth === endMonth) return `${start} - ${endDate}, ${startYear}`;
+  if (startYear === endYear) return `${start} - ${MONTHS[endMonth - 1]} ${endDate}, ${startYear}`;
+  return `${start}, ${startYear} - ${MONTHS[endMonth - 1]} ${endDate}, ${endYear}`;
+}
+
+// Move the event to start on `eventDate`, keeping how many days it lasts
+export function shiftEventDates(
+  data: Pick<EventFormData, 'eventDate' | 'eventEndDate'>,
+  eventDate: string
+): Pick<EventFormData, 'eventDate' | 'eventEndDate'> {
+  const days = getEventDayCount(data.eventDate, data.eventEndDate);
+  if (!data.eventEndDate || days < 2) return { eventDate, eventEndDate: '' };
+  return { eventDate, eventEndDate: addDays(eventDate, days - 1) };
+}
+
+// Form values as saved: the end date is dropped for events ending the day
+// they start, and the agenda kept only for the days the event runs
+export function normalizeEventSchedule(data: EventFormData): EventFormData {
+  const days = getEventDayCount(data.eventDate, data.eventEndDate);
+  return {
+    ...data,
+    eventEndDate: days > 1 ? data.eventEndDate : '',
+    agenda: days > 1 ? (data.agenda ?? []).slice(0, days) : [],
+  };
+}
@@ -0,0 +1,231 @@
+// Recurring event series. A series is a set of ordinary events that share a
+// seriesId and their settings; each occurrence is created, and later
+// updated, through the regular event endpoints, one request per event.
+
+import { api, endpoints } from '@/lib/api';
+import { BulkResult, runBulkAction } from '@/lib/bulkActions';
+import { shiftEventDates } from '@/lib/eventSchedule';
+import { Event } from '@/lib/types';
+import { EventFormData } from '@/lib/validation';
+
+export type RecurrenceFrequency = 'none' | 'weekly' | 'monthly' | 'custom';
+
+// Monthly series repeat on the same date (the 12th) or the same weekday
+// (the second Thursday)
+export type MonthlyMode = 'dayOfMonth' | 'weekdayOfMonth';
+
+export interface SeriesRule {
+  frequency: RecurrenceFrequency;
+  // Every `interval` weeks or months
+  interval: number;
+  // Events in a weekly or monthly series, including the first
+  count: number;
+  monthlyMode: MonthlyMode;
+  // Dates (YYYY-MM-DD) besides the first one for a custom series
+  customDates: string[];
+}
+
+export const DEFAULT_SERIES_RULE: SeriesRule = {
+  frequency: 'none',
+  interval: 1,
+  count: 4,
+  monthlyMode: 'dayOfMonth',
+  customDates: [],
+};
+
+export const MAX_SERIES_EVENTS = 52;
+export const MAX_SERIES_INTERVAL = 12;
+
+// Which events in a series an edit applies to
+export type SeriesScope = 'this' | 'following' | 'all';
+
+const ORDINALS = ['first', 'second', 'third', 'fourth'];
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Dates are handled as UTC midnights so daylight saving changes cannot shift
+// an occurrence onto another day
+function parseDay(day: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  if (!match) return null;
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function formatDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Week of the month the date falls in, 1-4, or null for the last week
+function weekOfMonth(date: Date): number | null {
+  const week = Math.ceil(date.getUTCDate() / 7);
+  return week > 4 ? null : week;
+}
+
+function nthWeekday(year: number, month: number, weekday: number, week: number | null): Date {
+  if (week === null) {
+    const last = new Date(Date.UTC(year, month, daysInMonth(year, month)));
+    last.setUTCDate(last.getUTCDate() - ((last.getUTCDay() - weekday + 7) % 7));
+    return last;
+  }
+  const first = new Date(Date.UTC(year, month, 1));
+  first.setUTCDate(1 + ((weekday - first.getUTCDay() + 7) % 7) + (week - 1) * 7);
+  return first;
+}
+
+function monthlyOccurrence(start: Date, monthsLater: number, mode: MonthlyMode): Date {
+  const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + monthsLater) / 12);
+  const month = (start.getUTCMonth() + monthsLater) % 12;
+  if (mode === 'weekdayOfMonth') {
+    return nthWeekday(year, month, start.getUTCDay(), weekOfMonth(start));
+  }
+  // The 31st falls back to the last day of shorter months
+  return new Date(Date.UTC(year, month, Math.min(start.getUTCDate(), daysInMonth(year, month))));
+}
+
+// Label for a monthly option, e.g. "on day 12" or "on the last Friday"
+export function describeMonthlyDay(startDate: string, mode: MonthlyMode): string {
+  const start = parseDay(startDate);
+  if (!start) return mode === 'dayOfMonth' ? 'on the same day' : 'on the same weekday';
+  if (mode === 'dayOfMonth') return `on day ${start.getUTCDate()}`;
+  const week = weekOfMonth(start);
+  return `on the ${week === null ? 'last' : ORDINALS[week - 1]} ${WEEKDAYS[start.getUTCDay()]}`;
+}
+
+// Event dates for a series starting on `startDate`, in order
+export function generateSeriesDates(startDate: string, rule: SeriesRule): string[] {
+  const start = parseDay(startDate);
+  if (!start) return [];
+
+  if (rule.frequency === 'custom') {
+    const dates = [startDate, ...rule.customDates].filter((day) => parseDay(day) !== null);
+    return Array.from(new Set(dates)).sort();
+  }
+
+  if (rule.frequency === 'none') return [startDate];
+
+  const count = Math.min(Math.max(1, rule.count), MAX_SERIES_EVENTS);
+  return Array.from({ length: count }, (_, i) => {
+    if (rule.frequency === 'weekly') {
+      const date = new Date(start);
+      date.setUTCDate(start.getUTCDate() + i * 7 * rule.interval);
+      return formatDay(date);
+    }
+    return formatDay(monthlyOccurrence(start, i * rule.interval, rule.monthlyMode));
+  });
+}
+
+// Why the rule cannot be used, or null when it is fine
+export function validateSeriesRule(startDate: string, rule: SeriesRule): string | null {
+  if (rule.frequency === 'none') return null;
+  if (!parseDay(startDate)) return 'Pick the event date the series starts on';
+
+  if (rule.frequency === 'custom') {
+    const dates = generateSeriesDates(startDate, rule);
+    if (dates.length < 2) return 'Add at least one more date';
+    if (dates.length > MAX_SERIES_EVENTS) return `A series can have at most ${MAX_SERIES_EVENTS} events`;
+    return null;
+  }
+
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > MAX_SERIES_INTERVAL) {
+    return `Repeat every 1 to ${MAX_SERIES_INTERVAL} ${rule.frequency === 'weekly' ? 'weeks' : 'months'}`;
+  }
+  if (!Number.isInteger(rule.count) || rule.count < 2 || rule.count > MAX_SERIES_EVENTS) {
+    return `A series needs 2 to ${MAX_SERIES_EVENTS} events`;
+  }
+  return null;
+}
+
+// Events in the series, earliest first
+export function getSeriesEvents(events: Event[], seriesId: string): Event[] {
+  return events
+    .filter((event) => event.seriesId === seriesId)
+    .sort((a, b) => new Date(a.eventDate).getTime() - new Date(b.eventDate).getTime());
+}
+
+// 1-based position of the event in its series, e.g. "2 of 6"
+export function getSeriesPosition(events: Event[], event: Event): { index: number; total: number } | null {
+  if (!event.seriesId) return null;
+  const series = getSeriesEvents(events, event.seriesId);
+  const index = series.findIndex((e) => e.id === event.id);
+  return index === -1 ? null : { index: index + 1, total: series.length };
+}
+
+export interface SeriesSummary {
+  id: string;
+  // Name of the first event
+  name: string;
+  count: number;
+}
+
+// Series that have events in the list, by the name of their first event
+export function listSeries(events: Event[]): SeriesSummary[] {
+  const ids = Array.from(new Set(events.map((event) => event.seriesId).filter((id): id is string => !!id)));
+  return ids
+    .map((id) => {
+      const series = getSeriesEvents(events, id);
+      return { id, name: series[0].eventName, count: series.length };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function selectSeriesScope(seriesEvents: Event[], current: Event, scope: SeriesScope): Event[] {
+  if (scope === 'this') return [current];
+  if (scope === 'all') return seriesEvents;
+  const from = new Date(current.eventDate).getTime();
+  return seriesEvents.filter((event) => event.id === current.id || new Date(event.eventDate).getTime() >= from);
+}
+
+function newSeriesId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `series-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Create one event per start date, each lasting as long as the form's event.
+// Results are keyed by date, so failed dates can be retried.
+export async function createEventSeries(
+  data: EventFormData,
+  dates: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<{ seriesId: string; result: BulkResult }> {
+  const seriesId = newSeriesId();
+  const result = await runBulkAction(
+    dates,
+    (eventDate) =>
+      api.post(
+        endpoints.events.create(),
+        { ...data, ...shiftEventDates(data, eventDate), seriesId },
+        { action: 'event.create', target: { type: 'event' } }
+      ),
+    onProgress
+  );
+  return { seriesId, result };
+}
+
+// Apply the edit to each target event. The other events keep their own start
+// dates and take the form's length; only the event being edited takes the
+// dates from the form.
+export function updateEventSeries(
+  current: Event,
+  data: EventFormData,
+  targets: Event[],
+  onProgress?: (done: number, total: number) => void
+): Promise<BulkResult> {
+  const byId = new Map(targets.map((event) => [event.id, event]));
+  return runBulkAction(
+    targets.map((event) => event.id),
+    (id) => {
+      const eventDate = id === current.id ? data.eventDate : byId.get(id)!.eventDate.split('T')[0];
+      return api.put(
+        endpoints.events.update(id),
+        { ...data, ...shiftEventDates(data, eventDate) },
+        { action: 'event.update', target: { type: 'event', id }, eventId: id }
+      );
+    },
+    onProgress
+  );
+}
@@ -0,0 +1,170 @@
+// Event duplication and saved event templates. A template keeps everything
+// about an event except its name and dates, so a recurring event only needs
+// those filled in. Templates are stored by the backend so the whole team
+// shares them; without a template endpoint they are kept in this browser.
+
+import { api, APIError, endpoints } from '@/lib/api';
+import { getEventTimeZone } from '@/lib/eventTime';
+import { Event } from '@/lib/types';
+import { EventFormData } from '@/lib/validation';
+import { DEFAULT_COUNTRY } from '@/lib/venueAddress';
+
+export type EventTemplateValues = Omit<EventFormData, 'eventName' | 'eventDate' | 'eventEndDate'>;
+
+export interface EventTemplate {
+  id: string;
+  name: string;
+  values: EventTemplateValues;
+  createdAt: string;
+}
+
+export const EMPTY_EVENT_FORM: EventFormData = {
+  eventName: '',
+  description: '',
+  eventDate: '',
+  eventEndDate: '',
+  eventStartTime: '',
+  eventEndTime: '',
+  // Set to the viewer's zone when the form opens
+  timeZone: '',
+  venueName: '',
+  venueAddress: '',
+  venueCity: '',
+  venueState: '',
+  venueZipCode: '',
+  venueCountry: DEFAULT_COUNTRY,
+  capacity: 100,
+  waitlistEnabled: false,
+  registrationOpen: true,
+  dressCode: '',
+  agenda: [],
+};
+
+export function eventToFormData(event: Event): EventFormData {
+  return {
+    eventName: event.eventName,
+    description: event.description || '',
+    eventDate: event.eventDate.split('T')[0],
+    eventEndDate: event.eventEndDate ? event.eventEndDate.split('T')[0] : '',
+    eventStartTime: event.eventStartTime,
+    eventEndTime: event.eventEndTime,
+    timeZone: getEventTimeZone(event),
+    venueName: event.venueName,
+    venueAddress: event.venueAddress,
+    venueCity: event.venueCity,
+    venueState: event.venueState,
+    venueZipCode: event.venueZipCode,
+    venueCountry: event.venueCountry || DEFAULT_COUNTRY,
+    capacity: event.capacity,
+    waitlistEnabled: event.waitlistEnabled,
+    registrationOpen: event.registrationOpen,
+    dressCode: event.dressCode,
+    agenda: event.agenda ?? [],
+  };
+}
+
+// Form values for a copy of `event`. The dates are left empty so the copy is
+// not created on the original's date by accident.
+export function duplicateEventFormData(event: Event): EventFormData {
+  return {
+    ...eventToFormData(event),
+    eventName: `${event.eventName} (Copy)`,
+    eventDate: '',
+    eventEndDate: '',
+    registrationOpen: true,
+  };
+}
+
+export function toTemplateValues(data: EventFormData): EventTemplateValues {
+  const values: EventTemplateValues & Partial<Pick<EventFormData, 'eventName' | 'eventDate' | 'eventEndDate'>> = {
+    ...data,
+  };
+  delete values.eventName;
+  delete values.eventDate;
+  delete values.eventEndDate;
+  return values;
+}
+
+// Fill the form from a template, keeping the name and dates already entered
+export function applyTemplate(current: EventFormData, template: Pick<EventTemplate, 'values'>): EventFormData {
+  return { ...current, ...template.values };
+}
+
+const STORAGE_KEY = 'event_templates';
+
+// Set once the backend has answered that it has no template endpoint
+let storedLocally = false;
+
+function isUnsupported(error: unknown): boolean {
+  return error instanceof APIError && [404, 405, 501].includes(error.statusCode);
+}
+
+function readLocalTemplates(): EventTemplate[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const templates = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(templates) ? templates : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeLocalTemplates(templates: EventTemplate[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+}
+
+function sortByName(templates: EventTemplate[]): EventTemplate[] {
+  return [...templates].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function fetchEventTemplates(): Promise<EventTemplate[]> {
+  if (!storedLocally) {
+    try {
+      return sortByName(await api.get<EventTemplate[]>(endpoints.eventTemplates.list()));
+    } catch (err) {
+      if (!isUnsupported(err)) throw err;
+      storedLocally = true;
+    }
+  }
+  return sortByName(readLocalTemplates());
+}
+
+export async function createEventTemplate(name: string, values: EventTemplateValues): Promise<EventTemplate> {
+  if (!storedLocally) {
+    try {
+      return await api.post<EventTemplate>(
+        endpoints.eventTemplates.create(),
+        { name, values },
+        { action: 'template.create', target: { type: 'template' } }
+      );
+    } catch (err) {
+      if (!isUnsupported(err)) throw err;
+      storedLocally = true;
+    }
+  }
+
+  const template: EventTemplate = {
+    id: `local-${Date.now()}`,
+    name,
+    values,
+    createdAt: new Date().toISOString(),
+  };
+  writeLocalTemplates([...readLocalTemplates(), template]);
+  return template;
+}
+
+export async function deleteEventTemplate(id: string): Promise<void> {
+  if (!storedLocally) {
+    try {
+      await api.delete(endpoints.eventTemplates.delete(id), {
+        action: 'template.delete',
+        target: { type: 'template', id },
+      });
+      return;
+    } catch (err) {
+      if (!isUnsupported(err)) throw err;
+      storedLocally = true;
+    }
+  }
+  writeLocalTemplates(readLocalTemplates().filter((template) => template.id !== id));
+}
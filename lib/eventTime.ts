@@ -0,0 +1,121 @@
+// Event times are wall-clock HH:MM strings in the event's IANA time zone.
+// They are shown in that zone, with the viewer's own time alongside when the
+// viewer is somewhere else.
+
+import { Event } from '@/lib/types';
+
+export function getViewerTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Every zone the browser knows, for the time zone picker
+export function getTimeZones(): string[] {
+  return typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [getViewerTimeZone()];
+}
+
+// Events saved before time zones were recorded are shown in the viewer's zone
+export function getEventTimeZone(event: Pick<Event, 'timeZone'>): string {
+  return event.timeZone && isValidTimeZone(event.timeZone) ? event.timeZone : getViewerTimeZone();
+}
+
+// Minutes the zone is ahead of UTC at the instant
+function zoneOffset(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return Math.round((wallClock - Math.floor(instant / 1000) * 1000) / 60000);
+}
+
+// Instant of a wall-clock date (YYYY-MM-DD) and time (HH:MM) in the zone
+export function zonedTimeToUtc(day: string, time: string, timeZone: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hour, minute);
+  if (Number.isNaN(wallClock)) return new Date(NaN);
+  // The offset at the wall-clock time read as UTC is right unless a daylight
+  // saving change falls between the two, so check it once more
+  const guess = wallClock - zoneOffset(timeZone, wallClock) * 60000;
+  return new Date(wallClock - zoneOffset(timeZone, guess) * 60000);
+}
+
+// Short zone name such as "BST" or "EDT", falling back to "GMT+2"
+export function getZoneAbbreviation(timeZone: string, at: Date): string {
+  const name = (locale: string) =>
+    new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' })
+      .formatToParts(at)
+      .find((p) => p.type === 'timeZoneName')?.value ?? '';
+  const american = name('en-US');
+  if (!american.startsWith('GMT') || american === 'GMT') return american;
+  const british = name('en-GB');
+  return british.startsWith('GMT') && british !== 'GMT' ? american : british;
+}
+
+function formatClock(at: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(at);
+}
+
+export interface EventTimeDisplay {
+  // "18:00 - 22:00 BST", in the event's zone
+  eventTime: string;
+  // "13:00 - 17:00 EDT", in the viewer's zone and prefixed with the date when
+  // that differs; null when the zones match
+  viewerTime: string | null;
+}
+
+export function formatEventTimes(
+  event: Pick<Event, 'eventDate' | 'eventEndDate' | 'eventStartTime' | 'eventEndTime' | 'timeZone'>,
+  viewerTimeZone: string = getViewerTimeZone()
+): EventTimeDisplay {
+  const timeZone = getEventTimeZone(event);
+  const day = event.eventDate.split('T')[0];
+  const start = zonedTimeToUtc(day, event.eventStartTime, timeZone);
+  const end = zonedTimeToUtc((event.eventEndDate || day).split('T')[0], event.eventEndTime, timeZone);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return { eventTime: `${event.eventStartTime} - ${event.eventEndTime}`, viewerTime: null };
+  }
+
+  const range = (zone: string) =>
+    `${formatClock(start, zone)} - ${formatClock(end, zone)} ${getZoneAbbreviation(zone, start)}`;
+  // The viewer's time can fall on another day, e.g. an evening in London
+  // seen from Sydney
+  const viewerDay = new Intl.DateTimeFormat('en-CA', { timeZone: viewerTimeZone }).format(start);
+  const viewerDate =
+    viewerDay === day
+      ? ''
+      : `${new Intl.DateTimeFormat('en-US', { timeZone: viewerTimeZone, month: 'short', day: 'numeric' }).format(start)}, `;
+  const sameClock =
+    zoneOffset(timeZone, start.getTime()) === zoneOffset(viewerTimeZone, start.getTime()) &&
+    zoneOffset(timeZone, end.getTime()) === zoneOffset(viewerTimeZone, end.getTime());
+  return { eventTime: range(timeZone), viewerTime: sameClock ? null : viewerDate + range(viewerTimeZone) };
+}
+
+// Viewer's time for the times entered on the event form, or null while the
+// form is incomplete or the viewer is in the event's zone
+export function getViewerTimeHint(
+  values: Pick<Event, 'eventDate' | 'eventEndDate' | 'eventStartTime' | 'eventEndTime' | 'timeZone'>,
+  viewerTimeZone: string = getViewerTimeZone()
+): string | null {
+  if (!values.eventDate || !values.eventStartTime || !values.eventEndTime || !isValidTimeZone(values.timeZone ?? '')) {
+    return null;
+  }
+  return formatEventTimes(values, viewerTimeZone).viewerTime;
+}
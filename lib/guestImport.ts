@@ -0,0 +1,293 @@
+// Guest list import for bulk invites: read a CSV or XLSX file, map its
+// columns onto invite fields, validate every row before anything is sent and
+// report per-row results once the batches have been submitted.
+
+import { toCsv } from '@/lib/files';
+import { BulkInviteItem, bulkInviteItemSchema } from '@/lib/validation';
+
+export type GuestField = 'email' | 'name' | 'company' | 'title' | 'tags';
+
+export const GUEST_FIELDS: { field: GuestField; label: string; required: boolean }[] = [
+  { field: 'email', label: 'Email', required: true },
+  { field: 'name', label: 'Name', required: false },
+  { field: 'company', label: 'Company', required: false },
+  { field: 'title', label: 'Title', required: false },
+  { field: 'tags', label: 'Tags', required: false },
+];
+
+// Column index in the file for each field, null when not imported
+export type ColumnMapping = Record<GuestField, number | null>;
+
+// Header spellings recognised when guessing the mapping
+const HEADER_ALIASES: Record<GuestField, string[]> = {
+  email: ['email', 'emailaddress', 'email address', 'e mail', 'mail'],
+  name: ['name', 'fullname', 'full name', 'guest', 'guest name', 'attendee'],
+  company: ['company', 'organization', 'organisation', 'employer', 'company name'],
+  title: ['title', 'job title', 'jobtitle', 'position', 'role'],
+  tags: ['tags', 'tag', 'labels', 'groups', 'segment'],
+};
+
+// Rows per request to /invite/bulk-create
+export const IMPORT_CHUNK_SIZE = 100;
+
+export type ImportRowStatus = 'ready' | 'invalid' | 'duplicate' | 'existing';
+
+export interface ImportRow {
+  // 1-based row in the file, counting the header row but not blank lines
+  rowNumber: number;
+  invite: BulkInviteItem;
+  status: ImportRowStatus;
+  errors: string[];
+}
+
+export type ImportResultStatus = 'created' | 'failed' | 'skipped';
+
+export interface ImportResult {
+  rowNumber: number;
+  email: string;
+  status: ImportResultStatus;
+  message: string;
+}
+
+// Response from /invite/bulk-create. Newer backends also list the rows that
+// failed; older ones only return the counts.
+export interface BulkCreateResponse {
+  created: number;
+  failed: number;
+  errors?: { email: string; error: string }[];
+}
+
+export function isSpreadsheetFile(file: File): boolean {
+  return /\.xlsx$/i.test(file.name);
+}
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, newlines and
+// doubled quotes. Semicolon separated exports are detected from the header.
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0] || '';
+  const delimiter = firstLine.split(';').length > firstLine.split(',').length ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return normalizeRows(rows);
+}
+
+// Turn spreadsheet cells into trimmed text and drop blank lines
+export function normalizeRows(rows: unknown[][]): string[][] {
+  return rows
+    .map((row) =>
+      row.map((cell) => {
+        if (cell === null || cell === undefined) return '';
+        if (cell instanceof Date) return cell.toISOString().split('T')[0];
+        return String(cell).trim();
+      })
+    )
+    .filter((row) => row.some((cell) => cell !== ''));
+}
+
+// Read the first sheet of an XLSX file, or the whole of a CSV file
+export async function readGuestFile(file: File): Promise<string[][]> {
+  if (isSpreadsheetFile(file)) {
+    // Only pulled into the bundle when someone imports a spreadsheet
+    const { readSheet } = await import('read-excel-file/browser');
+    const rows = await readSheet(file);
+    return normalizeRows(rows as unknown[][]);
+  }
+  return parseCsv(await file.text());
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Match header names to fields; the first matching column wins
+export function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as ColumnMapping;
+
+  GUEST_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header));
+    mapping[field] = index >= 0 ? index : null;
+  });
+
+  // A headerless single column of addresses is still a guest list
+  if (mapping.email === null && headers.some((header) => header.includes('@'))) {
+    mapping.email = headers.findIndex((header) => header.includes('@'));
+  }
+
+  return mapping;
+}
+
+// True when the first row holds data rather than column names
+export function isHeaderless(headers: string[], mapping: ColumnMapping): boolean {
+  return mapping.email !== null && (headers[mapping.email] || '').includes('@');
+}
+
+export function splitTags(value: string): string[] {
+  return Array.from(
+    new Set(
+      value
+        .split(/[;,|]/)
+        .map((tag) => tag.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+function toInvite(cells: string[], mapping: ColumnMapping): BulkInviteItem {
+  const cell = (field: GuestField) => {
+    const index = mapping[field];
+    return index === null ? '' : cells[index] || '';
+  };
+
+  const invite: BulkInviteItem = { email: cell('email').toLowerCase() };
+  if (cell('name')) invite.name = cell('name');
+  if (cell('company')) invite.company = cell('company');
+  if (cell('title')) invite.title = cell('title');
+  const tags = splitTags(cell('tags'));
+  if (tags.length > 0) invite.tags = tags;
+  return invite;
+}
+
+// Validate mapped rows against the bulk invite schema and flag addresses that
+// repeat within the file or already have an invite for the event. Only the
+// first occurrence of a repeated address is kept.
+export function buildImportRows(
+  dataRows: string[][],
+  mapping: ColumnMapping,
+  existingEmails: Iterable<string>,
+  firstRowNumber = 2
+): ImportRow[] {
+  const existing = new Set(Array.from(existingEmails, (email) => email.toLowerCase()));
+  const seen = new Map<string, number>();
+
+  return dataRows.map((cells, index) => {
+    const rowNumber = firstRowNumber + index;
+    const invite = toInvite(cells, mapping);
+
+    if (mapping.email === null) {
+      return { rowNumber, invite, status: 'invalid', errors: ['No email column selected'] };
+    }
+
+    const result = bulkInviteItemSchema.safeParse(invite);
+    if (!result.success) {
+      return {
+        rowNumber,
+        invite,
+        status: 'invalid',
+        errors: result.error.issues.map((issue) => issue.message),
+      };
+    }
+
+    if (existing.has(invite.email)) {
+      return { rowNumber, invite, status: 'existing', errors: ['Already invited to this event'] };
+    }
+
+    const firstSeen = seen.get(invite.email);
+    if (firstSeen !== undefined) {
+      return { rowNumber, invite, status: 'duplicate', errors: [`Duplicate of row ${firstSeen}`] };
+    }
+    seen.set(invite.email, rowNumber);
+
+    return { rowNumber, invite, status: 'ready', errors: [] };
+  });
+}
+
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Per-row outcome of one submitted batch. When the backend only returns
+// counts, failures cannot be attributed to rows and the batch is reported as
+// partially failed.
+export function resultsForChunk(rows: ImportRow[], response: BulkCreateResponse): ImportResult[] {
+  const errors = new Map(
+    (response.errors || []).map((entry) => [entry.email.toLowerCase(), entry.error])
+  );
+  const unattributed = response.failed > 0 && errors.size === 0;
+
+  return rows.map(({ rowNumber, invite }) => {
+    const error = errors.get(invite.email);
+    if (error) {
+      return { rowNumber, email: invite.email, status: 'failed', message: error };
+    }
+    if (unattributed) {
+      return {
+        rowNumber,
+        email: invite.email,
+        status: 'failed',
+        message: `${response.failed} of ${rows.length} rows in this batch failed`,
+      };
+    }
+    return { rowNumber, email: invite.email, status: 'created', message: 'Invite created' };
+  });
+}
+
+export function failedChunkResults(rows: ImportRow[], message: string): ImportResult[] {
+  return rows.map(({ rowNumber, invite }) => ({
+    rowNumber,
+    email: invite.email,
+    status: 'failed',
+    message,
+  }));
+}
+
+// Rows left out of the submission, with the reason they were skipped
+export function skippedResults(rows: ImportRow[]): ImportResult[] {
+  return rows
+    .filter((row) => row.status !== 'ready')
+    .map(({ rowNumber, invite, errors }) => ({
+      rowNumber,
+      email: invite.email,
+      status: 'skipped',
+      message: errors.join('; '),
+    }));
+}
+
+export function buildImportReport(results: ImportResult[]): string {
+  const sorted = [...results].sort((a, b) => a.rowNumber - b.rowNumber);
+  return toCsv([
+    ['Row', 'Email', 'Status', 'Message'],
+    ...sorted.map((result) => [result.rowNumber, result.email, result.status, result.message]),
+  ]);
+}
@@ -0,0 +1,295 @@
+'use client';
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { BrowserQRCodeReader } from '@zxing/library';
+import { api, APIError, getErrorMessage } from '@/lib/api';
+import {
+  CheckInConfig,
+  CheckInResult,
+  CheckInTarget,
+  OfflineCheckInSource,
+  ScanRecord,
+  DEFAULT_SCAN_DEBOUNCE_MS,
+  RECENT_SCANS_LIMIT,
+  getResultTone,
+  runCheckIn,
+  runOfflineCheckIn,
+  selectBackCamera,
+  shouldAcceptScan,
+} from '@/lib/checkin';
+import { playScanFeedback } from '@/lib/scanFeedback';
+
+interface OfflineSupport extends OfflineCheckInSource {
+  available: boolean;
+  isOnline: boolean;
+  recordCheckedIn: (qrCode: string, checkedInAt: string, plusOne?: boolean) => Promise<void>;
+}
+
+interface UseCheckInOptions {
+  config: CheckInConfig;
+  eventId: string;
+  role?: string | null;
+  offline?: OfflineSupport;
+  // Keep the camera live after each read instead of stopping on the result
+  continuous?: boolean;
+  debounceMs?: number;
+  historySize?: number;
+  notify: {
+    success: (title: string, message?: string) => void;
+    error: (title: string, message?: string) => void;
+  };
+}
+
+let scanRecordId = 0;
+
+export function useCheckIn({
+  config,
+  eventId,
+  role,
+  offline,
+  continuous = false,
+  debounceMs = DEFAULT_SCAN_DEBOUNCE_MS,
+  historySize = RECENT_SCANS_LIMIT,
+  notify,
+}: UseCheckInOptions) {
+  const [scanning, setScanning] = useState(false);
+  const [result, setResult] = useState<CheckInResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [recentScans, setRecentScans] = useState<ScanRecord[]>([]);
+  const [lastScan, setLastScan] = useState<ScanRecord | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const codeReaderRef = useRef<BrowserQRCodeReader | null>(null);
+  const handleCodeRef = useRef<(qrCode: string) => void>(() => {});
+  const notifyRef = useRef(notify);
+  const lastReadsRef = useRef(new Map<string, number>());
+  const processingRef = useRef(false);
+  const resultCodeRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    notifyRef.current = notify;
+  }, [notify]);
+
+  const showOutcome = useCallback((checkInResult: CheckInResult) => {
+    const notify = notifyRef.current;
+    switch (checkInResult.outcome) {
+      case 'checked_in':
+        notify.success(checkInResult.offline ? 'Checked in (offline)' : 'Check-in successful!');
+        break;
+      case 'already_checked_in':
+        notify.error('This person is already checked in');
+        break;
+      case 'wrong_event':
+        notify.error('Wrong event');
+        break;
+      case 'cancelled':
+        notify.error('Registration cancelled');
+        break;
+      case 'invalid':
+        notify.error('Invalid QR code');
+        break;
+      default:
+        notify.error(checkInResult.message || 'Check-in failed');
+    }
+  }, []);
+
+  // Resolve a code to a result, falling back to the roster when offline
+  const performCheckIn = useCallback(
+    async (qrCode: string, target?: CheckInTarget): Promise<CheckInResult> => {
+      const context = { eventId, role };
+      try {
+        if (offline?.available && !offline.isOnline) {
+          return await runOfflineCheckIn(qrCode, context, config, offline, target);
+        }
+
+        try {
+          const checkInResult = await runCheckIn(qrCode, context, config, api, target);
+          if (checkInResult.outcome === 'checked_in' && offline?.available) {
+            const now = new Date().toISOString();
+            if (checkInResult.target !== 'plusOne') {
+              await offline.recordCheckedIn(qrCode, checkInResult.attendee?.checkedInAt || now);
+            }
+            if (checkInResult.target !== 'guest') {
+              await offline.recordCheckedIn(qrCode, checkInResult.attendee?.plusOne?.checkedInAt || now, true);
+            }
+          }
+          return checkInResult;
+        } catch (err) {
+          // The connection dropped mid-request: fall back to the local roster
+          if (err instanceof APIError && err.statusCode === 0 && offline?.available) {
+            return await runOfflineCheckIn(qrCode, context, config, offline, target);
+          }
+          throw err;
+        }
+      } catch (err) {
+        return {
+          outcome: 'failed',
+          valid: false,
+          message: getErrorMessage(err),
+        };
+      }
+    },
+    [eventId, role, offline, config]
+  );
+
+  const submitCode = useCallback(
+    async (qrCode: string, target?: CheckInTarget) => {
+      if (!qrCode || !eventId) return;
+
+      setLoading(true);
+      try {
+        const checkInResult = await performCheckIn(qrCode, target);
+        resultCodeRef.current = qrCode;
+        setResult(checkInResult);
+        showOutcome(checkInResult);
+      } finally {
+        setLoading(false);
+      }
+    },
+    [eventId, performCheckIn, showOutcome]
+  );
+
+  // Continuous mode: record the scan and signal it without leaving the camera
+  const submitContinuousCode = useCallback(
+    async (qrCode: string, target: CheckInTarget = 'guest') => {
+      if (!qrCode || !eventId) return;
+
+      processingRef.current = true;
+      try {
+        // Rapid scanning never pauses to ask; plus-ones are checked in from
+        // the recent scans list
+        const checkInResult = await performCheckIn(qrCode, target);
+        const record: ScanRecord = {
+          id: ++scanRecordId,
+          qrCode,
+          scannedAt: new Date().toISOString(),
+          result: checkInResult,
+        };
+        setLastScan(record);
+        setRecentScans((prev) => [record, ...prev].slice(0, historySize));
+        playScanFeedback(getResultTone(checkInResult));
+      } finally {
+        processingRef.current = false;
+      }
+    },
+    [eventId, historySize, performCheckIn]
+  );
+
+  const stopScanning = useCallback(() => {
+    if (codeReaderRef.current) {
+      codeReaderRef.current.reset();
+      codeReaderRef.current = null;
+    }
+  }, []);
+
+  // The scanner callback outlives renders, so route it through a ref to
+  // always reach the current event and connectivity state
+  useEffect(() => {
+    handleCodeRef.current = (qrCode: string) => {
+      if (!continuous) {
+        stopScanning();
+        setScanning(false);
+        submitCode(qrCode);
+        return;
+      }
+
+      // The reader fires on every frame the code is in view
+      if (processingRef.current) return;
+      if (!shouldAcceptScan(qrCode, Date.now(), lastReadsRef.current, debounceMs)) return;
+      submitContinuousCode(qrCode);
+    };
+  }, [continuous, debounceMs, submitCode, submitContinuousCode, stopScanning]);
+
+  const startScanning = useCallback(async () => {
+    try {
+      setCameraError(null);
+      const codeReader = new BrowserQRCodeReader();
+      codeReaderRef.current = codeReader;
+
+      const videoInputDevices = await codeReader.listVideoInputDevices();
+      const deviceId = selectBackCamera(videoInputDevices);
+
+      if (!deviceId) {
+        setCameraError('No camera found');
+        setScanning(false);
+        return;
+      }
+
+      if (videoRef.current) {
+        codeReader.decodeFromVideoDevice(deviceId, videoRef.current, (decoded, error) => {
+          // Ignore frames decoded after the reader was stopped
+          if (codeReaderRef.current !== codeReader) return;
+          if (decoded) {
+            const qrCode = decoded.getText();
+            if (qrCode) {
+              handleCodeRef.current(qrCode);
+            }
+          }
+          if (error && error.name !== 'NotFoundException') {
+            console.error('QR Scanner Error:', error);
+          }
+        });
+      }
+    } catch (err) {
+      console.error('Camera Error:', err);
+      setCameraError(err instanceof Error && err.message ? err.message : 'Failed to access camera');
+      setScanning(false);
+      notifyRef.current.error('Camera access denied');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (scanning) {
+      startScanning();
+    } else {
+      stopScanning();
+    }
+  }, [scanning, startScanning, stopScanning]);
+
+  useEffect(() => stopScanning, [stopScanning]);
+
+  const reset = useCallback(() => {
+    setResult(null);
+  }, []);
+
+  // Follow-up action from the result card, e.g. checking in the plus-one
+  const checkInTarget = useCallback(
+    (target: CheckInTarget) => {
+      if (resultCodeRef.current) {
+        submitCode(resultCodeRef.current, target);
+      }
+    },
+    [submitCode]
+  );
+
+  const checkInPlusOne = useCallback(
+    (qrCode: string) => submitContinuousCode(qrCode, 'plusOne'),
+    [submitContinuousCode]
+  );
+
+  const dismissLastScan = useCallback(() => {
+    setLastScan(null);
+  }, []);
+
+  const clearRecentScans = useCallback(() => {
+    setRecentScans([]);
+    lastReadsRef.current.clear();
+  }, []);
+
+  return {
+    scanning,
+    setScanning,
+    result,
+    loading,
+    cameraError,
+    videoRef,
+    submitCode,
+    reset,
+    checkInTarget,
+    checkInPlusOne,
+    recentScans,
+    lastScan,
+    dismissLastScan,
+    clearRecentScans,
+  };
+}
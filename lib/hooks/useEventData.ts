@@ -0,0 +1,72 @@
+'use client';
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+import {
+  ALL_EVENTS,
+  EMPTY_ENTRY,
+  cacheKeys,
+  fetchAttendees,
+  fetchEvents,
+  fetchInvite,
+  fetchInvites,
+  getCacheEntry,
+  subscribe,
+} from '@/lib/eventData';
+import { Attendee, Event, Invite } from '@/lib/types';
+
+// Shared so list results keep a stable identity while nothing has loaded
+const NO_ITEMS: never[] = [];
+
+// Render whatever is cached under `key` and revalidate it in the background.
+// `loading` is only true while there is nothing to show yet.
+function useCachedResource<T>(key: string | null, load: (force: boolean) => Promise<T>) {
+  const entry = useSyncExternalStore(
+    subscribe,
+    () => (key ? getCacheEntry<T>(key) : EMPTY_ENTRY),
+    () => EMPTY_ENTRY
+  );
+
+  useEffect(() => {
+    if (!key) return;
+    // Errors are surfaced through the cache entry
+    load(false).catch(() => {});
+  }, [key, load]);
+
+  const refresh = useCallback(() => {
+    if (!key) return;
+    load(true).catch(() => {});
+  }, [key, load]);
+
+  return {
+    data: entry.data,
+    error: entry.error,
+    loading: key !== null && entry.data === undefined && entry.error === null,
+    isValidating: entry.isValidating,
+    refresh,
+  };
+}
+
+export function useEvents() {
+  const { data, ...rest } = useCachedResource(cacheKeys.events(), fetchEvents);
+  return { events: (data || NO_ITEMS) as Event[], ...rest };
+}
+
+// Attendees for one event, or for every event when `eventId` is ALL_EVENTS
+export function useAttendees(eventId: string = ALL_EVENTS) {
+  const load = useCallback((force: boolean) => fetchAttendees(eventId, force), [eventId]);
+  const { data, ...rest } = useCachedResource<Attendee[]>(cacheKeys.attendees(eventId), load);
+  return { attendees: data || NO_ITEMS, ...rest };
+}
+
+// Invites for one event, or for every event when `eventId` is ALL_EVENTS
+export function useInvites(eventId: string = ALL_EVENTS) {
+  const load = useCallback((force: boolean) => fetchInvites(eventId, force), [eventId]);
+  const { data, ...rest } = useCachedResource<Invite[]>(cacheKeys.invites(eventId), load);
+  return { invites: data || NO_ITEMS, ...rest };
+}
+
+export function useInvite(inviteId: string | null) {
+  const load = useCallback((force: boolean) => fetchInvite(inviteId as string, force), [inviteId]);
+  const { data, ...rest } = useCachedResource<Invite>(inviteId ? cacheKeys.invite(inviteId) : null, load);
+  return { invite: data || null, ...rest };
+}
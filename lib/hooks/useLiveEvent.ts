@@ -0,0 +1,97 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { api, endpoints, getErrorMessage, openEventStream } from '@/lib/api';
+import { Attendee, Event, EventStats } from '@/lib/types';
+
+// Polling interval when the check-in stream is unavailable
+const POLL_INTERVAL_MS = 15000;
+// Collapse bursts of stream messages into one refresh
+const STREAM_REFRESH_DELAY_MS = 1000;
+
+export type LiveMode = 'connecting' | 'stream' | 'polling';
+
+export function useLiveEvent(eventId: string) {
+  const [event, setEvent] = useState<Event | null>(null);
+  const [stats, setStats] = useState<EventStats | null>(null);
+  const [attendees, setAttendees] = useState<Attendee[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [mode, setMode] = useState<LiveMode>('connecting');
+  const refreshingRef = useRef(false);
+
+  const refresh = useCallback(async () => {
+    if (!eventId || refreshingRef.current) return;
+
+    refreshingRef.current = true;
+    try {
+      const [eventData, statsData, attendeesData] = await Promise.all([
+        api.get<Event>(endpoints.events.get(eventId)),
+        api.get<EventStats>(endpoints.admin.stats(eventId)),
+        api.get<Attendee[]>(endpoints.admin.attendees(eventId)),
+      ]);
+      setEvent(eventData);
+      setStats(statsData);
+      setAttendees(attendeesData);
+      setLastUpdated(new Date());
+      setError(null);
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      refreshingRef.current = false;
+      setLoading(false);
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Listen for check-ins on the stream and fall back to polling when the
+  // server does not offer one or the connection drops
+  useEffect(() => {
+    if (!eventId) return;
+
+    const controller = new AbortController();
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const startPolling = () => {
+      if (controller.signal.aborted || pollTimer) return;
+      setMode('polling');
+      pollTimer = setInterval(refresh, POLL_INTERVAL_MS);
+    };
+
+    openEventStream(endpoints.admin.checkInStream(eventId), {
+      onOpen: () => setMode('stream'),
+      onMessage: () => {
+        if (refreshTimer) return;
+        refreshTimer = setTimeout(() => {
+          refreshTimer = null;
+          refresh();
+        }, STREAM_REFRESH_DELAY_MS);
+      },
+      signal: controller.signal,
+    })
+      .then(startPolling)
+      .catch(startPolling);
+
+    return () => {
+      controller.abort();
+      if (pollTimer) clearInterval(pollTimer);
+      if (refreshTimer) clearTimeout(refreshTimer);
+    };
+  }, [eventId, refresh]);
+
+  return {
+    event,
+    stats,
+    attendees,
+    loading,
+    error,
+    lastUpdated,
+    mode,
+    refresh,
+  };
+}
@@ -0,0 +1,205 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { api, endpoints, getErrorMessage } from '@/lib/api';
+import { Attendee } from '@/lib/types';
+import {
+  RosterEntry,
+  RosterMeta,
+  SyncConflict,
+  SyncResult,
+  isOfflineStorageAvailable,
+  saveRoster,
+  getRosterMeta,
+  getRosterEntry,
+  markRosterCheckedIn,
+  enqueueCheckIn,
+  countQueuedCheckIns,
+  syncQueuedCheckIns,
+} from '@/lib/offlineCheckin';
+
+// How often to retry the queue while check-ins are waiting to sync
+const SYNC_INTERVAL_MS = 30000;
+
+interface UseOfflineCheckinOptions {
+  eventId: string;
+  checkInEndpoint: (qrCode: string) => string;
+  plusOneCheckInEndpoint: (qrCode: string) => string;
+  onSynced?: (result: SyncResult) => void;
+}
+
+export function useOfflineCheckin({
+  eventId,
+  checkInEndpoint,
+  plusOneCheckInEndpoint,
+  onSynced,
+}: UseOfflineCheckinOptions) {
+  const [isOnline, setIsOnline] = useState(true);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [rosterMeta, setRosterMeta] = useState<RosterMeta | null>(null);
+  // Why the last roster download or sync failed, cleared once one succeeds
+  const [rosterError, setRosterError] = useState<string | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const syncingRef = useRef(false);
+  const onSyncedRef = useRef(onSynced);
+  const available = isOfflineStorageAvailable();
+
+  useEffect(() => {
+    onSyncedRef.current = onSynced;
+  }, [onSynced]);
+
+  const refreshPendingCount = useCallback(async () => {
+    if (!available) return;
+    setPendingCount(await countQueuedCheckIns());
+  }, [available]);
+
+  const syncNow = useCallback(async () => {
+    if (!available || syncingRef.current) return;
+
+    syncingRef.current = true;
+    setSyncing(true);
+    try {
+      const result = await syncQueuedCheckIns(checkInEndpoint, plusOneCheckInEndpoint);
+      setPendingCount(result.remaining);
+      if (result.conflicts.length > 0) {
+        setConflicts((prev) => [...prev, ...result.conflicts]);
+      }
+      if (result.synced > 0 || result.conflicts.length > 0) {
+        onSyncedRef.current?.(result);
+      }
+      setSyncError(null);
+    } catch (err) {
+      setSyncError(getErrorMessage(err));
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [available, checkInEndpoint, plusOneCheckInEndpoint]);
+
+  const downloadRoster = useCallback(async () => {
+    if (!available || !eventId) return;
+
+    setDownloading(true);
+    try {
+      const attendees = await api.get<Attendee[]>(endpoints.admin.attendees(eventId));
+      setRosterMeta(await saveRoster(eventId, attendees));
+      setRosterError(null);
+    } catch (err) {
+      setRosterError(getErrorMessage(err));
+      throw err;
+    } finally {
+      setDownloading(false);
+    }
+  }, [available, eventId]);
+
+  // Track connectivity
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    const handleOnline = () => {
+      update();
+      syncNow();
+    };
+
+    update();
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', update);
+    };
+  }, [syncNow]);
+
+  // Load the stored roster for the selected event, refreshing it when online
+  useEffect(() => {
+    if (!available || !eventId) return;
+
+    let cancelled = false;
+    getRosterMeta(eventId).then((meta) => {
+      if (!cancelled) setRosterMeta(meta);
+    });
+    if (navigator.onLine) {
+      // A failure is shown through rosterError; the stored roster stays usable
+      downloadRoster().catch(() => {});
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [available, eventId, downloadRoster]);
+
+  // Flush anything left over from a previous session, then keep retrying
+  // while there is work in the queue
+  useEffect(() => {
+    refreshPendingCount().then(() => {
+      if (navigator.onLine) syncNow();
+    });
+  }, [refreshPendingCount, syncNow]);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const timer = setInterval(() => {
+      if (navigator.onLine) syncNow();
+    }, SYNC_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [pendingCount, syncNow]);
+
+  const lookup = useCallback(
+    async (qrCode: string): Promise<RosterEntry | null> => {
+      if (!available) return null;
+      return getRosterEntry(qrCode);
+    },
+    [available]
+  );
+
+  // Record a check-in locally and queue it for the server
+  const queueCheckIn = useCallback(
+    async (entry: RosterEntry, plusOne = false): Promise<string> => {
+      const scannedAt = new Date().toISOString();
+      await enqueueCheckIn({
+        qrCode: entry.qrCode,
+        eventId: entry.eventId,
+        attendeeId: entry.attendeeId,
+        attendeeName: plusOne && entry.plusOne ? `${entry.plusOne.name} (plus-one of ${entry.name})` : entry.name,
+        scannedAt,
+        plusOne,
+      });
+      await markRosterCheckedIn(entry.qrCode, scannedAt, plusOne);
+      await refreshPendingCount();
+      return scannedAt;
+    },
+    [refreshPendingCount]
+  );
+
+  // Keep the local roster in step with check-ins confirmed by the server
+  const recordCheckedIn = useCallback(
+    async (qrCode: string, checkedInAt: string, plusOne = false) => {
+      if (!available) return;
+      await markRosterCheckedIn(qrCode, checkedInAt, plusOne);
+    },
+    [available]
+  );
+
+  const dismissConflict = useCallback((index: number) => {
+    setConflicts((prev) => prev.filter((_, i) => i !== index));
+  }, []);
+
+  return {
+    available,
+    isOnline,
+    pendingCount,
+    rosterMeta,
+    rosterError,
+    downloading,
+    syncing,
+    syncError,
+    conflicts,
+    downloadRoster,
+    syncNow,
+    lookup,
+    queueCheckIn,
+    recordCheckedIn,
+    dismissConflict,
+  };
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { parseUser } from '@/lib/auth';
+import { Permission, hasPermission } from '@/lib/permissions';
+
+function subscribe(onChange: () => void) {
+  window.addEventListener('storage', onChange);
+  return () => window.removeEventListener('storage', onChange);
+}
+
+// The signed-in user and what they may do. Nothing is permitted during server
+// rendering, so restricted controls appear once the page hydrates.
+export function usePermissions() {
+  const userStr = useSyncExternalStore(
+    subscribe,
+    () => localStorage.getItem('user'),
+    () => null
+  );
+  const user = useMemo(() => parseUser(userStr), [userStr]);
+  const role = user?.role ?? null;
+
+  const can = useCallback((permission: Permission) => hasPermission(role, permission), [role]);
+
+  return { user, role, can };
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { getErrorMessage } from '@/lib/api';
+import { TablePage, TableQuery, parseTableQuery, toUrlParams } from '@/lib/tableQuery';
+
+// Wait for typing to pause before searching
+const SEARCH_DEBOUNCE_MS = 300;
+
+const NO_ITEMS: never[] = [];
+
+// Table query state kept in the URL. `defaults` must be a stable object,
+// e.g. a module-level constant.
+export function useTableQuery(defaults: TableQuery) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const query = useMemo(() => parseTableQuery(searchParams, defaults), [searchParams, defaults]);
+  const queryRef = useRef(query);
+  const searchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [searchInput, setSearchInput] = useState(query.search);
+
+  useEffect(() => {
+    queryRef.current = query;
+  }, [query]);
+
+  useEffect(() => {
+    return () => {
+      if (searchTimerRef.current) clearTimeout(searchTimerRef.current);
+    };
+  }, []);
+
+  // Any change other than the page itself goes back to the first page
+  const setQuery = useCallback(
+    (patch: Partial<Omit<TableQuery, 'filters'>> & { filters?: Record<string, string> }) => {
+      const current = queryRef.current;
+      const next: TableQuery = {
+        ...current,
+        ...patch,
+        filters: { ...current.filters, ...patch.filters },
+        page: patch.page ?? 1,
+      };
+      const params = toUrlParams(next, defaults).toString();
+      router.replace(params ? `${pathname}?${params}` : pathname, { scroll: false });
+    },
+    [router, pathname, defaults]
+  );
+
+  const setSearch = useCallback(
+    (value: string) => {
+      setSearchInput(value);
+      if (searchTimerRef.current) clearTimeout(searchTimerRef.current);
+      searchTimerRef.current = setTimeout(() => setQuery({ search: value.trim() }), SEARCH_DEBOUNCE_MS);
+    },
+    [setQuery]
+  );
+
+  const toggleSort = useCallback(
+    (field: string) => {
+      const current = queryRef.current;
+      if (current.sortField === field) {
+        setQuery({ sortOrder: current.sortOrder === 'asc' ? 'desc' : 'asc' });
+      } else {
+        setQuery({ sortField: field, sortOrder: 'asc' });
+      }
+    },
+    [setQuery]
+  );
+
+  return { query, setQuery, searchInput, setSearch, toggleSort };
+}
+
+// Load the page of rows for `query`, ignoring responses that arrive after a
+// newer query was issued. `load` must be stable (wrap it in useCallback).
+export function useTablePage<R>(query: TableQuery, load: (query: TableQuery) => Promise<TablePage<R>>) {
+  const [page, setPage] = useState<TablePage<R> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const requestId = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await load(query);
+      if (requestId === requestRef.current) setPage(result);
+    } catch (err) {
+      if (requestId === requestRef.current) setError(getErrorMessage(err));
+    } finally {
+      if (requestId === requestRef.current) setLoading(false);
+    }
+  }, [query, load]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return {
+    items: page?.items || (NO_ITEMS as R[]),
+    total: page?.total ?? 0,
+    serverSide: page?.serverSide ?? true,
+    loaded: page !== null,
+    loading,
+    error,
+    refresh,
+  };
+}
@@ -0,0 +1,324 @@
+// Offline check-in storage backed by IndexedDB
+//
+// The staff check-in app keeps a copy of the selected event's roster so scans
+// can be validated without a connection. Check-ins made while offline are
+// queued with the time of the scan and replayed once the network returns.
+
+import { api, APIError, getErrorMessage } from '@/lib/api';
+import { Attendee } from '@/lib/types';
+
+const DB_NAME = 'rsvp-checkin';
+const DB_VERSION = 1;
+const ROSTER_STORE = 'roster';
+const QUEUE_STORE = 'queue';
+const META_STORE = 'meta';
+
+export interface RosterEntry {
+  qrCode: string;
+  attendeeId: string;
+  eventId: string;
+  name: string;
+  company: string;
+  title: string;
+  email: string;
+  registrationId: string;
+  status: string;
+  checkedInAt: string | null;
+  plusOne: {
+    name: string;
+    company: string;
+    title: string;
+    email: string;
+    checkedInAt: string | null;
+  } | null;
+}
+
+export interface RosterMeta {
+  eventId: string;
+  downloadedAt: string;
+  count: number;
+}
+
+export interface QueuedCheckIn {
+  id?: number;
+  qrCode: string;
+  eventId: string;
+  attendeeId: string;
+  attendeeName: string;
+  scannedAt: string;
+  // Set when the queued check-in is for the guest's plus-one
+  plusOne?: boolean;
+}
+
+export interface SyncConflict {
+  checkIn: QueuedCheckIn;
+  message: string;
+  serverCheckedInAt: string | null;
+}
+
+export interface SyncResult {
+  synced: number;
+  conflicts: SyncConflict[];
+  remaining: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isOfflineStorageAvailable(): boolean {
+  return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ROSTER_STORE)) {
+        const roster = db.createObjectStore(ROSTER_STORE, { keyPath: 'qrCode' });
+        roster.createIndex('eventId', 'eventId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        const queue = db.createObjectStore(QUEUE_STORE, { keyPath: 'id', autoIncrement: true });
+        queue.createIndex('eventId', 'eventId', { unique: false });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'eventId' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function toRosterEntry(attendee: Attendee): RosterEntry {
+  return {
+    qrCode: attendee.qrCode,
+    attendeeId: attendee.id,
+    eventId: attendee.eventId,
+    name: attendee.name,
+    company: attendee.company,
+    title: attendee.title,
+    email: attendee.email,
+    registrationId: attendee.registrationId,
+    status: attendee.status,
+    checkedInAt: attendee.checkedInAt || null,
+    plusOne: attendee.plusOne
+      ? {
+          name: attendee.plusOne.name,
+          company: attendee.plusOne.company,
+          title: attendee.plusOne.title,
+          email: attendee.plusOne.email,
+          checkedInAt: attendee.plusOne.checkedInAt || null,
+        }
+      : null,
+  };
+}
+
+// Replace the stored roster for an event. Entries with a check-in still
+// waiting in the queue keep their local check-in time, since the server
+// copy cannot know about it yet.
+export async function saveRoster(eventId: string, attendees: Attendee[]): Promise<RosterMeta> {
+  const db = await openDatabase();
+
+  const pending = await getQueuedCheckIns(eventId);
+  const pendingByCode = new Map(
+    pending.filter((item) => !item.plusOne).map((item) => [item.qrCode, item.scannedAt])
+  );
+  const pendingPlusOneByCode = new Map(
+    pending.filter((item) => item.plusOne).map((item) => [item.qrCode, item.scannedAt])
+  );
+
+  const tx = db.transaction([ROSTER_STORE, META_STORE], 'readwrite');
+  const roster = tx.objectStore(ROSTER_STORE);
+
+  const existingKeys = await promisify(roster.index('eventId').getAllKeys(eventId));
+  existingKeys.forEach((key) => roster.delete(key));
+
+  attendees
+    .filter((attendee) => attendee.qrCode)
+    .forEach((attendee) => {
+      const entry = toRosterEntry(attendee);
+      const queuedAt = pendingByCode.get(entry.qrCode);
+      if (queuedAt && !entry.checkedInAt) {
+        entry.checkedInAt = queuedAt;
+      }
+      const plusOneQueuedAt = pendingPlusOneByCode.get(entry.qrCode);
+      if (plusOneQueuedAt && entry.plusOne && !entry.plusOne.checkedInAt) {
+        entry.plusOne.checkedInAt = plusOneQueuedAt;
+      }
+      roster.put(entry);
+    });
+
+  const meta: RosterMeta = {
+    eventId,
+    downloadedAt: new Date().toISOString(),
+    count: attendees.length,
+  };
+  tx.objectStore(META_STORE).put(meta);
+
+  await transactionDone(tx);
+  return meta;
+}
+
+export async function getRosterMeta(eventId: string): Promise<RosterMeta | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  const meta = await promisify(tx.objectStore(META_STORE).get(eventId));
+  return (meta as RosterMeta | undefined) || null;
+}
+
+export async function getRosterEntry(qrCode: string): Promise<RosterEntry | null> {
+  const db = await openDatabase();
+  const tx = db.transaction(ROSTER_STORE, 'readonly');
+  const entry = await promisify(tx.objectStore(ROSTER_STORE).get(qrCode));
+  return (entry as RosterEntry | undefined) || null;
+}
+
+export async function markRosterCheckedIn(
+  qrCode: string,
+  checkedInAt: string,
+  plusOne = false
+): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(ROSTER_STORE, 'readwrite');
+  const store = tx.objectStore(ROSTER_STORE);
+  const entry = (await promisify(store.get(qrCode))) as RosterEntry | undefined;
+  if (entry && !plusOne) {
+    store.put({ ...entry, checkedInAt });
+  } else if (entry?.plusOne) {
+    store.put({ ...entry, plusOne: { ...entry.plusOne, checkedInAt } });
+  }
+  await transactionDone(tx);
+}
+
+export async function enqueueCheckIn(checkIn: Omit<QueuedCheckIn, 'id'>): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).add(checkIn);
+  await transactionDone(tx);
+}
+
+export async function getQueuedCheckIns(eventId?: string): Promise<QueuedCheckIn[]> {
+  const db = await openDatabase();
+  const tx = db.transaction(QUEUE_STORE, 'readonly');
+  const store = tx.objectStore(QUEUE_STORE);
+  const items = eventId
+    ? await promisify(store.index('eventId').getAll(eventId))
+    : await promisify(store.getAll());
+  return (items as QueuedCheckIn[]).sort(
+    (a, b) => new Date(a.scannedAt).getTime() - new Date(b.scannedAt).getTime()
+  );
+}
+
+export async function countQueuedCheckIns(): Promise<number> {
+  const db = await openDatabase();
+  const tx = db.transaction(QUEUE_STORE, 'readonly');
+  return promisify(tx.objectStore(QUEUE_STORE).count());
+}
+
+async function removeQueuedCheckIn(id: number): Promise<void> {
+  const db = await openDatabase();
+  const tx = db.transaction(QUEUE_STORE, 'readwrite');
+  tx.objectStore(QUEUE_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+interface ReplayResponse {
+  success?: boolean;
+  message?: string;
+  alreadyCheckedIn?: boolean;
+  attendee?: {
+    checkedInAt?: string;
+    alreadyCheckedIn?: boolean;
+  };
+}
+
+function isAlreadyCheckedInMessage(message: string | undefined): boolean {
+  return !!message && message.toLowerCase().includes('already checked in');
+}
+
+// Replay queued check-ins in scan order. Network and server errors stop the
+// run and leave the remaining items queued; a check-in the server refuses
+// (most often because another device checked the guest in first) is taken
+// off the queue and reported back as a conflict.
+export async function syncQueuedCheckIns(
+  checkInEndpoint: (qrCode: string) => string,
+  plusOneCheckInEndpoint: (qrCode: string) => string
+): Promise<SyncResult> {
+  const queued = await getQueuedCheckIns();
+  const conflicts: SyncConflict[] = [];
+  let synced = 0;
+
+  for (const item of queued) {
+    const endpoint = item.plusOne ? plusOneCheckInEndpoint : checkInEndpoint;
+    try {
+      const response = await api.post<ReplayResponse>(
+        endpoint(item.qrCode),
+        { checkedInAt: item.scannedAt },
+        { action: 'attendee.check_in', target: { type: 'attendee', id: item.attendeeId }, eventId: item.eventId }
+      );
+
+      if (response.success) {
+        synced++;
+      } else {
+        const alreadyCheckedIn =
+          response.alreadyCheckedIn ||
+          response.attendee?.alreadyCheckedIn ||
+          isAlreadyCheckedInMessage(response.message);
+        conflicts.push({
+          checkIn: item,
+          message: alreadyCheckedIn
+            ? 'Already checked in on another device'
+            : response.message || 'Check-in rejected by server',
+          serverCheckedInAt: response.attendee?.checkedInAt || null,
+        });
+      }
+      await removeQueuedCheckIn(item.id!);
+    } catch (err) {
+      if (err instanceof APIError && err.statusCode >= 400 && err.statusCode < 500 && err.statusCode !== 401) {
+        const details = err.details as ReplayResponse | undefined;
+        conflicts.push({
+          checkIn: item,
+          message: isAlreadyCheckedInMessage(err.message)
+            ? 'Already checked in on another device'
+            : getErrorMessage(err),
+          serverCheckedInAt: details?.attendee?.checkedInAt || null,
+        });
+        await removeQueuedCheckIn(item.id!);
+        continue;
+      }
+      // Offline again or the server is unhealthy: try again later
+      break;
+    }
+  }
+
+  return {
+    synced,
+    conflicts,
+    remaining: await countQueuedCheckIns(),
+  };
+}
@@ -0,0 +1,152 @@
+// Role-based access. Shared by middleware (edge runtime) and the client, so it
+// must not depend on browser-only modules.
+
+import { User, UserRole } from '@/lib/types';
+
+export type Permission =
+  | 'dashboard:view'
+  | 'events:view'
+  | 'events:manage'
+  | 'events:delete'
+  | 'attendees:view'
+  | 'attendees:manage'
+  | 'invites:view'
+  | 'invites:manage'
+  | 'emails:view'
+  | 'tokens:generate'
+  | 'checkin:perform'
+  | 'analytics:view'
+  | 'users:manage'
+  | 'audit:view';
+
+const VIEW_PERMISSIONS: Permission[] = [
+  'dashboard:view',
+  'events:view',
+  'attendees:view',
+  'invites:view',
+  'emails:view',
+  'analytics:view',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: [
+    ...VIEW_PERMISSIONS,
+    'events:manage',
+    'events:delete',
+    'attendees:manage',
+    'invites:manage',
+    'tokens:generate',
+    'checkin:perform',
+    'users:manage',
+    'audit:view',
+  ],
+  event_manager: [...VIEW_PERMISSIONS, 'events:manage', 'attendees:manage', 'invites:manage', 'checkin:perform'],
+  viewer: VIEW_PERMISSIONS,
+  checkin: ['checkin:perform'],
+};
+
+export const USER_ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Administrator',
+  event_manager: 'Event Manager',
+  viewer: 'Viewer',
+  checkin: 'Check-in Staff',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Full access, including users, access tokens and the audit log',
+  event_manager: 'Creates and runs events, invites and guest lists',
+  viewer: 'Read-only access to events, guests and analytics',
+  checkin: 'Checks guests in at the door for assigned events',
+};
+
+// Check-in staff assigned to events only see those; everyone else sees all
+export function filterAssignedEvents<T extends { id: string }>(
+  events: T[],
+  user: Pick<User, 'role' | 'eventIds'> | null
+): T[] {
+  if (user?.role !== 'checkin' || !user.eventIds) return events;
+  const assigned = new Set(user.eventIds);
+  return events.filter((event) => assigned.has(event.id));
+}
+
+// Most specific prefix first; a * segment matches any one path segment
+const ROUTE_PERMISSIONS: { prefix: string; permission: Permission }[] = [
+  { prefix: '/events/new', permission: 'events:manage' },
+  { prefix: '/events/*/waitlist', permission: 'attendees:manage' },
+  { prefix: '/invites/new', permission: 'invites:manage' },
+  { prefix: '/generate-tokens', permission: 'tokens:generate' },
+  { prefix: '/users', permission: 'users:manage' },
+  { prefix: '/audit', permission: 'audit:view' },
+  { prefix: '/checkin', permission: 'checkin:perform' },
+  { prefix: '/check-in', permission: 'checkin:perform' },
+  { prefix: '/events', permission: 'events:view' },
+  { prefix: '/attendees', permission: 'attendees:view' },
+  { prefix: '/attendee-sheet', permission: 'attendees:view' },
+  { prefix: '/invites', permission: 'invites:view' },
+  { prefix: '/emails', permission: 'emails:view' },
+  { prefix: '/analytics', permission: 'analytics:view' },
+];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && value in ROLE_PERMISSIONS;
+}
+
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  const segments = pathname.split('/');
+  const prefixSegments = prefix.split('/');
+  return (
+    segments.length >= prefixSegments.length &&
+    prefixSegments.every((segment, index) => segment === '*' || segment === segments[index])
+  );
+}
+
+// Permission needed to open a page; anything not listed is the dashboard
+export function getRoutePermission(pathname: string): Permission {
+  const route = ROUTE_PERMISSIONS.find(({ prefix }) => matchesPrefix(pathname, prefix));
+  return route ? route.permission : 'dashboard:view';
+}
+
+export function canAccessRoute(role: UserRole | null | undefined, pathname: string): boolean {
+  return hasPermission(role, getRoutePermission(pathname));
+}
+
+// Where a user lands after login or when sent away from a page they cannot open
+export function getHomeRoute(role: UserRole): string {
+  return hasPermission(role, 'dashboard:view') ? '/' : '/checkin';
+}
+
+export interface TokenClaims {
+  sub?: string;
+  role?: string;
+  // Seconds since the epoch
+  exp?: number;
+}
+
+// Reads the JWT payload without verifying the signature. Good enough for
+// routing decisions; the API still verifies every request.
+export function decodeTokenClaims(token: string): TokenClaims | null {
+  const payload = token.split('.')[1];
+  if (!payload) return null;
+
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const json = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+    const claims = JSON.parse(json);
+    return claims && typeof claims === 'object' ? claims : null;
+  } catch {
+    return null;
+  }
+}
+
+// Role of a token that has not expired yet
+export function getTokenRole(token: string, now = Date.now()): UserRole | null {
+  const claims = decodeTokenClaims(token);
+  if (!claims || (typeof claims.exp === 'number' && claims.exp * 1000 <= now)) return null;
+  return isUserRole(claims.role) ? claims.role : null;
+}
@@ -0,0 +1,67 @@
+// Audio and vibration cues for rapid scanning, so door staff don't have to
+// watch the screen for every guest
+
+import type { CheckInTone } from '@/lib/checkin';
+
+// Beep sequences per tone: [frequency in Hz, duration in ms]
+const TONES: Record<CheckInTone, [number, number][]> = {
+  success: [[880, 120]],
+  warning: [[660, 110], [660, 110]],
+  error: [[220, 400]],
+};
+
+const VIBRATION_PATTERNS: Record<CheckInTone, number[]> = {
+  success: [80],
+  warning: [80, 80, 80],
+  error: [300, 100, 300],
+};
+
+const GAP_MS = 70;
+
+let audioContext: AudioContext | null = null;
+
+function getAudioContext(): AudioContext | null {
+  if (typeof window === 'undefined' || typeof window.AudioContext === 'undefined') {
+    return null;
+  }
+  if (!audioContext) {
+    audioContext = new window.AudioContext();
+  }
+  // Browsers suspend audio until the page has had a user gesture
+  if (audioContext.state === 'suspended') {
+    audioContext.resume().catch(() => {});
+  }
+  return audioContext;
+}
+
+function playTone(tone: CheckInTone) {
+  const context = getAudioContext();
+  if (!context) return;
+
+  let startAt = context.currentTime;
+  for (const [frequency, duration] of TONES[tone]) {
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = tone === 'error' ? 'square' : 'sine';
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.2, startAt);
+    gain.gain.exponentialRampToValueAtTime(0.001, startAt + duration / 1000);
+    oscillator.connect(gain);
+    gain.connect(context.destination);
+    oscillator.start(startAt);
+    oscillator.stop(startAt + duration / 1000);
+    startAt += (duration + GAP_MS) / 1000;
+  }
+}
+
+export function playScanFeedback(tone: CheckInTone) {
+  try {
+    playTone(tone);
+  } catch (err) {
+    console.error('Scan audio error:', err);
+  }
+
+  if (typeof navigator !== 'undefined' && typeof navigator.vibrate === 'function') {
+    navigator.vibrate(VIBRATION_PATTERNS[tone]);
+  }
+}
@@ -0,0 +1,54 @@
+// Session cookies for the app/api route handlers. The JWT only ever lives in
+// httpOnly cookies; page scripts see the user and the expiry time.
+
+import type { NextResponse } from 'next/server';
+import { getTokenExpiry } from '@/lib/auth';
+
+export const TOKEN_COOKIE = 'auth_token';
+export const REFRESH_COOKIE = 'refresh_token';
+
+// Used when the token carries no exp claim
+const DEFAULT_SESSION_SECONDS = 7 * 24 * 60 * 60;
+const REFRESH_SESSION_SECONDS = 30 * 24 * 60 * 60;
+
+export const BACKEND_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3002';
+
+// Response body of the login and refresh handlers
+export interface SessionInfo {
+  // ms since the epoch, null when the token does not say
+  expiresAt: number | null;
+}
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax' as const,
+  path: '/',
+};
+
+export function setSessionCookies(response: NextResponse, token: string, refreshToken?: string): void {
+  const expiresAt = getTokenExpiry(token);
+  const maxAge = expiresAt
+    ? Math.max(0, Math.floor((expiresAt - Date.now()) / 1000))
+    : DEFAULT_SESSION_SECONDS;
+
+  response.cookies.set(TOKEN_COOKIE, token, { ...cookieOptions, maxAge });
+  if (refreshToken) {
+    response.cookies.set(REFRESH_COOKIE, refreshToken, { ...cookieOptions, maxAge: REFRESH_SESSION_SECONDS });
+  }
+}
+
+export function clearSessionCookies(response: NextResponse): void {
+  response.cookies.set(TOKEN_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  response.cookies.set(REFRESH_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+}
+
+// Backend error bodies are passed on as they are so the client reads the
+// same messages it did when calling the backend directly
+export async function readBackendJson(response: Response): Promise<Record<string, unknown>> {
+  try {
+    return await response.json();
+  } catch {
+    return { message: `HTTP ${response.status}: ${response.statusText}` };
+  }
+}
@@ -0,0 +1,206 @@
+// Page, sort and filter state for the attendee and invite tables. The same
+// query is mirrored in the page URL and sent to the API; when the backend
+// does not support querying a list, the full list is filtered, sorted and
+// paged in the browser instead.
+
+import { api, APIError } from '@/lib/api';
+import { PaginatedResponse } from '@/lib/types';
+
+export type SortOrder = 'asc' | 'desc';
+
+// Filter value meaning "no filter"
+export const ANY = 'ALL';
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 50, 100];
+
+export interface TableQuery {
+  page: number;
+  pageSize: number;
+  sortField: string;
+  sortOrder: SortOrder;
+  search: string;
+  filters: Record<string, string>;
+}
+
+export interface TablePage<T> {
+  items: T[];
+  total: number;
+  // False when the backend ignored the query and the browser did the work
+  serverSide: boolean;
+}
+
+export interface ClientQueryOptions<T> {
+  // Text the search box matches against
+  searchText: (item: T) => Array<string | null | undefined>;
+  // Value compared with a filter; return undefined to ignore that filter
+  filterValue: (item: T, filter: string) => string | undefined;
+  sortValue: (item: T, field: string) => string | number;
+}
+
+export function parseTableQuery(params: URLSearchParams, defaults: TableQuery): TableQuery {
+  const page = Number(params.get('page'));
+  const pageSize = Number(params.get('pageSize'));
+  const sortOrder = params.get('sortOrder');
+
+  const filters: Record<string, string> = {};
+  Object.keys(defaults.filters).forEach((key) => {
+    filters[key] = params.get(key) || defaults.filters[key];
+  });
+
+  return {
+    page: Number.isInteger(page) && page > 0 ? page : defaults.page,
+    pageSize: PAGE_SIZE_OPTIONS.includes(pageSize) ? pageSize : defaults.pageSize,
+    sortField: params.get('sortBy') || defaults.sortField,
+    sortOrder: sortOrder === 'asc' || sortOrder === 'desc' ? sortOrder : defaults.sortOrder,
+    search: params.get('search') || defaults.search,
+    filters,
+  };
+}
+
+// URL parameters for a query, leaving out anything still at its default so
+// shared links stay short
+export function toUrlParams(query: TableQuery, defaults: TableQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.page !== defaults.page) params.set('page', String(query.page));
+  if (query.pageSize !== defaults.pageSize) params.set('pageSize', String(query.pageSize));
+  if (query.sortField !== defaults.sortField) params.set('sortBy', query.sortField);
+  if (query.sortOrder !== defaults.sortOrder) params.set('sortOrder', query.sortOrder);
+  if (query.search) params.set('search', query.search);
+  Object.entries(query.filters).forEach(([key, value]) => {
+    if (value !== defaults.filters[key]) params.set(key, value);
+  });
+  return params;
+}
+
+// Query string sent to the API, with every parameter spelled out except the
+// filters only the browser applies
+export function toApiParams(query: TableQuery, clientFilters: string[] = []): URLSearchParams {
+  const params = new URLSearchParams({
+    page: String(query.page),
+    pageSize: String(query.pageSize),
+    sortBy: query.sortField,
+    sortOrder: query.sortOrder,
+  });
+  if (query.search) params.set('search', query.search);
+  Object.entries(query.filters).forEach(([key, value]) => {
+    if (value !== ANY && !clientFilters.includes(key)) params.set(key, value);
+  });
+  return params;
+}
+
+function hasActiveFilter(query: TableQuery, filters: string[]): boolean {
+  return filters.some((filter) => (query.filters[filter] ?? ANY) !== ANY);
+}
+
+// Table page for a page the backend paginated, or null when it cannot be
+// shown as is: the backend counts records, so its total and pages only fit
+// the table when each record is one row and no browser-only filter is set
+export function toServerPage<T, R>(
+  response: PaginatedResponse<T>,
+  query: TableQuery,
+  toRows: (items: T[]) => R[],
+  clientFilters: string[] = []
+): TablePage<R> | null {
+  if (hasActiveFilter(query, clientFilters)) return null;
+  const rows = toRows(response.data);
+  if (rows.length !== response.data.length) return null;
+  return { items: rows, total: response.total, serverSide: true };
+}
+
+export function isPaginatedResponse<T>(value: unknown): value is PaginatedResponse<T> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Array.isArray((value as PaginatedResponse<T>).data) &&
+    typeof (value as PaginatedResponse<T>).total === 'number'
+  );
+}
+
+export function applyClientQuery<T>(
+  items: T[],
+  query: TableQuery,
+  options: ClientQueryOptions<T>
+): { items: T[]; total: number } {
+  let filtered = items;
+
+  if (query.search) {
+    const search = query.search.toLowerCase();
+    filtered = filtered.filter((item) =>
+      options.searchText(item).some((text) => text?.toLowerCase().includes(search))
+    );
+  }
+
+  Object.entries(query.filters).forEach(([filter, value]) => {
+    if (value === ANY) return;
+    filtered = filtered.filter((item) => {
+      const itemValue = options.filterValue(item, filter);
+      return itemValue === undefined || itemValue === value;
+    });
+  });
+
+  const sorted = [...filtered].sort((a, b) => {
+    let aValue = options.sortValue(a, query.sortField);
+    let bValue = options.sortValue(b, query.sortField);
+    if (typeof aValue === 'string') aValue = aValue.toLowerCase();
+    if (typeof bValue === 'string') bValue = bValue.toLowerCase();
+
+    if (aValue < bValue) return query.sortOrder === 'asc' ? -1 : 1;
+    if (aValue > bValue) return query.sortOrder === 'asc' ? 1 : -1;
+    return 0;
+  });
+
+  const start = (query.page - 1) * query.pageSize;
+  return { items: sorted.slice(start, start + query.pageSize), total: sorted.length };
+}
+
+// Endpoints that answered "not found" once, or whose records turned into more
+// table rows than the backend counted, are not asked again this session
+const unsupportedEndpoints = new Set<string>();
+
+function isUnsupported(error: unknown): boolean {
+  return error instanceof APIError && [404, 405, 501].includes(error.statusCode);
+}
+
+// Ask the backend for one page. If it returns a plain list (it ignored the
+// query parameters) or does not have the endpoint, load the full list with
+// `loadAll` and process it with `client` instead. `toRows` turns API records
+// into table rows, e.g. to give plus ones their own row. `clientFilters` are
+// filters on those rows that the backend cannot apply; while one is set the
+// list is filtered and paged in the browser.
+export async function fetchTablePage<T, R = T>(
+  endpoint: string,
+  query: TableQuery,
+  {
+    loadAll,
+    toRows,
+    client,
+    clientFilters = [],
+  }: {
+    loadAll: () => Promise<T[]>;
+    toRows: (items: T[]) => R[];
+    client: ClientQueryOptions<R>;
+    clientFilters?: string[];
+  }
+): Promise<TablePage<R>> {
+  if (!unsupportedEndpoints.has(endpoint) && !hasActiveFilter(query, clientFilters)) {
+    try {
+      const response = await api.get<PaginatedResponse<T> | T[]>(
+        `${endpoint}?${toApiParams(query, clientFilters)}`
+      );
+      if (isPaginatedResponse<T>(response)) {
+        const page = toServerPage(response, query, toRows, clientFilters);
+        if (page) return page;
+        unsupportedEndpoints.add(endpoint);
+      }
+      if (Array.isArray(response)) {
+        return { ...applyClientQuery(toRows(response), query, client), serverSide: false };
+      }
+    } catch (err) {
+      if (!isUnsupported(err)) throw err;
+      unsupportedEndpoints.add(endpoint);
+    }
+  }
+
+  const all = await loadAll();
+  return { ...applyClientQuery(toRows(all), query, client), serverSide: false };
+}
@@ -7,13 +7,19 @@ export interface Event {
   eventName: string;
   description: string | null;
   eventDate: string;
+  // Last day of an overnight or multi-day event; unset when it ends the day it starts
+  eventEndDate?: string | null;
   eventStartTime: string;
   eventEndTime: string;
+  // IANA zone the start and end times are in, e.g. Europe/London
+  timeZone?: string | null;
   venueName: string;
   venueAddress: string;
   venueCity: string;
   venueState: string;
   venueZipCode: string;
+  // ISO 3166-1 alpha-2; unset on events from before venues had a country, which are in the US
+  venueCountry?: string | null;
   venueLatitude: number | null;
   venueLongitude: number | null;
   capacity: number;
@@ -21,10 +27,20 @@ export interface Event {
   waitlistEnabled: boolean;
   registrationOpen: boolean;
   dressCode: string;
+  // One entry per day of a multi-day event, from the first day
+  agenda?: AgendaDay[] | null;
+  // Shared by the events of a recurring series
+  seriesId?: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface AgendaDay {
+  title: string;
+  startTime: string;
+  endTime: string;
+}
+
 export interface Invite {
   id: string;
   email: string;
@@ -49,6 +65,36 @@ export interface PlusOne {
   attendeeId: string;
   createdAt: string;
   checkedInAt?: string | null;
+  checkedInBy?: CheckInStaff | null;
+}
+
+export type UserRole = 'admin' | 'event_manager' | 'viewer' | 'checkin';
+
+// Signed-in dashboard user, as returned by login
+export interface User {
+  id: string;
+  email: string;
+  name?: string;
+  role: UserRole;
+  // Check-in staff only see these events; unset means every event
+  eventIds?: string[];
+}
+
+// User as listed on the user management page
+export interface UserAccount extends User {
+  // Deactivated users cannot sign in
+  active: boolean;
+  // Invited users who have not set a password yet
+  pending?: boolean;
+  lastLoginAt?: string | null;
+  createdAt: string;
+}
+
+// Staff member who scanned a guest in
+export interface CheckInStaff {
+  id: string;
+  name: string;
+  email?: string;
 }
 
 export interface Attendee {
@@ -65,6 +111,7 @@ export interface Attendee {
   createdAt: string;
   updatedAt: string;
   checkedInAt?: string | null;
+  checkedInBy?: CheckInStaff | null;
   plusOne?: PlusOne | null;
   event?: {
     eventName: string;
@@ -89,6 +136,14 @@ export interface EventStats {
   };
 }
 
+// Paged list returned by endpoints that accept page/sort/filter parameters
+export interface PaginatedResponse<T> {
+  data: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
 export interface DashboardStats {
   totalEvents: number;
   upcomingEvents: number;
@@ -132,6 +187,62 @@ export interface EmailLog {
   } | null;
 }
 
+// Audit log types
+export type AuditAction =
+  | 'event.create'
+  | 'event.update'
+  | 'event.delete'
+  | 'template.create'
+  | 'template.delete'
+  | 'attendee.cancel'
+  | 'attendee.status_update'
+  | 'attendee.resend_confirmation'
+  | 'attendee.check_in'
+  | 'waitlist.reorder'
+  | 'waitlist.settings_update'
+  | 'waitlist.promote'
+  | 'invite.create'
+  | 'invite.bulk_create'
+  | 'invite.resend'
+  | 'tokens.generate'
+  | 'email.resend'
+  | 'user.invite'
+  | 'user.update'
+  | 'user.reset_password'
+  | 'sheet.initialize';
+
+export type AuditTargetType = 'event' | 'template' | 'attendee' | 'invite' | 'email' | 'user' | 'sheet';
+
+export interface AuditTarget {
+  type: AuditTargetType;
+  // Unset when the call creates the target; the backend records the new id
+  id?: string;
+}
+
+// Sent with every mutating request so the backend can record who did what
+export interface AuditTag {
+  action: AuditAction;
+  target: AuditTarget;
+  // Event the change belongs to, for filtering by event
+  eventId?: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  action: AuditAction;
+  target: AuditTarget & { label?: string | null };
+  eventId: string | null;
+  actor: {
+    id: string;
+    email: string;
+    name?: string | null;
+  } | null;
+  createdAt: string;
+  event?: {
+    eventName: string;
+  } | null;
+}
+
 // API Response wrapper
 export interface APIResponse<T> {
   data?: T;
@@ -1,34 +1,61 @@
 import { z } from 'zod';
+import { getEventDayCount, MAX_EVENT_DAYS } from '@/lib/eventSchedule';
+import { isValidTimeZone } from '@/lib/eventTime';
+import { validateVenueAddress } from '@/lib/venueAddress';
+
+// Hours for one day of a multi-day event
+export const agendaDaySchema = z.object({
+  title: z.string().max(200, 'Title is too long'),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Invalid time format (HH:MM)'),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, 'Invalid time format (HH:MM)'),
+}).refine((day) => day.endTime > day.startTime, {
+  message: 'End time must be after start time',
+  path: ['endTime'],
+});
 
 // Event Form Validation Schema
 export const eventSchema = z.object({
   eventName: z.string().min(1, 'Event name is required').max(200, 'Event name is too long'),
   description: z.string().optional(),
   eventDate: z.string().min(1, 'Event date is required'),
+  // Empty for events that end the day they start
+  eventEndDate: z.string().optional(),
   eventStartTime: z.string().regex(/^\d{2}:\d{2}$/, 'Invalid time format (HH:MM)'),
   eventEndTime: z.string().regex(/^\d{2}:\d{2}$/, 'Invalid time format (HH:MM)'),
+  timeZone: z.string().min(1, 'Time zone is required').refine((zone) => !zone || isValidTimeZone(zone), 'Unknown time zone'),
   venueName: z.string().min(1, 'Venue name is required').max(200, 'Venue name is too long'),
   venueAddress: z.string().min(1, 'Address is required').max(300, 'Address is too long'),
   venueCity: z.string().min(1, 'City is required').max(100, 'City name is too long'),
-  venueState: z.string().length(2, 'State must be 2 characters (e.g., CA)').regex(/^[A-Z]{2}$/, 'State must be uppercase letters'),
-  venueZipCode: z.string().regex(/^\d{5}$/, 'Zip code must be 5 digits'),
+  // Region and postal code formats depend on the country; checked below
+  venueState: z.string().max(100, 'Region is too long'),
+  venueZipCode: z.string().min(1, 'Postal code is required').max(20, 'Postal code is too long'),
+  venueCountry: z.string().regex(/^[A-Z]{2}$/, 'Country is required'),
   capacity: z.number().min(1, 'Capacity must be at least 1').max(100000, 'Capacity is too large'),
   waitlistEnabled: z.boolean(),
   registrationOpen: z.boolean(),
   dressCode: z.string().min(1, 'Dress code is required').max(100, 'Dress code is too long'),
+  agenda: z.array(agendaDaySchema).optional(),
 }).refine((data) => {
-  // Validate that end time is after start time
+  // Validate that the event ends after it starts; overnight events end on a later date
   if (data.eventStartTime && data.eventEndTime) {
-    const [startHour, startMin] = data.eventStartTime.split(':').map(Number);
-    const [endHour, endMin] = data.eventEndTime.split(':').map(Number);
-    const startMinutes = startHour * 60 + startMin;
-    const endMinutes = endHour * 60 + endMin;
-    return endMinutes > startMinutes;
+    const endDate = data.eventEndDate || data.eventDate;
+    return `${endDate}T${data.eventEndTime}` > `${data.eventDate}T${data.eventStartTime}`;
   }
   return true;
 }, {
-  message: 'End time must be after start time',
+  message: 'End time must be after start time; set an end date for overnight events',
   path: ['eventEndTime'],
+}).refine((data) => !data.eventEndDate || !data.eventDate || data.eventEndDate >= data.eventDate, {
+  message: 'End date cannot be before the event date',
+  path: ['eventEndDate'],
+}).refine((data) => !data.eventEndDate || !data.eventDate || getEventDayCount(data.eventDate, data.eventEndDate) <= MAX_EVENT_DAYS, {
+  message: `Events can last at most ${MAX_EVENT_DAYS} days`,
+  path: ['eventEndDate'],
+}).superRefine((data, ctx) => {
+  const errors = validateVenueAddress(data.venueCountry, data.venueState, data.venueZipCode);
+  (Object.keys(errors) as (keyof typeof errors)[]).forEach((field) => {
+    ctx.addIssue({ code: 'custom', message: errors[field], path: [field] });
+  });
 });
 
 export type EventFormData = z.infer<typeof eventSchema>;
@@ -45,8 +72,14 @@ export type InviteFormData = z.infer<typeof inviteSchema>;
 // Bulk Invite Item Schema
 export const bulkInviteItemSchema = z.object({
   email: z.string().email('Invalid email address'),
+  name: z.string().max(200, 'Name is too long').optional(),
+  company: z.string().max(200, 'Company is too long').optional(),
+  title: z.string().max(200, 'Title is too long').optional(),
+  tags: z.array(z.string().max(50, 'Tag is too long')).optional(),
 });
 
+export type BulkInviteItem = z.infer<typeof bulkInviteItemSchema>;
+
 // Bulk Invite Form Validation Schema
 export const bulkInviteSchema = z.object({
   eventId: z.string().min(1, 'Event is required'),
@@ -55,3 +88,16 @@ export const bulkInviteSchema = z.object({
 });
 
 export type BulkInviteFormData = z.infer<typeof bulkInviteSchema>;
+
+// User Invite Form Validation Schema
+export const userInviteSchema = z.object({
+  name: z.string().min(1, 'Name is required').max(200, 'Name is too long'),
+  email: z.string().min(1, 'Email is required').email('Invalid email address'),
+  role: z.enum(['admin', 'event_manager', 'viewer', 'checkin']),
+  eventIds: z.array(z.string()),
+}).refine((data) => data.role !== 'checkin' || data.eventIds.length > 0, {
+  message: 'Assign check-in staff to at least one event',
+  path: ['eventIds'],
+});
+
+export type UserInviteFormData = z.infer<typeof userInviteSchema>;
@@ -0,0 +1,167 @@
+// Venue address rules per country. Each country sets what the region
+// (state, province, county) and postal code fields are called, whether the
+// region is needed and the postal code format it expects.
+
+export interface CountryAddressFormat {
+  // ISO 3166-1 alpha-2 code
+  code: string;
+  name: string;
+  regionLabel: string;
+  regionRequired: boolean;
+  // Accepted region codes; unset allows any text
+  regions?: string[];
+  regionExample?: string;
+  postalLabel: string;
+  postalPattern: RegExp;
+  postalExample: string;
+  // Listed first in the time zone picker
+  timeZones: string[];
+}
+
+export const DEFAULT_COUNTRY = 'US';
+
+// Ordered by name for the country picker
+export const COUNTRIES: CountryAddressFormat[] = [
+  {
+    code: 'AU',
+    name: 'Australia',
+    regionLabel: 'State/Territory',
+    regionRequired: true,
+    regions: ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'],
+    regionExample: 'NSW',
+    postalLabel: 'Postcode',
+    postalPattern: /^\d{4}$/,
+    postalExample: '2000',
+    timeZones: ['Australia/Sydney', 'Australia/Melbourne', 'Australia/Brisbane', 'Australia/Adelaide', 'Australia/Perth'],
+  },
+  {
+    code: 'CA',
+    name: 'Canada',
+    regionLabel: 'Province',
+    regionRequired: true,
+    regions: ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'],
+    regionExample: 'ON',
+    postalLabel: 'Postal Code',
+    postalPattern: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/i,
+    postalExample: 'M5V 2T6',
+    timeZones: ['America/Toronto', 'America/Vancouver', 'America/Edmonton', 'America/Winnipeg', 'America/Halifax'],
+  },
+  {
+    code: 'FR',
+    name: 'France',
+    regionLabel: 'Region',
+    regionRequired: false,
+    postalLabel: 'Postal Code',
+    postalPattern: /^\d{5}$/,
+    postalExample: '75001',
+    timeZones: ['Europe/Paris'],
+  },
+  {
+    code: 'DE',
+    name: 'Germany',
+    regionLabel: 'State',
+    regionRequired: false,
+    postalLabel: 'Postal Code',
+    postalPattern: /^\d{5}$/,
+    postalExample: '10115',
+    timeZones: ['Europe/Berlin'],
+  },
+  {
+    code: 'IE',
+    name: 'Ireland',
+    regionLabel: 'County',
+    regionRequired: false,
+    postalLabel: 'Eircode',
+    postalPattern: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/i,
+    postalExample: 'D02 X285',
+    timeZones: ['Europe/Dublin'],
+  },
+  {
+    code: 'NL',
+    name: 'Netherlands',
+    regionLabel: 'Province',
+    regionRequired: false,
+    postalLabel: 'Postcode',
+    postalPattern: /^\d{4} ?[A-Z]{2}$/i,
+    postalExample: '1012 AB',
+    timeZones: ['Europe/Amsterdam'],
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    regionLabel: 'County',
+    regionRequired: false,
+    regionExample: 'Greater London',
+    postalLabel: 'Postcode',
+    postalPattern: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/i,
+    postalExample: 'SW1A 1AA',
+    timeZones: ['Europe/London'],
+  },
+  {
+    code: 'US',
+    name: 'United States',
+    regionLabel: 'State',
+    regionRequired: true,
+    regionExample: 'CA',
+    postalLabel: 'ZIP Code',
+    postalPattern: /^\d{5}(-\d{4})?$/,
+    postalExample: '94103',
+    timeZones: [
+      'America/New_York',
+      'America/Chicago',
+      'America/Denver',
+      'America/Phoenix',
+      'America/Los_Angeles',
+      'America/Anchorage',
+      'Pacific/Honolulu',
+    ],
+  },
+];
+
+export function getCountry(code: string | null | undefined): CountryAddressFormat | undefined {
+  return COUNTRIES.find((country) => country.code === code);
+}
+
+// Format for the form fields; countries without rules get the default labels
+export function getAddressFormat(code: string | null | undefined): CountryAddressFormat {
+  return getCountry(code) ?? getCountry(DEFAULT_COUNTRY)!;
+}
+
+export function getCountryName(code: string | null | undefined): string {
+  return getCountry(code)?.name ?? code ?? '';
+}
+
+// Problems with the region and postal code for the venue's country, by field
+export function validateVenueAddress(
+  countryCode: string,
+  region: string,
+  postalCode: string
+): { venueState?: string; venueZipCode?: string } {
+  const country = getCountry(countryCode);
+  if (!country) return {};
+
+  const errors: { venueState?: string; venueZipCode?: string } = {};
+  const trimmedRegion = region.trim();
+  if (country.code === 'US') {
+    if (trimmedRegion.length !== 2) errors.venueState = 'State must be 2 characters (e.g., CA)';
+    else if (!/^[A-Z]{2}$/.test(trimmedRegion)) errors.venueState = 'State must be uppercase letters';
+  } else if (!trimmedRegion) {
+    if (country.regionRequired) errors.venueState = `${country.regionLabel} is required`;
+  } else if (country.regions && !country.regions.includes(trimmedRegion)) {
+    errors.venueState = `${country.regionLabel} must be one of ${country.regions.join(', ')}`;
+  }
+
+  if (!country.postalPattern.test(postalCode.trim())) {
+    errors.venueZipCode = `${country.postalLabel} must look like ${country.postalExample}`;
+  }
+  return errors;
+}
+
+// "Toronto, ON" or "London, United Kingdom" for lists
+export function formatVenueLocality(event: { venueCity: string; venueState: string; venueCountry?: string | null }): string {
+  const country = event.venueCountry || DEFAULT_COUNTRY;
+  if (country === DEFAULT_COUNTRY || getCountry(country)?.regions) {
+    return [event.venueCity, event.venueState].filter(Boolean).join(', ');
+  }
+  return [event.venueCity, getCountryName(country)].filter(Boolean).join(', ');
+}
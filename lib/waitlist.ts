@@ -0,0 +1,76 @@
+// Waitlist queue for an event. The backend keeps the promotion order and the
+// auto-promote setting; when it has no waitlist endpoint the queue is read
+// from the attendee list in registration order.
+
+import { api, APIError, endpoints } from '@/lib/api';
+import { BulkFailure } from '@/lib/bulkActions';
+import { fetchAttendees } from '@/lib/eventData';
+import { Attendee, Event } from '@/lib/types';
+
+export interface Waitlist {
+  // Waitlisted attendees, next to be promoted first
+  entries: Attendee[];
+  // Promote the next guest automatically when a confirmed guest cancels
+  autoPromote: boolean;
+}
+
+export interface PromoteResponse {
+  promoted: string[];
+  failed?: BulkFailure[];
+}
+
+export function getOpenSlots(event: Pick<Event, 'capacity' | 'currentRegistrations'>): number {
+  return Math.max(0, event.capacity - event.currentRegistrations);
+}
+
+// Waitlisted attendees in the order they registered
+export function sortByRegistration(attendees: Attendee[]): Attendee[] {
+  return attendees
+    .filter((attendee) => attendee.status === 'WAITLISTED')
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+}
+
+export function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, item);
+  return next;
+}
+
+export async function fetchWaitlist(eventId: string): Promise<Waitlist> {
+  try {
+    return await api.get<Waitlist>(endpoints.admin.waitlist(eventId));
+  } catch (err) {
+    if (!(err instanceof APIError) || ![404, 405, 501].includes(err.statusCode)) throw err;
+  }
+
+  const attendees = await fetchAttendees(eventId, true);
+  return { entries: sortByRegistration(attendees), autoPromote: false };
+}
+
+export function saveWaitlistOrder(eventId: string, attendeeIds: string[]) {
+  return api.put(
+    endpoints.admin.waitlist(eventId),
+    { order: attendeeIds },
+    { action: 'waitlist.reorder', target: { type: 'event', id: eventId }, eventId }
+  );
+}
+
+export function setAutoPromote(eventId: string, autoPromote: boolean) {
+  return api.patch(
+    endpoints.admin.waitlist(eventId),
+    { autoPromote },
+    { action: 'waitlist.settings_update', target: { type: 'event', id: eventId }, eventId }
+  );
+}
+
+// Confirm the given attendees, optionally emailing each one that they have a
+// place
+export function promoteFromWaitlist(eventId: string, attendeeIds: string[], notify: boolean) {
+  return api.post<PromoteResponse>(
+    endpoints.admin.promoteWaitlist(eventId),
+    { attendeeIds, notify },
+    { action: 'waitlist.promote', target: { type: 'event', id: eventId }, eventId }
+  );
+}
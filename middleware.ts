@@ -1,36 +1,55 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 
+import { canAccessRoute, getHomeRoute, getTokenRole } from '@/lib/permissions';
+import { REFRESH_COOKIE, TOKEN_COOKIE } from '@/lib/session';
+
 // Routes that don't require authentication
 const publicRoutes = ['/login'];
 
-// Routes that require authentication
-const protectedRoutes = ['/', '/attendees', '/invites', '/analytics'];
+// Login page that returns the user to the page they asked for
+function redirectToLogin(request: NextRequest, hadToken: boolean) {
+  const { pathname, search } = request.nextUrl;
+  const loginUrl = new URL('/login', request.url);
+  if (pathname !== '/') loginUrl.searchParams.set('next', pathname + search);
+  if (hadToken) loginUrl.searchParams.set('error', 'session_expired');
+
+  const response = NextResponse.redirect(loginUrl);
+  response.cookies.delete(TOKEN_COOKIE);
+  return response;
+}
 
 export function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
   
-  // Check if the route is protected
-  const isProtectedRoute = protectedRoutes.some(route => 
-    pathname === route || pathname.startsWith(`${route}/`)
-  );
-  
   // Check if the route is public
   const isPublicRoute = publicRoutes.some(route => pathname.startsWith(route));
   
-  // Get the auth token from cookies or check for it
-  const token = request.cookies.get('auth_token')?.value;
+  // Get the auth token from cookies
+  const token = request.cookies.get(TOKEN_COOKIE)?.value;
+  const role = token ? getTokenRole(token) : null;
+  
+  if (isPublicRoute) {
+    // If trying to access login with a valid token, redirect to the user's home
+    if (role && pathname === '/login') {
+      return NextResponse.redirect(new URL(getHomeRoute(role), request.url));
+    }
+    return NextResponse.next();
+  }
   
-  // If trying to access a protected route without a token, redirect to login
-  if (isProtectedRoute && !token) {
-    const loginUrl = new URL('/login', request.url);
-    return NextResponse.redirect(loginUrl);
+  // Every other route needs an unexpired token carrying a known role. A
+  // lapsed token with a refresh token left is renewed by the page, which
+  // still checks the role once signed back in.
+  if (!role) {
+    if (request.cookies.has(REFRESH_COOKIE)) {
+      return NextResponse.next();
+    }
+    return redirectToLogin(request, !!token);
   }
   
-  // If trying to access login with a valid token, redirect to dashboard
-  if (isPublicRoute && token && pathname === '/login') {
-    const dashboardUrl = new URL('/', request.url);
-    return NextResponse.redirect(dashboardUrl);
+  // Send users away from pages their role cannot open
+  if (!canAccessRoute(role, pathname)) {
+    return NextResponse.redirect(new URL(getHomeRoute(role), request.url));
   }
   
   return NextResponse.next();
@@ -45,7 +64,8 @@ export const config = {
      * - _next/static (static files)
      * - _next/image (image optimization files)
      * - favicon.ico (favicon file)
+     * - files in public/ (paths with an extension)
      */
-    '/((?!api|_next/static|_next/image|favicon.ico).*)',
+    '/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)',
   ],
 };